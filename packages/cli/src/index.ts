@@ -27,28 +27,55 @@
 
 import { Command } from 'commander';
 import { readFile, writeFile, mkdir, access, readdir } from 'fs/promises';
-import { join, dirname } from 'path';
+import { join, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
 import chalk from 'chalk';
 import ora from 'ora';
 import { 
   loadConfig, 
+  resolveBaseBranch,
   createGitAdapter,
   createOpenSpecAdapter,
   worktreeCreate,
   worktreeRemove,
   worktreeList,
+  convertWorkflow,
   statusWorkflow,
+  formatTraceMismatches,
+  conflictsWorkflow,
+  formatChangeConflict,
+  getLandingOrder,
+  formatDependencyTree,
+  resolveBranchNaming,
+  syncWorkflow,
+  resolveChangeBase,
+  retrofitWorkflow,
+  publishReleaseWorkflow,
+  syncPullRequestTasksWorkflow,
+  resolveForgeAdapter,
+  type BranchSyncResult,
   type ProgressEvent,
   type ChangeListItem,
   type PRDisplayStatus,
   // Utils
   formatTable,
   formatSummary,
+  formatRelativeTime,
+  isStale,
   sortItems,
   filterByStatus,
   createProgressBar,
-  loadTasksFile,
+  validateChange,
+  formatValidationIssue,
+  getChangedFiles,
+  summarizeTasksDocument,
+  getNextTask,
+  getSectionProgress,
+  findTask,
+  setTaskCompleted,
+  recordTaskProgressState,
+  addTask,
+  type DocumentTask,
   // Global config
   getGlobalConfigPath,
   getGlobalConfig,
@@ -268,6 +295,7 @@ specDir: ${specDir}
 git:
   baseBranch: ${baseBranch}
   branchPrefix: spec/
+  branchPattern: '{prefix}{changeId}'
   worktreeDir: worktrees
 `;
         await writeFile(configPath, configContent);
@@ -347,37 +375,11 @@ When implementing changes, always read:
       
       if (!existingWorkflow) {
         await mkdir(workflowDir, { recursive: true });
-        const workflowContent = `# SpecLife Release Workflow
-name: Create Release
-
-on:
-  push:
-    branches: [${baseBranch}]
-
-jobs:
-  release:
-    runs-on: ubuntu-latest
-    if: startsWith(github.event.head_commit.message, 'chore(release):')
-    permissions:
-      contents: write
-    steps:
-      - uses: actions/checkout@v4
-      - name: Extract version
-        id: version
-        run: |
-          VERSION=$(echo "\${{ github.event.head_commit.message }}" | grep -oP 'v\\d+\\.\\d+\\.\\d+')
-          echo "version=$VERSION" >> $GITHUB_OUTPUT
-      - name: Create tag
-        run: |
-          git config user.name "github-actions[bot]"
-          git config user.email "github-actions[bot]@users.noreply.github.com"
-          git tag \${{ steps.version.outputs.version }}
-          git push origin \${{ steps.version.outputs.version }}
-      - uses: softprops/action-gh-release@v2
-        with:
-          tag_name: \${{ steps.version.outputs.version }}
-          generate_release_notes: true
-`;
+        // Pin the workflow to this CLI so later releases cannot change how it publishes
+        const workflowTemplate = await readFile(join(__dirname, '..', 'templates', 'speclife-release.yml'), 'utf-8');
+        const workflowContent = workflowTemplate
+          .replaceAll('{{baseBranch}}', baseBranch)
+          .replaceAll('{{speclifeVersion}}', version);
         await writeFile(join(workflowDir, 'speclife-release.yml'), workflowContent);
       }
       
@@ -425,7 +427,8 @@ program
       const cwd = process.cwd();
       const config = await loadConfig(cwd);
       const git = createGitAdapter(cwd);
-      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir });
+      const branchNaming = await resolveBranchNaming(config, git);
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
       
       const spinner = ora({ isSilent: options.json || !process.stdout.isTTY });
       spinner.start('Loading changes...');
@@ -435,22 +438,34 @@ program
       const currentBranch = await git.getCurrentBranch();
       
       for (const id of changeIds) {
-        const result = await statusWorkflow({ changeId: id }, { git, openspec });
+        const result = await statusWorkflow(
+          { changeId: id, baseBranch: resolveBaseBranch(config) },
+          { git, openspec, branchNaming }
+        );
         if (result) {
+          const lastActive = result.history.lastActive ?? result.change.createdAt;
           items.push({
             id,
+            state: result.change.state,
             progress: result.taskSummary,
             prStatus: 'local' as PRDisplayStatus,
             isCurrent: result.onBranch,
-            lastActive: new Date(),
+            lastActive,
+            stale: isStale(lastActive),
+            dependsOn: result.change.dependsOn,
           });
         }
       }
       
+      const conflicts = await conflictsWorkflow(
+        { baseBranch: resolveBaseBranch(config), changeIds: items.map(i => i.id) },
+        { git, openspec, branchNaming }
+      );
+      
       spinner.stop();
       
       if (options.json) {
-        console.log(JSON.stringify({ changes: items, currentBranch }, null, 2));
+        console.log(JSON.stringify({ changes: items, currentBranch, conflicts, landing: getLandingOrder(items) }, null, 2));
         return;
       }
       
@@ -469,19 +484,25 @@ program
       // Summary
       const ready = items.filter(i => i.progress.percentage === 100).length;
       const inProgress = items.length - ready;
-      console.log(chalk.cyan('║ ') + `Summary: ${chalk.bold(items.length)} changes (${chalk.green(ready + ' ready')}, ${chalk.yellow(inProgress + ' in progress')})`.padEnd(60) + chalk.cyan(' ║'));
+      const stale = items.filter(i => i.stale).length;
+      const staleNote = stale > 0 ? `, ${chalk.red(stale + ' stale')}` : '';
+      console.log(chalk.cyan('║ ') + `Summary: ${chalk.bold(items.length)} changes (${chalk.green(ready + ' ready')}, ${chalk.yellow(inProgress + ' in progress')}${staleNote})`.padEnd(60) + chalk.cyan(' ║'));
       console.log(chalk.cyan('╠──────────────────────────────────────────────────────────────╣'));
       
       // Group by completion
-      const completed = items.filter(i => i.progress.percentage === 100);
-      const pending = items.filter(i => i.progress.percentage < 100);
+      const sorted = sortItems(items, 'activity');
+      const completed = sorted.filter(i => i.progress.percentage === 100);
+      const pending = sorted.filter(i => i.progress.percentage < 100);
       
       if (pending.length > 0) {
         console.log(chalk.cyan('║ ') + chalk.bold('In Progress').padEnd(60) + chalk.cyan(' ║'));
         for (const item of pending) {
           const marker = item.isCurrent ? chalk.cyan('→') : ' ';
           const bar = createProgressBar(item.progress.percentage, { width: 10 });
-          const line = `${marker} ${item.id.padEnd(22)} ${bar} ${(item.progress.completed + '/' + item.progress.total).padStart(5)}`;
+          const age = item.stale
+            ? chalk.red(`stale ${formatRelativeTime(item.lastActive)}`)
+            : chalk.dim(formatRelativeTime(item.lastActive));
+          const line = `${marker} ${item.id.padEnd(22)} ${bar} ${(item.progress.completed + '/' + item.progress.total).padStart(5)} ${chalk.dim(item.state ?? '')} ${age}`;
           console.log(chalk.cyan('║ ') + line.padEnd(60) + chalk.cyan(' ║'));
         }
       }
@@ -491,12 +512,44 @@ program
         console.log(chalk.cyan('║ ') + chalk.bold.green('Ready to Land').padEnd(60) + chalk.cyan(' ║'));
         for (const item of completed) {
           const marker = item.isCurrent ? chalk.cyan('→') : ' ';
-          const line = `${marker} ${chalk.green('✓')} ${item.id.padEnd(20)} ${chalk.green('[██████████] 100%')}`;
+          const line = `${marker} ${chalk.green('✓')} ${item.id.padEnd(20)} ${chalk.green('[██████████] 100%')} ${chalk.dim(item.state ?? '')}`;
           console.log(chalk.cyan('║ ') + line.padEnd(60) + chalk.cyan(' ║'));
         }
       }
       
+      if (items.some(i => i.dependsOn?.length)) {
+        const { order, cycle } = getLandingOrder(items);
+        console.log(chalk.cyan('╠──────────────────────────────────────────────────────────────╣'));
+        console.log(chalk.cyan('║ ') + chalk.bold('Stacks').padEnd(60) + chalk.cyan(' ║'));
+        for (const line of formatDependencyTree(items)) {
+          console.log(chalk.cyan('║ ') + `  ${line}`.padEnd(60) + chalk.cyan(' ║'));
+        }
+        const landing = cycle.length > 0 ? chalk.red(`cycle: ${cycle.join(', ')}`) : order.join(' → ');
+        console.log(chalk.cyan('║ ') + `${chalk.dim('Landing order:')} ${landing}`.padEnd(60) + chalk.cyan(' ║'));
+      }
+      
+      if (conflicts.changes.length > 1) {
+        const symbols = { conflict: chalk.red('✗'), overlap: chalk.yellow('!'), none: chalk.dim('·') };
+        console.log(chalk.cyan('╠──────────────────────────────────────────────────────────────╣'));
+        console.log(chalk.cyan('║ ') + chalk.bold('Conflicts').padEnd(60) + chalk.cyan(' ║'));
+        const header = ' '.repeat(26) + conflicts.changes.map((_, i) => String(i + 1).padStart(2)).join('');
+        console.log(chalk.cyan('║ ') + chalk.dim(header.padEnd(60)) + chalk.cyan(' ║'));
+        conflicts.changes.forEach((footprint, i) => {
+          const cells = conflicts.matrix[i].map((level, j) => ' ' + (i === j ? ' ' : symbols[level])).join('');
+          const label = `${String(i + 1).padStart(2)} ${footprint.changeId.slice(0, 22).padEnd(22)} `;
+          console.log(chalk.cyan('║ ') + label + cells + ' '.repeat(Math.max(0, 60 - label.length - 2 * conflicts.changes.length)) + chalk.cyan(' ║'));
+        });
+      }
+      
       console.log(chalk.cyan('╚══════════════════════════════════════════════════════════════╝'));
+      
+      for (const conflict of conflicts.conflicts) {
+        const color = conflict.level === 'conflict' ? chalk.red : chalk.yellow;
+        console.log(color(`  ${conflict.changes.join(' ↔ ')}: ${formatChangeConflict(conflict)}`));
+      }
+      for (const footprint of conflicts.changes.filter(c => c.baseConflicts && c.baseConflicts.length > 0)) {
+        console.log(chalk.red(`  ${footprint.changeId} conflicts with ${conflicts.baseBranch}: ${footprint.baseConflicts!.join(', ')}`));
+      }
       console.log();
       
     } catch (error) {
@@ -635,14 +688,13 @@ program
       const cwd = process.cwd();
       const config = await loadConfig(cwd);
       const git = createGitAdapter(cwd);
+      const branchNaming = await resolveBranchNaming(config, git);
       
       // Determine change ID
       let targetChangeId = changeId;
       if (!targetChangeId) {
         const branch = await git.getCurrentBranch();
-        if (branch?.startsWith(config.git?.branchPrefix ?? 'spec/')) {
-          targetChangeId = branch.replace(config.git?.branchPrefix ?? 'spec/', '');
-        }
+        targetChangeId = branchNaming.changeIdFor(branch) ?? undefined;
       }
       
       if (!targetChangeId) {
@@ -653,56 +705,37 @@ program
       const spinner = ora({ isSilent: options.json || !process.stdout.isTTY });
       spinner.start(`Validating ${targetChangeId}...`);
       
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      
-      // Check proposal.md exists
-      const changeDir = join(cwd, config.specDir, 'changes', targetChangeId);
-      try {
-        await access(join(changeDir, 'proposal.md'));
-      } catch {
-        errors.push('proposal.md not found');
-      }
+      // Same base as submit, so validate previews the submit gate
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
+      const { base } = await resolveChangeBase(targetChangeId, resolveBaseBranch(config), { git, openspec, branchNaming });
       
-      // Check tasks.md exists and has content
-      const tasks = await loadTasksFile(cwd, config.specDir, targetChangeId);
-      if (tasks.tasks.length === 0) {
-        warnings.push('tasks.md is empty or not found');
-      } else {
-        const pending = tasks.tasks.filter((t: { completed: boolean }) => !t.completed).length;
-        if (pending > 0) {
-          warnings.push(`${pending} task(s) still pending`);
-        }
-      }
-      
-      // Check branch exists
-      try {
-        await git.listWorktrees();
-        // Branch check is informational
-      } catch {
-        warnings.push('Could not verify branch status');
-      }
+      const report = await validateChange({
+        projectRoot: cwd,
+        specDir: config.specDir,
+        changeId: targetChangeId,
+        checkTaskCompletion: true,
+        changedFiles: await getChangedFiles(git, base) ?? undefined,
+      });
+      const { status, errors, warnings } = report;
       
       spinner.stop();
       
-      const status = errors.length > 0 ? 'fail' : warnings.length > 0 ? 'pass_with_warnings' : 'pass';
-      
       if (options.json) {
-        console.log(JSON.stringify({ status, errors, warnings }, null, 2));
+        console.log(JSON.stringify(report, null, 2));
         process.exit(status === 'fail' || (options.strict && status === 'pass_with_warnings') ? 1 : 0);
       }
       
       if (errors.length > 0) {
         console.log(chalk.red.bold('✗ Validation failed'));
         for (const err of errors) {
-          console.log(chalk.red(`  • ${err}`));
+          console.log(chalk.red(`  • ${formatValidationIssue(err)}`));
         }
       }
       
       if (warnings.length > 0) {
         console.log(chalk.yellow.bold('⚠ Warnings'));
         for (const warn of warnings) {
-          console.log(chalk.yellow(`  • ${warn}`));
+          console.log(chalk.yellow(`  • ${formatValidationIssue(warn)}`));
         }
       }
       
@@ -786,6 +819,42 @@ program
     }
   });
 
+// =============================================================================
+// speclife branch - Resolve change branch names
+// =============================================================================
+
+program
+  .command('branch [change-id]')
+  .description('Print the branch name for a change (uses git.branchPattern)')
+  .option('--resolve <branch>', 'Print the change ID for a branch instead')
+  .action(async (changeId: string | undefined, options) => {
+    try {
+      const cwd = process.cwd();
+      const config = await loadConfig(cwd);
+      const git = createGitAdapter(cwd);
+      const naming = await resolveBranchNaming(config, git);
+      
+      if (options.resolve) {
+        const resolved = naming.changeIdFor(options.resolve);
+        if (!resolved) {
+          console.error(chalk.red(`'${options.resolve}' is not a change branch (pattern: ${naming.pattern})`));
+          process.exit(1);
+        }
+        console.log(resolved);
+        return;
+      }
+      
+      if (!changeId) {
+        console.error(chalk.red('Specify a change ID or --resolve <branch>'));
+        process.exit(1);
+      }
+      console.log(naming.branchFor(changeId));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // speclife worktree - Worktree management
 // =============================================================================
@@ -798,6 +867,7 @@ worktreeCmd
   .command('create <change-id>')
   .description('Create a worktree and branch for a new change')
   .option('--skip-bootstrap', 'Skip environment bootstrapping')
+  .option('--depends-on <change-id>', 'Build on another change: branch from its branch')
   .action(async (changeId: string, options) => {
     try {
       const cwd = process.cwd();
@@ -811,6 +881,7 @@ worktreeCmd
         {
           changeId,
           skipBootstrap: options.skipBootstrap,
+          dependsOn: options.dependsOn,
         },
         { git, config },
         (event: ProgressEvent) => {
@@ -821,9 +892,58 @@ worktreeCmd
       spinner.succeed(chalk.green('Worktree created'));
       console.log(`  ${chalk.dim('•')} Path: ${chalk.cyan(result.worktreePath)}`);
       console.log(`  ${chalk.dim('•')} Branch: ${chalk.cyan(result.branch)}`);
+      console.log(`  ${chalk.dim('•')} Based on: ${chalk.cyan(result.baseBranch)}`);
       console.log();
       console.log(`${chalk.bold('Next:')} cd ${result.worktreePath}`);
       console.log(`${chalk.dim('Then:')} Run /openspec-proposal to create the spec`);
+      if (options.dependsOn) {
+        console.log(`${chalk.dim('Recorded:')} depends on ${options.dependsOn}, so the PR targets ${result.baseBranch}`);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+worktreeCmd
+  .command('convert <mode>')
+  .description('Move the current change into a worktree ("worktree") or back to the main repository ("branch")')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--skip-bootstrap', 'Skip environment bootstrapping')
+  .action(async (mode: string, options) => {
+    try {
+      if (mode !== 'worktree' && mode !== 'branch') {
+        throw new Error(`Unknown mode "${mode}". Use "worktree" or "branch"`);
+      }
+      
+      const cwd = process.cwd();
+      const config = await loadConfig(cwd);
+      const git = createGitAdapter(cwd);
+      
+      const spinner = ora({ isSilent: !process.stdout.isTTY });
+      spinner.start(`Converting to ${mode} mode...`);
+      
+      const result = await convertWorkflow(
+        {
+          to: mode,
+          changeId: options.change,
+          skipBootstrap: options.skipBootstrap,
+        },
+        { git, config },
+        (event: ProgressEvent) => {
+          spinner.text = event.message;
+        }
+      );
+      
+      spinner.succeed(chalk.green(result.mode === 'worktree' ? 'Moved change into a worktree' : 'Moved change back to the main repository'));
+      console.log(`  ${chalk.dim('•')} Branch: ${chalk.cyan(result.branch)}`);
+      console.log(`  ${chalk.dim('•')} ${result.mode === 'worktree' ? 'Path' : 'Removed'}: ${chalk.cyan(result.worktreePath)}`);
+      if (result.carriedChanges) {
+        console.log(`  ${chalk.dim('•')} Carried over uncommitted changes`);
+      }
+      console.log();
+      console.log(`${chalk.bold('Next:')} cd ${result.mode === 'worktree' ? result.worktreePath : result.mainPath}`);
       
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
@@ -900,6 +1020,230 @@ worktreeCmd
     }
   });
 
+// =============================================================================
+// speclife sync - Update change branches with the latest base branch
+// =============================================================================
+
+program
+  .command('sync')
+  .description('Rebase (or merge) the latest base branch into the current change branch')
+  .option('--merge', 'Merge instead of rebasing')
+  .option('--abort', 'Abort a sync stopped at conflicts')
+  .option('--continue', 'Continue a sync once conflicts are resolved and staged')
+  .option('--all', 'Sync every change worktree')
+  .option('--no-push', 'Do not push synced branches')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const cwd = process.cwd();
+      const config = await loadConfig(cwd);
+      const git = createGitAdapter(cwd);
+      const branchNaming = await resolveBranchNaming(config, git);
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
+      
+      const spinner = ora({ isSilent: options.json || !process.stdout.isTTY });
+      spinner.start('Syncing...');
+      
+      const result = await syncWorkflow(
+        {
+          method: options.merge ? 'merge' : 'rebase',
+          abort: options.abort,
+          continue: options.continue,
+          all: options.all,
+          push: options.push,
+        },
+        { git, config, openspec },
+        (event: ProgressEvent) => {
+          spinner.text = event.message;
+        }
+      );
+      spinner.stop();
+      
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        for (const branch of result.branches) {
+          printBranchSync(branch, result.method);
+        }
+      }
+      
+      if (result.branches.some(b => b.status === 'conflicts')) {
+        process.exit(1);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+function printBranchSync(branch: BranchSyncResult, method: 'rebase' | 'merge'): void {
+  const where = branch.worktreePath ? chalk.dim(` (${branch.worktreePath})`) : '';
+  switch (branch.status) {
+    case 'synced': {
+      const commits = branch.commits !== undefined ? ` (${branch.commits} commit${branch.commits === 1 ? '' : 's'})` : '';
+      console.log(chalk.green(`✓ Synced ${branch.branch} with ${branch.upstream}${commits}`) + where);
+      if (branch.pushed) {
+        console.log(`  ${chalk.dim('•')} Pushed ${branch.branch}${method === 'rebase' ? ' (--force-with-lease)' : ''}`);
+      }
+      break;
+    }
+    case 'up-to-date':
+      console.log(chalk.green(`✓ ${branch.branch} is up to date with ${branch.upstream}`) + where);
+      break;
+    case 'aborted':
+      console.log(chalk.yellow(`${method === 'rebase' ? 'Rebase' : 'Merge'} of ${branch.branch} aborted`) + where);
+      break;
+    case 'skipped':
+      console.log(chalk.yellow(`⚠ Skipped ${branch.branch}: ${branch.reason}`) + where);
+      break;
+    case 'conflicts':
+      console.log(chalk.red(`✗ Conflicts syncing ${branch.branch} with ${branch.upstream}:`) + where);
+      for (const file of branch.conflicts) {
+        console.log(`  ${chalk.red('•')} ${file}`);
+      }
+      console.log();
+      console.log(`${chalk.bold('Next:')} resolve the conflict markers, \`git add\` the files, then run ${chalk.cyan('speclife sync --continue')}`);
+      console.log(`${chalk.dim('Or:')} ${chalk.cyan('speclife sync --abort')} to restore the branch`);
+      break;
+  }
+}
+
+// =============================================================================
+// speclife retrofit - Move ad-hoc work on the base branch into a change
+// =============================================================================
+
+program
+  .command('retrofit <change-id>')
+  .description('Move uncommitted changes and unpushed commits on the base branch to a new change branch')
+  .option('-d, --description <text>', 'Why the work was done (proposal "Why" section)')
+  .option('--dry-run', 'Show the plan without changing anything')
+  .option('--json', 'Output as JSON')
+  .action(async (changeId: string, options) => {
+    try {
+      const cwd = process.cwd();
+      const config = await loadConfig(cwd);
+      const git = createGitAdapter(cwd);
+      const branchNaming = await resolveBranchNaming(config, git);
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
+      
+      const spinner = ora({ isSilent: options.json || options.dryRun || !process.stdout.isTTY });
+      spinner.start(`Retrofitting ${changeId}...`);
+      
+      const result = await retrofitWorkflow(
+        {
+          changeId,
+          description: options.description,
+          dryRun: options.dryRun,
+        },
+        { git, openspec, config },
+        (event: ProgressEvent) => {
+          spinner.text = event.message;
+        }
+      );
+      spinner.stop();
+      
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      
+      console.log(chalk.bold(result.applied ? `Retrofitted ${changeId}` : `Retrofit plan for ${changeId} (dry run)`));
+      for (const step of result.steps) {
+        console.log(`  ${result.applied ? chalk.green('✓') : chalk.dim('•')} ${step}`);
+      }
+      if (result.commits.length > 0) {
+        console.log();
+        console.log(chalk.dim('Commits:'));
+        for (const commit of result.commits) {
+          console.log(`  ${chalk.dim(commit.sha.slice(0, 7))} ${commit.message}`);
+        }
+      }
+      
+      console.log();
+      if (result.applied) {
+        console.log(`${chalk.bold('Next:')} review ${result.proposalPath}, run ${chalk.cyan(`speclife validate ${changeId}`)} and commit`);
+        console.log(`${chalk.dim('Previous')} ${result.baseBranch} ${chalk.dim('tip:')} ${result.baseSha.slice(0, 7)}`);
+      } else {
+        console.log(chalk.dim(result.proposal));
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// speclife publish - Tag a merged release and publish it on the forge
+// =============================================================================
+
+program
+  .command('publish [version]')
+  .description('Tag the release at HEAD and publish it on the forge with its changelog (skips what already exists)')
+  .option('--notes-file <path>', 'Release notes file (default: the CHANGELOG.md section)')
+  .option('-a, --artifact <path...>', 'Files to attach to the release')
+  .option('--remote <name>', 'Remote to push the tag to', 'origin')
+  .option('--dry-run', 'Show what would be published without changing anything')
+  .option('--json', 'Output as JSON')
+  .action(async (version: string | undefined, options) => {
+    try {
+      const cwd = process.cwd();
+      const config = await loadConfig(cwd);
+      const git = createGitAdapter(cwd);
+      const forge = await resolveForgeAdapter(config, git);
+      const notes = options.notesFile ? await readFile(options.notesFile, 'utf-8') : undefined;
+      
+      const spinner = ora({ isSilent: options.json || !process.stdout.isTTY });
+      spinner.start('Publishing release...');
+      
+      const result = await publishReleaseWorkflow(
+        {
+          version,
+          notes,
+          artifacts: options.artifact,
+          remote: options.remote,
+          dryRun: options.dryRun,
+        },
+        { git, github: forge, repoPath: cwd, config },
+        (event: ProgressEvent) => {
+          spinner.text = event.message;
+        }
+      );
+      spinner.stop();
+      
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      
+      if (result.releases.length === 0) {
+        console.log(chalk.yellow('Nothing to publish'));
+        return;
+      }
+      
+      const verb = result.dryRun ? 'Would publish' : 'Published';
+      for (const release of result.releases) {
+        const where = release.url ? chalk.dim(` ${release.url}`) : '';
+        if (release.releaseCreated) {
+          console.log(chalk.green(`✓ ${verb} ${release.tag}${release.prerelease ? ' (prerelease)' : ''}`) + where);
+        } else {
+          console.log(chalk.dim(`• ${release.tag} is already published`) + where);
+        }
+        if (release.tagCreated) {
+          console.log(`  ${chalk.dim('•')} ${result.dryRun ? 'Would create' : 'Created'} tag ${release.tag}`);
+        }
+        for (const artifact of release.uploaded) {
+          console.log(`  ${chalk.dim('•')} ${result.dryRun ? 'Would attach' : 'Attached'} ${basename(artifact)}`);
+        }
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // speclife status - Show change status
 // =============================================================================
@@ -913,9 +1257,13 @@ program
       const cwd = process.cwd();
       const config = await loadConfig(cwd);
       const git = createGitAdapter(cwd);
-      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir });
+      const branchNaming = await resolveBranchNaming(config, git);
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
       
-      const result = await statusWorkflow({ changeId }, { git, openspec });
+      const result = await statusWorkflow(
+        { changeId, baseBranch: resolveBaseBranch(config) },
+        { git, openspec, branchNaming }
+      );
       
       if (!result) {
         const msg = changeId 
@@ -930,19 +1278,43 @@ program
         return;
       }
       
-      const { change, onBranch, taskSummary } = result;
+      const { change, onBranch, taskSummary, history, timeline, taskTrace } = result;
       
       if (options.json) {
-        console.log(JSON.stringify({ change, onBranch, taskSummary }, null, 2));
+        console.log(JSON.stringify({ change, onBranch, taskSummary, history, timeline, taskTrace }, null, 2));
         return;
       }
       
       const bar = createProgressBar(taskSummary.percentage, { width: 10, showPercentage: true });
       
       console.log(chalk.bold(`Change: ${chalk.cyan(change.id)}`));
-      console.log(`  ${chalk.dim('State:')} ${change.state}`);
-      console.log(`  ${chalk.dim('Branch:')} ${change.branch}${onBranch ? chalk.green(' (current)') : ''}`);
+      const enteredAt = change.stateHistory?.[change.stateHistory.length - 1]?.at;
+      console.log(`  ${chalk.dim('State:')} ${change.state}${enteredAt ? chalk.dim(` (since ${formatRelativeTime(enteredAt)})`) : ''}`);
+      console.log(`  ${chalk.dim('Branch:')} ${change.branch ?? chalk.yellow('unknown (set git.user or git user.name)')}${onBranch ? chalk.green(' (current)') : ''}`);
       console.log(`  ${chalk.dim('Tasks:')} ${bar} ${taskSummary.completed}/${taskSummary.total}`);
+      console.log(`  ${chalk.dim('Created:')} ${formatRelativeTime(change.createdAt)}`);
+      if (history.lastActive) {
+        const lastActive = formatRelativeTime(history.lastActive);
+        console.log(`  ${chalk.dim('Last active:')} ${isStale(history.lastActive) ? chalk.red(`${lastActive} (stale)`) : lastActive}`);
+      }
+      
+      if (taskTrace) {
+        if (taskTrace.completed.length > 0) {
+          console.log(chalk.yellow(`  ⚠ Commit trailers reference ${taskTrace.completed.join(', ')}; submit checks them off`));
+        }
+        for (const mismatch of formatTraceMismatches(taskTrace)) {
+          console.log(chalk.yellow(`  ⚠ ${mismatch}`));
+        }
+      }
+      
+      if (timeline.length > 0) {
+        console.log();
+        console.log(chalk.bold('Recent activity:'));
+        for (const activity of timeline.slice(0, 5)) {
+          const label = activity.type === 'commit' ? chalk.yellow(activity.sha!.slice(0, 7)) : chalk.cyan('state  ');
+          console.log(`  ${label} ${activity.message} ${chalk.dim(formatRelativeTime(activity.at))}`);
+        }
+      }
       
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
@@ -966,7 +1338,8 @@ program
       const cwd = process.cwd();
       const config = await loadConfig(cwd);
       const git = createGitAdapter(cwd);
-      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir });
+      const branchNaming = await resolveBranchNaming(config, git);
+      const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
       
       const changeIds = await openspec.listChanges();
       
@@ -981,14 +1354,21 @@ program
       
       const items: ChangeListItem[] = [];
       for (const id of changeIds) {
-        const result = await statusWorkflow({ changeId: id }, { git, openspec });
+        const result = await statusWorkflow(
+          { changeId: id, baseBranch: resolveBaseBranch(config) },
+          { git, openspec, branchNaming }
+        );
         if (result) {
+          const lastActive = result.history.lastActive ?? result.change.createdAt;
           items.push({
             id,
+            state: result.change.state,
             progress: result.taskSummary,
             prStatus: 'local' as PRDisplayStatus,
             isCurrent: result.onBranch,
-            lastActive: new Date(),
+            lastActive,
+            stale: isStale(lastActive),
+            dependsOn: result.change.dependsOn,
           });
         }
       }
@@ -1008,7 +1388,7 @@ program
         for (const item of processed) {
           const marker = item.isCurrent ? chalk.cyan('→ ') : '  ';
           const bar = createProgressBar(item.progress.percentage, { width: 10 });
-          console.log(`${marker}${item.id.padEnd(24)} ${bar} ${item.progress.completed}/${item.progress.total}`);
+          console.log(`${marker}${item.id.padEnd(24)} ${(item.state ?? '').padEnd(12)} ${bar} ${item.progress.completed}/${item.progress.total}`);
         }
       } else {
         console.log(formatTable(processed));
@@ -1016,6 +1396,266 @@ program
         console.log(chalk.dim(formatSummary(processed)));
       }
       
+      if (processed.some(i => i.dependsOn?.length)) {
+        const { order, cycle } = getLandingOrder(items);
+        console.log();
+        console.log(chalk.bold('Dependencies:'));
+        for (const line of formatDependencyTree(items)) {
+          console.log(`  ${line}`);
+        }
+        console.log(cycle.length > 0
+          ? chalk.red(`Dependency cycle: ${cycle.join(', ')}`)
+          : `${chalk.dim('Landing order:')} ${order.join(' → ')}`);
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// speclife task - Query and check off tasks
+// =============================================================================
+
+/**
+ * Resolve the change a task command works on: the explicit ID, or the
+ * change for the current branch
+ */
+async function resolveTaskChange(changeId: string | undefined) {
+  const cwd = process.cwd();
+  const config = await loadConfig(cwd);
+  const git = createGitAdapter(cwd);
+  const branchNaming = await resolveBranchNaming(config, git);
+  const openspec = createOpenSpecAdapter({ projectRoot: cwd, specDir: config.specDir, branchNaming });
+  
+  const targetChangeId = changeId ?? branchNaming.changeIdFor(await git.getCurrentBranch());
+  if (!targetChangeId) {
+    console.error(chalk.red('No change ID specified and not on a spec branch'));
+    process.exit(1);
+  }
+  
+  return { config, git, openspec, changeId: targetChangeId };
+}
+
+/**
+ * Format a task as an indented checklist line
+ */
+function formatTaskLine(task: DocumentTask): string {
+  const mark = task.completed ? chalk.green('✓') : chalk.dim('○');
+  const content = task.completed ? chalk.dim(task.content) : task.content;
+  const details = [
+    task.owner && `@${task.owner}`,
+    task.estimate,
+    task.dependencies?.length && `blocked by ${task.dependencies.join(', ')}`,
+  ].filter(Boolean);
+  const suffix = details.length > 0 ? chalk.dim(` (${details.join(', ')})`) : '';
+  return `${'  '.repeat(task.depth + 1)}${mark} ${chalk.cyan(task.id)} ${content}${suffix}`;
+}
+
+const taskCmd = program
+  .command('task')
+  .description('Query and check off tasks in tasks.md');
+
+taskCmd
+  .command('next')
+  .description('Show the next pending task')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const { openspec, changeId } = await resolveTaskChange(options.change);
+      const summary = summarizeTasksDocument(await openspec.readTasks(changeId));
+      const next = getNextTask(summary);
+      
+      if (options.json) {
+        console.log(JSON.stringify({ changeId, task: next ?? null, progress: summary.progress }, null, 2));
+        return;
+      }
+      
+      if (!next) {
+        console.log(summary.progress.total === 0
+          ? chalk.yellow(`No tasks in ${changeId}/tasks.md`)
+          : chalk.green(`✓ All ${summary.progress.total} tasks complete`));
+        return;
+      }
+      
+      console.log(`${chalk.cyan(next.id)} ${next.content}`);
+      if (next.sectionName) {
+        console.log(`  ${chalk.dim('Section:')} ${next.sectionName}`);
+      }
+      console.log(`  ${chalk.dim('Progress:')} ${summary.progress.completed}/${summary.progress.total}`);
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+taskCmd
+  .command('list')
+  .description('List tasks with progress by section')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--pending', 'Only show pending tasks')
+  .option('--done', 'Only show completed tasks')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const { openspec, changeId } = await resolveTaskChange(options.change);
+      const document = await openspec.readTasks(changeId);
+      const summary = summarizeTasksDocument(document);
+      const tasks = document.tasks.filter(t =>
+        options.pending ? !t.completed : options.done ? t.completed : true
+      );
+      
+      if (options.json) {
+        console.log(JSON.stringify({
+          changeId,
+          progress: summary.progress,
+          sections: Object.fromEntries(getSectionProgress(summary)),
+          tasks,
+        }, null, 2));
+        return;
+      }
+      
+      const bar = createProgressBar(summary.progress.percentage, { width: 10, showPercentage: true });
+      console.log(`${chalk.bold(`Tasks: ${chalk.cyan(changeId)}`)} ${bar} ${summary.progress.completed}/${summary.progress.total}`);
+      
+      const sectionProgress = getSectionProgress(summary);
+      let section: string | undefined;
+      for (const task of tasks) {
+        if (task.sectionName && task.sectionName !== section) {
+          section = task.sectionName;
+          const progress = sectionProgress.get(section);
+          console.log();
+          console.log(`${chalk.bold(section)}${progress ? chalk.dim(` ${progress.completed}/${progress.total}`) : ''}`);
+        }
+        console.log(formatTaskLine(task));
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Check off or uncheck a task and print the result
+ */
+async function setTaskStatus(taskId: string, completed: boolean, options: { change?: string; json?: boolean }) {
+  try {
+    const { openspec, changeId } = await resolveTaskChange(options.change);
+    const document = await openspec.editTasks(changeId, doc => setTaskCompleted(doc, taskId, completed));
+    await recordTaskProgressState(openspec, changeId, document);
+    const task = findTask(document, taskId);
+    const { progress } = summarizeTasksDocument(document);
+    
+    if (options.json) {
+      console.log(JSON.stringify({ changeId, task, progress }, null, 2));
+      return;
+    }
+    
+    console.log(formatTaskLine({ ...task, depth: 0 }).trimStart());
+    console.log(chalk.dim(`${progress.completed}/${progress.total} tasks complete`));
+    
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
+
+taskCmd
+  .command('done <task-id>')
+  .description('Check off a task')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--json', 'Output as JSON')
+  .action((taskId: string, options) => setTaskStatus(taskId, true, options));
+
+taskCmd
+  .command('undo <task-id>')
+  .description('Uncheck a task')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--json', 'Output as JSON')
+  .action((taskId: string, options) => setTaskStatus(taskId, false, options));
+
+taskCmd
+  .command('add <description...>')
+  .description('Add a task to tasks.md')
+  .option('-c, --change <change-id>', 'Change ID (default: current branch)')
+  .option('--section <number>', 'Section to add the task to (default: last section)')
+  .option('--parent <task-id>', 'Add as a subtask of this task')
+  .option('--json', 'Output as JSON')
+  .action(async (description: string[], options) => {
+    try {
+      const { openspec, changeId } = await resolveTaskChange(options.change);
+      const { document, task } = addTask(await openspec.readTasks(changeId), description.join(' '), {
+        section: options.section,
+        parentId: options.parent,
+      });
+      await recordTaskProgressState(openspec, changeId, await openspec.editTasks(changeId, () => document));
+      
+      if (options.json) {
+        console.log(JSON.stringify({ changeId, task }, null, 2));
+        return;
+      }
+      
+      console.log(chalk.green(`Added ${chalk.cyan(task.id)} ${task.content}`));
+      
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// speclife pr - Pull request checklist
+// =============================================================================
+
+const prCmd = program
+  .command('pr')
+  .description('Work with the pull request of a change');
+
+prCmd
+  .command('sync [change-id]')
+  .description('Two-way sync of tasks.md checkboxes with the PR description checklist')
+  .option('--pr <number>', 'Pull request number (default: the open PR for the change branch)')
+  .option('--json', 'Output as JSON')
+  .action(async (changeIdArg: string | undefined, options) => {
+    try {
+      const { config, git, openspec, changeId } = await resolveTaskChange(changeIdArg);
+      const forge = await resolveForgeAdapter(config, git);
+      
+      const spinner = ora({ isSilent: options.json || !process.stdout.isTTY });
+      spinner.start(`Syncing tasks for ${changeId}...`);
+      
+      const result = await syncPullRequestTasksWorkflow(
+        { changeId, prNumber: options.pr ? parseInt(options.pr, 10) : undefined },
+        { git, github: forge, openspec, config },
+        (event: ProgressEvent) => {
+          spinner.text = event.message;
+        }
+      );
+      spinner.stop();
+      
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      
+      const pr = `PR #${result.pullRequest.number}`;
+      for (const taskId of result.checked) {
+        console.log(`  ${chalk.green('✓')} ${chalk.cyan(taskId)} checked off from ${pr}`);
+      }
+      for (const taskId of result.unchecked) {
+        console.log(`  ${chalk.dim('○')} ${chalk.cyan(taskId)} unchecked from ${pr}`);
+      }
+      if (result.checked.length + result.unchecked.length > 0) {
+        console.log(chalk.dim('Commit tasks.md to keep these changes'));
+      }
+      console.log(result.updated
+        ? chalk.green(`✓ Updated the task checklist in ${pr}`) + chalk.dim(` ${result.pullRequest.url}`)
+        : chalk.dim(`• ${pr} checklist is up to date`));
+      
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
       process.exit(1);
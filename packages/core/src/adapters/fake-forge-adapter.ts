@@ -0,0 +1,205 @@
+/**
+ * Fake forge adapter - an in-memory forge for tests and dry runs
+ */
+
+import { basename } from 'path';
+import { SpecLifeError, ErrorCodes, type PullRequest } from '../types.js';
+import {
+  type ForgeAdapter,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type MergeMethod,
+  type CheckResult,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+  combineChecks,
+} from './forge-adapter.js';
+
+export interface FakeForgeAdapter extends ForgeAdapter {
+  /** Pull requests by number; edit them to set up mergeability or state */
+  readonly pullRequests: Map<number, PullRequest>;
+  /** Merged pull requests and how they were merged, in order */
+  readonly merges: Array<{ number: number; method: MergeMethod }>;
+  /** Pull requests with auto-merge enabled, and their merge method */
+  readonly autoMerge: Map<number, MergeMethod>;
+  /** Checks by pull request number (none means passing) */
+  readonly checks: Map<number, CheckResult[]>;
+  /** Pull requests in the merge queue, in order */
+  readonly queue: number[];
+  /** Published releases by tag, with their notes */
+  readonly releases: Map<string, ForgeRelease & { body: string }>;
+}
+
+export interface FakeForgeOptions {
+  /** Repository URL pull request URLs are built from */
+  repositoryUrl?: string;
+  /** Whether enableAutoMerge succeeds (default: true) */
+  allowAutoMerge?: boolean;
+  /** Whether the repository has a merge queue (default: false) */
+  mergeQueue?: boolean;
+}
+
+/**
+ * Create an in-memory forge. Pull requests start open and mergeable; merging
+ * one fails unless isPullRequestMergeable would allow it.
+ */
+export function createFakeForgeAdapter(options: FakeForgeOptions = {}): FakeForgeAdapter {
+  const { repositoryUrl = 'https://forge.test/owner/repo', allowAutoMerge = true, mergeQueue = false } = options;
+  const pullRequests = new Map<number, PullRequest>();
+  const merges: FakeForgeAdapter['merges'] = [];
+  const autoMerge = new Map<number, MergeMethod>();
+  const checks = new Map<number, CheckResult[]>();
+  const queue: number[] = [];
+  const releases: FakeForgeAdapter['releases'] = new Map();
+
+  const find = (prNumber: number): PullRequest => {
+    const pr = pullRequests.get(prNumber);
+    if (!pr) {
+      throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `Pull request #${prNumber} not found`, { prNumber });
+    }
+    return pr;
+  };
+
+  return {
+    pullRequests,
+    merges,
+    autoMerge,
+    checks,
+    queue,
+    releases,
+
+    async createPullRequest(create: CreatePullRequestOptions): Promise<PullRequest> {
+      if ([...pullRequests.values()].some(pr => pr.state === 'open' && pr.head.ref === create.head)) {
+        throw new SpecLifeError(
+          ErrorCodes.FORGE_ERROR,
+          `A pull request for ${create.head} already exists`,
+          { head: create.head }
+        );
+      }
+      const number = pullRequests.size + 1;
+      const url = `${repositoryUrl}/pull/${number}`;
+      const pr: PullRequest = {
+        number,
+        title: create.title,
+        body: create.body,
+        state: 'open',
+        draft: create.draft ?? false,
+        url,
+        html_url: url,
+        head: { ref: create.head, sha: `fake-sha-${number}` },
+        base: { ref: create.base },
+        merged: false,
+        mergeable: true,
+        mergeable_state: 'clean',
+        updatedAt: new Date(),
+      };
+      pullRequests.set(number, pr);
+      return structuredClone(pr);
+    },
+
+    async getPullRequest(prNumber: number): Promise<PullRequest> {
+      return structuredClone(find(prNumber));
+    },
+
+    async getPullRequestByBranch(branch: string): Promise<PullRequest | null> {
+      const pr = [...pullRequests.values()].find(p => p.state === 'open' && p.head.ref === branch);
+      return pr ? structuredClone(pr) : null;
+    },
+
+    async mergePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<void> {
+      const { mergeable, reason } = await this.isPullRequestMergeable(prNumber);
+      if (!mergeable) {
+        throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `Pull request #${prNumber} is not mergeable: ${reason}`, {
+          prNumber,
+        });
+      }
+      Object.assign(find(prNumber), { state: 'merged', merged: true });
+      autoMerge.delete(prNumber);
+      merges.push({ number: prNumber, method: mergeMethod });
+    },
+
+    async updatePullRequest(prNumber: number, update: UpdatePullRequestOptions): Promise<PullRequest> {
+      const pr = find(prNumber);
+      if (update.title) pr.title = update.title;
+      if (update.body) pr.body = update.body;
+      if (update.draft !== undefined) pr.draft = update.draft;
+      if (update.base) pr.base = { ref: update.base };
+      pr.updatedAt = new Date();
+      return structuredClone(pr);
+    },
+
+    async markPullRequestReady(prNumber: number): Promise<PullRequest> {
+      return this.updatePullRequest(prNumber, { draft: false });
+    },
+
+    async isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }> {
+      const pr = find(prNumber);
+      if (pr.state !== 'open') {
+        return { mergeable: false, reason: `Pull request is ${pr.state}` };
+      }
+      if (pr.draft) {
+        return { mergeable: false, reason: 'Pull request is a draft' };
+      }
+      if (pr.mergeable === null) {
+        return { mergeable: false, reason: 'Mergeability status is being computed' };
+      }
+      return pr.mergeable
+        ? { mergeable: true }
+        : { mergeable: false, reason: `State: ${pr.mergeable_state ?? 'dirty'}` };
+    },
+
+    async enableAutoMerge(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
+      find(prNumber);
+      if (!allowAutoMerge) return false;
+      autoMerge.set(prNumber, mergeMethod);
+      return true;
+    },
+
+    async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks> {
+      find(prNumber);
+      return combineChecks(structuredClone(checks.get(prNumber) ?? []));
+    },
+
+    async enqueuePullRequest(prNumber: number): Promise<boolean> {
+      find(prNumber);
+      if (!mergeQueue) return false;
+      if (!queue.includes(prNumber)) queue.push(prNumber);
+      return true;
+    },
+
+    async getReleaseByTag(tag: string): Promise<ForgeRelease | null> {
+      const release = releases.get(tag);
+      return release ? toForgeRelease(release) : null;
+    },
+
+    async createRelease(create: CreateReleaseOptions): Promise<ForgeRelease> {
+      if (releases.has(create.tag)) {
+        throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `A release for ${create.tag} already exists`, { tag: create.tag });
+      }
+      const release = {
+        tag: create.tag,
+        name: create.name,
+        body: create.body,
+        url: `${repositoryUrl}/releases/tag/${encodeURIComponent(create.tag)}`,
+        prerelease: create.prerelease ?? false,
+        assets: [],
+      };
+      releases.set(create.tag, release);
+      return toForgeRelease(release);
+    },
+
+    async uploadReleaseAsset(tag: string, path: string): Promise<void> {
+      const release = releases.get(tag);
+      if (!release) {
+        throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `Release ${tag} not found`, { tag });
+      }
+      release.assets.push(basename(path));
+    },
+  };
+}
+
+function toForgeRelease(release: ForgeRelease): ForgeRelease {
+  const { tag, name, url, prerelease, assets } = release;
+  return { tag, name, url, prerelease, assets: [...assets] };
+}
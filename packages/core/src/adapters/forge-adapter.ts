@@ -0,0 +1,253 @@
+/**
+ * Forge adapter - pull/merge requests and releases on GitHub, GitLab or Gitea
+ *
+ * Workflows talk to a ForgeAdapter; the implementation is picked from the
+ * git remote URL (or `forge.type` in the config for self-hosted instances
+ * whose host name does not give it away).
+ */
+
+import { type GitAdapter } from './git-adapter.js';
+import { createGitHubForgeAdapter } from './github-adapter.js';
+import { createGhCliAdapter } from './gh-cli-adapter.js';
+import { createGitLabAdapter } from './gitlab-adapter.js';
+import { createGiteaAdapter } from './gitea-adapter.js';
+import { type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes, type PullRequest } from '../types.js';
+
+/** Supported forges */
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+/** How a pull request is merged */
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+/**
+ * Pull requests (merge requests on GitLab) and releases on a hosted repository
+ */
+export interface ForgeAdapter {
+  /** Open a pull request */
+  createPullRequest(options: CreatePullRequestOptions): Promise<PullRequest>;
+  /** Get a pull request by number */
+  getPullRequest(prNumber: number): Promise<PullRequest>;
+  /** Get the open pull request for a branch (null if there is none) */
+  getPullRequestByBranch(branch: string): Promise<PullRequest | null>;
+  /** Merge a pull request (default: squash) */
+  mergePullRequest(prNumber: number, mergeMethod?: MergeMethod): Promise<void>;
+  /** Update title, body, draft state or target branch */
+  updatePullRequest(prNumber: number, options: UpdatePullRequestOptions): Promise<PullRequest>;
+  /** Take a pull request out of draft */
+  markPullRequestReady(prNumber: number): Promise<PullRequest>;
+  /** Check whether a pull request can be merged now */
+  isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }>;
+  /**
+   * Merge automatically once checks pass
+   * @returns false if the forge or repository does not allow it
+   */
+  enableAutoMerge(prNumber: number, mergeMethod?: MergeMethod): Promise<boolean>;
+  /** Commit statuses and check runs on the pull request's head commit */
+  getPullRequestChecks(prNumber: number): Promise<PullRequestChecks>;
+  /**
+   * Add a pull request to the merge queue (merge train on GitLab)
+   * @returns false if the forge or repository has no merge queue
+   */
+  enqueuePullRequest(prNumber: number, mergeMethod?: MergeMethod): Promise<boolean>;
+  /** Get the release published for a tag (null if there is none) */
+  getReleaseByTag(tag: string): Promise<ForgeRelease | null>;
+  /** Publish a release for a tag that exists on the remote */
+  createRelease(options: CreateReleaseOptions): Promise<ForgeRelease>;
+  /** Attach a file to the release for a tag, named after the file */
+  uploadReleaseAsset(tag: string, path: string): Promise<void>;
+}
+
+/** A release published on the forge */
+export interface ForgeRelease {
+  tag: string;
+  name: string;
+  /** Release page */
+  url: string;
+  prerelease: boolean;
+  /** Names of attached files */
+  assets: string[];
+}
+
+export interface CreateReleaseOptions {
+  tag: string;
+  name: string;
+  /** Release notes (markdown) */
+  body: string;
+  /** Mark as a prerelease where the forge supports it */
+  prerelease?: boolean;
+}
+
+/** State of a single check, or of all checks combined */
+export type CheckState = 'pending' | 'success' | 'failure';
+
+/** A CI check (GitHub check run, commit status, GitLab job) */
+export interface CheckResult {
+  name: string;
+  state: CheckState;
+  /** Page with the check's details or logs */
+  url?: string;
+}
+
+export interface PullRequestChecks {
+  /** failure if any check failed, pending if any is still running, else success */
+  state: CheckState;
+  checks: CheckResult[];
+}
+
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+  /** Branch with the changes */
+  head: string;
+  /** Branch to merge into */
+  base: string;
+  draft?: boolean;
+}
+
+export interface UpdatePullRequestOptions {
+  title?: string;
+  body?: string;
+  draft?: boolean;
+  /** Branch to retarget the pull request at */
+  base?: string;
+}
+
+/** Options shared by the forge implementations */
+export interface ForgeAdapterOptions {
+  /** API token (default: GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN) */
+  token?: string;
+  /** API base URL (default: derived from the host) */
+  apiUrl?: string;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/** A repository on a forge, parsed from a git remote URL */
+export interface ForgeRemote {
+  /** Forge detected from the host name (null if unknown) */
+  kind: ForgeKind | null;
+  host: string;
+  /** Owner, organization or group path ("group/subgroup" on GitLab) */
+  owner: string;
+  repo: string;
+}
+
+/** Environment variables holding API tokens */
+export const FORGE_TOKEN_VARIABLES: Record<ForgeKind, string> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+};
+
+/** Combine checks into PullRequestChecks */
+export function combineChecks(checks: CheckResult[]): PullRequestChecks {
+  const state = checks.some(c => c.state === 'failure') ? 'failure'
+    : checks.some(c => c.state === 'pending') ? 'pending'
+    : 'success';
+  return { state, checks };
+}
+
+/**
+ * Parse a git remote URL ("git@gitlab.com:group/sub/repo.git",
+ * "https://gitea.example.com/owner/repo") into host, owner and repo
+ */
+export function parseForgeRemote(remoteUrl: string): ForgeRemote | null {
+  const url = remoteUrl.trim();
+  const match = url.match(/^[\w.-]+@([\w.-]+):(?!\/)(.+?)(?:\.git)?\/?$/)
+    ?? url.match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([\w.-]+)(?::\d+)?\/(.+?)(?:\.git)?\/?$/);
+  if (!match) return null;
+
+  const [, host, path] = match;
+  const slash = path.lastIndexOf('/');
+  if (slash <= 0) return null;
+  return { kind: detectForgeKind(host), host, owner: path.slice(0, slash), repo: path.slice(slash + 1) };
+}
+
+/**
+ * Guess the forge from a host name: github.com, hosts containing "gitlab",
+ * and hosts containing "gitea" or codeberg.org
+ */
+export function detectForgeKind(host: string): ForgeKind | null {
+  const name = host.toLowerCase();
+  if (name === 'github.com' || name.endsWith('.github.com')) return 'github';
+  if (name.includes('gitlab')) return 'gitlab';
+  if (name.includes('gitea') || name === 'codeberg.org') return 'gitea';
+  return null;
+}
+
+/**
+ * Create the adapter for a forge repository. GitHub without a token goes
+ * through the gh CLI and its own login.
+ * @throws SpecLifeError with MISSING_TOKEN if GitLab or Gitea has no API token
+ */
+export function createForgeAdapter(
+  kind: ForgeKind,
+  remote: Pick<ForgeRemote, 'host' | 'owner' | 'repo'>,
+  options: ForgeAdapterOptions = {}
+): ForgeAdapter {
+  const token = options.token ?? process.env[FORGE_TOKEN_VARIABLES[kind]];
+  if (!token && kind === 'github') {
+    return createGhCliAdapter(remote.owner, remote.repo, { host: remote.host });
+  }
+  if (!token) {
+    throw new SpecLifeError(
+      ErrorCodes.MISSING_TOKEN,
+      `${FORGE_TOKEN_VARIABLES[kind]} environment variable is required for ${remote.host}`,
+      { forge: kind, host: remote.host }
+    );
+  }
+
+  switch (kind) {
+    case 'github':
+      return createGitHubForgeAdapter(remote.owner, remote.repo, {
+        ...options,
+        token,
+        apiUrl: options.apiUrl ?? (remote.host === 'github.com' ? undefined : `https://${remote.host}/api/v3`),
+      });
+    case 'gitlab':
+      return createGitLabAdapter(remote.owner, remote.repo, {
+        ...options,
+        token,
+        apiUrl: options.apiUrl ?? `https://${remote.host}/api/v4`,
+      });
+    case 'gitea':
+      return createGiteaAdapter(remote.owner, remote.repo, {
+        ...options,
+        token,
+        apiUrl: options.apiUrl ?? `https://${remote.host}/api/v1`,
+      });
+  }
+}
+
+/**
+ * Create the forge adapter for the repository's origin remote, using
+ * `forge.type` and `forge.apiUrl` from the config when set
+ * @throws SpecLifeError with CONFIG_INVALID if the forge cannot be determined
+ */
+export async function resolveForgeAdapter(
+  config: Pick<SpecLifeConfig, 'forge'>,
+  git: Pick<GitAdapter, 'getRemoteUrl'>,
+  options: Omit<ForgeAdapterOptions, 'apiUrl'> = {}
+): Promise<ForgeAdapter> {
+  const remoteUrl = await git.getRemoteUrl();
+  const remote = remoteUrl ? parseForgeRemote(remoteUrl) : null;
+  if (!remote) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      remoteUrl ? `Cannot parse git remote URL: ${remoteUrl}` : 'No origin remote configured',
+      { remoteUrl }
+    );
+  }
+
+  const kind = config.forge?.type ?? remote.kind;
+  if (!kind) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Cannot tell which forge hosts ${remote.host}; set forge.type to github, gitlab or gitea`,
+      { host: remote.host }
+    );
+  }
+
+  return createForgeAdapter(kind, remote, { ...options, apiUrl: config.forge?.apiUrl });
+}
@@ -0,0 +1,77 @@
+/**
+ * JSON over HTTP for the REST forge adapters (GitLab, Gitea)
+ */
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { SpecLifeError, ErrorCodes } from '../types.js';
+
+export interface ForgeClient {
+  /**
+   * Send a request relative to the API base URL. FormData bodies are sent
+   * as multipart, anything else as JSON.
+   * @throws SpecLifeError with FORGE_ERROR for non-2xx responses
+   */
+  request<T>(method: string, path: string, body?: unknown): Promise<T>;
+}
+
+/**
+ * Create a client for a forge API
+ * @param headers - Authentication headers sent with every request
+ */
+export function createForgeClient(
+  apiUrl: string,
+  headers: Record<string, string>,
+  fetchImpl: typeof fetch = fetch
+): ForgeClient {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+
+  return {
+    async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+      const url = `${baseUrl}${path}`;
+      const json = body !== undefined && !(body instanceof FormData);
+      const response = await fetchImpl(url, {
+        method,
+        headers: {
+          ...headers,
+          Accept: 'application/json',
+          ...(json ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: json ? JSON.stringify(body) : body as FormData | undefined,
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        throw new SpecLifeError(
+          ErrorCodes.FORGE_ERROR,
+          `${method} ${url} failed with ${response.status}: ${errorMessage(text) ?? response.statusText}`,
+          { status: response.status, method, url }
+        );
+      }
+      return (text ? JSON.parse(text) : undefined) as T;
+    },
+  };
+}
+
+/** Pull the message out of a JSON error body */
+function errorMessage(text: string): string | undefined {
+  try {
+    const body = JSON.parse(text);
+    const message = body.message ?? body.error;
+    return typeof message === 'string' ? message : message !== undefined ? JSON.stringify(message) : undefined;
+  } catch {
+    return text || undefined;
+  }
+}
+
+/** Whether a forge request failed because the resource does not exist */
+export function isNotFound(error: unknown): boolean {
+  return error instanceof SpecLifeError && error.code === ErrorCodes.FORGE_ERROR && error.context?.status === 404;
+}
+
+/** A file as a multipart form, for upload endpoints */
+export async function fileForm(field: string, path: string): Promise<FormData> {
+  const form = new FormData();
+  form.append(field, new Blob([await readFile(path)]), basename(path));
+  return form;
+}
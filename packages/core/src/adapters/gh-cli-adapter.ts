@@ -0,0 +1,211 @@
+/**
+ * gh CLI adapter - GitHub pull requests and releases through the `gh` command line tool
+ *
+ * Uses the credentials from `gh auth login`, so SpecLife needs no
+ * GITHUB_TOKEN. Changes go through `gh pr` and `gh release` commands; reads go through
+ * `gh api`, whose REST responses map like Octokit's.
+ */
+
+import { execa } from 'execa';
+import { SpecLifeError, ErrorCodes, type PullRequest } from '../types.js';
+import {
+  type ForgeAdapter,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type MergeMethod,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+} from './forge-adapter.js';
+import { isNotFound } from './forge-http.js';
+import {
+  mapPullRequest,
+  mapChecks,
+  mapRelease,
+  describeMergeability,
+  type GitHubPullRequestData,
+  type GitHubCommitStatusData,
+  type GitHubCheckRunData,
+  type GitHubReleaseData,
+} from './github-adapter.js';
+
+export interface GhCliAdapterOptions {
+  /** GitHub host (default: "github.com"; set for GitHub Enterprise Server) */
+  host?: string;
+  /** Working directory for gh (default: process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Create a GitHub forge adapter backed by the `gh` CLI
+ * @throws SpecLifeError with CLI_NOT_FOUND (on first use) if gh is not installed
+ */
+export function createGhCliAdapter(owner: string, repo: string, options: GhCliAdapterOptions = {}): ForgeAdapter {
+  const { host = 'github.com', cwd } = options;
+  const repoArgs = ['--repo', host === 'github.com' ? `${owner}/${repo}` : `${host}/${owner}/${repo}`];
+  const apiPath = `repos/${owner}/${repo}/pulls`;
+  const hostArgs = host === 'github.com' ? [] : ['--hostname', host];
+
+  const gh = async (args: string[]): Promise<string> => {
+    try {
+      const { stdout } = await execa('gh', args, { cwd, env: { GH_PROMPT_DISABLED: '1' } });
+      return stdout;
+    } catch (error) {
+      throw toSpecLifeError(error, args);
+    }
+  };
+
+  const api = async <T>(path: string): Promise<T> => {
+    return JSON.parse(await gh(['api', ...hostArgs, path])) as T;
+  };
+
+  return {
+    async createPullRequest(create: CreatePullRequestOptions): Promise<PullRequest> {
+      const stdout = await gh([
+        'pr', 'create', ...repoArgs,
+        '--title', create.title,
+        '--body', create.body,
+        '--head', create.head,
+        '--base', create.base,
+        ...(create.draft ? ['--draft'] : []),
+      ]);
+
+      // gh prints the new pull request's URL
+      const number = stdout.match(/\/pull\/(\d+)\s*$/)?.[1];
+      if (!number) {
+        throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `Unexpected output from gh pr create: ${stdout}`, { stdout });
+      }
+      return this.getPullRequest(Number(number));
+    },
+
+    async getPullRequest(prNumber: number): Promise<PullRequest> {
+      return mapPullRequest(await api<GitHubPullRequestData>(`${apiPath}/${prNumber}`));
+    },
+
+    async getPullRequestByBranch(branch: string): Promise<PullRequest | null> {
+      const head = encodeURIComponent(`${owner}:${branch}`);
+      const data = await api<GitHubPullRequestData[]>(`${apiPath}?head=${head}&state=open`);
+      return data.length > 0 ? mapPullRequest(data[0]) : null;
+    },
+
+    async mergePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<void> {
+      await gh(['pr', 'merge', String(prNumber), ...repoArgs, `--${mergeMethod}`]);
+    },
+
+    async updatePullRequest(prNumber: number, update: UpdatePullRequestOptions): Promise<PullRequest> {
+      const editArgs = [
+        ...(update.title ? ['--title', update.title] : []),
+        ...(update.body ? ['--body', update.body] : []),
+        ...(update.base ? ['--base', update.base] : []),
+      ];
+      if (editArgs.length > 0) {
+        await gh(['pr', 'edit', String(prNumber), ...repoArgs, ...editArgs]);
+      }
+      if (update.draft !== undefined) {
+        await gh(['pr', 'ready', String(prNumber), ...repoArgs, ...(update.draft ? ['--undo'] : [])]);
+      }
+      return this.getPullRequest(prNumber);
+    },
+
+    async markPullRequestReady(prNumber: number): Promise<PullRequest> {
+      return this.updatePullRequest(prNumber, { draft: false });
+    },
+
+    async isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }> {
+      return describeMergeability(await this.getPullRequest(prNumber));
+    },
+
+    async enableAutoMerge(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
+      try {
+        await gh(['pr', 'merge', String(prNumber), ...repoArgs, '--auto', `--${mergeMethod}`]);
+        return true;
+      } catch {
+        // Auto-merge might not be enabled on the repository
+        return false;
+      }
+    },
+
+    async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks> {
+      const { head } = await this.getPullRequest(prNumber);
+      const [status, runs] = await Promise.all([
+        api<{ statuses: GitHubCommitStatusData[] }>(`repos/${owner}/${repo}/commits/${head.sha}/status`),
+        api<{ check_runs: GitHubCheckRunData[] }>(`repos/${owner}/${repo}/commits/${head.sha}/check-runs?per_page=100`),
+      ]);
+      return mapChecks(status.statuses, runs.check_runs);
+    },
+
+    // The merge queue's own merge method applies
+    async enqueuePullRequest(prNumber: number): Promise<boolean> {
+      try {
+        const { node_id } = await api<{ node_id: string }>(`${apiPath}/${prNumber}`);
+        await gh([
+          'api', 'graphql', ...hostArgs,
+          '-f', 'query=mutation($pullRequestId: ID!) { enqueuePullRequest(input: { pullRequestId: $pullRequestId }) { mergeQueueEntry { id } } }',
+          '-f', `pullRequestId=${node_id}`,
+        ]);
+        return true;
+      } catch {
+        // The base branch might not have a merge queue
+        return false;
+      }
+    },
+
+    async getReleaseByTag(tag: string): Promise<ForgeRelease | null> {
+      try {
+        return mapRelease(await api<GitHubReleaseData>(`repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async createRelease(options: CreateReleaseOptions): Promise<ForgeRelease> {
+      await gh([
+        'release', 'create', options.tag, ...repoArgs,
+        '--title', options.name,
+        '--notes', options.body,
+        '--verify-tag',
+        ...(options.prerelease ? ['--prerelease'] : []),
+      ]);
+      const release = await this.getReleaseByTag(options.tag);
+      if (!release) {
+        throw new SpecLifeError(ErrorCodes.FORGE_ERROR, `Release ${options.tag} not found after gh release create`, {
+          tag: options.tag,
+        });
+      }
+      return release;
+    },
+
+    async uploadReleaseAsset(tag: string, path: string): Promise<void> {
+      await gh(['release', 'upload', tag, path, ...repoArgs]);
+    },
+  };
+}
+
+/** Map a failed gh run to a SpecLifeError */
+function toSpecLifeError(error: unknown, args: string[]): SpecLifeError {
+  const { code, stderr = '', exitCode } = error as { code?: string; stderr?: string; exitCode?: number };
+  const command = `gh ${args.slice(0, 2).join(' ')}`;
+
+  if (code === 'ENOENT') {
+    return new SpecLifeError(
+      ErrorCodes.CLI_NOT_FOUND,
+      'gh CLI not found. Install it from https://cli.github.com or set GITHUB_TOKEN',
+      { command }
+    );
+  }
+  if (/gh auth login|not logged in|authentication|HTTP 401/i.test(stderr)) {
+    return new SpecLifeError(
+      ErrorCodes.MISSING_TOKEN,
+      'gh is not authenticated. Run `gh auth login` or set GITHUB_TOKEN',
+      { command, stderr }
+    );
+  }
+
+  const status = stderr.match(/HTTP (\d{3})/)?.[1];
+  return new SpecLifeError(
+    ErrorCodes.FORGE_ERROR,
+    `${command} failed: ${stderr.trim() || (error as Error).message}`,
+    { command, exitCode, stderr, ...(status ? { status: Number(status) } : {}) }
+  );
+}
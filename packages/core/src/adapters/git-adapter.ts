@@ -3,7 +3,24 @@
  */
 
 import { simpleGit, type SimpleGit } from 'simple-git';
-import { type GitStatus } from '../types.js';
+import { access } from 'fs/promises';
+import { resolve } from 'path';
+import { type GitStatus, type GitCommit, type GitTrailerCommit, type GitOperation, type TrialMergeResult } from '../types.js';
+import { parseVersion, compareVersions, type SemVer } from '../utils/semver.js';
+
+/** Options for querying commit history */
+export interface GitHistoryOptions {
+  /** Refs to walk (default: HEAD); refs that do not exist are skipped */
+  refs?: string[];
+  /** Only include commits reachable from refs but not from this ref */
+  excludeRef?: string;
+  /** Only include commits touching these paths */
+  paths?: string[];
+}
+
+/** Field and record separators for parsing git log output */
+const LOG_FIELD_SEP = '\x1f';
+const LOG_RECORD_SEP = '\x1e';
 
 /** Git operations interface */
 export interface GitAdapter {
@@ -25,23 +42,89 @@ export interface GitAdapter {
   /** Push to remote */
   push(remote: string, branch: string, setUpstream?: boolean): Promise<void>;
   
+  /** Push a rewritten branch, refusing to overwrite commits it has not seen */
+  forcePush(remote: string, branch: string): Promise<void>;
+  
+  /**
+   * Replay the commits of a branch after upstream onto another ref
+   * @returns false if the rebase conflicted (it is aborted)
+   */
+  rebaseOnto(onto: string, upstream: string, branch: string): Promise<boolean>;
+  
+  /** Resolve a ref to its commit SHA (null if it does not exist) */
+  resolveRef(ref: string): Promise<string | null>;
+  
+  /** Fetch from a remote (optionally a single branch) */
+  fetch(remote?: string, branch?: string): Promise<void>;
+  
+  /** Count commits HEAD has that ref lacks (ahead) and ref has that HEAD lacks (behind) */
+  getAheadBehind(ref: string): Promise<{ ahead: number; behind: number }>;
+  
+  /**
+   * Rebase the current branch onto upstream, stopping at conflicts
+   * @returns Conflicted files (empty when the rebase completed)
+   */
+  rebase(upstream: string): Promise<string[]>;
+  
+  /**
+   * Merge a ref into the current branch, stopping at conflicts
+   * @returns Conflicted files (empty when the merge completed)
+   */
+  merge(ref: string): Promise<string[]>;
+  
+  /** Rebase or merge stopped in this worktree (null if none) */
+  getOperationInProgress(): Promise<GitOperation | null>;
+  
+  /**
+   * Continue the rebase or merge in progress once conflicts are resolved and staged
+   * @returns Conflicted files still to resolve (empty when it completed)
+   */
+  continueOperation(): Promise<string[]>;
+  
+  /** Abort the rebase or merge in progress */
+  abortOperation(): Promise<void>;
+  
+  /** Get files with unresolved conflicts */
+  getConflictedFiles(): Promise<string[]>;
+  
+  /**
+   * Stash uncommitted changes, including untracked files
+   * @returns false if there was nothing to stash
+   */
+  stash(message: string): Promise<boolean>;
+  
+  /** Restore the latest stash, including what was staged, and drop it */
+  stashPop(): Promise<void>;
+  
   /** Get repository status */
   status(): Promise<GitStatus>;
   
   /** Check if branch exists */
   branchExists(name: string): Promise<boolean>;
   
+  /** List local branch names */
+  listBranches(): Promise<string[]>;
+  
+  /** Read a file as committed on a ref (null if it does not exist there) */
+  showFile(ref: string, path: string): Promise<string | null>;
+  
   /** Pull latest changes */
   pull(remote?: string, branch?: string): Promise<void>;
   
   /** Delete a local branch */
   deleteBranch(name: string, force?: boolean): Promise<void>;
   
+  /** Point a branch that is not checked out at another ref */
+  resetBranch(name: string, ref: string): Promise<void>;
+  
   // Worktree operations (Phase 4)
   
   /** Create a worktree for parallel development */
   createWorktree(path: string, branch: string, baseBranch?: string): Promise<void>;
   
+  /** Check out an existing branch in a new worktree */
+  addWorktree(path: string, branch: string): Promise<void>;
+  
   /** Remove a worktree */
   removeWorktree(path: string, force?: boolean): Promise<void>;
   
@@ -51,14 +134,23 @@ export interface GitAdapter {
   /** Get the main worktree path (original repo location) */
   getMainWorktreePath(): Promise<string>;
   
+  /** Get the configured git user.name (null if unset) */
+  getUserName(): Promise<string | null>;
+  
   // Tag operations (for releases)
   
-  /** Get the latest tag (by version order) */
-  getLatestTag(): Promise<string | null>;
+  /** Get the latest tag (by semver precedence, prereleases included) starting with prefix (default: "v") */
+  getLatestTag(prefix?: string): Promise<string | null>;
   
   /** Get commits since a specific tag or commit */
   getCommitsSince(ref: string): Promise<Array<{ sha: string; message: string }>>;
   
+  /** Get files changed by a commit */
+  getCommitFiles(sha: string): Promise<string[]>;
+  
+  /** Get the URL of a remote (default: "origin"), or null if it is not configured */
+  getRemoteUrl(remote?: string): Promise<string | null>;
+  
   /** Create an annotated tag */
   createTag(name: string, message: string): Promise<void>;
   
@@ -67,6 +159,20 @@ export interface GitAdapter {
   
   /** Get diff between current branch and a base branch */
   diff(base: string): Promise<string>;
+  
+  /** Get files changed on a ref since it diverged from a base */
+  getDiffFiles(base: string, ref: string): Promise<string[]>;
+  
+  /** Merge two refs in memory, leaving the working tree alone (null when git cannot) */
+  trialMerge(ours: string, theirs: string): Promise<TrialMergeResult | null>;
+  
+  // History operations
+  
+  /** Get commit history (newest first) */
+  getHistory(options?: GitHistoryOptions): Promise<GitCommit[]>;
+  
+  /** Get commit history with message trailers such as "Task: 2.3" (newest first) */
+  getCommitsWithTrailers(options?: GitHistoryOptions): Promise<GitTrailerCommit[]>;
 }
 
 /**
@@ -75,6 +181,32 @@ export interface GitAdapter {
 export function createGitAdapter(repoPath: string): GitAdapter {
   const git: SimpleGit = simpleGit(repoPath);
   
+  const getConflictedFiles = async (): Promise<string[]> => {
+    const result = await git.raw(['diff', '--name-only', '--diff-filter=U']);
+    return result.split('\n').map(f => f.trim()).filter(Boolean);
+  };
+  
+  const gitPathExists = async (name: string): Promise<boolean> => {
+    const path = (await git.raw(['rev-parse', '--git-path', name])).trim();
+    return access(resolve(repoPath, path)).then(() => true, () => false);
+  };
+  
+  const getOperationInProgress = async (): Promise<GitOperation | null> => {
+    if (await gitPathExists('rebase-merge') || await gitPathExists('rebase-apply')) return 'rebase';
+    if (await gitPathExists('MERGE_HEAD')) return 'merge';
+    return null;
+  };
+  
+  // Commands stop at conflicts; anything else that fails is rethrown
+  const runUntilConflict = async (args: string[]): Promise<string[]> => {
+    try {
+      await git.raw(args);
+    } catch (error) {
+      if (!await getOperationInProgress()) throw error;
+    }
+    return getConflictedFiles();
+  };
+  
   return {
     async createBranch(name: string, from?: string): Promise<void> {
       if (from) {
@@ -110,6 +242,82 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       }
     },
     
+    async forcePush(remote: string, branch: string): Promise<void> {
+      await git.push(remote, branch, ['--force-with-lease']);
+    },
+    
+    async rebaseOnto(onto: string, upstream: string, branch: string): Promise<boolean> {
+      try {
+        await git.rebase(['--onto', onto, upstream, branch]);
+        return true;
+      } catch {
+        await git.rebase(['--abort']).catch(() => undefined);
+        return false;
+      }
+    },
+    
+    async resolveRef(ref: string): Promise<string | null> {
+      try {
+        return (await git.raw(['rev-parse', '--verify', `${ref}^{commit}`])).trim();
+      } catch {
+        return null;
+      }
+    },
+    
+    async fetch(remote = 'origin', branch?: string): Promise<void> {
+      if (branch) {
+        await git.fetch(remote, branch);
+      } else {
+        await git.fetch(remote);
+      }
+    },
+    
+    async getAheadBehind(ref: string): Promise<{ ahead: number; behind: number }> {
+      const result = await git.raw(['rev-list', '--left-right', '--count', `HEAD...${ref}`]);
+      const [ahead, behind] = result.trim().split(/\s+/).map(Number);
+      return { ahead, behind };
+    },
+    
+    async rebase(upstream: string): Promise<string[]> {
+      return runUntilConflict(['rebase', upstream]);
+    },
+    
+    async merge(ref: string): Promise<string[]> {
+      return runUntilConflict(['merge', '--no-edit', ref]);
+    },
+    
+    getOperationInProgress,
+    
+    async continueOperation(): Promise<string[]> {
+      const operation = await getOperationInProgress();
+      const conflicts = await getConflictedFiles();
+      if (!operation || conflicts.length > 0) return conflicts;
+      // Keep the recorded commit messages instead of opening an editor
+      return operation === 'rebase'
+        ? runUntilConflict(['-c', 'core.editor=true', 'rebase', '--continue'])
+        : runUntilConflict(['commit', '--no-edit']);
+    },
+    
+    async abortOperation(): Promise<void> {
+      const operation = await getOperationInProgress();
+      if (operation) {
+        await git.raw([operation, '--abort']);
+      }
+    },
+    
+    getConflictedFiles,
+    
+    async stash(message: string): Promise<boolean> {
+      const stashRef = async () => (await git.raw(['rev-parse', '-q', '--verify', 'refs/stash']).catch(() => '')).trim();
+      const before = await stashRef();
+      await git.raw(['stash', 'push', '--include-untracked', '-m', message]);
+      return await stashRef() !== before;
+    },
+    
+    async stashPop(): Promise<void> {
+      await git.raw(['stash', 'pop', '--index']);
+    },
+    
     async status(): Promise<GitStatus> {
       const status = await git.status();
       return {
@@ -125,6 +333,18 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       return branches.all.includes(name);
     },
     
+    async listBranches(): Promise<string[]> {
+      return (await git.branchLocal()).all;
+    },
+    
+    async showFile(ref: string, path: string): Promise<string | null> {
+      try {
+        return await git.show([`${ref}:${path}`]);
+      } catch {
+        return null;
+      }
+    },
+    
     async pull(remote = 'origin', branch?: string): Promise<void> {
       if (branch) {
         await git.pull(remote, branch);
@@ -141,6 +361,10 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       }
     },
     
+    async resetBranch(name: string, ref: string): Promise<void> {
+      await git.branch(['-f', name, ref]);
+    },
+    
     // Worktree operations (Phase 4)
     
     async createWorktree(path: string, branch: string, baseBranch?: string): Promise<void> {
@@ -151,6 +375,10 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       }
     },
     
+    async addWorktree(path: string, branch: string): Promise<void> {
+      await git.raw(['worktree', 'add', path, branch]);
+    },
+    
     async removeWorktree(path: string, force = false): Promise<void> {
       if (force) {
         await git.raw(['worktree', 'remove', path, '--force']);
@@ -194,14 +422,30 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       return toplevel.trim();
     },
     
+    async getUserName(): Promise<string | null> {
+      try {
+        const name = (await git.raw(['config', 'user.name'])).trim();
+        return name || null;
+      } catch {
+        return null;
+      }
+    },
+    
     // Tag operations (for releases)
     
-    async getLatestTag(): Promise<string | null> {
+    async getLatestTag(prefix = 'v'): Promise<string | null> {
       try {
-        // Get tags sorted by version (semver)
-        const result = await git.raw(['tag', '-l', 'v*', '--sort=-v:refname']);
-        const tags = result.trim().split('\n').filter(Boolean);
-        return tags.length > 0 ? tags[0] : null;
+        const result = await git.raw(['tag', '-l', `${prefix}*`]);
+        
+        // Sort by semver precedence so 2.0.0 > 2.0.0-rc.2 > 2.0.0-rc.1
+        const versioned = result
+          .split('\n')
+          .map(tag => tag.trim())
+          .map(tag => ({ tag, version: parseVersion(tag.slice(prefix.length)) }))
+          .filter((t): t is { tag: string; version: SemVer } => t.version !== null)
+          .sort((a, b) => compareVersions(b.version, a.version));
+        
+        return versioned.length > 0 ? versioned[0].tag : null;
       } catch {
         return null;
       }
@@ -234,6 +478,20 @@ export function createGitAdapter(repoPath: string): GitAdapter {
       }
     },
     
+    async getCommitFiles(sha: string): Promise<string[]> {
+      const result = await git.raw(['diff-tree', '--no-commit-id', '--name-only', '-r', '--root', sha]);
+      return result.split('\n').map(f => f.trim()).filter(Boolean);
+    },
+
+    async getRemoteUrl(remote = 'origin'): Promise<string | null> {
+      try {
+        const url = await git.remote(['get-url', remote]);
+        return url ? url.trim() : null;
+      } catch {
+        return null;
+      }
+    },
+
     async createTag(name: string, message: string): Promise<void> {
       await git.tag(['-a', name, '-m', message]);
     },
@@ -258,6 +516,100 @@ export function createGitAdapter(repoPath: string): GitAdapter {
         return result;
       }
     },
+    
+    async getDiffFiles(base: string, ref: string): Promise<string[]> {
+      const result = await git.raw(['diff', '--name-only', `${base}...${ref}`]);
+      return result.split('\n').map(f => f.trim()).filter(Boolean);
+    },
+    
+    async trialMerge(ours: string, theirs: string): Promise<TrialMergeResult | null> {
+      let result: string;
+      try {
+        // Requires git 2.38+; exits 1 (without stderr) and lists conflicted files on conflicts
+        result = await git.raw(['merge-tree', '--write-tree', '--name-only', '--no-messages', ours, theirs]);
+      } catch {
+        return null;
+      }
+      const [, ...lines] = result.split('\n');
+      const end = lines.indexOf('');
+      const conflicts = [...new Set((end === -1 ? lines : lines.slice(0, end)).map(f => f.trim()).filter(Boolean))];
+      return { clean: conflicts.length === 0, conflicts };
+    },
+    
+    // History operations
+    
+    async getHistory(options: GitHistoryOptions = {}): Promise<GitCommit[]> {
+      const records = await log(options, []);
+      return records.map(([sha, author, date, message]) => ({ sha, author, date: new Date(date), message }));
+    },
+    
+    async getCommitsWithTrailers(options: GitHistoryOptions = {}): Promise<GitTrailerCommit[]> {
+      const records = await log(options, ['%(trailers:only,unfold)']);
+      return records.map(([sha, author, date, message, trailers = '']) => ({
+        sha,
+        author,
+        date: new Date(date),
+        message,
+        trailers: trailers
+          .split('\n')
+          .map(line => line.match(/^([\w-]+):\s*(.*?)\s*$/))
+          .filter((match): match is RegExpMatchArray => match !== null)
+          .map(([, key, value]) => ({ key, value })),
+      }));
+    },
   };
+  
+  /**
+   * Run git log over a history range
+   * @param extraFields Format placeholders appended to each record
+   * @returns Records of [sha, author, committer date, subject, ...extra fields]
+   */
+  async function log(options: GitHistoryOptions, extraFields: string[]): Promise<string[][]> {
+    const { refs = ['HEAD'], excludeRef, paths = [] } = options;
+    
+    const existingRefs: string[] = [];
+    for (const ref of refs) {
+      if (await refExists(ref)) {
+        existingRefs.push(ref);
+      }
+    }
+    
+    if (existingRefs.length === 0) {
+      return [];
+    }
+    
+    // A missing exclude ref would silently widen the range to all history
+    if (excludeRef && !await refExists(excludeRef)) {
+      return [];
+    }
+    
+    const fields = ['%H', '%an', '%cI', '%s', ...extraFields];
+    const args = [
+      'log',
+      ...existingRefs,
+      ...(excludeRef ? [`^${excludeRef}`] : []),
+      `--pretty=format:${fields.join(LOG_FIELD_SEP)}${LOG_RECORD_SEP}`,
+    ];
+    if (paths.length > 0) {
+      args.push('--', ...paths);
+    }
+    
+    const result = await git.raw(args);
+    
+    return result
+      .split(LOG_RECORD_SEP)
+      .map(record => record.trim())
+      .filter(Boolean)
+      .map(record => record.split(LOG_FIELD_SEP));
+  }
+  
+  async function refExists(ref: string): Promise<boolean> {
+    try {
+      await git.raw(['rev-parse', '--verify', `${ref}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
 
@@ -0,0 +1,228 @@
+/**
+ * Gitea adapter - pull requests through the Gitea REST API (v1), which
+ * Forgejo and Codeberg share
+ */
+
+import { basename } from 'path';
+import { type PullRequest } from '../types.js';
+import {
+  type ForgeAdapter,
+  type ForgeAdapterOptions,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type MergeMethod,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+  combineChecks,
+} from './forge-adapter.js';
+import { createForgeClient, isNotFound, fileForm } from './forge-http.js';
+
+/** Title prefixes Gitea treats as work in progress (its default settings) */
+const DRAFT_PREFIX = /^(?:\[wip\]|wip:)\s*/i;
+
+/** Open pull requests fetched per page when looking one up by branch */
+const PAGE_SIZE = 50;
+
+/** The fields SpecLife reads from a Gitea pull request */
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: string;
+  draft?: boolean;
+  html_url: string;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  merged?: boolean;
+  mergeable?: boolean | null;
+  updated_at?: string;
+}
+
+/** A Gitea commit status */
+interface GiteaCommitStatus {
+  context: string;
+  status: string;
+  target_url?: string | null;
+}
+
+/** The fields SpecLife reads from a Gitea release */
+interface GiteaRelease {
+  id: number;
+  tag_name: string;
+  name?: string | null;
+  html_url: string;
+  prerelease?: boolean;
+  assets?: Array<{ name: string }>;
+}
+
+/**
+ * Create the Gitea forge adapter
+ * @param options.apiUrl - API base URL, e.g. "https://gitea.example.com/api/v1"
+ */
+export function createGiteaAdapter(
+  owner: string,
+  repo: string,
+  { token, apiUrl = 'https://gitea.com/api/v1', fetch }: ForgeAdapterOptions & { token: string }
+): ForgeAdapter {
+  const client = createForgeClient(apiUrl, { Authorization: `token ${token}` }, fetch);
+  const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const pulls = `${repoPath}/pulls`;
+
+  return {
+    async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequest> {
+      const data = await client.request<GiteaPullRequest>('POST', pulls, {
+        head: options.head,
+        base: options.base,
+        title: withDraft(options.title, options.draft ?? false),
+        body: options.body,
+      });
+      return mapPullRequest(data);
+    },
+
+    async getPullRequest(prNumber: number): Promise<PullRequest> {
+      return mapPullRequest(await client.request<GiteaPullRequest>('GET', `${pulls}/${prNumber}`));
+    },
+
+    async getPullRequestByBranch(branch: string): Promise<PullRequest | null> {
+      // The API cannot filter by head branch, so page through the open pull requests
+      for (let page = 1; ; page++) {
+        const data = await client.request<GiteaPullRequest[]>('GET', `${pulls}?state=open&limit=${PAGE_SIZE}&page=${page}`);
+        const match = data.find(pr => pr.head.ref === branch);
+        if (match) return mapPullRequest(match);
+        if (data.length < PAGE_SIZE) return null;
+      }
+    },
+
+    async mergePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<void> {
+      await client.request('POST', `${pulls}/${prNumber}/merge`, { Do: mergeMethod });
+    },
+
+    async updatePullRequest(prNumber: number, options: UpdatePullRequestOptions): Promise<PullRequest> {
+      const update: Record<string, unknown> = {};
+      if (options.body) update.body = options.body;
+      if (options.base) update.base = options.base;
+      // Draft state lives in the title, so changing either needs the other
+      if (options.title || options.draft !== undefined) {
+        const current = options.title && options.draft !== undefined
+          ? null
+          : await this.getPullRequest(prNumber);
+        update.title = withDraft(options.title || current!.title, options.draft ?? current!.draft);
+      }
+
+      if (Object.keys(update).length === 0) {
+        return this.getPullRequest(prNumber);
+      }
+      return mapPullRequest(await client.request<GiteaPullRequest>('PATCH', `${pulls}/${prNumber}`, update));
+    },
+
+    async markPullRequestReady(prNumber: number): Promise<PullRequest> {
+      return this.updatePullRequest(prNumber, { draft: false });
+    },
+
+    async isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }> {
+      const pr = await this.getPullRequest(prNumber);
+      if (pr.state !== 'open') {
+        return { mergeable: false, reason: `Pull request is ${pr.state}` };
+      }
+      if (pr.draft) {
+        return { mergeable: false, reason: 'Pull request is a draft' };
+      }
+      return pr.mergeable ? { mergeable: true } : { mergeable: false, reason: 'Has merge conflicts' };
+    },
+
+    async enableAutoMerge(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
+      try {
+        await client.request('POST', `${pulls}/${prNumber}/merge`, {
+          Do: mergeMethod,
+          merge_when_checks_succeed: true,
+        });
+        return true;
+      } catch {
+        // Scheduled merges need Gitea 1.17 or later
+        return false;
+      }
+    },
+
+    async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks> {
+      const { head } = await this.getPullRequest(prNumber);
+      const data = await client.request<{ statuses?: GiteaCommitStatus[] | null }>('GET', `${repoPath}/commits/${head.sha}/status`);
+      return combineChecks((data.statuses ?? []).map(status => ({
+        name: status.context,
+        state: status.status === 'success' || status.status === 'warning' ? 'success'
+          : status.status === 'pending' ? 'pending'
+          : 'failure',
+        url: status.target_url || undefined,
+      })));
+    },
+
+    async enqueuePullRequest(): Promise<boolean> {
+      // Gitea has no merge queue
+      return false;
+    },
+
+    async getReleaseByTag(tag: string): Promise<ForgeRelease | null> {
+      try {
+        return mapRelease(await client.request<GiteaRelease>('GET', `${repoPath}/releases/tags/${encodeURIComponent(tag)}`));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async createRelease(options: CreateReleaseOptions): Promise<ForgeRelease> {
+      return mapRelease(await client.request<GiteaRelease>('POST', `${repoPath}/releases`, {
+        tag_name: options.tag,
+        name: options.name,
+        body: options.body,
+        prerelease: options.prerelease ?? false,
+      }));
+    },
+
+    async uploadReleaseAsset(tag: string, path: string): Promise<void> {
+      const { id } = await client.request<GiteaRelease>('GET', `${repoPath}/releases/tags/${encodeURIComponent(tag)}`);
+      await client.request(
+        'POST',
+        `${repoPath}/releases/${id}/assets?name=${encodeURIComponent(basename(path))}`,
+        await fileForm('attachment', path)
+      );
+    },
+  };
+}
+
+function mapRelease(data: GiteaRelease): ForgeRelease {
+  return {
+    tag: data.tag_name,
+    name: data.name || data.tag_name,
+    url: data.html_url,
+    prerelease: data.prerelease ?? false,
+    assets: (data.assets ?? []).map(asset => asset.name),
+  };
+}
+
+function withDraft(title: string, draft: boolean): string {
+  const plain = title.replace(DRAFT_PREFIX, '');
+  return draft ? `WIP: ${plain}` : plain;
+}
+
+function mapPullRequest(data: GiteaPullRequest): PullRequest {
+  return {
+    number: data.number,
+    title: data.title.replace(DRAFT_PREFIX, ''),
+    body: data.body || '',
+    state: data.merged ? 'merged' : data.state === 'open' ? 'open' : 'closed',
+    draft: data.draft ?? DRAFT_PREFIX.test(data.title),
+    url: data.html_url,
+    html_url: data.html_url,
+    head: {
+      ref: data.head.ref,
+      sha: data.head.sha,
+    },
+    base: {
+      ref: data.base.ref,
+    },
+    merged: data.merged || false,
+    mergeable: data.mergeable ?? null,
+    updatedAt: data.updated_at ? new Date(data.updated_at) : undefined,
+  };
+}
@@ -1,51 +1,32 @@
 /**
- * GitHub adapter - DEPRECATED
+ * GitHub adapter - the GitHub implementation of ForgeAdapter (Octokit)
  * 
- * This adapter is deprecated. Use one of these alternatives instead:
+ * createGitHubAdapter is deprecated. Use one of these alternatives instead:
+ * - resolveForgeAdapter, which picks the forge from the git remote
  * - @github MCP server for AI-assisted GitHub operations
- * - `gh` CLI for command-line GitHub operations
+ * - createGhCliAdapter / `gh` CLI for command-line GitHub operations
  * - `/speclife ship` and `/speclife land` slash commands
- * 
- * The adapter remains functional for backward compatibility but will be
- * removed in a future version.
  */
 
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
 import { Octokit } from '@octokit/rest';
 import { type PullRequest } from '../types.js';
+import {
+  type ForgeAdapter,
+  type ForgeAdapterOptions,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type MergeMethod,
+  type CheckState,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+  combineChecks,
+} from './forge-adapter.js';
 
-/** @deprecated Use @github MCP or gh CLI instead */
-export interface GitHubAdapter {
-  /** @deprecated */
-  createPullRequest(options: CreatePROptions): Promise<PullRequest>;
-  /** @deprecated */
-  getPullRequest(prNumber: number): Promise<PullRequest>;
-  /** @deprecated */
-  getPullRequestByBranch(branch: string): Promise<PullRequest | null>;
-  /** @deprecated */
-  mergePullRequest(prNumber: number, mergeMethod?: 'merge' | 'squash' | 'rebase'): Promise<void>;
-  /** @deprecated */
-  updatePullRequest(prNumber: number, options: UpdatePROptions): Promise<PullRequest>;
-  /** @deprecated */
-  markPullRequestReady(prNumber: number): Promise<PullRequest>;
-  /** @deprecated */
-  isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }>;
-  /** @deprecated */
-  enableAutoMerge(prNumber: number, mergeMethod?: 'MERGE' | 'SQUASH' | 'REBASE'): Promise<boolean>;
-}
-
-interface CreatePROptions {
-  title: string;
-  body: string;
-  head: string;
-  base: string;
-  draft?: boolean;
-}
-
-interface UpdatePROptions {
-  title?: string;
-  body?: string;
-  draft?: boolean;
-}
+/** @deprecated Use ForgeAdapter */
+export type GitHubAdapter = ForgeAdapter;
 
 const DEPRECATION_WARNING = `
 ⚠️  DEPRECATION WARNING: createGitHubAdapter is deprecated.
@@ -61,7 +42,7 @@ const DEPRECATION_WARNING = `
 /**
  * Create a GitHub adapter
  * 
- * @deprecated Use @github MCP or gh CLI instead
+ * @deprecated Use resolveForgeAdapter, @github MCP or gh CLI instead
  */
 export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter {
   // Show deprecation warning once per adapter creation
@@ -76,10 +57,26 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
     );
   }
   
-  const octokit = new Octokit({ auth: token });
+  return createGitHubForgeAdapter(owner, repo, { token });
+}
+
+/**
+ * Create the GitHub forge adapter (Octokit). `apiUrl` points it at
+ * GitHub Enterprise Server.
+ */
+export function createGitHubForgeAdapter(
+  owner: string,
+  repo: string,
+  { token, apiUrl, fetch }: ForgeAdapterOptions & { token: string }
+): ForgeAdapter {
+  const octokit = new Octokit({
+    auth: token,
+    ...(apiUrl ? { baseUrl: apiUrl } : {}),
+    ...(fetch ? { request: { fetch } } : {}),
+  });
   
   return {
-    async createPullRequest(options: CreatePROptions): Promise<PullRequest> {
+    async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequest> {
       const { data } = await octokit.pulls.create({
         owner,
         repo,
@@ -118,7 +115,7 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
       return mapPullRequest(data[0]);
     },
     
-    async mergePullRequest(prNumber: number, mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash'): Promise<void> {
+    async mergePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<void> {
       await octokit.pulls.merge({
         owner,
         repo,
@@ -127,7 +124,7 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
       });
     },
     
-    async updatePullRequest(prNumber: number, options: UpdatePROptions): Promise<PullRequest> {
+    async updatePullRequest(prNumber: number, options: UpdatePullRequestOptions): Promise<PullRequest> {
       // Handle draft status separately (requires GraphQL)
       if (options.draft === false) {
         // Mark as ready for review using GraphQL
@@ -152,6 +149,7 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
       const updateData: Record<string, unknown> = {};
       if (options.title) updateData.title = options.title;
       if (options.body) updateData.body = options.body;
+      if (options.base) updateData.base = options.base;
       
       if (Object.keys(updateData).length > 0) {
         await octokit.pulls.update({
@@ -194,25 +192,10 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
         pull_number: prNumber,
       });
       
-      // GitHub's mergeable can be null when status is unknown/checking
-      if (data.mergeable === null) {
-        return { mergeable: false, reason: 'Mergeability status is being computed' };
-      }
-      
-      if (!data.mergeable) {
-        return { 
-          mergeable: false, 
-          reason: data.mergeable_state === 'dirty' ? 'Has merge conflicts' :
-                  data.mergeable_state === 'blocked' ? 'Blocked by branch protection rules' :
-                  data.mergeable_state === 'behind' ? 'Branch is behind base' :
-                  `State: ${data.mergeable_state}`
-        };
-      }
-      
-      return { mergeable: true };
+      return describeMergeability(data);
     },
     
-    async enableAutoMerge(prNumber: number, mergeMethod: 'MERGE' | 'SQUASH' | 'REBASE' = 'SQUASH'): Promise<boolean> {
+    async enableAutoMerge(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
       try {
         const { data: pr } = await octokit.pulls.get({
           owner,
@@ -228,7 +211,7 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
           }
         `, {
           pullRequestId: pr.node_id,
-          mergeMethod,
+          mergeMethod: mergeMethod.toUpperCase(),
         });
         
         return true;
@@ -237,16 +220,189 @@ export function createGitHubAdapter(owner: string, repo: string): GitHubAdapter
         return false;
       }
     },
+    
+    async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks> {
+      const { data: pr } = await octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: prNumber,
+      });
+      
+      const [{ data: status }, { data: runs }] = await Promise.all([
+        octokit.repos.getCombinedStatusForRef({ owner, repo, ref: pr.head.sha }),
+        octokit.checks.listForRef({ owner, repo, ref: pr.head.sha, per_page: 100 }),
+      ]);
+      
+      return mapChecks(status.statuses, runs.check_runs);
+    },
+    
+    // The merge queue's own merge method applies
+    async enqueuePullRequest(prNumber: number): Promise<boolean> {
+      try {
+        const { data: pr } = await octokit.pulls.get({
+          owner,
+          repo,
+          pull_number: prNumber,
+        });
+        
+        await octokit.graphql(`
+          mutation($pullRequestId: ID!) {
+            enqueuePullRequest(input: { pullRequestId: $pullRequestId }) {
+              mergeQueueEntry { id }
+            }
+          }
+        `, {
+          pullRequestId: pr.node_id,
+        });
+        
+        return true;
+      } catch {
+        // The base branch might not have a merge queue
+        return false;
+      }
+    },
+    
+    async getReleaseByTag(tag: string): Promise<ForgeRelease | null> {
+      try {
+        const { data } = await octokit.repos.getReleaseByTag({ owner, repo, tag });
+        return mapRelease(data);
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) return null;
+        throw error;
+      }
+    },
+    
+    async createRelease(options: CreateReleaseOptions): Promise<ForgeRelease> {
+      const { data } = await octokit.repos.createRelease({
+        owner,
+        repo,
+        tag_name: options.tag,
+        name: options.name,
+        body: options.body,
+        prerelease: options.prerelease ?? false,
+      });
+      return mapRelease(data);
+    },
+    
+    async uploadReleaseAsset(tag: string, path: string): Promise<void> {
+      const { data: release } = await octokit.repos.getReleaseByTag({ owner, repo, tag });
+      // upload_url is a URI template on the uploads host, which differs on GitHub Enterprise Server
+      await octokit.request({
+        method: 'POST',
+        url: release.upload_url,
+        name: basename(path),
+        data: await readFile(path),
+        headers: { 'content-type': 'application/octet-stream' },
+      });
+    },
   };
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapPullRequest(data: any): PullRequest {
+/**
+ * Explain whether a pull request can be merged, from its GitHub
+ * mergeable and mergeable_state fields
+ */
+export function describeMergeability(
+  pr: Pick<PullRequest, 'mergeable' | 'mergeable_state'>
+): { mergeable: boolean; reason?: string } {
+  // GitHub's mergeable can be null when status is unknown/checking
+  if (pr.mergeable === null || pr.mergeable === undefined) {
+    return { mergeable: false, reason: 'Mergeability status is being computed' };
+  }
+  
+  if (!pr.mergeable) {
+    return { 
+      mergeable: false, 
+      reason: pr.mergeable_state === 'dirty' ? 'Has merge conflicts' :
+              pr.mergeable_state === 'blocked' ? 'Blocked by branch protection rules' :
+              pr.mergeable_state === 'behind' ? 'Branch is behind base' :
+              `State: ${pr.mergeable_state}`
+    };
+  }
+  
+  return { mergeable: true };
+}
+
+/** Check run conclusions that do not block merging */
+const PASSING_CONCLUSIONS = ['success', 'neutral', 'skipped'];
+
+/** The fields SpecLife reads from a GitHub REST pull request (list items omit the merge fields) */
+export interface GitHubPullRequestData {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: string;
+  draft?: boolean;
+  html_url: string;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  merged?: boolean;
+  mergeable?: boolean | null;
+  mergeable_state?: string;
+  updated_at?: string;
+}
+
+/** A GitHub commit status */
+export interface GitHubCommitStatusData {
+  context: string;
+  state: string;
+  target_url?: string | null;
+}
+
+/** A GitHub check run */
+export interface GitHubCheckRunData {
+  name: string;
+  status: string;
+  conclusion?: string | null;
+  html_url?: string | null;
+  details_url?: string | null;
+}
+
+/** The fields SpecLife reads from a GitHub REST release */
+export interface GitHubReleaseData {
+  tag_name: string;
+  name?: string | null;
+  html_url: string;
+  prerelease?: boolean;
+  assets?: Array<{ name: string }>;
+}
+
+/** Map GitHub commit statuses and check runs to PullRequestChecks */
+export function mapChecks(statuses: GitHubCommitStatusData[], checkRuns: GitHubCheckRunData[]): PullRequestChecks {
+  return combineChecks([
+    ...statuses.map(status => ({
+      name: status.context,
+      state: (status.state === 'success' || status.state === 'pending' ? status.state : 'failure') as CheckState,
+      url: status.target_url ?? undefined,
+    })),
+    ...checkRuns.map(run => ({
+      name: run.name,
+      state: (run.status !== 'completed' ? 'pending'
+        : PASSING_CONCLUSIONS.includes(run.conclusion ?? '') ? 'success'
+        : 'failure') as CheckState,
+      url: run.html_url ?? run.details_url ?? undefined,
+    })),
+  ]);
+}
+
+/** Map a GitHub REST release to ForgeRelease */
+export function mapRelease(data: GitHubReleaseData): ForgeRelease {
+  return {
+    tag: data.tag_name,
+    name: data.name || data.tag_name,
+    url: data.html_url,
+    prerelease: data.prerelease ?? false,
+    assets: (data.assets ?? []).map(asset => asset.name),
+  };
+}
+
+/** Map a GitHub REST pull request to PullRequest */
+export function mapPullRequest(data: GitHubPullRequestData): PullRequest {
   return {
     number: data.number,
     title: data.title,
     body: data.body || '',
-    state: data.merged ? 'merged' : data.state,
+    state: data.merged ? 'merged' : data.state === 'open' ? 'open' : 'closed',
     draft: data.draft || false,
     url: data.html_url,
     html_url: data.html_url,
@@ -258,8 +414,8 @@ function mapPullRequest(data: any): PullRequest {
       ref: data.base.ref,
     },
     merged: data.merged || false,
-    mergeable: data.mergeable,
+    mergeable: data.mergeable ?? null,
     mergeable_state: data.mergeable_state,
+    updatedAt: data.updated_at ? new Date(data.updated_at) : undefined,
   };
 }
-
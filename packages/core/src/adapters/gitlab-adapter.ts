@@ -0,0 +1,271 @@
+/**
+ * GitLab adapter - merge requests through the GitLab REST API (v4)
+ */
+
+import { basename } from 'path';
+import { type PullRequest } from '../types.js';
+import {
+  type ForgeAdapter,
+  type ForgeAdapterOptions,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type MergeMethod,
+  type CheckState,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+  combineChecks,
+} from './forge-adapter.js';
+import { createForgeClient, isNotFound, fileForm } from './forge-http.js';
+
+/** Title prefix GitLab uses to mark draft merge requests */
+const DRAFT_PREFIX = /^(?:\[draft\]|\(draft\)|draft:)\s*/i;
+
+/** detailed_merge_status values while GitLab is still working it out */
+const PENDING_STATUSES = ['checking', 'unchecked', 'preparing'];
+
+/** detailed_merge_status values that block merging, with readable reasons */
+const BLOCKED_REASONS: Record<string, string> = {
+  conflict: 'Has merge conflicts',
+  need_rebase: 'Branch is behind base',
+  draft_status: 'Merge request is a draft',
+  ci_must_pass: 'Pipeline must succeed',
+  ci_still_running: 'Pipeline is still running',
+  not_approved: 'Approvals are required',
+  discussions_not_resolved: 'Unresolved discussions',
+  blocked_status: 'Blocked by another merge request',
+  not_open: 'Merge request is not open',
+};
+
+/** The fields SpecLife reads from a GitLab merge request */
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description?: string | null;
+  state: string;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  web_url: string;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  merge_status?: string;
+  detailed_merge_status?: string;
+  updated_at?: string;
+}
+
+/** A GitLab commit status (CI job or external status) */
+interface GitLabCommitStatus {
+  name: string;
+  status: string;
+  allow_failure?: boolean;
+  target_url?: string | null;
+}
+
+/** The fields SpecLife reads from a GitLab release */
+interface GitLabRelease {
+  tag_name: string;
+  name?: string | null;
+  _links?: { self?: string };
+  assets?: { links?: Array<{ name: string }> };
+}
+
+/**
+ * Create the GitLab forge adapter
+ * @param namespace - Group path, may be nested ("group/subgroup")
+ * @param options.apiUrl - API base URL, e.g. "https://gitlab.example.com/api/v4"
+ */
+export function createGitLabAdapter(
+  namespace: string,
+  repo: string,
+  { token, apiUrl = 'https://gitlab.com/api/v4', fetch }: ForgeAdapterOptions & { token: string }
+): ForgeAdapter {
+  const client = createForgeClient(apiUrl, { Authorization: `Bearer ${token}` }, fetch);
+  const project = `/projects/${encodeURIComponent(`${namespace}/${repo}`)}`;
+
+  const getMergeRequest = (iid: number) => client.request<GitLabMergeRequest>('GET', `${project}/merge_requests/${iid}`);
+
+  return {
+    async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequest> {
+      const data = await client.request<GitLabMergeRequest>('POST', `${project}/merge_requests`, {
+        source_branch: options.head,
+        target_branch: options.base,
+        title: withDraft(options.title, options.draft ?? false),
+        description: options.body,
+      });
+      return mapMergeRequest(data);
+    },
+
+    async getPullRequest(prNumber: number): Promise<PullRequest> {
+      return mapMergeRequest(await getMergeRequest(prNumber));
+    },
+
+    async getPullRequestByBranch(branch: string): Promise<PullRequest | null> {
+      const data = await client.request<GitLabMergeRequest[]>(
+        'GET',
+        `${project}/merge_requests?state=opened&source_branch=${encodeURIComponent(branch)}`
+      );
+      return data.length > 0 ? mapMergeRequest(data[0]) : null;
+    },
+
+    async mergePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<void> {
+      // Merge commits versus fast-forward is a project setting; only squashing is per request
+      await client.request('PUT', `${project}/merge_requests/${prNumber}/merge`, {
+        squash: mergeMethod === 'squash',
+      });
+    },
+
+    async updatePullRequest(prNumber: number, options: UpdatePullRequestOptions): Promise<PullRequest> {
+      const update: Record<string, unknown> = {};
+      if (options.body) update.description = options.body;
+      if (options.base) update.target_branch = options.base;
+      // Draft state lives in the title, so changing either needs the other
+      if (options.title || options.draft !== undefined) {
+        const current = options.title && options.draft !== undefined
+          ? null
+          : mapMergeRequest(await getMergeRequest(prNumber));
+        update.title = withDraft(options.title || current!.title, options.draft ?? current!.draft);
+      }
+
+      if (Object.keys(update).length === 0) {
+        return this.getPullRequest(prNumber);
+      }
+      return mapMergeRequest(await client.request<GitLabMergeRequest>('PUT', `${project}/merge_requests/${prNumber}`, update));
+    },
+
+    async markPullRequestReady(prNumber: number): Promise<PullRequest> {
+      return this.updatePullRequest(prNumber, { draft: false });
+    },
+
+    async isPullRequestMergeable(prNumber: number): Promise<{ mergeable: boolean; reason?: string }> {
+      const data = await getMergeRequest(prNumber);
+      const status = data.detailed_merge_status;
+
+      if (status === 'mergeable' || (!status && data.merge_status === 'can_be_merged')) {
+        return { mergeable: true };
+      }
+      if (!status || PENDING_STATUSES.includes(status)) {
+        return { mergeable: false, reason: 'Mergeability status is being computed' };
+      }
+      return { mergeable: false, reason: BLOCKED_REASONS[status] ?? `State: ${status}` };
+    },
+
+    async enableAutoMerge(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
+      try {
+        await client.request('PUT', `${project}/merge_requests/${prNumber}/merge`, {
+          squash: mergeMethod === 'squash',
+          merge_when_pipeline_succeeds: true,
+        });
+        return true;
+      } catch {
+        // No pipeline configured, or the project does not allow it
+        return false;
+      }
+    },
+
+    async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks> {
+      const { sha } = await getMergeRequest(prNumber);
+      // Commit statuses cover both GitLab CI jobs and external CI
+      const statuses = await client.request<GitLabCommitStatus[]>('GET', `${project}/repository/commits/${sha}/statuses?per_page=100`);
+      return combineChecks(statuses.map(status => ({
+        name: status.name,
+        state: statusState(status),
+        url: status.target_url ?? undefined,
+      })));
+    },
+
+    async enqueuePullRequest(prNumber: number, mergeMethod: MergeMethod = 'squash'): Promise<boolean> {
+      try {
+        await client.request('POST', `${project}/merge_trains/merge_requests/${prNumber}`, {
+          squash: mergeMethod === 'squash',
+          when_pipeline_succeeds: true,
+        });
+        return true;
+      } catch {
+        // Merge trains need GitLab Premium and must be enabled for the project
+        return false;
+      }
+    },
+
+    async getReleaseByTag(tag: string): Promise<ForgeRelease | null> {
+      try {
+        return mapRelease(await client.request<GitLabRelease>('GET', `${project}/releases/${encodeURIComponent(tag)}`));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    // GitLab has no prerelease flag
+    async createRelease(options: CreateReleaseOptions): Promise<ForgeRelease> {
+      return mapRelease(await client.request<GitLabRelease>('POST', `${project}/releases`, {
+        tag_name: options.tag,
+        name: options.name,
+        description: options.body,
+      }));
+    },
+
+    async uploadReleaseAsset(tag: string, path: string): Promise<void> {
+      // Release assets are links, so upload the file to the project first
+      const upload = await client.request<{ full_path: string }>('POST', `${project}/uploads`, await fileForm('file', path));
+      await client.request('POST', `${project}/releases/${encodeURIComponent(tag)}/assets/links`, {
+        name: basename(path),
+        url: new URL(upload.full_path, apiUrl).href,
+      });
+    },
+  };
+}
+
+function statusState(status: GitLabCommitStatus): CheckState {
+  switch (status.status) {
+    case 'success':
+    case 'skipped':
+    case 'manual':
+      return 'success';
+    case 'failed':
+      return status.allow_failure ? 'success' : 'failure';
+    case 'canceled':
+      return 'failure';
+    default:
+      return 'pending';
+  }
+}
+
+function mapRelease(data: GitLabRelease): ForgeRelease {
+  return {
+    tag: data.tag_name,
+    name: data.name ?? data.tag_name,
+    url: data._links?.self ?? '',
+    prerelease: false,
+    assets: (data.assets?.links ?? []).map(link => link.name),
+  };
+}
+
+function withDraft(title: string, draft: boolean): string {
+  const plain = title.replace(DRAFT_PREFIX, '');
+  return draft ? `Draft: ${plain}` : plain;
+}
+
+function mapMergeRequest(data: GitLabMergeRequest): PullRequest {
+  const status = data.detailed_merge_status;
+  return {
+    number: data.iid,
+    title: data.title.replace(DRAFT_PREFIX, ''),
+    body: data.description || '',
+    state: data.state === 'opened' ? 'open' : data.state === 'merged' ? 'merged' : 'closed',
+    draft: data.draft ?? data.work_in_progress ?? DRAFT_PREFIX.test(data.title),
+    url: data.web_url,
+    html_url: data.web_url,
+    head: {
+      ref: data.source_branch,
+      sha: data.sha,
+    },
+    base: {
+      ref: data.target_branch,
+    },
+    merged: data.state === 'merged',
+    mergeable: status === 'mergeable' ? true : !status || PENDING_STATUSES.includes(status) ? null : false,
+    mergeable_state: status,
+    updatedAt: data.updated_at ? new Date(data.updated_at) : undefined,
+  };
+}
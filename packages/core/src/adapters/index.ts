@@ -2,12 +2,43 @@
  * Adapters for external services
  * 
  * DEPRECATION NOTES:
- * - GitHub adapter: Use @github MCP or gh CLI instead
+ * - createGitHubAdapter: Use resolveForgeAdapter, @github MCP or gh CLI instead
  * - AI adapters: Removed - the agent IS the AI, use slash commands
  */
 
-export { createGitAdapter, type GitAdapter } from './git-adapter.js';
-export { createOpenSpecAdapter, type OpenSpecAdapter } from './openspec-adapter.js';
+export { createGitAdapter, type GitAdapter, type GitHistoryOptions } from './git-adapter.js';
+export { createOpenSpecAdapter, type OpenSpecAdapter, type ArchiveResult, type ChangeSpecDelta } from './openspec-adapter.js';
+
+// Forge adapters (pull/merge requests on GitHub, GitLab, Gitea)
+export {
+  type ForgeAdapter,
+  type ForgeAdapterOptions,
+  type ForgeKind,
+  type ForgeRemote,
+  type MergeMethod,
+  type CreatePullRequestOptions,
+  type UpdatePullRequestOptions,
+  type CheckState,
+  type CheckResult,
+  type PullRequestChecks,
+  type ForgeRelease,
+  type CreateReleaseOptions,
+  FORGE_TOKEN_VARIABLES,
+  combineChecks,
+  parseForgeRemote,
+  detectForgeKind,
+  createForgeAdapter,
+  resolveForgeAdapter,
+} from './forge-adapter.js';
+export { createGitHubForgeAdapter } from './github-adapter.js';
+export { createGhCliAdapter, type GhCliAdapterOptions } from './gh-cli-adapter.js';
+export { createGitLabAdapter } from './gitlab-adapter.js';
+export { createGiteaAdapter } from './gitea-adapter.js';
+export {
+  createFakeForgeAdapter,
+  type FakeForgeAdapter,
+  type FakeForgeOptions,
+} from './fake-forge-adapter.js';
 
 // GitHub adapter (deprecated but kept for backward compatibility)
 export { createGitHubAdapter, type GitHubAdapter } from './github-adapter.js';
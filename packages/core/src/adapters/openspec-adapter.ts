@@ -2,14 +2,43 @@
  * OpenSpec adapter for spec file operations
  */
 
-import { readFile, writeFile, mkdir, readdir, rename, access } from 'fs/promises';
-import { join } from 'path';
-import { type Change, type ChangeProposal, type ChangeTask, SpecLifeError, ErrorCodes } from '../types.js';
+import { readFile, writeFile, mkdir, readdir, rename, access, stat } from 'fs/promises';
+import { join, relative, dirname, sep } from 'path';
+import {
+  type ArchivedChange,
+  type Change,
+  type ChangeMetadata,
+  type ChangeProposal,
+  type ChangeTask,
+  type ValidationReport,
+  SpecLifeError,
+  ErrorCodes,
+} from '../types.js';
+import { createBranchNaming, type BranchNaming } from '../utils/branch-naming.js';
+import { validateChange } from '../utils/validation.js';
+import { parseImpact } from '../utils/impact.js';
+import { parseDependsOn } from '../utils/dependencies.js';
+import {
+  applySpecDeltas,
+  findDeltaFiles,
+  parseSpecDelta,
+  type SpecDelta,
+  type SpecUpdate,
+} from '../utils/spec-delta.js';
+import {
+  parseTasksDocument,
+  formatTasksDocument,
+  applyTaskList,
+  type TasksDocument,
+} from '../utils/tasks-document.js';
+
+/** File name for SpecLife metadata inside a change directory */
+export const METADATA_FILE = '.speclife.json';
 
 /** OpenSpec operations interface */
 export interface OpenSpecAdapter {
-  /** Scaffold a new change with proposal and tasks */
-  scaffoldChange(changeId: string, options?: { description?: string }): Promise<{
+  /** Scaffold a new change with proposal and tasks (templates unless content is given) */
+  scaffoldChange(changeId: string, options?: { description?: string; proposal?: string; tasks?: string }): Promise<{
     proposalPath: string;
     tasksPath: string;
   }>;
@@ -20,17 +49,72 @@ export interface OpenSpecAdapter {
   /** Read raw proposal.md content */
   readProposal(changeId: string): Promise<string>;
   
-  /** List all active changes (excluding archive) */
+  /** List all active changes (excluding archive and directories without a proposal) */
   listChanges(): Promise<string[]>;
   
-  /** Check if a change exists */
+  /** Check if a change exists (has a proposal) */
   changeExists(changeId: string): Promise<boolean>;
   
-  /** Archive a completed change */
-  archiveChange(changeId: string): Promise<void>;
+  /**
+   * Archive a completed change, first applying its spec deltas to the canonical specs
+   * @throws SpecLifeError with SPEC_CONFLICT if a delta does not apply (nothing is changed)
+   */
+  archiveChange(changeId: string, options?: { skipSpecs?: boolean }): Promise<ArchiveResult>;
   
-  /** Update tasks.md with completed tasks */
+  /**
+   * Update tasks.md to match a task list, editing checkboxes and lines in
+   * place so section headers, notes and subtasks are preserved
+   */
   updateTasks(changeId: string, tasks: ChangeTask[]): Promise<void>;
+  
+  /**
+   * Read a change's tasks.md as an editable document (active or archived change)
+   * @throws SpecLifeError with CHANGE_NOT_FOUND if the change does not exist
+   */
+  readTasks(changeId: string): Promise<TasksDocument>;
+  
+  /**
+   * Apply an edit to a change's tasks.md and write the result (active or archived change)
+   * @returns The updated document
+   * @throws SpecLifeError with CHANGE_NOT_FOUND if the change does not exist
+   */
+  editTasks(changeId: string, edit: (document: TasksDocument) => TasksDocument): Promise<TasksDocument>;
+  
+  /** Read and parse a change's spec deltas, ordered by capability */
+  readSpecDeltas(changeId: string): Promise<ChangeSpecDelta[]>;
+  
+  /** Find an archived change's directory (null if not archived) */
+  findArchivedChange(changeId: string): Promise<string | null>;
+  
+  /** List archived changes with their proposals, oldest first */
+  listArchivedChanges(): Promise<ArchivedChange[]>;
+  
+  /** All directories a change has lived at (active path, plus archive path if archived) */
+  getChangePaths(changeId: string): Promise<string[]>;
+  
+  /** Read persisted SpecLife metadata (active or archived change) */
+  readMetadata(changeId: string): Promise<ChangeMetadata | null>;
+  
+  /** Persist SpecLife metadata next to the change's proposal */
+  writeMetadata(changeId: string, metadata: ChangeMetadata): Promise<void>;
+  
+  /** Validate a change's proposal, tasks and spec deltas */
+  validateChange(changeId: string, options?: { checkTaskCompletion?: boolean; changedFiles?: string[] }): Promise<ValidationReport>;
+}
+
+/** Result of archiving a change */
+export interface ArchiveResult {
+  /** Archive directory the change was moved to */
+  archivePath: string;
+  /** Canonical specs updated from the change's deltas */
+  specUpdates: SpecUpdate[];
+}
+
+/** A parsed spec delta of a change */
+export interface ChangeSpecDelta {
+  /** Capability the delta applies to (its directory under specs/) */
+  capability: string;
+  delta: SpecDelta;
 }
 
 interface OpenSpecAdapterOptions {
@@ -38,21 +122,85 @@ interface OpenSpecAdapterOptions {
   projectRoot: string;
   /** OpenSpec directory name (default: "openspec") */
   specDir?: string;
+  /** Resolves change branch names (default: "spec/<changeId>") */
+  branchNaming?: BranchNaming;
 }
 
 /**
  * Create an OpenSpec adapter
  */
 export function createOpenSpecAdapter(options: OpenSpecAdapterOptions): OpenSpecAdapter {
-  const { projectRoot, specDir = 'openspec' } = options;
+  const { projectRoot, specDir = 'openspec', branchNaming = createBranchNaming() } = options;
   const changesDir = join(projectRoot, specDir, 'changes');
+  const archiveDir = join(changesDir, 'archive');
+  
+  async function findArchivedChange(changeId: string): Promise<string | null> {
+    if (!await fileExists(archiveDir)) {
+      return null;
+    }
+    
+    // Archive entries are named YYYY-MM-DD-<changeId>; prefer the latest
+    const entries = await readdir(archiveDir, { withFileTypes: true });
+    const matches = entries
+      .filter(e => e.isDirectory() && e.name.replace(/^\d{4}-\d{2}-\d{2}-/, '') === changeId)
+      .map(e => e.name)
+      .sort();
+    
+    return matches.length > 0 ? join(archiveDir, matches[matches.length - 1]) : null;
+  }
+  
+  /** Resolve a change's directory, falling back to the archive */
+  async function resolveChangeDir(changeId: string): Promise<string | null> {
+    const changeDir = join(changesDir, changeId);
+    if (await fileExists(changeDir)) {
+      return changeDir;
+    }
+    return findArchivedChange(changeId);
+  }
+  
+  /** The change's branch; read paths must not fail when the pattern's {user} is unknown */
+  function branchFor(changeId: string): string | undefined {
+    try {
+      return branchNaming.branchFor(changeId);
+    } catch {
+      return undefined;
+    }
+  }
+  
+  async function readMetadata(changeId: string): Promise<ChangeMetadata | null> {
+    const changeDir = await resolveChangeDir(changeId);
+    if (!changeDir) {
+      return null;
+    }
+    
+    try {
+      const content = await readFile(join(changeDir, METADATA_FILE), 'utf-8');
+      return parseMetadata(content);
+    } catch {
+      return null;
+    }
+  }
+  
+  async function readTasks(changeId: string): Promise<TasksDocument> {
+    const changeDir = await resolveChangeDir(changeId);
+    if (!changeDir) {
+      throw new SpecLifeError(
+        ErrorCodes.CHANGE_NOT_FOUND,
+        `Change '${changeId}' not found`,
+        { changeId }
+      );
+    }
+    
+    const tasksPath = join(changeDir, 'tasks.md');
+    return parseTasksDocument(await fileExists(tasksPath) ? await readFile(tasksPath, 'utf-8') : '');
+  }
   
   return {
     async scaffoldChange(changeId: string, opts = {}): Promise<{ proposalPath: string; tasksPath: string }> {
       const changeDir = join(changesDir, changeId);
       
-      // Check if already exists
-      if (await fileExists(changeDir)) {
+      // Check if already exists (a directory holding only metadata is not a change yet)
+      if (await fileExists(join(changeDir, 'proposal.md'))) {
         throw new SpecLifeError(
           ErrorCodes.CHANGE_EXISTS,
           `Change '${changeId}' already exists`,
@@ -64,12 +212,12 @@ export function createOpenSpecAdapter(options: OpenSpecAdapterOptions): OpenSpec
       await mkdir(changeDir, { recursive: true });
       
       // Generate proposal content
-      const proposalContent = generateProposal(changeId, opts.description);
+      const proposalContent = opts.proposal ?? generateProposal(changeId, opts.description);
       const proposalPath = join(changeDir, 'proposal.md');
       await writeFile(proposalPath, proposalContent, 'utf-8');
       
       // Generate tasks content
-      const tasksContent = generateTasks();
+      const tasksContent = opts.tasks ?? generateTasks();
       const tasksPath = join(changeDir, 'tasks.md');
       await writeFile(tasksPath, tasksContent, 'utf-8');
       
@@ -77,9 +225,9 @@ export function createOpenSpecAdapter(options: OpenSpecAdapterOptions): OpenSpec
     },
     
     async readChange(changeId: string): Promise<Change> {
-      const changeDir = join(changesDir, changeId);
+      const changeDir = await resolveChangeDir(changeId);
       
-      if (!await fileExists(changeDir)) {
+      if (!changeDir) {
         throw new SpecLifeError(
           ErrorCodes.CHANGE_NOT_FOUND,
           `Change '${changeId}' not found`,
@@ -104,14 +252,20 @@ export function createOpenSpecAdapter(options: OpenSpecAdapterOptions): OpenSpec
         design = await readFile(designPath, 'utf-8');
       }
       
+      const metadata = await readMetadata(changeId);
+      const createdAt = metadata?.transitions[0]?.at ?? await getCreationTime(changeDir);
+      const dependsOn = [...new Set([...parseDependsOn(proposalContent), ...metadata?.dependsOn ?? []])];
+      
       return {
         id: changeId,
-        branch: `spec/${changeId}`,
-        state: 'created', // TODO: Detect actual state
+        branch: metadata?.branch ?? branchFor(changeId),
+        state: metadata?.state ?? 'created',
         proposal,
         tasks,
         design,
-        createdAt: new Date(), // TODO: Get from git or file stat
+        createdAt,
+        stateHistory: metadata?.transitions,
+        dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
       };
     },
     
@@ -135,30 +289,133 @@ export function createOpenSpecAdapter(options: OpenSpecAdapterOptions): OpenSpec
       }
       
       const entries = await readdir(changesDir, { withFileTypes: true });
-      return entries
+      const ids = entries
         .filter(e => e.isDirectory() && e.name !== 'archive')
         .map(e => e.name);
+      const proposed = await Promise.all(ids.map(id => fileExists(join(changesDir, id, 'proposal.md'))));
+      return ids.filter((_, i) => proposed[i]);
     },
     
     async changeExists(changeId: string): Promise<boolean> {
-      const changeDir = join(changesDir, changeId);
-      return fileExists(changeDir);
+      return fileExists(join(changesDir, changeId, 'proposal.md'));
     },
     
-    async archiveChange(changeId: string): Promise<void> {
+    async archiveChange(changeId: string, opts = {}): Promise<ArchiveResult> {
       const changeDir = join(changesDir, changeId);
-      const archiveDir = join(changesDir, 'archive');
       const date = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
       const archivePath = join(archiveDir, `${date}-${changeId}`);
       
+      if (!await fileExists(changeDir)) {
+        throw new SpecLifeError(
+          ErrorCodes.CHANGE_NOT_FOUND,
+          `Change '${changeId}' not found`,
+          { changeId }
+        );
+      }
+      
+      let specUpdates: SpecUpdate[] = [];
+      if (!opts.skipSpecs) {
+        const result = await applySpecDeltas({ projectRoot, specDir, changeId });
+        if (result.conflicts.length > 0) {
+          throw new SpecLifeError(
+            ErrorCodes.SPEC_CONFLICT,
+            `Spec deltas for '${changeId}' conflict with ${specDir}/specs:\n` +
+              result.conflicts.map(c => `  ${c.file}:${c.line}: ${c.message}`).join('\n'),
+            { changeId, conflicts: result.conflicts }
+          );
+        }
+        specUpdates = result.updates;
+      }
+      
       await mkdir(archiveDir, { recursive: true });
       await rename(changeDir, archivePath);
+      
+      return { archivePath, specUpdates };
     },
     
     async updateTasks(changeId: string, tasks: ChangeTask[]): Promise<void> {
       const tasksPath = join(changesDir, changeId, 'tasks.md');
-      const content = formatTasks(tasks);
-      await writeFile(tasksPath, content, 'utf-8');
+      const existing = await fileExists(tasksPath) ? await readFile(tasksPath, 'utf-8') : '';
+      const document = applyTaskList(parseTasksDocument(existing), tasks);
+      await writeFile(tasksPath, formatTasksDocument(document), 'utf-8');
+    },
+    
+    readTasks,
+    
+    async editTasks(changeId: string, edit: (document: TasksDocument) => TasksDocument): Promise<TasksDocument> {
+      const document = await readTasks(changeId);
+      const updated = edit(document);
+      if (updated !== document) {
+        const changeDir = await resolveChangeDir(changeId);
+        await writeFile(join(changeDir!, 'tasks.md'), formatTasksDocument(updated), 'utf-8');
+      }
+      return updated;
+    },
+    
+    findArchivedChange,
+    
+    async listArchivedChanges(): Promise<ArchivedChange[]> {
+      if (!await fileExists(archiveDir)) {
+        return [];
+      }
+      
+      const entries = await readdir(archiveDir, { withFileTypes: true });
+      const archived: ArchivedChange[] = [];
+      
+      for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        const match = entry.name.match(/^(\d{4}-\d{2}-\d{2})-(.+)$/);
+        if (!match) continue;
+        
+        const path = join(archiveDir, entry.name);
+        let proposal: ChangeProposal;
+        try {
+          proposal = parseProposal(await readFile(join(path, 'proposal.md'), 'utf-8'));
+        } catch {
+          proposal = { why: '', whatChanges: [], impact: { affectedSpecs: [], affectedCode: [] } };
+        }
+        
+        archived.push({ id: match[2], archivedOn: match[1], path, proposal });
+      }
+      
+      return archived;
+    },
+    
+    async getChangePaths(changeId: string): Promise<string[]> {
+      const archived = await findArchivedChange(changeId);
+      const activePath = join(changesDir, changeId);
+      return archived ? [activePath, archived] : [activePath];
+    },
+    
+    readMetadata,
+    
+    async writeMetadata(changeId: string, metadata: ChangeMetadata): Promise<void> {
+      const changeDir = await resolveChangeDir(changeId);
+      
+      if (!changeDir) {
+        throw new SpecLifeError(
+          ErrorCodes.CHANGE_NOT_FOUND,
+          `Change '${changeId}' not found`,
+          { changeId }
+        );
+      }
+      
+      await writeFile(join(changeDir, METADATA_FILE), formatMetadata(metadata), 'utf-8');
+    },
+    
+    async readSpecDeltas(changeId: string): Promise<ChangeSpecDelta[]> {
+      const deltasDir = join(changesDir, changeId, 'specs');
+      const deltas: ChangeSpecDelta[] = [];
+      for (const path of await findDeltaFiles(deltasDir)) {
+        deltas.push({
+          capability: relative(deltasDir, dirname(path)).split(sep).join('/'),
+          delta: parseSpecDelta(await readFile(path, 'utf-8')),
+        });
+      }
+      return deltas;
+    },
+    
+    async validateChange(changeId: string, opts = {}): Promise<ValidationReport> {
+      return validateChange({ projectRoot, specDir, changeId, ...opts });
     },
   };
 }
@@ -174,6 +431,29 @@ async function fileExists(path: string): Promise<boolean> {
   }
 }
 
+async function getCreationTime(path: string): Promise<Date> {
+  const stats = await stat(path);
+  // birthtime is unsupported (epoch) on some filesystems
+  return stats.birthtime.getTime() > 0 ? stats.birthtime : stats.mtime;
+}
+
+function parseMetadata(content: string): ChangeMetadata {
+  const raw = JSON.parse(content) as {
+    state: ChangeMetadata['state'];
+    transitions?: Array<{ from: ChangeMetadata['state'] | null; to: ChangeMetadata['state']; at: string }>;
+  };
+  
+  return {
+    ...raw,
+    state: raw.state,
+    transitions: (raw.transitions ?? []).map(t => ({ from: t.from, to: t.to, at: new Date(t.at) })),
+  };
+}
+
+function formatMetadata(metadata: ChangeMetadata): string {
+  return JSON.stringify(metadata, null, 2) + '\n';
+}
+
 function generateProposal(_changeId: string, description?: string): string {
   return `## Why
 ${description ?? '[Describe the problem or opportunity]'}
@@ -210,63 +490,16 @@ function parseProposal(content: string): ChangeProposal {
     .filter(line => line.startsWith('-'))
     .map(line => line.slice(1).trim());
   
-  const impactSection = impactMatch?.[1] ?? '';
-  const affectedSpecs = extractListItems(impactSection, 'Affected specs:');
-  const affectedCode = extractListItems(impactSection, 'Affected code:');
-  
   return {
     why,
     whatChanges,
-    impact: { affectedSpecs, affectedCode },
+    impact: parseImpact(impactMatch?.[1] ?? ''),
   };
 }
 
-function extractListItems(content: string, prefix: string): string[] {
-  const match = content.match(new RegExp(`${prefix}\\s*(.+?)(?=\\n|$)`));
-  if (!match) return [];
-  return match[1].split(',').map(s => s.trim()).filter(Boolean);
-}
-
 function parseTasks(content: string): ChangeTask[] {
-  const tasks: ChangeTask[] = [];
-  const lines = content.split('\n');
-  
-  for (const line of lines) {
-    const match = line.match(/^- \[([ x])\] (\d+\.\d+)\s+(.+)$/);
-    if (match) {
-      tasks.push({
-        id: match[2],
-        content: match[3],
-        completed: match[1] === 'x',
-      });
-    }
-  }
-  
-  return tasks;
-}
-
-function formatTasks(tasks: ChangeTask[]): string {
-  // Group by section (1.x, 2.x, etc.)
-  const sections = new Map<string, ChangeTask[]>();
-  
-  for (const task of tasks) {
-    const section = task.id.split('.')[0];
-    if (!sections.has(section)) {
-      sections.set(section, []);
-    }
-    sections.get(section)!.push(task);
-  }
-  
-  let content = '';
-  for (const [section, sectionTasks] of sections) {
-    content += `## ${section}. Tasks\n`;
-    for (const task of sectionTasks) {
-      const checkbox = task.completed ? '[x]' : '[ ]';
-      content += `- ${checkbox} ${task.id} ${task.content}\n`;
-    }
-    content += '\n';
-  }
-  
-  return content.trim() + '\n';
+  return parseTasksDocument(content).tasks.map(({ id, content, completed, parentId }) =>
+    parentId ? { id, content, completed, parentId } : { id, content, completed }
+  );
 }
 
@@ -19,6 +19,12 @@ export class BashGenerator implements CompletionGenerator {
       '  COMPREPLY=($(compgen -W "$changes" -- "${COMP_WORDS[COMP_CWORD]}"))',
       '}',
       '',
+      '_speclife_complete_task_id() {',
+      '  local tasks',
+      '  tasks=$(speclife task list --json 2>/dev/null | grep -o \'"id": *"[^"]*"\' | cut -d\'"\' -f4)',
+      '  COMPREPLY=($(compgen -W "$tasks" -- "${COMP_WORDS[COMP_CWORD]}"))',
+      '}',
+      '',
       '_speclife_complete_config_key() {',
       `  local keys="${getConfigKeys().join(' ')}"`,
       '  COMPREPLY=($(compgen -W "$keys" -- "${COMP_WORDS[COMP_CWORD]}"))',
@@ -125,6 +131,9 @@ speclife completion bash | sudo tee /etc/bash_completion.d/speclife`;
       if (arg.completion === 'change-id') {
         lines.push(`${pad}_speclife_complete_change_id`);
         break;
+      } else if (arg.completion === 'task-id') {
+        lines.push(`${pad}_speclife_complete_task_id`);
+        break;
       } else if (arg.completion === 'config-key') {
         lines.push(`${pad}_speclife_complete_config_key`);
         break;
@@ -150,6 +159,8 @@ speclife completion bash | sudo tee /etc/bash_completion.d/speclife`;
       return [`${pad}COMPREPLY=($(compgen -W "${opt.staticValues.join(' ')}" -- "$cur"))`];
     } else if (opt.valueCompletion === 'change-id') {
       return [`${pad}_speclife_complete_change_id`];
+    } else if (opt.valueCompletion === 'task-id') {
+      return [`${pad}_speclife_complete_task_id`];
     } else if (opt.valueCompletion === 'config-key') {
       return [`${pad}_speclife_complete_config_key`];
     } else if (opt.valueCompletion === 'file') {
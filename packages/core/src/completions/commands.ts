@@ -2,7 +2,13 @@
  * Command definitions for completion generation
  */
 
-import type { CommandDef } from './types.js';
+import type { CommandDef, OptionDef } from './types.js';
+
+/** Options shared by the task subcommands */
+const TASK_OPTIONS: OptionDef[] = [
+  { long: '--change', short: '-c', description: 'Change ID (default: current branch)', takesValue: true, valueCompletion: 'change-id' },
+  { long: '--json', description: 'Output as JSON' },
+];
 
 /**
  * Get all speclife command definitions
@@ -27,6 +33,15 @@ export function getCommandDefinitions(): CommandDef[] {
           args: [{ name: 'change-id', completion: 'none' }],
           options: [
             { long: '--skip-bootstrap', description: 'Skip environment bootstrapping' },
+            { long: '--depends-on', description: 'Branch from another change\'s branch', takesValue: true, valueCompletion: 'change-id' },
+          ],
+        },
+        {
+          name: 'convert',
+          args: [{ name: 'mode', completion: 'static', staticValues: ['worktree', 'branch'] }],
+          options: [
+            { long: '--change', short: '-c', description: 'Change ID (default: current branch)', takesValue: true, valueCompletion: 'change-id' },
+            { long: '--skip-bootstrap', description: 'Skip environment bootstrapping' },
           ],
         },
         {
@@ -51,6 +66,37 @@ export function getCommandDefinitions(): CommandDef[] {
         { long: '--json', description: 'Output as JSON' },
       ],
     },
+    {
+      name: 'sync',
+      options: [
+        { long: '--merge', description: 'Merge instead of rebasing' },
+        { long: '--abort', description: 'Abort a sync stopped at conflicts' },
+        { long: '--continue', description: 'Continue once conflicts are resolved' },
+        { long: '--all', description: 'Sync every change worktree' },
+        { long: '--no-push', description: 'Do not push synced branches' },
+        { long: '--json', description: 'Output as JSON' },
+      ],
+    },
+    {
+      name: 'retrofit',
+      args: [{ name: 'change-id', completion: 'none' }],
+      options: [
+        { long: '--description', short: '-d', description: 'Why the work was done', takesValue: true },
+        { long: '--dry-run', description: 'Show the plan without changing anything' },
+        { long: '--json', description: 'Output as JSON' },
+      ],
+    },
+    {
+      name: 'publish',
+      args: [{ name: 'version', completion: 'none', optional: true }],
+      options: [
+        { long: '--notes-file', description: 'Release notes file', takesValue: true, valueCompletion: 'file' },
+        { long: '--artifact', short: '-a', description: 'Files to attach to the release', takesValue: true, valueCompletion: 'file' },
+        { long: '--remote', description: 'Remote to push the tag to', takesValue: true },
+        { long: '--dry-run', description: 'Show what would be published without changing anything' },
+        { long: '--json', description: 'Output as JSON' },
+      ],
+    },
     {
       name: 'list',
       options: [
@@ -90,6 +136,51 @@ export function getCommandDefinitions(): CommandDef[] {
         { long: '--strict', description: 'Fail on warnings' },
       ],
     },
+    {
+      name: 'branch',
+      args: [{ name: 'change-id', completion: 'change-id', optional: true }],
+      options: [
+        { long: '--resolve', description: 'Print the change ID for a branch', takesValue: true },
+      ],
+    },
+    {
+      name: 'task',
+      subcommands: [
+        { name: 'next', options: TASK_OPTIONS },
+        {
+          name: 'list',
+          options: [
+            ...TASK_OPTIONS,
+            { long: '--pending', description: 'Only show pending tasks' },
+            { long: '--done', description: 'Only show completed tasks' },
+          ],
+        },
+        { name: 'done', args: [{ name: 'task-id', completion: 'task-id' }], options: TASK_OPTIONS },
+        { name: 'undo', args: [{ name: 'task-id', completion: 'task-id' }], options: TASK_OPTIONS },
+        {
+          name: 'add',
+          args: [{ name: 'description', completion: 'none' }],
+          options: [
+            ...TASK_OPTIONS,
+            { long: '--section', description: 'Section number to add the task to', takesValue: true },
+            { long: '--parent', description: 'Add as a subtask of this task', takesValue: true, valueCompletion: 'task-id' },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'pr',
+      subcommands: [
+        {
+          name: 'sync',
+          args: [{ name: 'change-id', completion: 'change-id', optional: true }],
+          options: [
+            { long: '--pr', description: 'Pull request number', takesValue: true },
+            { long: '--json', description: 'Output as JSON' },
+          ],
+        },
+      ],
+    },
     {
       name: 'update',
       options: [
@@ -21,6 +21,10 @@ export class FishGenerator implements CompletionGenerator {
       '  speclife list --json 2>/dev/null | string match -r \'"id":"[^"]*"\' | string replace -r \'"id":"([^"]*)"\' \'$1\'',
       'end',
       '',
+      'function __speclife_task_ids',
+      '  speclife task list --json 2>/dev/null | string match -r \'"id": *"[^"]*"\' | string replace -r \'"id": *"([^"]*)"\' \'$1\'',
+      'end',
+      '',
       'function __speclife_config_keys',
       `  echo "${getConfigKeys().join('\\n')}"`,
       'end',
@@ -63,6 +67,7 @@ speclife completion fish > ~/.config/fish/completions/speclife.fish`;
       completion: 'Generate shell completions',
       config: 'Manage configuration',
       validate: 'Validate change spec',
+      task: 'Query and check off tasks',
       update: 'Update managed files',
       version: 'Show version',
     };
@@ -102,6 +107,13 @@ speclife completion fish > ~/.config/fish/completions/speclife.fish`;
         rm: 'Remove a worktree',
         list: 'List all worktrees',
       },
+      task: {
+        next: 'Show the next pending task',
+        list: 'List tasks with progress',
+        done: 'Check off a task',
+        undo: 'Uncheck a task',
+        add: 'Add a task',
+      },
       config: {
         path: 'Show config file path',
         list: 'List all config values',
@@ -136,6 +148,8 @@ speclife completion fish > ~/.config/fish/completions/speclife.fish`;
           completion += ` -a "${opt.staticValues.join(' ')}"`;
         } else if (opt.valueCompletion === 'change-id') {
           completion += ' -a "(__speclife_change_ids)"';
+        } else if (opt.valueCompletion === 'task-id') {
+          completion += ' -a "(__speclife_task_ids)"';
         } else if (opt.valueCompletion === 'config-key') {
           completion += ' -a "(__speclife_config_keys)"';
         }
@@ -153,6 +167,8 @@ speclife completion fish > ~/.config/fish/completions/speclife.fish`;
     for (const arg of cmd.args ?? []) {
       if (arg.completion === 'change-id') {
         lines.push(`complete -c speclife -n "${condition}" -a "(__speclife_change_ids)"`);
+      } else if (arg.completion === 'task-id') {
+        lines.push(`complete -c speclife -n "${condition}" -a "(__speclife_task_ids)"`);
       } else if (arg.completion === 'config-key') {
         lines.push(`complete -c speclife -n "${condition}" -a "(__speclife_config_keys)"`);
       } else if (arg.completion === 'static' && arg.staticValues) {
@@ -11,6 +11,7 @@ export type CompletionType =
   | 'file'           // File path completion
   | 'directory'      // Directory path completion
   | 'change-id'      // Change ID completion (dynamic)
+  | 'task-id'        // Task ID completion for the current change (dynamic)
   | 'shell'          // Shell name (bash, zsh, fish)
   | 'editor'         // Editor ID completion
   | 'config-key'     // Config key completion
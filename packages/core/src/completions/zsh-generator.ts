@@ -20,6 +20,12 @@ export class ZshGenerator implements CompletionGenerator {
       '  _describe "change" changes',
       '}',
       '',
+      '_speclife_task_ids() {',
+      '  local tasks',
+      '  tasks=($(speclife task list --json 2>/dev/null | grep -o \'"id": *"[^"]*"\' | cut -d\'"\' -f4))',
+      '  _describe "task" tasks',
+      '}',
+      '',
       '_speclife_config_keys() {',
       `  local keys=(${getConfigKeys().join(' ')})`,
       '  _describe "config key" keys',
@@ -78,6 +84,7 @@ speclife completion zsh > ~/.zsh/completions/_speclife
       completion: 'Generate shell completions',
       config: 'Manage configuration',
       validate: 'Validate change spec',
+      task: 'Query and check off tasks',
       update: 'Update managed files',
       version: 'Show version',
     };
@@ -131,6 +138,13 @@ speclife completion zsh > ~/.zsh/completions/_speclife
         rm: 'Remove a worktree',
         list: 'List all worktrees',
       },
+      task: {
+        next: 'Show the next pending task',
+        list: 'List tasks with progress',
+        done: 'Check off a task',
+        undo: 'Uncheck a task',
+        add: 'Add a task',
+      },
       config: {
         path: 'Show config file path',
         list: 'List all config values',
@@ -187,6 +201,8 @@ speclife completion zsh > ~/.zsh/completions/_speclife
       return `(${opt.staticValues.join(' ')})`;
     } else if (opt.valueCompletion === 'change-id') {
       return '_speclife_change_ids';
+    } else if (opt.valueCompletion === 'task-id') {
+      return '_speclife_task_ids';
     } else if (opt.valueCompletion === 'config-key') {
       return '_speclife_config_keys';
     } else if (opt.valueCompletion === 'file') {
@@ -202,6 +218,8 @@ speclife completion zsh > ~/.zsh/completions/_speclife
       return `(${arg.staticValues.join(' ')})`;
     } else if (arg.completion === 'change-id') {
       return '_speclife_change_ids';
+    } else if (arg.completion === 'task-id') {
+      return '_speclife_task_ids';
     } else if (arg.completion === 'config-key') {
       return '_speclife_config_keys';
     } else if (arg.completion === 'file') {
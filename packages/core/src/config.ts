@@ -3,8 +3,10 @@
  */
 
 import { cosmiconfig } from 'cosmiconfig';
-import { SpecLifeError, ErrorCodes, type ImplementMode } from './types.js';
+import { SpecLifeError, ErrorCodes, type ImplementMode, type VersioningMode, type ReleaseNotesSource } from './types.js';
 import type { BootstrapStrategy } from './adapters/environment-adapter.js';
+import type { ForgeKind } from './adapters/forge-adapter.js';
+import { createBranchNaming } from './utils/branch-naming.js';
 
 /** Per-environment bootstrap configuration */
 export interface EnvironmentBootstrapConfig {
@@ -44,6 +46,19 @@ export interface ReleaseConfig {
    * Default: { patch: true, minor: true, major: false }
    */
   auto?: ReleaseAutoConfig | boolean;
+  /**
+   * How workspace package versions move (default: "fixed").
+   * - fixed: every package is released with the same version
+   * - independent: each package is bumped from its own version
+   */
+  versioning?: VersioningMode;
+  /**
+   * Release-notes sources, in the order their sections appear
+   * (default: ["changes", "commits"]).
+   * - changes: archived OpenSpec changes, grouped by affected spec
+   * - commits: conventional commit messages
+   */
+  notes?: ReleaseNotesSource[];
 }
 
 /** Git configuration (new minimal config) */
@@ -52,10 +67,25 @@ export interface GitConfig {
   baseBranch?: string;
   /** Branch prefix for change branches (default: "spec/") */
   branchPrefix?: string;
+  /**
+   * Pattern for change branch names (default: "{prefix}{changeId}").
+   * Placeholders: {prefix}, {changeId}, {user}
+   */
+  branchPattern?: string;
+  /** Value for {user} in branchPattern (default: slugified git user.name) */
+  user?: string;
   /** Directory for worktrees (default: "worktrees") */
   worktreeDir?: string;
 }
 
+/** Forge (GitHub, GitLab, Gitea) configuration */
+export interface ForgeConfig {
+  /** Forge type (default: detected from the origin remote's host) */
+  type?: ForgeKind;
+  /** API base URL for self-hosted instances (default: derived from the host) */
+  apiUrl?: string;
+}
+
 /** SpecLife configuration schema */
 export interface SpecLifeConfig {
   /** OpenSpec directory location (default: "openspec") */
@@ -92,6 +122,9 @@ export interface SpecLifeConfig {
     baseBranch: string;
   };
   
+  /** Forge hosting pull requests (default: detected from the git remote) */
+  forge?: ForgeConfig;
+  
   /** Command to run tests */
   testCommand: string;
   
@@ -161,12 +194,21 @@ export function isAutoReleaseAllowed(
   return autoConfig[bumpType] ?? (bumpType !== 'major');
 }
 
+/**
+ * Get the branch changes start from and merge into.
+ * git.baseBranch takes precedence over the deprecated github.baseBranch.
+ */
+export function resolveBaseBranch(config: SpecLifeConfig): string {
+  return config.git?.baseBranch ?? config.github?.baseBranch ?? 'main';
+}
+
 /** Default configuration values */
 const defaults: Partial<SpecLifeConfig> = {
   specDir: 'openspec',
   git: {
     baseBranch: 'main',
     branchPrefix: 'spec/',
+    branchPattern: '{prefix}{changeId}',
     worktreeDir: 'worktrees',
   },
   aiProvider: 'claude',
@@ -224,6 +266,8 @@ export async function loadConfig(cwd: string = process.cwd()): Promise<SpecLifeC
     ...fileConfig,
     git: {
       ...defaults.git,
+      // Configs written before git.baseBranch existed set github.baseBranch
+      baseBranch: fileConfig.github?.baseBranch ?? defaults.git?.baseBranch,
       ...fileConfig.git,
     },
     github: {
@@ -268,6 +312,15 @@ export async function loadConfig(cwd: string = process.cwd()): Promise<SpecLifeC
 /** Valid bootstrap strategies */
 const validBootstrapStrategies: BootstrapStrategy[] = ['symlink', 'install', 'none'];
 
+/** Valid release versioning modes */
+const validVersioningModes: VersioningMode[] = ['fixed', 'independent'];
+
+/** Valid release-notes sources */
+const validReleaseNotesSources: ReleaseNotesSource[] = ['changes', 'commits'];
+
+/** Valid forge types */
+const validForgeTypes: ForgeKind[] = ['github', 'gitlab', 'gitea'];
+
 /** Valid implementation modes */
 const validImplementModes: ImplementMode[] = ['claude-cli', 'claude-sdk', 'cursor'];
 
@@ -291,6 +344,12 @@ function validateConfig(config: SpecLifeConfig): void {
     );
   }
   
+  // Validate branch naming (throws on malformed patterns)
+  createBranchNaming({
+    prefix: config.git?.branchPrefix,
+    pattern: config.git?.branchPattern,
+  });
+  
   // Validate implementMode
   if (config.implementMode && !validImplementModes.includes(config.implementMode)) {
     throw new SpecLifeError(
@@ -311,6 +370,35 @@ function validateConfig(config: SpecLifeConfig): void {
     }
   }
   
+  // Validate forge.type
+  if (config.forge?.type && !validForgeTypes.includes(config.forge.type)) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Invalid forge.type: ${config.forge.type}. Must be one of: ${validForgeTypes.join(', ')}`,
+      { field: 'forge.type', value: config.forge.type }
+    );
+  }
+  
+  // Validate release.versioning
+  if (config.release?.versioning && !validVersioningModes.includes(config.release.versioning)) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Invalid release.versioning: ${config.release.versioning}. Must be one of: ${validVersioningModes.join(', ')}`,
+      { field: 'release.versioning', value: config.release.versioning }
+    );
+  }
+  
+  if (config.release?.notes) {
+    const notes = config.release.notes;
+    if (!Array.isArray(notes) || notes.length === 0 || notes.some(n => !validReleaseNotesSources.includes(n))) {
+      throw new SpecLifeError(
+        ErrorCodes.CONFIG_INVALID,
+        `Invalid release.notes: ${JSON.stringify(notes)}. Must be a non-empty list of: ${validReleaseNotesSources.join(', ')}`,
+        { field: 'release.notes', value: notes }
+      );
+    }
+  }
+  
   // Validate per-environment strategies
   if (config.worktree?.bootstrap?.environments) {
     for (const [envName, envConfig] of Object.entries(config.worktree.bootstrap.environments)) {
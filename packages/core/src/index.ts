@@ -29,8 +29,10 @@ export * from './types.js';
 export {
   loadConfig,
   isAutoReleaseAllowed,
+  resolveBaseBranch,
   type SpecLifeConfig,
   type GitConfig,
+  type ForgeConfig,
   type WorktreeConfig,
   type EnvironmentBootstrapConfig,
   type ReleaseConfig,
@@ -10,15 +10,42 @@ export type ChangeState =
   | 'submitted'
   | 'merged';
 
+/** A recorded transition between lifecycle states */
+export interface ChangeStateTransition {
+  /** State before the transition (null for the initial state) */
+  from: ChangeState | null;
+  /** State after the transition */
+  to: ChangeState;
+  /** When the transition was recorded */
+  at: Date;
+}
+
+/** SpecLife metadata persisted alongside a change's proposal */
+export interface ChangeMetadata {
+  /** Last recorded lifecycle state */
+  state: ChangeState;
+  /** Recorded lifecycle transitions, oldest first */
+  transitions: ChangeStateTransition[];
+  /** Branch the change is developed and submitted on */
+  branch?: string;
+  /** Changes this change builds on */
+  dependsOn?: string[];
+}
+
 /** A change proposal context */
 export interface Change {
   id: string;
-  branch: string;
+  /** Change branch (undefined if the branch pattern needs a user name that is not configured) */
+  branch?: string;
   state: ChangeState;
   proposal: ChangeProposal;
   tasks: ChangeTask[];
   design?: string;
   createdAt: Date;
+  /** Recorded lifecycle transitions, oldest first */
+  stateHistory?: ChangeStateTransition[];
+  /** Changes this change builds on (proposal "Depends on:" and metadata) */
+  dependsOn?: string[];
 }
 
 /** Parsed proposal.md content */
@@ -31,11 +58,23 @@ export interface ChangeProposal {
   };
 }
 
+/** A change that has been moved to the archive */
+export interface ArchivedChange {
+  id: string;
+  /** Archive date from the directory name (YYYY-MM-DD) */
+  archivedOn: string;
+  /** Archive directory */
+  path: string;
+  proposal: ChangeProposal;
+}
+
 /** A task from tasks.md */
 export interface ChangeTask {
   id: string;
   content: string;
   completed: boolean;
+  /** ID of the enclosing task, for subtasks */
+  parentId?: string;
 }
 
 /** Git status information */
@@ -46,6 +85,38 @@ export interface GitStatus {
   untracked: string[];
 }
 
+/** Git operation that can stop at conflicts */
+export type GitOperation = 'rebase' | 'merge';
+
+/** Outcome of merging two refs without touching the working tree */
+export interface TrialMergeResult {
+  clean: boolean;
+  /** Files with merge conflicts */
+  conflicts: string[];
+}
+
+/** A commit from git history */
+export interface GitCommit {
+  sha: string;
+  /** Commit subject line */
+  message: string;
+  author: string;
+  /** Commit date */
+  date: Date;
+}
+
+/** A "Key: value" trailer at the end of a commit message */
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+/** A commit with its message trailers */
+export interface GitTrailerCommit extends GitCommit {
+  /** Trailers in message order */
+  trailers: CommitTrailer[];
+}
+
 /** Pull request information */
 export interface PullRequest {
   number: number;
@@ -67,6 +138,8 @@ export interface PullRequest {
   merged: boolean;
   mergeable: boolean | null;
   mergeable_state?: string;
+  /** Last edit or activity on the pull request */
+  updatedAt?: Date;
 }
 
 /** Simplified pull request info (for backwards compatibility) */
@@ -102,6 +175,16 @@ export const ErrorCodes = {
   MISSING_TOKEN: 'MISSING_TOKEN',
   CLI_NOT_FOUND: 'CLI_NOT_FOUND',
   TEST_FAILED: 'TEST_FAILED',
+  INVALID_TRANSITION: 'INVALID_TRANSITION',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  SPEC_CONFLICT: 'SPEC_CONFLICT',
+  TASK_NOT_FOUND: 'TASK_NOT_FOUND',
+  INVALID_TASK_EDIT: 'INVALID_TASK_EDIT',
+  INVALID_DEPENDENCY: 'INVALID_DEPENDENCY',
+  SYNC_FAILED: 'SYNC_FAILED',
+  FORGE_ERROR: 'FORGE_ERROR',
+  CHECKS_FAILED: 'CHECKS_FAILED',
+  CHECKS_TIMEOUT: 'CHECKS_TIMEOUT',
 } as const;
 
 /** 
@@ -157,6 +240,35 @@ export type ProgressCallback = (event: ProgressEvent) => void;
 /** Version bump types */
 export type VersionBumpType = 'major' | 'minor' | 'patch';
 
+/** Prerelease channels, from least to most stable */
+export type PrereleaseChannel = 'alpha' | 'beta' | 'rc';
+
+/** How workspace package versions move during a release */
+export type VersioningMode = 'fixed' | 'independent';
+
+/** Where release notes come from: archived OpenSpec changes or conventional commits */
+export type ReleaseNotesSource = 'changes' | 'commits';
+
+/** Version change for a single workspace package */
+export interface PackageVersionUpdate {
+  /** Package name */
+  name: string;
+  /** Path relative to the repo root */
+  path: string;
+  /** Version before the release */
+  previousVersion: string;
+  /** Version after the release */
+  version: string;
+  /** Bump applied to the package */
+  bumpType?: VersionBumpType;
+  /** Commits touching the package (independent mode) */
+  commits?: CommitInfo[];
+  /** Release tag for the package, e.g. "@scope/pkg@1.2.3" (independent mode) */
+  tag?: string;
+  /** Changelog section for the package (independent mode) */
+  changelog?: string;
+}
+
 /** Commit information for version analysis */
 export interface CommitInfo {
   sha: string;
@@ -164,6 +276,8 @@ export interface CommitInfo {
   type?: string; // feat, fix, chore, etc.
   scope?: string;
   isBreaking: boolean;
+  /** Files touched by the commit (when known) */
+  files?: string[];
 }
 
 /** Options for the release workflow */
@@ -176,6 +290,10 @@ export interface ReleaseOptions {
   skipChangelog?: boolean;
   /** Enable auto-merge on the release PR (requires repo settings to allow auto-merge) */
   autoMerge?: boolean;
+  /** Release on a prerelease channel (e.g. 2.0.0-rc.1); repeated releases increment the number */
+  prerelease?: PrereleaseChannel;
+  /** Promote the latest prerelease to its stable version (e.g. 2.0.0-rc.2 → 2.0.0) */
+  promote?: boolean;
 }
 
 /** Result of the release workflow */
@@ -190,6 +308,14 @@ export interface ReleaseResult {
   commits: CommitInfo[];
   /** Generated changelog content */
   changelog?: string;
+  /** Versioning mode used for workspace packages */
+  versioning: VersioningMode;
+  /** Workspace package version changes */
+  packages: PackageVersionUpdate[];
+  /** Archived changes that landed since the last release */
+  changes: ArchivedChange[];
+  /** Whether the new version is a prerelease */
+  prerelease: boolean;
   /** URL of the created PR (if not dry run) */
   prUrl?: string;
   /** Release branch name */
@@ -215,6 +341,8 @@ export type PRDisplayStatus = 'draft' | 'ready' | 'merged' | 'closed' | 'local';
 export interface ChangeListItem {
   /** Change identifier */
   id: string;
+  /** Derived lifecycle state */
+  state?: ChangeState;
   /** Task progress */
   progress: ChangeProgress;
   /** PR status */
@@ -225,8 +353,12 @@ export interface ChangeListItem {
   prUrl?: string;
   /** Last activity timestamp */
   lastActive?: Date;
+  /** Whether the change has had no recent activity */
+  stale?: boolean;
   /** Whether this is the current branch */
   isCurrent: boolean;
+  /** Changes this change builds on */
+  dependsOn?: string[];
 }
 
 /** Options for listing changes */
@@ -242,14 +374,23 @@ export interface ListOptions {
 /** Validation status */
 export type ValidationStatus = 'pass' | 'pass_with_warnings' | 'fail';
 
-/** Validation report from openspec validate */
+/** A problem found while validating a change */
+export interface ValidationIssue {
+  /** File the issue is in, relative to the project root */
+  file: string;
+  /** 1-based line (omitted when the issue concerns the whole file) */
+  line?: number;
+  message: string;
+}
+
+/** Validation report for a change */
 export interface ValidationReport {
+  /** Change that was validated */
+  changeId: string;
   /** Overall validation status */
   status: ValidationStatus;
   /** Validation errors (cause failure) */
-  errors: string[];
+  errors: ValidationIssue[];
   /** Validation warnings */
-  warnings: string[];
-  /** Raw output from openspec validate */
-  output?: string;
+  warnings: ValidationIssue[];
 }
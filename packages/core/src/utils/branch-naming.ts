@@ -0,0 +1,173 @@
+/**
+ * Change branch naming
+ * Maps change IDs to branch names via a configurable pattern, and back
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes } from '../types.js';
+
+/** Default branch prefix */
+export const DEFAULT_BRANCH_PREFIX = 'spec/';
+
+/** Default branch pattern */
+export const DEFAULT_BRANCH_PATTERN = '{prefix}{changeId}';
+
+/** Placeholders supported in branch patterns */
+const PLACEHOLDERS = ['prefix', 'changeId', 'user'] as const;
+
+export interface BranchNamingOptions {
+  /** Branch prefix substituted for {prefix} (default: "spec/") */
+  prefix?: string;
+  /** Branch pattern (default: "{prefix}{changeId}") */
+  pattern?: string;
+  /** User name substituted for {user} */
+  user?: string;
+}
+
+/** Resolves change IDs to branch names and back */
+export interface BranchNaming {
+  /** Branch pattern in use */
+  readonly pattern: string;
+  /** Get the branch name for a change */
+  branchFor(changeId: string): string;
+  /** Get the change ID for a branch, or null if it is not a change branch */
+  changeIdFor(branch: string): string | null;
+  /** Check whether a branch follows the change branch pattern */
+  isChangeBranch(branch: string): boolean;
+}
+
+/**
+ * Create a branch naming resolver.
+ * Reverse mapping accepts any user in {user}, so branches created by
+ * teammates are still recognized.
+ * @throws SpecLifeError with CONFIG_INVALID for malformed patterns
+ */
+export function createBranchNaming(options: BranchNamingOptions = {}): BranchNaming {
+  const {
+    prefix = DEFAULT_BRANCH_PREFIX,
+    pattern = DEFAULT_BRANCH_PATTERN,
+    user,
+  } = options;
+
+  const tokens = parsePattern(pattern);
+  const usesUser = tokens.includes('{user}');
+
+  let source = '';
+  for (const token of tokens) {
+    if (token === '{changeId}') source += '(.+)';
+    else if (token === '{user}') source += '[^/]+';
+    else if (token === '{prefix}') source += escapeRegExp(prefix);
+    else source += escapeRegExp(token);
+  }
+  const matcher = new RegExp(`^${source}$`);
+
+  const changeIdFor = (branch: string): string | null => {
+    const match = branch.match(matcher);
+    return match ? match[1] : null;
+  };
+
+  return {
+    pattern,
+
+    branchFor(changeId: string): string {
+      if (usesUser && !user) {
+        throw new SpecLifeError(
+          ErrorCodes.CONFIG_INVALID,
+          `Branch pattern '${pattern}' uses {user} but no user name is available. Set git.user or git user.name`,
+          { pattern }
+        );
+      }
+      return tokens
+        .map(token => {
+          if (token === '{changeId}') return changeId;
+          if (token === '{user}') return user!;
+          if (token === '{prefix}') return prefix;
+          return token;
+        })
+        .join('');
+    },
+
+    changeIdFor,
+
+    isChangeBranch(branch: string): boolean {
+      return changeIdFor(branch) !== null;
+    },
+  };
+}
+
+/**
+ * Create a branch naming resolver from configuration
+ * @param config SpecLife configuration
+ * @param user User name for {user} (default: config.git.user)
+ */
+export function branchNamingFromConfig(
+  config: Pick<SpecLifeConfig, 'git'>,
+  user?: string
+): BranchNaming {
+  return createBranchNaming({
+    prefix: config.git?.branchPrefix,
+    pattern: config.git?.branchPattern,
+    user: user ?? config.git?.user,
+  });
+}
+
+/**
+ * Create a branch naming resolver from configuration, looking up the
+ * git user name when the pattern needs one and config does not set it
+ */
+export async function resolveBranchNaming(
+  config: Pick<SpecLifeConfig, 'git'>,
+  git: Pick<GitAdapter, 'getUserName'>
+): Promise<BranchNaming> {
+  const pattern = config.git?.branchPattern ?? DEFAULT_BRANCH_PATTERN;
+  let user = config.git?.user;
+  if (!user && pattern.includes('{user}')) {
+    const name = await git.getUserName();
+    user = name ? slugifyUserName(name) : undefined;
+  }
+  return branchNamingFromConfig(config, user);
+}
+
+/**
+ * Turn a git user name into a branch-safe segment ("Jane Doe" → "jane-doe")
+ */
+export function slugifyUserName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Split a pattern into literal text and placeholder tokens
+ */
+function parsePattern(pattern: string): string[] {
+  const tokens = pattern.split(/(\{[^}]*\})/).filter(t => t !== '');
+
+  for (const token of tokens) {
+    const name = token.match(/^\{(.*)\}$/)?.[1];
+    if (name !== undefined && !(PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new SpecLifeError(
+        ErrorCodes.CONFIG_INVALID,
+        `Unknown placeholder '{${name}}' in branch pattern '${pattern}'`,
+        { pattern, placeholder: name }
+      );
+    }
+  }
+
+  if (tokens.filter(t => t === '{changeId}').length !== 1) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Branch pattern '${pattern}' must contain {changeId} exactly once`,
+      { pattern }
+    );
+  }
+
+  return tokens;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,152 @@
+/**
+ * CHANGELOG.md parsing and merging
+ * Keeps hand-written content intact and inserts release sections at the top
+ */
+
+import { type ForgeKind } from '../adapters/forge-adapter.js';
+
+/** Title used when a changelog does not exist yet */
+export const DEFAULT_CHANGELOG_PREAMBLE = `# Changelog
+
+All notable changes to this project will be documented in this file.
+`;
+
+/** A "## ..." release section of a changelog */
+export interface ChangelogSection {
+  /** Version or tag from the heading (null if the heading has none) */
+  version: string | null;
+  /** Section markdown, including its heading */
+  content: string;
+}
+
+/** A parsed changelog */
+export interface ChangelogDocument {
+  /** Everything before the first release section (title and intro) */
+  preamble: string;
+  /** Release sections, newest first */
+  sections: ChangelogSection[];
+}
+
+/**
+ * Parse changelog markdown into a preamble and release sections
+ */
+export function parseChangelog(content: string): ChangelogDocument {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const preamble: string[] = [];
+  const sections: ChangelogSection[] = [];
+  let current: string[] | null = null;
+
+  const flush = () => {
+    if (current) {
+      const text = current.join('\n').trimEnd();
+      sections.push({ version: getSectionVersion(current[0]), content: text });
+    }
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('## ')) {
+      flush();
+      current = [line];
+    } else if (current) {
+      current.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  flush();
+
+  return { preamble: preamble.join('\n').trimEnd(), sections };
+}
+
+/**
+ * Render a parsed changelog back to markdown
+ */
+export function formatChangelog(doc: ChangelogDocument): string {
+  const parts = [doc.preamble, ...doc.sections.map(s => s.content)].filter(Boolean);
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * Insert a release section into changelog markdown.
+ * A section for the same version is replaced in place, so re-running a
+ * release does not duplicate entries.
+ * @param content Existing changelog (empty if there is none)
+ * @param section Release section starting with a "## " heading
+ * @returns Updated changelog
+ */
+export function mergeChangelogSection(content: string, section: string): string {
+  const doc = parseChangelog(content);
+  const trimmed = section.trim();
+  const version = getSectionVersion(trimmed.split('\n')[0]);
+  const entry: ChangelogSection = { version, content: trimmed };
+
+  const existing = version === null
+    ? -1
+    : doc.sections.findIndex(s => s.version !== null && normalizeVersion(s.version) === normalizeVersion(version));
+
+  if (existing >= 0) {
+    doc.sections[existing] = entry;
+  } else {
+    doc.sections.unshift(entry);
+  }
+
+  if (!doc.preamble) {
+    doc.preamble = DEFAULT_CHANGELOG_PREAMBLE.trimEnd();
+  }
+
+  return formatChangelog(doc);
+}
+
+/**
+ * Get the version a section heading refers to.
+ * Handles "## [1.2.0] - date", "## [v1.2.0](link) (date)", "## @scope/pkg@1.2.0" and "## 1.2.0".
+ */
+export function getSectionVersion(heading: string): string | null {
+  const text = heading.replace(/^##\s+/, '').trim();
+  const bracketed = text.match(/^\[([^\]]+)\]/);
+  const candidate = bracketed ? bracketed[1] : text.split(/\s+/)[0];
+  return candidate && /\d+\.\d+\.\d+/.test(candidate) ? candidate : null;
+}
+
+/**
+ * Convert a git remote URL to the repository's web URL
+ * ("git@github.com:owner/repo.git" → "https://github.com/owner/repo")
+ * @returns Web URL, or null if the remote is not a recognizable hosted repository
+ */
+export function repositoryWebUrl(remoteUrl: string | null | undefined): string | null {
+  if (!remoteUrl) return null;
+  const url = remoteUrl.trim();
+
+  // scp-like syntax: git@host:owner/repo.git
+  const scp = url.match(/^[\w.-]+@([\w.-]+):(?!\/)(.+?)(?:\.git)?\/?$/);
+  if (scp) {
+    return `https://${scp[1]}/${scp[2]}`;
+  }
+
+  const full = url.match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([\w.-]+)(?::\d+)?\/(.+?)(?:\.git)?\/?$/);
+  if (full) {
+    return `https://${full[1]}/${full[2]}`;
+  }
+
+  return null;
+}
+
+/** Pull request page path on each forge, relative to the repository web URL */
+const PULL_REQUEST_PATHS: Record<ForgeKind, string> = {
+  github: 'pull',
+  gitlab: '-/merge_requests',
+  gitea: 'pulls',
+};
+
+/**
+ * Link pull request references like "(#42)" to the repository
+ * @param forge Forge hosting the repository (default: GitHub)
+ */
+export function linkPullRequests(text: string, repoUrl: string, forge: ForgeKind | null = 'github'): string {
+  const path = PULL_REQUEST_PATHS[forge ?? 'github'];
+  return text.replace(/\(#(\d+)\)/g, (_, number: string) => `([#${number}](${repoUrl}/${path}/${number}))`);
+}
+
+function normalizeVersion(version: string): string {
+  return version.replace(/^v(?=\d)/, '');
+}
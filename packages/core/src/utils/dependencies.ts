@@ -0,0 +1,92 @@
+/**
+ * Change dependencies - "Depends on:" declarations, landing order and dependency trees
+ */
+
+/** A change and the changes it builds on */
+export interface DependencyNode {
+  id: string;
+  dependsOn?: string[];
+}
+
+export interface LandingOrder {
+  /** Changes in an order where every change lands after the changes it depends on */
+  order: string[];
+  /** Changes caught in a dependency cycle (cannot be ordered) */
+  cycle: string[];
+}
+
+/**
+ * Parse "Depends on: add-auth, add-session" (or "depends-on:") from proposal.md
+ */
+export function parseDependsOn(content: string): string[] {
+  const match = content.match(/^[ \t]*(?:[-*][ \t]+)?(?:\*\*)?depends[ -]on:(?:\*\*)?[ \t]*(.+)$/im);
+  if (!match) return [];
+  return [...new Set(match[1].split(',').map(s => s.replace(/`/g, '').trim()).filter(Boolean))];
+}
+
+/**
+ * Order changes so each lands after its dependencies. Dependencies on
+ * changes outside the list are treated as already landed; ties keep the
+ * input order.
+ */
+export function getLandingOrder(nodes: DependencyNode[]): LandingOrder {
+  const ids = new Set(nodes.map(n => n.id));
+  const pending = new Map(nodes.map(n => [n.id, (n.dependsOn ?? []).filter(d => ids.has(d) && d !== n.id)]));
+  const order: string[] = [];
+
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const node of nodes) {
+      const deps = pending.get(node.id);
+      if (deps && deps.every(d => order.includes(d))) {
+        order.push(node.id);
+        pending.delete(node.id);
+        progressed = true;
+      }
+    }
+  }
+
+  return { order, cycle: nodes.map(n => n.id).filter(id => pending.has(id)) };
+}
+
+/**
+ * Format changes as a tree with dependents nested under the changes they build on
+ * ("add-auth", "└─ add-session"). A change with several dependencies appears under each.
+ */
+export function formatDependencyTree(nodes: DependencyNode[]): string[] {
+  const ids = new Set(nodes.map(n => n.id));
+  const children = new Map<string, string[]>();
+  for (const node of nodes) {
+    for (const dep of node.dependsOn ?? []) {
+      if (ids.has(dep) && dep !== node.id) {
+        children.set(dep, [...children.get(dep) ?? [], node.id]);
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  const printed = new Set<string>();
+  const visit = (id: string, prefix: string, branch: string, path: string[]) => {
+    const cyclic = path.includes(id);
+    lines.push(`${prefix}${branch}${id}${cyclic ? ' (cycle)' : ''}`);
+    printed.add(id);
+    if (cyclic) return;
+    const kids = children.get(id) ?? [];
+    const childPrefix = prefix + (branch === '├─ ' ? '│  ' : branch === '└─ ' ? '   ' : '');
+    kids.forEach((kid, i) => visit(kid, childPrefix, i === kids.length - 1 ? '└─ ' : '├─ ', [...path, id]));
+  };
+
+  for (const node of nodes) {
+    if (!(node.dependsOn ?? []).some(d => ids.has(d) && d !== node.id)) {
+      visit(node.id, '', '', []);
+    }
+  }
+  // Changes that only depend on each other have no root
+  for (const node of nodes) {
+    if (!printed.has(node.id)) {
+      visit(node.id, '', '', []);
+    }
+  }
+  return lines;
+}
@@ -2,7 +2,7 @@
  * Formatting utilities for display
  */
 
-import type { ChangeProgress, ChangeListItem, PRDisplayStatus } from '../types.js';
+import type { ChangeProgress, ChangeListItem, PRDisplayStatus, PackageVersionUpdate } from '../types.js';
 
 /**
  * Format a progress bar using ASCII characters
@@ -62,13 +62,14 @@ export function formatPRStatus(status: PRDisplayStatus, prNumber?: number): stri
  */
 export function formatCompactLine(item: ChangeListItem): string {
   const name = item.id.padEnd(24);
+  const state = (item.state ?? '').padEnd(12);
   const bar = `[${formatProgressBar(item.progress)}]`;
   const progress = `${item.progress.completed}/${item.progress.total}`.padStart(5);
   const pr = formatPRStatus(item.prStatus, item.prNumber).padEnd(16);
   const time = formatRelativeTime(item.lastActive).padStart(8);
   const current = item.isCurrent ? ' ←' : '';
   
-  return `${name} ${bar} ${progress}  ${pr} ${time}${current}`;
+  return `${name} ${state} ${bar} ${progress}  ${pr} ${time}${current}`;
 }
 
 /**
@@ -80,24 +81,25 @@ export function formatTable(items: ChangeListItem[]): string {
   const lines: string[] = [];
   
   // Header
-  lines.push('┌─────────────────────────────────┬────────────────┬─────────────────┬──────────────┐');
-  lines.push('│ Change                          │ Progress       │ PR Status       │ Last Active  │');
-  lines.push('├─────────────────────────────────┼────────────────┼─────────────────┼──────────────┤');
+  lines.push('┌─────────────────────────────────┬──────────────┬────────────────┬─────────────────┬──────────────┐');
+  lines.push('│ Change                          │ State        │ Progress       │ PR Status       │ Last Active  │');
+  lines.push('├─────────────────────────────────┼──────────────┼────────────────┼─────────────────┼──────────────┤');
   
   // Rows
   for (const item of items) {
     const name = (item.id + (item.isCurrent ? ' ←' : '')).slice(0, 31).padEnd(31);
+    const state = (item.state ?? '').padEnd(12);
     const bar = formatProgressBar(item.progress);
     const progressText = `${item.progress.completed}/${item.progress.total}`.padStart(4);
     const progress = `${bar} ${progressText}`.padEnd(14);
     const pr = formatPRStatus(item.prStatus, item.prNumber).slice(0, 15).padEnd(15);
     const time = formatRelativeTime(item.lastActive).padEnd(12);
     
-    lines.push(`│ ${name} │ ${progress} │ ${pr} │ ${time} │`);
+    lines.push(`│ ${name} │ ${state} │ ${progress} │ ${pr} │ ${time} │`);
   }
   
   // Footer
-  lines.push('└─────────────────────────────────┴────────────────┴─────────────────┴──────────────┘');
+  lines.push('└─────────────────────────────────┴──────────────┴────────────────┴─────────────────┴──────────────┘');
   
   return lines.join('\n');
 }
@@ -125,6 +127,10 @@ export function formatSummary(items: ChangeListItem[]): string {
     const local = total - withPRs;
     parts.push(`${local} local only`);
   }
+  const stale = items.filter(i => i.stale).length;
+  if (stale > 0) {
+    parts.push(`${stale} stale`);
+  }
   
   return `Summary: ${parts.join(', ')}`;
 }
@@ -168,3 +174,24 @@ export function filterByStatus(items: ChangeListItem[], status?: PRDisplayStatus
   return items.filter(i => i.prStatus === status);
 }
 
+
+/**
+ * Format a per-package release plan as a markdown table
+ * @param packages Planned package version changes
+ * @returns Table with package, version change, bump, commit count and tag
+ */
+export function formatReleasePlan(packages: PackageVersionUpdate[]): string {
+  const lines = [
+    '| Package | Current | Next | Bump | Commits | Tag |',
+    '|---------|---------|------|------|---------|-----|',
+  ];
+  
+  for (const pkg of packages) {
+    const commits = pkg.commits ? String(pkg.commits.length) : '-';
+    lines.push(
+      `| ${pkg.name} | ${pkg.previousVersion} | ${pkg.version} | ${pkg.bumpType ?? '-'} | ${commits} | ${pkg.tag ?? '-'} |`
+    );
+  }
+  
+  return lines.join('\n');
+}
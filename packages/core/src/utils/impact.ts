@@ -0,0 +1,201 @@
+/**
+ * Impact drift - compare a proposal's declared impact with the files a change touches
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type ChangeProposal } from '../types.js';
+
+/** Impact declared in a proposal's "## Impact" section */
+export type ProposalImpact = ChangeProposal['impact'];
+
+/** Differences between declared and actual impact */
+export interface ImpactDrift {
+  /** Changed files outside the spec directory that no "Affected code" entry covers */
+  undeclaredCode: string[];
+  /** "Affected code" entries that no changed file matches */
+  untouchedCode: string[];
+  /** Capabilities with changed specs that "Affected specs" does not list */
+  undeclaredSpecs: string[];
+  /** "Affected specs" entries without changed specs */
+  untouchedSpecs: string[];
+}
+
+export interface ImpactDriftOptions {
+  /** OpenSpec directory name (default: "openspec") */
+  specDir?: string;
+  /** Change being checked; only its own spec deltas count as spec changes */
+  changeId: string;
+}
+
+/**
+ * Parse the "Affected specs:" and "Affected code:" lists of an Impact section
+ */
+export function parseImpact(content: string): ProposalImpact {
+  return {
+    affectedSpecs: extractListItems(content, 'Affected specs:'),
+    affectedCode: extractListItems(content, 'Affected code:'),
+  };
+}
+
+/**
+ * Compare declared impact with changed file paths.
+ * Code entries are paths, directories or globs ("src/auth/**", "*.md");
+ * descriptive entries ("auth module") and placeholders ("[key files]") are
+ * ignored, and undeclared code is only reported when some path is declared.
+ */
+export function checkImpactDrift(
+  impact: ProposalImpact,
+  changedFiles: string[],
+  options: ImpactDriftOptions
+): ImpactDrift {
+  const { specDir = 'openspec', changeId } = options;
+  const specPrefix = `${specDir}/`;
+  const changePrefix = `${specDir}/changes/${changeId}/`;
+
+  const codeFiles = changedFiles.filter(f => !f.startsWith(specPrefix));
+  const touchedSpecs = new Set<string>();
+  for (const file of changedFiles) {
+    const capability = specCapability(file, specPrefix, changePrefix);
+    if (capability) touchedSpecs.add(capability);
+  }
+
+  const patterns = impact.affectedCode.map(normalizeEntry).filter(isPathPattern);
+  const declaredSpecs = getDeclaredSpecs(impact);
+
+  return {
+    undeclaredCode: patterns.length > 0
+      ? codeFiles.filter(f => !patterns.some(p => matchesPathPattern(f, p)))
+      : [],
+    untouchedCode: patterns.filter(p => !codeFiles.some(f => matchesPathPattern(f, p))),
+    undeclaredSpecs: [...touchedSpecs].filter(s => !declaredSpecs.includes(s)).sort(),
+    untouchedSpecs: declaredSpecs.filter(s => !touchedSpecs.has(s)),
+  };
+}
+
+/**
+ * Capabilities listed under "Affected specs" ("auth", "`specs/auth/spec.md`" -> "auth"),
+ * ignoring descriptions and placeholders
+ */
+export function getDeclaredSpecs(impact: ProposalImpact): string[] {
+  return impact.affectedSpecs.map(normalizeSpec).filter((s): s is string => s !== null);
+}
+
+/**
+ * Format drift as human-readable lines (empty when the impact section matches)
+ */
+export function formatImpactDrift(drift: ImpactDrift): string[] {
+  const lines: string[] = [];
+  if (drift.undeclaredCode.length > 0) {
+    lines.push(`Changed files not covered by "Affected code": ${drift.undeclaredCode.join(', ')}`);
+  }
+  for (const pattern of drift.untouchedCode) {
+    lines.push(`"Affected code" lists ${pattern} but no changed file matches it`);
+  }
+  for (const spec of drift.undeclaredSpecs) {
+    lines.push(`Spec "${spec}" changes but is not listed in "Affected specs"`);
+  }
+  for (const spec of drift.untouchedSpecs) {
+    lines.push(`"Affected specs" lists "${spec}" but the change does not modify it`);
+  }
+  return lines;
+}
+
+/**
+ * Check whether a file path matches a path, directory or glob pattern
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return path === pattern || path.startsWith(`${pattern}/`);
+  }
+  // Patterns without a slash match the file name anywhere ("*.md")
+  const target = pattern.includes('/') ? path : path.slice(path.lastIndexOf('/') + 1);
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Files changed on the current branch since it left the base branch,
+ * including uncommitted and untracked files.
+ * @returns null when the base branch cannot be diffed
+ */
+export async function getChangedFiles(git: GitAdapter, baseBranch: string): Promise<string[] | null> {
+  let diff: string;
+  try {
+    diff = await git.diff(baseBranch);
+  } catch {
+    return null;
+  }
+  const status = await git.status();
+  const files = new Set([...parseDiffPaths(diff), ...status.staged, ...status.unstaged, ...status.untracked]);
+  return [...files].sort();
+}
+
+/**
+ * File paths from unified diff output (both sides of renames)
+ */
+export function parseDiffPaths(diff: string): string[] {
+  const paths = new Set<string>();
+  for (const line of diff.split('\n')) {
+    const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (match) {
+      paths.add(match[1]);
+      paths.add(match[2]);
+    }
+  }
+  return [...paths];
+}
+
+function extractListItems(content: string, prefix: string): string[] {
+  const match = content.match(new RegExp(`${prefix}\\s*(.+?)(?=\\n|$)`));
+  if (!match) return [];
+  return match[1].split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/** Strip code spans and leading "./" or trailing "/" from an impact entry */
+function normalizeEntry(entry: string): string {
+  return entry.replace(/`/g, '').trim().replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/** Entries with spaces are descriptions, bracketed ones are template placeholders */
+function isPathPattern(entry: string): boolean {
+  return entry.length > 0 && !/\s/.test(entry) && !/^\[.*\]$/.test(entry);
+}
+
+function normalizeSpec(entry: string): string | null {
+  const normalized = normalizeEntry(entry).replace(/\/spec\.md$/, '');
+  if (!isPathPattern(normalized)) return null;
+  return normalized.slice(normalized.lastIndexOf('/') + 1);
+}
+
+/** Capability of a canonical spec or change delta path */
+function specCapability(file: string, specPrefix: string, changePrefix: string): string | null {
+  const rest = file.startsWith(`${changePrefix}specs/`)
+    ? file.slice(changePrefix.length + 'specs/'.length)
+    : file.startsWith(`${specPrefix}specs/`)
+      ? file.slice(specPrefix.length + 'specs/'.length)
+      : null;
+  if (!rest || !rest.includes('/')) return null;
+  return rest.slice(0, rest.indexOf('/'));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" anything below
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -11,6 +11,7 @@ export {
   formatSummary,
   sortItems,
   filterByStatus,
+  formatReleasePlan,
 } from './format.js';
 
 export {
@@ -29,6 +30,9 @@ export {
   parseTaskLine,
   parseSectionHeader,
   parseTasksContent,
+  summarizeTasksDocument,
+  getCompletedTaskIds,
+  calculateTaskProgress,
   loadTasksFile,
   getSectionProgress,
   getNextTask,
@@ -37,3 +41,130 @@ export {
   type ParsedTaskFile,
 } from './task-progress.js';
 
+export {
+  parseTasksDocument,
+  formatTasksDocument,
+  findTask,
+  setTaskCompleted,
+  toggleTask,
+  setTaskContent,
+  addTask,
+  removeTask,
+  moveTask,
+  nestTask,
+  applyTaskList,
+  type DocumentTask,
+  type TasksSection,
+  type TasksDocument,
+  type AddTaskOptions,
+  type TaskPosition,
+} from './tasks-document.js';
+
+export {
+  PR_TASKS_START,
+  renderPullRequestTasks,
+  parsePullRequestTasks,
+  replacePullRequestTasks,
+  mergeTaskStates,
+  type PullRequestTasks,
+} from './pr-tasks.js';
+
+export {
+  CHANGE_STATE_ORDER,
+  isValidTransition,
+  getTransitionPath,
+  deriveChangeState,
+  createChangeMetadata,
+  transitionChangeState,
+  syncChangeState,
+  recordChangeState,
+  recordTaskProgressState,
+  getStateTimestamps,
+  type ChangeStateSignals,
+} from './lifecycle.js';
+
+export {
+  DEFAULT_BRANCH_PREFIX,
+  DEFAULT_BRANCH_PATTERN,
+  createBranchNaming,
+  branchNamingFromConfig,
+  resolveBranchNaming,
+  slugifyUserName,
+  type BranchNaming,
+  type BranchNamingOptions,
+} from './branch-naming.js';
+
+export {
+  PRERELEASE_CHANNELS,
+  parseVersion,
+  requireVersion,
+  formatVersion,
+  compareVersions,
+  getPrerelease,
+  type SemVer,
+} from './semver.js';
+
+export {
+  DEFAULT_CHANGELOG_PREAMBLE,
+  parseChangelog,
+  formatChangelog,
+  mergeChangelogSection,
+  getSectionVersion,
+  repositoryWebUrl,
+  linkPullRequests,
+  type ChangelogSection,
+  type ChangelogDocument,
+} from './changelog.js';
+
+export {
+  DELTA_OPERATIONS,
+  parseSpecDelta,
+  mergeSpecDelta,
+  applySpecDeltas,
+  findDeltaFiles,
+  type DeltaOperation,
+  type DeltaScenario,
+  type DeltaRequirement,
+  type DeltaRename,
+  type DeltaSection,
+  type UnknownDeltaHeader,
+  type SpecDelta,
+  type SpecDeltaConflict,
+  type AppliedDeltaOperation,
+  type SpecMergeResult,
+  type SpecUpdate,
+  type ApplySpecDeltasResult,
+  type ApplySpecDeltasOptions,
+} from './spec-delta.js';
+
+export {
+  validateChange,
+  validateProposal,
+  validateTasks,
+  validateSpecDelta,
+  validateImpact,
+  formatValidationIssue,
+  type ValidateChangeOptions,
+  type FileValidation,
+} from './validation.js';
+
+export {
+  parseImpact,
+  checkImpactDrift,
+  getDeclaredSpecs,
+  formatImpactDrift,
+  matchesPathPattern,
+  getChangedFiles,
+  parseDiffPaths,
+  type ProposalImpact,
+  type ImpactDrift,
+  type ImpactDriftOptions,
+} from './impact.js';
+
+export {
+  parseDependsOn,
+  getLandingOrder,
+  formatDependencyTree,
+  type DependencyNode,
+  type LandingOrder,
+} from './dependencies.js';
@@ -0,0 +1,228 @@
+/**
+ * Change lifecycle state machine
+ * Derives a change's state from observable signals and records transitions
+ */
+
+import {
+  SpecLifeError,
+  ErrorCodes,
+  type ChangeState,
+  type ChangeMetadata,
+  type ChangeStateTransition,
+} from '../types.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { type TasksDocument } from './tasks-document.js';
+import { calculateTaskProgress } from './task-progress.js';
+
+/** Lifecycle states in forward order */
+export const CHANGE_STATE_ORDER: readonly ChangeState[] = [
+  'created',
+  'implementing',
+  'testing',
+  'submitted',
+  'merged',
+];
+
+/**
+ * Direct transitions allowed from each state.
+ * Forward moves go one step at a time; moving back is allowed until submitted.
+ */
+const ALLOWED_TRANSITIONS: Record<ChangeState, ChangeState[]> = {
+  created: ['implementing'],
+  implementing: ['created', 'testing'],
+  testing: ['created', 'implementing', 'submitted'],
+  submitted: ['merged'],
+  merged: [],
+};
+
+/** Observable facts used to derive a change's state */
+export interface ChangeStateSignals {
+  /** Number of completed tasks */
+  tasksCompleted: number;
+  /** Total number of tasks */
+  tasksTotal: number;
+  /** Whether the change branch exists locally */
+  branchExists: boolean;
+  /** Whether the change directory has been moved to the archive */
+  archived: boolean;
+  /** Pull request for the change branch, if any */
+  pullRequest?: { state: 'open' | 'closed' | 'merged'; draft: boolean } | null;
+}
+
+/**
+ * Check whether a direct transition between two states is allowed
+ * @param from Current state
+ * @param to Target state
+ * @returns true if the transition is legal
+ */
+export function isValidTransition(from: ChangeState, to: ChangeState): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Get the sequence of states needed to move from one state to another.
+ * Skipping ahead walks through each intermediate state.
+ * @param from Current state
+ * @param to Target state
+ * @returns States to pass through (excluding `from`), or null if unreachable
+ */
+export function getTransitionPath(from: ChangeState, to: ChangeState): ChangeState[] | null {
+  if (from === to) return [];
+  if (isValidTransition(from, to)) return [to];
+
+  const fromIndex = CHANGE_STATE_ORDER.indexOf(from);
+  const toIndex = CHANGE_STATE_ORDER.indexOf(to);
+  if (toIndex < fromIndex) return null;
+
+  const path: ChangeState[] = [];
+  let current = from;
+  for (const next of CHANGE_STATE_ORDER.slice(fromIndex + 1, toIndex + 1)) {
+    if (!isValidTransition(current, next)) return null;
+    path.push(next);
+    current = next;
+  }
+  return path;
+}
+
+/**
+ * Derive a change's lifecycle state from observable signals
+ * @param signals Task progress, branch, archive and PR facts
+ * @returns Derived state
+ */
+export function deriveChangeState(signals: ChangeStateSignals): ChangeState {
+  const { tasksCompleted, tasksTotal, branchExists, archived, pullRequest } = signals;
+
+  if (pullRequest?.state === 'merged') return 'merged';
+
+  // Archived and the branch cleaned up: the change has landed
+  if (archived && !branchExists) return 'merged';
+
+  if (archived) return 'submitted';
+  if (pullRequest?.state === 'open' && !pullRequest.draft) return 'submitted';
+
+  if (tasksTotal > 0 && tasksCompleted === tasksTotal) return 'testing';
+  if (tasksCompleted > 0) return 'implementing';
+
+  return 'created';
+}
+
+/**
+ * Create lifecycle metadata for a newly tracked change
+ * @param at When the change was created
+ * @returns Metadata in the 'created' state
+ */
+export function createChangeMetadata(at: Date = new Date()): ChangeMetadata {
+  return {
+    state: 'created',
+    transitions: [{ from: null, to: 'created', at }],
+  };
+}
+
+/**
+ * Move a change to a new state, recording the transition as observed.
+ * Skipped intermediate states are not recorded: they were never seen.
+ * @param metadata Current metadata
+ * @param to Target state
+ * @param at When the change entered the target state
+ * @returns Updated metadata (the input is not modified)
+ * @throws SpecLifeError with INVALID_TRANSITION if the target is unreachable
+ */
+export function transitionChangeState(
+  metadata: ChangeMetadata,
+  to: ChangeState,
+  at: Date = new Date()
+): ChangeMetadata {
+  const path = getTransitionPath(metadata.state, to);
+  if (!path) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TRANSITION,
+      `Cannot move change from '${metadata.state}' to '${to}'`,
+      { from: metadata.state, to }
+    );
+  }
+
+  const transitions: ChangeStateTransition[] = [
+    ...metadata.transitions,
+    { from: metadata.state, to, at },
+  ];
+
+  return { ...metadata, state: to, transitions };
+}
+
+/**
+ * Reconcile persisted metadata with a freshly derived state.
+ * A submitted change never moves back, and merged is terminal.
+ * @param metadata Persisted metadata (null if none recorded yet)
+ * @param derived Derived state
+ * @param at When the derived state was observed
+ * @param createdAt Creation time used when no metadata was recorded yet
+ * @returns Updated metadata and whether anything changed
+ */
+export function syncChangeState(
+  metadata: ChangeMetadata | null,
+  derived: ChangeState,
+  at: Date = new Date(),
+  createdAt: Date = at
+): { metadata: ChangeMetadata; changed: boolean } {
+  const current = metadata ?? createChangeMetadata(createdAt);
+
+  if (current.state === derived || !getTransitionPath(current.state, derived)) {
+    return { metadata: current, changed: metadata === null };
+  }
+
+  return { metadata: transitionChangeState(current, derived, at), changed: true };
+}
+
+/**
+ * Persist a state a workflow has just moved a change into
+ * @param openspec Adapter for the checkout holding the change
+ * @param changeId Change to update
+ * @param state State the change is now in
+ * @param at When the change entered the state
+ * @returns Whether a transition was recorded
+ */
+export async function recordChangeState(
+  openspec: OpenSpecAdapter,
+  changeId: string,
+  state: ChangeState,
+  at: Date = new Date()
+): Promise<boolean> {
+  const recorded = await openspec.readMetadata(changeId);
+  const createdAt = recorded ? at : (await openspec.readChange(changeId)).createdAt;
+  const { metadata, changed } = syncChangeState(recorded, state, at, createdAt);
+  if (changed) {
+    await openspec.writeMetadata(changeId, metadata);
+  }
+  return changed;
+}
+
+/**
+ * Persist the state implied by task progress after tasks.md was edited.
+ * Submitted and merged changes keep their state.
+ * @param openspec Adapter for the checkout holding the change
+ * @param changeId Change whose tasks were edited
+ * @param document Tasks as written
+ * @returns Whether a transition was recorded
+ */
+export async function recordTaskProgressState(
+  openspec: OpenSpecAdapter,
+  changeId: string,
+  document: TasksDocument
+): Promise<boolean> {
+  const { completed, total } = calculateTaskProgress(document.tasks);
+  const state = deriveChangeState({ tasksCompleted: completed, tasksTotal: total, branchExists: true, archived: false });
+  return recordChangeState(openspec, changeId, state);
+}
+
+/**
+ * Get when a change last entered each state
+ * @param metadata Change metadata
+ * @returns Map of state to most recent entry time
+ */
+export function getStateTimestamps(metadata: ChangeMetadata): Partial<Record<ChangeState, Date>> {
+  const result: Partial<Record<ChangeState, Date>> = {};
+  for (const transition of metadata.transitions) {
+    result[transition.to] = transition.at;
+  }
+  return result;
+}
@@ -0,0 +1,142 @@
+/**
+ * tasks.md as a checklist block in a pull request description
+ *
+ * The block sits between HTML comment markers so it can be replaced without
+ * touching the rest of the description. Each task line carries its ID, and
+ * the end marker records the checkbox state at the last sync, so toggles made
+ * on either side can be told apart.
+ */
+
+import type { TasksDocument } from './tasks-document.js';
+
+/** Marker opening the checklist block */
+export const PR_TASKS_START = '<!-- speclife:tasks:start -->';
+
+/** Prefix of the marker closing the checklist block; the synced state follows it */
+const END_PREFIX = '<!-- speclife:tasks:end';
+
+/** Matches a rendered task line: "- [x] 1.1 Add cache <!-- task:1.1 -->" */
+const TASK_LINE = /^\s*[-*]\s*\[([ xX])\].*<!-- task:(\S+) -->\s*$/;
+
+/** Matches the whole block, markers included */
+const BLOCK = /<!-- speclife:tasks:start -->[\s\S]*?<!-- speclife:tasks:end(?: (\{.*?\}))? -->/;
+
+/** Checklist block found in a pull request description */
+export interface PullRequestTasks {
+  /** Checkbox state by task ID, as currently in the description */
+  tasks: Map<string, boolean>;
+  /** Checkbox state by task ID when the block was last written (null if not recorded) */
+  synced: Map<string, boolean> | null;
+}
+
+/**
+ * Render a tasks.md document as a checklist block. Section headers become
+ * bold lines and subtasks keep their indentation.
+ */
+export function renderPullRequestTasks(document: TasksDocument): string {
+  const lines = [PR_TASKS_START, '## Tasks', ''];
+  let section: string | undefined;
+
+  for (const task of document.tasks) {
+    if (task.section && task.section !== section && task.sectionName) {
+      if (section !== undefined) lines.push('');
+      lines.push(`**${task.section}. ${task.sectionName}**`);
+    }
+    section = task.section;
+    const number = task.number ? `${task.number} ` : '';
+    lines.push(`${'  '.repeat(task.depth)}- [${task.completed ? 'x' : ' '}] ${number}${task.content} <!-- task:${task.id} -->`);
+  }
+
+  if (document.tasks.length === 0) {
+    lines.push('_No tasks_');
+  }
+
+  const state = {
+    completed: document.tasks.filter(t => t.completed).map(t => t.id),
+    open: document.tasks.filter(t => !t.completed).map(t => t.id),
+  };
+  lines.push('', `${END_PREFIX} ${JSON.stringify(state)} -->`);
+  return lines.join('\n');
+}
+
+/**
+ * Find the checklist block in a pull request description
+ * @returns null if the description has no block
+ */
+export function parsePullRequestTasks(body: string): PullRequestTasks | null {
+  const match = body.match(BLOCK);
+  if (!match) {
+    return null;
+  }
+
+  const tasks = new Map<string, boolean>();
+  for (const line of match[0].split(/\r?\n/)) {
+    const task = line.match(TASK_LINE);
+    if (task) {
+      tasks.set(task[2], task[1].toLowerCase() === 'x');
+    }
+  }
+
+  return { tasks, synced: match[1] ? parseSyncedState(match[1]) : null };
+}
+
+/**
+ * Replace the checklist block in a description, or add it before the
+ * SpecLife footer (at the end if there is none)
+ */
+export function replacePullRequestTasks(body: string, block: string): string {
+  if (BLOCK.test(body)) {
+    return body.replace(BLOCK, () => block);
+  }
+
+  const footer = body.lastIndexOf('\n---\n');
+  if (footer >= 0) {
+    return `${body.slice(0, footer).trimEnd()}\n\n${block}\n${body.slice(footer)}`;
+  }
+  return body.trim() ? `${body.trimEnd()}\n\n${block}` : block;
+}
+
+/**
+ * Merge checkbox states from tasks.md and the pull request. A task toggled on
+ * one side since the last sync takes that side's state; without a recorded
+ * state the side changed most recently wins.
+ * @param local State in tasks.md
+ * @param remote Block found in the pull request (null if there is none)
+ * @param newer Side modified most recently
+ * @returns Merged state for every task in tasks.md, and the IDs whose state comes from the pull request
+ */
+export function mergeTaskStates(
+  local: Map<string, boolean>,
+  remote: PullRequestTasks | null,
+  newer: 'local' | 'remote'
+): { tasks: Map<string, boolean>; fromRemote: string[] } {
+  const tasks = new Map(local);
+  const fromRemote: string[] = [];
+
+  for (const [id, completed] of local) {
+    const theirs = remote?.tasks.get(id);
+    if (theirs === undefined || theirs === completed) {
+      continue;
+    }
+    const synced = remote?.synced?.get(id);
+    const remoteWins = synced === undefined ? newer === 'remote' : theirs !== synced;
+    if (remoteWins) {
+      tasks.set(id, theirs);
+      fromRemote.push(id);
+    }
+  }
+
+  return { tasks, fromRemote };
+}
+
+function parseSyncedState(json: string): Map<string, boolean> | null {
+  try {
+    const state = JSON.parse(json) as { completed?: string[]; open?: string[] };
+    return new Map([
+      ...(state.completed ?? []).map(id => [id, true] as const),
+      ...(state.open ?? []).map(id => [id, false] as const),
+    ]);
+  } catch {
+    return null;
+  }
+}
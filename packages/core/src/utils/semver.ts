@@ -0,0 +1,103 @@
+/**
+ * Semantic version parsing and comparison
+ * Supports prerelease channels of the form "1.2.3-rc.1"
+ */
+
+import { SpecLifeError, ErrorCodes, type PrereleaseChannel } from '../types.js';
+
+/** Prerelease channels from least to most stable */
+export const PRERELEASE_CHANNELS: readonly PrereleaseChannel[] = ['alpha', 'beta', 'rc'];
+
+/** A parsed semantic version */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Prerelease identifiers, e.g. ["rc", 1] for "-rc.1" (empty for stable) */
+  prerelease: Array<string | number>;
+}
+
+/**
+ * Parse a version string (a leading "v" is allowed)
+ * @returns Parsed version, or null if the string is not a version
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, pre] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: pre ? pre.split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+  };
+}
+
+/**
+ * Parse a version string, throwing on invalid input
+ * @throws SpecLifeError with CONFIG_INVALID
+ */
+export function requireVersion(version: string): SemVer {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new SpecLifeError(ErrorCodes.CONFIG_INVALID, `Invalid version format: ${version}`);
+  }
+  return parsed;
+}
+
+/** Format a parsed version (without a leading "v") */
+export function formatVersion(version: SemVer): string {
+  const base = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${base}-${version.prerelease.join('.')}` : base;
+}
+
+/**
+ * Compare two versions by semver precedence.
+ * A prerelease sorts before its stable release (2.0.0-rc.1 < 2.0.0).
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const va = typeof a === 'string' ? requireVersion(a) : a;
+  const vb = typeof b === 'string' ? requireVersion(b) : b;
+
+  const core = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (core !== 0) return core;
+
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    return vb.prerelease.length - va.prerelease.length;
+  }
+
+  const length = Math.max(va.prerelease.length, vb.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const x = va.prerelease[i];
+    const y = vb.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    if (typeof x === 'number' && typeof y === 'number') return x - y;
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof x === 'number') return -1;
+    if (typeof y === 'number') return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Get the prerelease channel and number of a version
+ * @returns Channel info, or null for stable versions
+ */
+export function getPrerelease(version: string | SemVer): { channel: string; number: number } | null {
+  const parsed = typeof version === 'string' ? requireVersion(version) : version;
+  if (parsed.prerelease.length === 0) {
+    return null;
+  }
+  const [channel, number] = parsed.prerelease;
+  return {
+    channel: String(channel),
+    number: typeof number === 'number' ? number : 0,
+  };
+}
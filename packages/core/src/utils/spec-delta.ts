@@ -0,0 +1,433 @@
+/**
+ * Spec delta parsing and merging
+ * Reads the ADDED/MODIFIED/REMOVED/RENAMED sections of a change's spec deltas
+ * (openspec/changes/<id>/specs/<capability>/spec.md) and applies them to the
+ * canonical specs (openspec/specs/<capability>/spec.md)
+ */
+
+import { readFile, writeFile, readdir, mkdir } from 'fs/promises';
+import { dirname, join, relative, sep } from 'path';
+
+/** Delta operations, in the order OpenSpec applies them */
+export const DELTA_OPERATIONS = ['RENAMED', 'REMOVED', 'MODIFIED', 'ADDED'] as const;
+
+export type DeltaOperation = typeof DELTA_OPERATIONS[number];
+
+/** A "#### Scenario:" block */
+export interface DeltaScenario {
+  name: string;
+  /** 1-based line of the scenario header */
+  line: number;
+}
+
+/** A "### Requirement:" block */
+export interface DeltaRequirement {
+  name: string;
+  /** 1-based line of the requirement header */
+  line: number;
+  /** Full block markdown, from the header up to the next requirement or section */
+  content: string;
+  scenarios: DeltaScenario[];
+}
+
+/** A "- FROM: ... / - TO: ..." pair in a RENAMED section */
+export interface DeltaRename {
+  from: string;
+  to: string;
+  /** 1-based line of the FROM entry */
+  line: number;
+}
+
+/** A "## <OPERATION> Requirements" section */
+export interface DeltaSection {
+  operation: DeltaOperation;
+  /** 1-based line of the section header */
+  line: number;
+  requirements: DeltaRequirement[];
+  renames: DeltaRename[];
+}
+
+/** A level-2 header that is not a delta section */
+export interface UnknownDeltaHeader {
+  title: string;
+  line: number;
+}
+
+/** A parsed spec delta file */
+export interface SpecDelta {
+  sections: DeltaSection[];
+  unknownHeaders: UnknownDeltaHeader[];
+}
+
+const SECTION_HEADER = /^##\s+(ADDED|MODIFIED|REMOVED|RENAMED)\s+Requirements\s*$/i;
+const REQUIREMENT_HEADER = /^###\s+Requirement:\s*(.+?)\s*$/;
+const SCENARIO_HEADER = /^####\s+Scenario:\s*(.+?)\s*$/;
+const RENAME_FROM = /^\s*[-*]\s*FROM:\s*`?(?:###\s+Requirement:\s*)?(.+?)`?\s*$/i;
+const RENAME_TO = /^\s*[-*]\s*TO:\s*`?(?:###\s+Requirement:\s*)?(.+?)`?\s*$/i;
+
+/**
+ * Parse spec delta markdown
+ */
+export function parseSpecDelta(content: string): SpecDelta {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const sections: DeltaSection[] = [];
+  const unknownHeaders: UnknownDeltaHeader[] = [];
+
+  let section: DeltaSection | null = null;
+  let requirement: { req: DeltaRequirement; lines: string[] } | null = null;
+  let pendingFrom: { name: string; line: number } | null = null;
+
+  const closeRequirement = () => {
+    if (requirement && section) {
+      requirement.req.content = trimBlock(requirement.lines);
+      section.requirements.push(requirement.req);
+    }
+    requirement = null;
+  };
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+
+    if (/^##\s/.test(text)) {
+      closeRequirement();
+      pendingFrom = null;
+      const match = text.match(SECTION_HEADER);
+      if (match) {
+        section = { operation: match[1].toUpperCase() as DeltaOperation, line, requirements: [], renames: [] };
+        sections.push(section);
+      } else {
+        section = null;
+        unknownHeaders.push({ title: text.replace(/^##\s+/, '').trim(), line });
+      }
+      return;
+    }
+
+    if (!section) {
+      return;
+    }
+
+    const reqMatch = text.match(REQUIREMENT_HEADER);
+    if (reqMatch && section.operation !== 'RENAMED') {
+      closeRequirement();
+      requirement = { req: { name: reqMatch[1], line, content: '', scenarios: [] }, lines: [text] };
+      return;
+    }
+
+    if (section.operation === 'RENAMED') {
+      const from = text.match(RENAME_FROM);
+      const to = text.match(RENAME_TO);
+      if (from) {
+        pendingFrom = { name: from[1], line };
+      } else if (to && pendingFrom) {
+        section.renames.push({ from: pendingFrom.name, to: to[1], line: pendingFrom.line });
+        pendingFrom = null;
+      }
+      return;
+    }
+
+    if (requirement) {
+      requirement.lines.push(text);
+      const scenario = text.match(SCENARIO_HEADER);
+      if (scenario) {
+        requirement.req.scenarios.push({ name: scenario[1], line });
+      }
+    }
+  });
+  closeRequirement();
+
+  return { sections, unknownHeaders };
+}
+
+/** Drop trailing blank lines and "---" separators from a block */
+function trimBlock(lines: string[]): string {
+  const result = [...lines];
+  while (result.length > 0 && /^\s*(-{3,})?\s*$/.test(result[result.length - 1])) {
+    result.pop();
+  }
+  return result.join('\n');
+}
+
+/** A delta operation that cannot be applied to the canonical spec */
+export interface SpecDeltaConflict {
+  /** Capability the delta targets (e.g. "cli") */
+  capability: string;
+  operation: DeltaOperation;
+  /** Requirement name from the delta */
+  requirement: string;
+  /** Delta file, relative to the project root */
+  file: string;
+  /** 1-based line in the delta file */
+  line: number;
+  message: string;
+}
+
+/** An operation applied to a canonical spec */
+export interface AppliedDeltaOperation {
+  operation: DeltaOperation;
+  requirement: string;
+}
+
+/** Result of merging one delta into its canonical spec */
+export interface SpecMergeResult {
+  /** Merged spec markdown (unchanged input when there are conflicts) */
+  content: string;
+  applied: AppliedDeltaOperation[];
+  conflicts: SpecDeltaConflict[];
+}
+
+/** A canonical spec touched by a change */
+export interface SpecUpdate {
+  capability: string;
+  /** Canonical spec file, relative to the project root */
+  path: string;
+  /** Whether the spec did not exist before */
+  created: boolean;
+  applied: AppliedDeltaOperation[];
+}
+
+/** Result of applying all of a change's deltas */
+export interface ApplySpecDeltasResult {
+  updates: SpecUpdate[];
+  conflicts: SpecDeltaConflict[];
+}
+
+export interface ApplySpecDeltasOptions {
+  /** Project root directory */
+  projectRoot: string;
+  /** OpenSpec directory name (default: "openspec") */
+  specDir?: string;
+  /** Change whose deltas are applied */
+  changeId: string;
+  /** Compute updates and conflicts without writing (default: false) */
+  dryRun?: boolean;
+}
+
+/** A canonical spec split around its requirement blocks */
+interface SpecDocument {
+  head: string[];
+  requirements: Array<{ name: string; lines: string[] }>;
+  tail: string[];
+}
+
+/**
+ * Merge a parsed delta into canonical spec markdown.
+ * Operations run in OpenSpec order (RENAMED, REMOVED, MODIFIED, ADDED);
+ * untouched requirements keep their exact text. Nothing is applied when
+ * any operation conflicts.
+ * @param spec Canonical spec content, or null if the capability has no spec yet
+ * @param delta Parsed delta
+ * @param context Capability, delta file and change ID (for new spec headers and conflict reports)
+ */
+export function mergeSpecDelta(
+  spec: string | null,
+  delta: SpecDelta,
+  context: { capability: string; file: string; changeId: string }
+): SpecMergeResult {
+  const { capability, file, changeId } = context;
+  const doc = parseSpecDocument(spec ?? newSpec(capability, changeId));
+  const conflicts: SpecDeltaConflict[] = [];
+  const applied: AppliedDeltaOperation[] = [];
+
+  const conflict = (operation: DeltaOperation, requirement: string, line: number, message: string) => {
+    conflicts.push({ capability, operation, requirement, file, line, message });
+  };
+  const indexOf = (name: string) => doc.requirements.findIndex(r => sameName(r.name, name));
+
+  // A requirement may only be targeted once per operation type across the delta
+  const targeted = new Map<string, DeltaOperation>();
+  const target = (operation: DeltaOperation, name: string, line: number): boolean => {
+    const key = name.trim().toLowerCase();
+    const previous = targeted.get(key);
+    if (previous && !(previous === 'RENAMED' && operation === 'MODIFIED')) {
+      conflict(operation, name, line, `Requirement "${name}" is already ${previous} in this delta`);
+      return false;
+    }
+    targeted.set(key, operation);
+    return true;
+  };
+
+  for (const operation of DELTA_OPERATIONS) {
+    for (const section of delta.sections.filter(s => s.operation === operation)) {
+      if (operation === 'RENAMED') {
+        for (const rename of section.renames) {
+          if (!target('RENAMED', rename.to, rename.line)) continue;
+          const index = indexOf(rename.from);
+          if (index < 0) {
+            conflict(operation, rename.from, rename.line, `Cannot rename "${rename.from}": not found in ${capability} spec`);
+          } else if (indexOf(rename.to) >= 0) {
+            conflict(operation, rename.to, rename.line, `Cannot rename "${rename.from}" to "${rename.to}": "${rename.to}" already exists`);
+          } else {
+            const block = doc.requirements[index];
+            block.name = rename.to;
+            block.lines[0] = `### Requirement: ${rename.to}`;
+            applied.push({ operation, requirement: `${rename.from} → ${rename.to}` });
+          }
+        }
+        continue;
+      }
+
+      for (const requirement of section.requirements) {
+        if (!target(operation, requirement.name, requirement.line)) continue;
+        const index = indexOf(requirement.name);
+
+        if (operation === 'ADDED') {
+          if (index >= 0) {
+            conflict(operation, requirement.name, requirement.line, `Cannot add "${requirement.name}": already exists in ${capability} spec`);
+            continue;
+          }
+          appendRequirement(doc, requirement);
+        } else if (index < 0) {
+          const verb = operation === 'REMOVED' ? 'remove' : 'modify';
+          conflict(operation, requirement.name, requirement.line, `Cannot ${verb} "${requirement.name}": not found in ${capability} spec`);
+          continue;
+        } else if (operation === 'REMOVED') {
+          doc.requirements.splice(index, 1);
+        } else {
+          const old = doc.requirements[index];
+          doc.requirements[index] = { name: old.name, lines: [...requirement.content.split('\n'), ...trailingSpacing(old.lines)] };
+        }
+        applied.push({ operation, requirement: requirement.name });
+      }
+    }
+  }
+
+  if (conflicts.length > 0) {
+    return { content: spec ?? '', applied: [], conflicts };
+  }
+
+  const lines = [...doc.head, ...doc.requirements.flatMap(r => r.lines), ...doc.tail];
+  return { content: lines.join('\n').trimEnd() + '\n', applied, conflicts };
+}
+
+/**
+ * Apply every spec delta of a change to the canonical specs.
+ * Specs are only written when no delta conflicts.
+ */
+export async function applySpecDeltas(options: ApplySpecDeltasOptions): Promise<ApplySpecDeltasResult> {
+  const { projectRoot, specDir = 'openspec', changeId, dryRun = false } = options;
+  const deltasDir = join(projectRoot, specDir, 'changes', changeId, 'specs');
+  const display = (path: string) => relative(projectRoot, path).split(sep).join('/');
+
+  const updates: SpecUpdate[] = [];
+  const conflicts: SpecDeltaConflict[] = [];
+  const writes: Array<{ path: string; content: string }> = [];
+
+  for (const deltaPath of await findDeltaFiles(deltasDir)) {
+    const capability = relative(deltasDir, dirname(deltaPath)).split(sep).join('/');
+    const specPath = join(projectRoot, specDir, 'specs', capability, 'spec.md');
+
+    let existing: string | null = null;
+    try {
+      existing = await readFile(specPath, 'utf-8');
+    } catch {
+      // New capability
+    }
+
+    const delta = parseSpecDelta(await readFile(deltaPath, 'utf-8'));
+    const result = mergeSpecDelta(existing, delta, { capability, file: display(deltaPath), changeId });
+    conflicts.push(...result.conflicts);
+
+    if (result.applied.length > 0) {
+      updates.push({ capability, path: display(specPath), created: existing === null, applied: result.applied });
+      writes.push({ path: specPath, content: result.content });
+    }
+  }
+
+  if (!dryRun && conflicts.length === 0) {
+    for (const { path, content } of writes) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content, 'utf-8');
+    }
+  }
+
+  return { updates, conflicts };
+}
+
+/**
+ * Find spec.md files below a change's specs/ directory
+ */
+export async function findDeltaFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findDeltaFiles(path));
+    } else if (entry.name === 'spec.md') {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/** Split a canonical spec into the text before, between and after its requirements */
+function parseSpecDocument(content: string): SpecDocument {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  const doc: SpecDocument = { head: [], requirements: [], tail: [] };
+
+  let index = lines.findIndex(line => /^##\s+Requirements\s*$/.test(line));
+  if (index < 0) {
+    // No requirements section yet: add one at the end
+    doc.head = [...lines, '', '## Requirements'];
+    return doc;
+  }
+
+  for (index = index + 1; index < lines.length && !REQUIREMENT_HEADER.test(lines[index]); index++) {
+    if (/^#{1,2}\s/.test(lines[index])) break;
+  }
+  doc.head = lines.slice(0, index);
+
+  while (index < lines.length && REQUIREMENT_HEADER.test(lines[index])) {
+    const name = lines[index].match(REQUIREMENT_HEADER)![1];
+    const block = [lines[index++]];
+    while (index < lines.length && !REQUIREMENT_HEADER.test(lines[index]) && !/^#{1,2}\s/.test(lines[index])) {
+      block.push(lines[index++]);
+    }
+    doc.requirements.push({ name, lines: block });
+  }
+
+  doc.tail = lines.slice(index);
+  return doc;
+}
+
+/** Append a requirement after the last one, separated by a blank line */
+function appendRequirement(doc: SpecDocument, requirement: DeltaRequirement): void {
+  const previous = doc.requirements.length > 0 ? doc.requirements[doc.requirements.length - 1].lines : doc.head;
+  if (previous.length > 0 && previous[previous.length - 1].trim() !== '' && !/^##\s+Requirements/.test(previous[previous.length - 1])) {
+    previous.push('');
+  }
+  const lines = requirement.content.split('\n');
+  if (doc.tail.length > 0) {
+    lines.push('');
+  }
+  doc.requirements.push({ name: requirement.name, lines });
+}
+
+/** Blank lines and "---" separators at the end of a block */
+function trailingSpacing(lines: string[]): string[] {
+  let start = lines.length;
+  while (start > 1 && /^\s*(-{3,})?\s*$/.test(lines[start - 1])) {
+    start--;
+  }
+  return lines.slice(start);
+}
+
+function newSpec(capability: string, changeId: string): string {
+  return `# ${capability} Specification
+
+## Purpose
+TBD - created by archiving change ${changeId}. Update Purpose after archive.
+
+## Requirements
+`;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
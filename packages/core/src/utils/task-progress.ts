@@ -6,16 +6,9 @@
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 import type { ChangeProgress, ChangeTask } from '../types.js';
+import { parseTasksDocument, type TasksDocument } from './tasks-document.js';
 
-/** Regular expressions for parsing task files */
-const TASK_REGEX = {
-  /** Matches task line: "- [x] 1.1 Task description" or "- [ ] 1.2 Task description" */
-  taskLine: /^[-*]\s*\[([ xX])\]\s*(\d+(?:\.\d+)?)\s+(.+)$/,
-  /** Matches section header: "## 1. Section Name" */
-  sectionHeader: /^##\s*(\d+)\.\s*(.+)$/,
-  /** Matches simple checkbox: "- [x] Task" or "- [ ] Task" */
-  simpleCheckbox: /^[-*]\s*\[([ xX])\]\s*(.+)$/,
-};
+export { parseTaskLine, parseSectionHeader } from './tasks-document.js';
 
 /** Parsed task with additional metadata */
 export interface ParsedTask extends ChangeTask {
@@ -23,6 +16,16 @@ export interface ParsedTask extends ChangeTask {
   section?: string;
   /** Section name */
   sectionName?: string;
+  /** Nesting depth (0 for top-level tasks) */
+  depth?: number;
+  /** IDs of direct subtasks */
+  children?: string[];
+  /** Owner from "(owner: @alice)", without the "@" */
+  owner?: string;
+  /** Estimate from "(est: 2h)" */
+  estimate?: string;
+  /** Task IDs from "(blocked-by: 1.1 1.2)" that must be completed first */
+  dependencies?: string[];
 }
 
 /** Result of parsing a tasks.md file */
@@ -36,112 +39,86 @@ export interface ParsedTaskFile {
 }
 
 /**
- * Parse a single task line
- * @param line Line from tasks.md
- * @param currentSection Current section number
- * @param currentSectionName Current section name
- * @returns Parsed task or null if not a task line
+ * Parse tasks.md content into structured data
+ * @param content Raw tasks.md content
+ * @returns Parsed task file data
  */
-export function parseTaskLine(
-  line: string,
-  currentSection?: string,
-  currentSectionName?: string
-): ParsedTask | null {
-  // Try to match numbered task format: "- [x] 1.1 Task description"
-  const numberedMatch = line.match(TASK_REGEX.taskLine);
-  if (numberedMatch) {
-    const [, checkmark, id, content] = numberedMatch;
-    return {
-      id,
-      content: content.trim(),
-      completed: checkmark.toLowerCase() === 'x',
-      section: currentSection,
-      sectionName: currentSectionName,
-    };
-  }
-  
-  // Fall back to simple checkbox format: "- [x] Task description"
-  const simpleMatch = line.match(TASK_REGEX.simpleCheckbox);
-  if (simpleMatch) {
-    const [, checkmark, content] = simpleMatch;
-    // Generate an ID if in a section, otherwise use content hash
-    const id = currentSection 
-      ? `${currentSection}.${Math.random().toString(36).substring(2, 6)}`
-      : content.substring(0, 20).toLowerCase().replace(/[^a-z0-9]/g, '-');
-    
-    return {
-      id,
-      content: content.trim(),
-      completed: checkmark.toLowerCase() === 'x',
-      section: currentSection,
-      sectionName: currentSectionName,
-    };
-  }
-  
-  return null;
+export function parseTasksContent(content: string): ParsedTaskFile {
+  return summarizeTasksDocument(parseTasksDocument(content));
 }
 
 /**
- * Parse a section header line
- * @param line Line from tasks.md
- * @returns Section info or null if not a header
+ * Summarize a tasks.md document: tasks, progress and tasks by section
+ * @param document Parsed tasks.md document
+ * @returns Parsed task file data
  */
-export function parseSectionHeader(line: string): { number: string; name: string } | null {
-  const match = line.match(TASK_REGEX.sectionHeader);
-  if (match) {
-    return {
-      number: match[1],
-      name: match[2].trim(),
-    };
+export function summarizeTasksDocument(document: TasksDocument): ParsedTaskFile {
+  const tasks: ParsedTask[] = document.tasks;
+  const sections = new Map<string, ParsedTask[]>();
+  
+  for (const section of document.sections) {
+    if (!sections.has(section.number)) {
+      sections.set(section.number, tasks.filter(t => t.section === section.number));
+    }
   }
-  return null;
+  
+  return {
+    tasks,
+    progress: calculateTaskProgress(tasks),
+    sections,
+  };
 }
 
 /**
- * Parse tasks.md content into structured data
- * @param content Raw tasks.md content
- * @returns Parsed task file data
+ * Find tasks that are done: checked off, under a checked-off parent, or
+ * with all of their subtasks done
+ * @param tasks Tasks with parentId links
+ * @returns IDs of done tasks
  */
-export function parseTasksContent(content: string): ParsedTaskFile {
-  const lines = content.split('\n');
-  const tasks: ParsedTask[] = [];
-  const sections = new Map<string, ParsedTask[]>();
-  
-  let currentSection: string | undefined;
-  let currentSectionName: string | undefined;
+export function getCompletedTaskIds(tasks: ChangeTask[]): Set<string> {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, ChangeTask[]>();
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      children.set(task.parentId, [...children.get(task.parentId) ?? [], task]);
+    }
+  }
   
-  for (const line of lines) {
-    // Check for section header
-    const header = parseSectionHeader(line);
-    if (header) {
-      currentSection = header.number;
-      currentSectionName = header.name;
-      if (!sections.has(currentSection)) {
-        sections.set(currentSection, []);
-      }
-      continue;
+  const done = new Set<string>();
+  const visit = (task: ChangeTask, parentDone: boolean): boolean => {
+    const checked = parentDone || task.completed;
+    const subtasks = (children.get(task.id) ?? []).map(child => visit(child, checked));
+    const isDone = checked || (subtasks.length > 0 && subtasks.every(Boolean));
+    if (isDone) {
+      done.add(task.id);
     }
-    
-    // Check for task line
-    const task = parseTaskLine(line, currentSection, currentSectionName);
-    if (task) {
-      tasks.push(task);
-      if (currentSection && sections.has(currentSection)) {
-        sections.get(currentSection)!.push(task);
-      }
+    return isDone;
+  };
+  
+  for (const task of tasks) {
+    if (!task.parentId || !ids.has(task.parentId)) {
+      visit(task, false);
     }
   }
   
-  // Calculate progress
-  const completed = tasks.filter(t => t.completed).length;
-  const total = tasks.length;
+  return done;
+}
+
+/**
+ * Calculate progress over leaf tasks, so a parent counts through its subtasks
+ * @param tasks Tasks with parentId links
+ * @returns Progress summary
+ */
+export function calculateTaskProgress(tasks: ChangeTask[]): ChangeProgress {
+  const done = getCompletedTaskIds(tasks);
+  const parents = new Set(tasks.map(t => t.parentId));
+  const leaves = tasks.filter(t => !parents.has(t.id));
+  
+  const completed = leaves.filter(t => done.has(t.id)).length;
+  const total = leaves.length;
   const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
   
-  return {
-    tasks,
-    progress: { completed, total, percentage },
-    sections,
-  };
+  return { completed, total, percentage };
 }
 
 /**
@@ -181,23 +158,30 @@ export function getSectionProgress(parsed: ParsedTaskFile): Map<string, ChangePr
   
   for (const [sectionNum, tasks] of parsed.sections) {
     const sectionName = tasks[0]?.sectionName ?? `Section ${sectionNum}`;
-    const completed = tasks.filter(t => t.completed).length;
-    const total = tasks.length;
-    const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
-    
-    result.set(sectionName, { completed, total, percentage });
+    result.set(sectionName, calculateTaskProgress(tasks));
   }
   
   return result;
 }
 
 /**
- * Find the next uncompleted task
+ * Find the next task to work on: the first leaf task that is not done and
+ * is not blocked by an incomplete task (its own or an ancestor's blocked-by)
  * @param parsed Parsed task file
- * @returns Next uncompleted task or undefined
+ * @returns Next actionable task or undefined
  */
 export function getNextTask(parsed: ParsedTaskFile): ParsedTask | undefined {
-  return parsed.tasks.find(t => !t.completed);
+  const done = getCompletedTaskIds(parsed.tasks);
+  const byId = new Map(parsed.tasks.map(t => [t.id, t]));
+  const parents = new Set(parsed.tasks.map(t => t.parentId));
+  
+  const isBlocked = (task: ParsedTask | undefined): boolean => {
+    if (!task) return false;
+    const blocked = (task.dependencies ?? []).some(id => byId.has(id) && !done.has(id));
+    return blocked || isBlocked(task.parentId ? byId.get(task.parentId) : undefined);
+  };
+  
+  return parsed.tasks.find(t => !done.has(t.id) && !parents.has(t.id) && !isBlocked(t));
 }
 
 /**
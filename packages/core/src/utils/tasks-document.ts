@@ -0,0 +1,561 @@
+/**
+ * tasks.md document model
+ * Keeps every line of the original file so that programmatic edits
+ * (toggling, adding, moving and nesting tasks) produce minimal diffs
+ */
+
+import { SpecLifeError, ErrorCodes, type ChangeTask } from '../types.js';
+import type { ParsedTask } from './task-progress.js';
+
+/** Regular expressions for parsing task lines */
+const TASK_REGEX = {
+  /** Matches checkbox line: "- [x] 1.1 Task", "  * [ ] Task" */
+  checkbox: /^(\s*)([-*])\s*\[([ xX])\]\s*(.+)$/,
+  /** Matches the parts of a checkbox line around its content */
+  parts: /^(\s*[-*]\s*\[[ xX]\]\s*)((?:\d+(?:\.\d+)*)\s+)?(.*)$/,
+  /** Matches a task number before the description: "1.1 Task" */
+  number: /^(\d+(?:\.\d+)*)\s+(.+)$/,
+  /** Matches section header: "## 1. Section Name" */
+  sectionHeader: /^##\s*(\d+)\.\s*(.+)$/,
+  /** Matches trailing metadata: "Task (owner: @alice, est: 2h, blocked-by: 1.1)" */
+  metadata: /\s*\(([^()]*)\)\s*$/,
+  /** Matches a metadata entry: "owner: @alice" */
+  metadataEntry: /^([\w-]+):\s*(.*)$/,
+  /** Matches a fenced code block delimiter */
+  fence: /^\s*(?:```|~~~)/,
+};
+
+/** Metadata keys recognized in a task's trailing parentheses */
+const METADATA_KEYS: Record<string, 'owner' | 'estimate' | 'dependencies'> = {
+  'owner': 'owner',
+  'est': 'estimate',
+  'estimate': 'estimate',
+  'blocked-by': 'dependencies',
+  'depends-on': 'dependencies',
+};
+
+/** Indentation added for subtasks when a parent has none yet */
+const SUBTASK_INDENT = '  ';
+
+/** A task in a tasks.md document */
+export interface DocumentTask extends ParsedTask {
+  /** Line number (1-based) */
+  line: number;
+  /** Nesting depth (0 for top-level tasks) */
+  depth: number;
+  /** IDs of direct subtasks */
+  children: string[];
+  /** Task number written in the file ("1.2"), if any */
+  number?: string;
+}
+
+/** A "## 1. Section" header in a tasks.md document */
+export interface TasksSection {
+  number: string;
+  name: string;
+  /** Line number (1-based) */
+  line: number;
+}
+
+/** A parsed tasks.md file that formats back to its original text */
+export interface TasksDocument {
+  /** File lines without line terminators */
+  lines: string[];
+  /** Line terminator used by the file */
+  eol: '\n' | '\r\n';
+  /** Tasks in document order; subtasks follow their parent */
+  tasks: DocumentTask[];
+  /** Section headers in document order */
+  sections: TasksSection[];
+}
+
+export interface AddTaskOptions {
+  /** Section number to add the task to; the section is created if missing (default: last section) */
+  section?: string;
+  /** Name for a newly created section (default: "Tasks") */
+  sectionName?: string;
+  /** Add the task as the last subtask of this task */
+  parentId?: string;
+  /** Task number to write (default: the next number when sibling tasks are numbered) */
+  number?: string;
+  /** Add the task already checked off */
+  completed?: boolean;
+}
+
+/** Where to move a task: before or after another task */
+export type TaskPosition = { before: string } | { after: string };
+
+/**
+ * Parse a single task line
+ * Tasks without a number get an ID derived from their section and description,
+ * so the same file always yields the same IDs.
+ * @param line Line from tasks.md
+ * @param currentSection Current section number
+ * @param currentSectionName Current section name
+ * @returns Parsed task or null if not a task line
+ */
+export function parseTaskLine(
+  line: string,
+  currentSection?: string,
+  currentSectionName?: string
+): ParsedTask | null {
+  const match = matchTask(line);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    id: match.number ?? derivedId(currentSection, match.content),
+    content: match.content,
+    completed: match.completed,
+    section: currentSection,
+    sectionName: currentSectionName,
+    ...match.metadata,
+  };
+}
+
+/**
+ * Parse a section header line
+ * @param line Line from tasks.md
+ * @returns Section info or null if not a header
+ */
+export function parseSectionHeader(line: string): { number: string; name: string } | null {
+  const match = line.match(TASK_REGEX.sectionHeader);
+  if (match) {
+    return {
+      number: match[1],
+      name: match[2].trim(),
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse tasks.md content into a document.
+ * Indented checkboxes become subtasks of the checkbox above them; checkboxes
+ * inside fenced code blocks are ignored.
+ */
+export function parseTasksDocument(content: string): TasksDocument {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  return buildDocument(content.split(/\r?\n/), eol);
+}
+
+/**
+ * Render a document back to tasks.md content
+ */
+export function formatTasksDocument(document: TasksDocument): string {
+  return document.lines.join(document.eol);
+}
+
+/**
+ * Find a task by ID
+ * @throws SpecLifeError with TASK_NOT_FOUND if there is no such task
+ */
+export function findTask(document: TasksDocument, id: string): DocumentTask {
+  const task = document.tasks.find(t => t.id === id);
+  if (!task) {
+    throw new SpecLifeError(
+      ErrorCodes.TASK_NOT_FOUND,
+      `Task '${id}' not found`,
+      { taskId: id }
+    );
+  }
+  return task;
+}
+
+/**
+ * Check off or uncheck a task, touching only its checkbox
+ */
+export function setTaskCompleted(document: TasksDocument, id: string, completed: boolean): TasksDocument {
+  const task = findTask(document, id);
+  if (task.completed === completed) {
+    return document;
+  }
+
+  const lines = [...document.lines];
+  lines[task.line - 1] = lines[task.line - 1].replace(/\[[ xX]\]/, completed ? '[x]' : '[ ]');
+  return buildDocument(lines, document.eol);
+}
+
+/**
+ * Flip a task's checkbox
+ */
+export function toggleTask(document: TasksDocument, id: string): TasksDocument {
+  return setTaskCompleted(document, id, !findTask(document, id).completed);
+}
+
+/**
+ * Replace a task's description, keeping its checkbox, number and metadata.
+ * Tasks without a number derive their ID from the description, so their ID changes.
+ */
+export function setTaskContent(document: TasksDocument, id: string, content: string): TasksDocument {
+  const task = findTask(document, id);
+  const lines = [...document.lines];
+  const suffix = matchTask(lines[task.line - 1])!.metadataText;
+  lines[task.line - 1] = lines[task.line - 1].replace(
+    TASK_REGEX.parts,
+    (_, prefix: string, number: string | undefined) => `${prefix}${number ?? ''}${content.trim()}${suffix}`
+  );
+  return buildDocument(lines, document.eol);
+}
+
+/**
+ * Add a task after the last task of its section, or as the last subtask of a parent
+ * @returns The updated document and the added task
+ */
+export function addTask(
+  document: TasksDocument,
+  content: string,
+  options: AddTaskOptions = {}
+): { document: TasksDocument; task: DocumentTask } {
+  const lines = [...document.lines];
+  let index: number;
+  let indent = '';
+  let bullet = '-';
+  let number = options.number;
+
+  if (options.parentId) {
+    const parent = findTask(document, options.parentId);
+    const siblings = document.tasks.filter(t => t.parentId === parent.id);
+    const style = siblings[0] ?? parent;
+    indent = siblings[0] ? indentOf(document, siblings[0]) : indentOf(document, parent) + SUBTASK_INDENT;
+    bullet = bulletOf(document, style);
+    number ??= parent.number && siblings.every(t => t.number) ? nextNumber(parent.number, siblings) : undefined;
+    index = blockEnd(document, parent);
+  } else {
+    const sectionNumber = options.section ?? document.sections[document.sections.length - 1]?.number;
+    const section = document.sections.find(s => s.number === sectionNumber);
+    const siblings = document.tasks.filter(t => t.depth === 0 && t.section === sectionNumber);
+    const last = siblings[siblings.length - 1];
+
+    if (siblings[0]) {
+      indent = indentOf(document, siblings[0]);
+      bullet = bulletOf(document, siblings[0]);
+    }
+    if (number === undefined && siblings.every(t => t.number)) {
+      number = sectionNumber || siblings.length > 0 ? nextNumber(sectionNumber, siblings) : undefined;
+    }
+
+    if (last) {
+      index = blockEnd(document, last);
+    } else if (section) {
+      // Keep a blank line after the header if the file uses one
+      index = lines[section.line]?.trim() === '' ? section.line + 1 : section.line;
+    } else if (sectionNumber) {
+      let end = lines.length;
+      while (end > 0 && lines[end - 1].trim() === '') end--;
+      const header = `## ${sectionNumber}. ${options.sectionName ?? 'Tasks'}`;
+      lines.splice(end, lines.length - end, ...(end > 0 ? ['', header] : [header]), '');
+      index = lines.length - 1;
+    } else {
+      index = lines.length > 0 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+    }
+  }
+
+  const checkbox = options.completed ? '[x]' : '[ ]';
+  lines.splice(index, 0, `${indent}${bullet} ${checkbox} ${number ? `${number} ` : ''}${content.trim()}`);
+
+  const updated = buildDocument(lines, document.eol);
+  return { document: updated, task: updated.tasks.find(t => t.line === index + 1)! };
+}
+
+/**
+ * Remove a task together with its subtasks
+ */
+export function removeTask(document: TasksDocument, id: string): TasksDocument {
+  const task = findTask(document, id);
+  const lines = [...document.lines];
+  lines.splice(task.line - 1, blockEnd(document, task) - (task.line - 1));
+  return buildDocument(lines, document.eol);
+}
+
+/**
+ * Move a task and its subtasks next to another task.
+ * The moved lines take the target's indentation, so moving next to a
+ * top-level task un-nests a subtask.
+ * @throws SpecLifeError with INVALID_TASK_EDIT when moving a task next to its own subtask
+ */
+export function moveTask(document: TasksDocument, id: string, position: TaskPosition): TasksDocument {
+  const task = findTask(document, id);
+  const targetId = 'before' in position ? position.before : position.after;
+  const target = findTask(document, targetId);
+  const index = 'before' in position ? target.line - 1 : blockEnd(document, target);
+
+  return relocate(document, task, index, indentOf(document, target));
+}
+
+/**
+ * Make a task (with its subtasks) the last subtask of another task
+ * @throws SpecLifeError with INVALID_TASK_EDIT when nesting a task under itself
+ */
+export function nestTask(document: TasksDocument, id: string, parentId: string): TasksDocument {
+  const task = findTask(document, id);
+  const parent = findTask(document, parentId);
+  const child = document.tasks.find(t => t.parentId === parent.id && t.id !== task.id);
+  const indent = child ? indentOf(document, child) : indentOf(document, parent) + SUBTASK_INDENT;
+
+  return relocate(document, task, blockEnd(document, parent), indent);
+}
+
+/**
+ * Make a document match a flat task list, as used by OpenSpecAdapter.updateTasks.
+ * Checkboxes and descriptions are updated in place, tasks missing from the list
+ * are removed (with their subtasks) and new tasks are added to the section or
+ * parent their number points at. Everything else in the file is kept.
+ */
+export function applyTaskList(document: TasksDocument, tasks: ChangeTask[]): TasksDocument {
+  const wanted = new Set(tasks.map(t => t.id));
+  let updated = document;
+
+  for (const task of [...document.tasks].reverse()) {
+    if (!wanted.has(task.id) && updated.tasks.some(t => t.id === task.id)) {
+      updated = removeTask(updated, task.id);
+    }
+  }
+
+  for (const task of tasks) {
+    const existing = updated.tasks.find(t => t.id === task.id);
+    if (existing) {
+      updated = setTaskCompleted(updated, task.id, task.completed);
+      if (existing.content !== task.content.trim()) {
+        updated = setTaskContent(updated, task.id, task.content);
+      }
+      continue;
+    }
+
+    const numbered = /^\d+(?:\.\d+)*$/.test(task.id);
+    const parentNumber = numbered ? task.id.split('.').slice(0, -1).join('.') : '';
+    const parent = parentNumber.includes('.') ? updated.tasks.find(t => t.id === parentNumber) : undefined;
+    const section = task.id.match(/^(\d+)\./)?.[1];
+
+    updated = addTask(updated, task.content, {
+      parentId: parent?.id,
+      section: parent ? undefined : section,
+      number: numbered ? task.id : undefined,
+      completed: task.completed,
+    }).document;
+  }
+
+  return updated;
+}
+
+/** Metadata from a task's trailing parentheses */
+type TaskMetadata = Pick<ParsedTask, 'owner' | 'estimate' | 'dependencies'>;
+
+/** Parsed parts of a checkbox line */
+interface TaskMatch {
+  indent: string;
+  bullet: string;
+  completed: boolean;
+  number?: string;
+  /** Description without metadata */
+  content: string;
+  metadata: TaskMetadata;
+  /** Metadata as written, including the leading space ("" if none) */
+  metadataText: string;
+}
+
+function matchTask(line: string): TaskMatch | null {
+  const match = line.match(TASK_REGEX.checkbox);
+  if (!match) {
+    return null;
+  }
+
+  const [, indent, bullet, checkmark, rest] = match;
+  const numbered = rest.match(TASK_REGEX.number);
+  let content = (numbered ? numbered[2] : rest).trim();
+  let metadata: TaskMetadata = {};
+  let metadataText = '';
+
+  const trailing = content.match(TASK_REGEX.metadata);
+  const parsed = trailing?.index ? parseMetadata(trailing[1]) : null;
+  if (trailing && parsed) {
+    metadata = parsed;
+    metadataText = trailing[0];
+    content = content.slice(0, trailing.index).trim();
+  }
+
+  return {
+    indent,
+    bullet,
+    completed: checkmark.toLowerCase() === 'x',
+    number: numbered?.[1],
+    content,
+    metadata,
+    metadataText,
+  };
+}
+
+/**
+ * Parse "owner: @alice, est: 2h, blocked-by: 1.1 1.2"
+ * @returns null unless every entry uses a known key, so ordinary parenthesized text is left alone
+ */
+function parseMetadata(text: string): TaskMetadata | null {
+  const metadata: TaskMetadata = {};
+  let current: (typeof METADATA_KEYS)[string] | undefined;
+
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const entry = part.match(TASK_REGEX.metadataEntry);
+    const known = entry ? METADATA_KEYS[entry[1].toLowerCase()] : undefined;
+    if (entry && !known) {
+      return null;
+    }
+    current = known ?? current;
+    const value = entry ? entry[2].trim() : part;
+
+    if (current === 'dependencies') {
+      metadata.dependencies = [...metadata.dependencies ?? [], ...value.split(/\s+/).filter(Boolean)];
+    } else if (current === 'owner' && entry) {
+      metadata.owner = value.replace(/^@/, '');
+    } else if (current === 'estimate' && entry) {
+      metadata.estimate = value;
+    } else {
+      return null;
+    }
+  }
+
+  return current ? metadata : null;
+}
+
+function buildDocument(lines: string[], eol: TasksDocument['eol']): TasksDocument {
+  const tasks: DocumentTask[] = [];
+  const sections: TasksSection[] = [];
+  const used = new Set<string>();
+  const byId = new Map<string, DocumentTask>();
+  const stack: Array<{ width: number; id: string }> = [];
+  let section: TasksSection | undefined;
+  let fenced = false;
+
+  lines.forEach((text, index) => {
+    if (TASK_REGEX.fence.test(text)) {
+      fenced = !fenced;
+      return;
+    }
+    if (fenced) {
+      return;
+    }
+
+    const header = parseSectionHeader(text);
+    if (header) {
+      section = { ...header, line: index + 1 };
+      sections.push(section);
+      stack.length = 0;
+      return;
+    }
+    if (text.startsWith('#')) {
+      stack.length = 0;
+      return;
+    }
+
+    const match = matchTask(text);
+    if (!match) {
+      return;
+    }
+
+    const width = indentWidth(match.indent);
+    while (stack.length > 0 && stack[stack.length - 1].width >= width) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+
+    const base = match.number ?? (parent
+      ? `${parent.id}.${slugify(match.content)}`
+      : derivedId(section?.number, match.content));
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+
+    const task: DocumentTask = {
+      id,
+      content: match.content,
+      completed: match.completed,
+      section: section?.number,
+      sectionName: section?.name,
+      ...match.metadata,
+      line: index + 1,
+      depth: stack.length,
+      parentId: parent?.id,
+      children: [],
+      number: match.number,
+    };
+    tasks.push(task);
+    byId.set(id, task);
+    if (parent) {
+      byId.get(parent.id)!.children.push(id);
+    }
+    stack.push({ width, id });
+  });
+
+  return { lines, eol, tasks, sections };
+}
+
+/** Move a task's lines to an index (in the current document), re-indenting them */
+function relocate(document: TasksDocument, task: DocumentTask, index: number, indent: string): TasksDocument {
+  const start = task.line - 1;
+  const end = blockEnd(document, task);
+  if (index > start && index < end) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TASK_EDIT,
+      `Cannot move task '${task.id}' into its own subtasks`,
+      { taskId: task.id }
+    );
+  }
+
+  const from = indentOf(document, task);
+  const block = document.lines.slice(start, end).map(line =>
+    line.trim() === '' ? line : indent + (line.startsWith(from) ? line.slice(from.length) : line.trimStart())
+  );
+  const lines = [...document.lines];
+  lines.splice(start, end - start);
+  lines.splice(index > start ? index - block.length : index, 0, ...block);
+  return buildDocument(lines, document.eol);
+}
+
+/**
+ * Index just past a task's block: its line, its subtasks and any lines
+ * indented below it, without trailing blank lines
+ */
+function blockEnd(document: TasksDocument, task: DocumentTask): number {
+  const width = indentWidth(indentOf(document, task));
+  let end = task.line;
+
+  for (let i = task.line; i < document.lines.length; i++) {
+    const text = document.lines[i];
+    if (text.trim() === '') {
+      continue;
+    }
+    if (indentWidth(text.match(/^\s*/)![0]) <= width) {
+      break;
+    }
+    end = i + 1;
+  }
+
+  return end;
+}
+
+function nextNumber(prefix: string | undefined, siblings: DocumentTask[]): string {
+  const last = Math.max(0, ...siblings.map(t => Number(t.number!.split('.').pop())));
+  return prefix ? `${prefix}.${last + 1}` : String(last + 1);
+}
+
+function indentOf(document: TasksDocument, task: DocumentTask): string {
+  return document.lines[task.line - 1].match(/^\s*/)![0];
+}
+
+function bulletOf(document: TasksDocument, task: DocumentTask): string {
+  return document.lines[task.line - 1].trimStart()[0];
+}
+
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, '    ').length;
+}
+
+function derivedId(section: string | undefined, content: string): string {
+  return section ? `${section}.${slugify(content)}` : slugify(content);
+}
+
+function slugify(content: string): string {
+  return content.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 20).replace(/-+$/, '') || 'task';
+}
@@ -0,0 +1,385 @@
+/**
+ * OpenSpec change validation
+ * Checks proposal.md, tasks.md and spec deltas in-process, reporting
+ * problems with file and line locations
+ */
+
+import { readFile, access } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import {
+  SpecLifeError,
+  ErrorCodes,
+  type ValidationIssue,
+  type ValidationReport,
+  type ValidationStatus,
+} from '../types.js';
+import { parseTaskLine, parseSectionHeader } from './task-progress.js';
+import { parseTasksDocument } from './tasks-document.js';
+import { parseSpecDelta, findDeltaFiles, applySpecDeltas } from './spec-delta.js';
+import { parseImpact, checkImpactDrift, formatImpactDrift } from './impact.js';
+
+/** Minimum length of the "Why" section before it is flagged as too thin */
+const MIN_WHY_LENGTH = 50;
+
+/** Issues found in a single file */
+export interface FileValidation {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface ValidateChangeOptions {
+  /** Project root directory */
+  projectRoot: string;
+  /** OpenSpec directory name (default: "openspec") */
+  specDir?: string;
+  /** Change to validate */
+  changeId: string;
+  /** Warn about tasks that are not checked off yet (default: false) */
+  checkTaskCompletion?: boolean;
+  /**
+   * Files changed on the change branch, relative to the project root.
+   * When given, the proposal's Impact section is checked against them.
+   */
+  changedFiles?: string[];
+}
+
+/**
+ * Validate proposal.md: Why, What Changes and Impact sections
+ * @param content proposal.md content
+ * @param file Path reported in issues
+ */
+export function validateProposal(content: string, file: string): FileValidation {
+  const result: FileValidation = { errors: [], warnings: [] };
+  const sections = splitSections(content);
+
+  const why = sections.get('why');
+  if (!why) {
+    result.errors.push({ file, message: 'Missing "## Why" section' });
+  } else {
+    const text = why.body.join('\n').trim();
+    if (!text) {
+      result.errors.push({ file, line: why.line, message: '"## Why" section is empty' });
+    } else if (text.length < MIN_WHY_LENGTH) {
+      result.warnings.push({
+        file,
+        line: why.line,
+        message: `"## Why" is only ${text.length} characters; explain the motivation (at least ${MIN_WHY_LENGTH})`,
+      });
+    }
+  }
+
+  const what = sections.get('what changes');
+  if (!what) {
+    result.errors.push({ file, message: 'Missing "## What Changes" section' });
+  } else if (!what.body.some(line => /^\s*(?:[-*]|\d+\.)\s+\S/.test(line))) {
+    result.errors.push({ file, line: what.line, message: '"## What Changes" must list at least one change' });
+  }
+
+  const impact = sections.get('impact');
+  if (!impact) {
+    result.warnings.push({ file, message: 'Missing "## Impact" section' });
+  } else if (!impact.body.join('\n').trim()) {
+    result.warnings.push({ file, line: impact.line, message: '"## Impact" section is empty' });
+  }
+
+  return result;
+}
+
+/**
+ * Validate tasks.md formatting
+ * @param content tasks.md content
+ * @param file Path reported in issues
+ * @param options.checkCompletion Warn about unchecked tasks
+ */
+export function validateTasks(
+  content: string,
+  file: string,
+  options: { checkCompletion?: boolean } = {}
+): FileValidation {
+  const result: FileValidation = { errors: [], warnings: [] };
+  const seen = new Map<string, number>();
+  let section: string | undefined;
+
+  content.split('\n').forEach((text, index) => {
+    const line = index + 1;
+
+    const header = parseSectionHeader(text);
+    if (header) {
+      section = header.number;
+      return;
+    }
+
+    if (!/^\s*[-*]\s*\[/.test(text)) {
+      return;
+    }
+
+    // Indented lines may be ordinary nested list items, so only top-level ones are reported as malformed
+    const task = parseTaskLine(text, section);
+    if (!task && /^\s/.test(text)) {
+      return;
+    }
+    if (!task) {
+      result.errors.push({ file, line, message: `Malformed task: "${text.trim()}"; expected "- [ ] 1.1 Description"` });
+      return;
+    }
+
+    const numbered = text.match(/^\s*[-*]\s*\[[ xX]\]\s*(\d+(?:\.\d+)*)\s/);
+    if (numbered) {
+      const id = numbered[1];
+      const first = seen.get(id);
+      if (first !== undefined) {
+        result.errors.push({ file, line, message: `Duplicate task ID ${id} (first used on line ${first})` });
+      } else {
+        seen.set(id, line);
+      }
+      if (section && id.includes('.') && id.split('.')[0] !== section) {
+        result.warnings.push({ file, line, message: `Task ${id} is listed under section ${section}` });
+      }
+    }
+
+    if (options.checkCompletion && !task.completed) {
+      result.warnings.push({ file, line, message: `Task ${numbered ? numbered[1] : `"${task.content}"`} is not complete` });
+    }
+  });
+
+  const { tasks } = parseTasksDocument(content);
+  const ids = new Set(tasks.map(t => t.id));
+  for (const task of tasks) {
+    for (const dependency of task.dependencies ?? []) {
+      if (dependency === task.id || !ids.has(dependency)) {
+        result.warnings.push({
+          file,
+          line: task.line,
+          message: dependency === task.id
+            ? `Task ${task.id} is blocked by itself`
+            : `Task ${task.id} is blocked by unknown task ${dependency}`,
+        });
+      }
+    }
+  }
+
+  if (tasks.length === 0) {
+    result.warnings.push({ file, message: 'tasks.md has no tasks' });
+  }
+
+  return result;
+}
+
+/**
+ * Validate a spec delta: delta section headers, requirements and scenarios
+ * @param content spec.md content from a change's specs/ directory
+ * @param file Path reported in issues
+ */
+export function validateSpecDelta(content: string, file: string): FileValidation {
+  const result: FileValidation = { errors: [], warnings: [] };
+  const delta = parseSpecDelta(content);
+
+  for (const header of delta.unknownHeaders) {
+    result.errors.push({
+      file,
+      line: header.line,
+      message: `Unknown delta section "## ${header.title}"; expected ADDED, MODIFIED, REMOVED or RENAMED Requirements`,
+    });
+  }
+
+  if (delta.sections.length === 0) {
+    result.errors.push({ file, message: 'No delta sections found (e.g. "## ADDED Requirements")' });
+  }
+
+  for (const section of delta.sections) {
+    if (section.requirements.length === 0 && section.renames.length === 0) {
+      result.errors.push({
+        file,
+        line: section.line,
+        message: section.operation === 'RENAMED'
+          ? '"## RENAMED Requirements" has no "- FROM: / - TO:" pairs'
+          : `"## ${section.operation} Requirements" has no "### Requirement:" entries`,
+      });
+    }
+
+    const names = new Map<string, number>();
+    for (const requirement of section.requirements) {
+      const first = names.get(requirement.name);
+      if (first !== undefined) {
+        result.errors.push({
+          file,
+          line: requirement.line,
+          message: `Requirement "${requirement.name}" appears twice in ${section.operation} (first on line ${first})`,
+        });
+      } else {
+        names.set(requirement.name, requirement.line);
+      }
+
+      if (section.operation !== 'ADDED' && section.operation !== 'MODIFIED') {
+        continue;
+      }
+      if (requirement.scenarios.length === 0) {
+        result.errors.push({
+          file,
+          line: requirement.line,
+          message: `Requirement "${requirement.name}" must have at least one "#### Scenario:"`,
+        });
+      }
+      if (!/\b(SHALL|MUST)\b/.test(requirement.content)) {
+        result.warnings.push({
+          file,
+          line: requirement.line,
+          message: `Requirement "${requirement.name}" should use SHALL or MUST`,
+        });
+      }
+    }
+  }
+
+  // Scenarios written with the wrong header level or as bold text are silently ignored by OpenSpec
+  content.split('\n').forEach((text, index) => {
+    if (/^(?:#{1,3}|#{5,})\s*Scenario:/.test(text) || /^\s*(?:[-*]\s*)?\*\*Scenario:/.test(text)) {
+      result.errors.push({ file, line: index + 1, message: 'Scenario headers must use "#### Scenario: <name>"' });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Validate a change's proposal, tasks and spec deltas, including whether
+ * the deltas apply to the canonical specs
+ * @throws SpecLifeError with CHANGE_NOT_FOUND if the change does not exist
+ */
+export async function validateChange(options: ValidateChangeOptions): Promise<ValidationReport> {
+  const { projectRoot, specDir = 'openspec', changeId, checkTaskCompletion = false, changedFiles } = options;
+  const changeDir = join(projectRoot, specDir, 'changes', changeId);
+
+  if (!await exists(changeDir)) {
+    throw new SpecLifeError(
+      ErrorCodes.CHANGE_NOT_FOUND,
+      `Change '${changeId}' not found`,
+      { changeId }
+    );
+  }
+
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const collect = (found: FileValidation) => {
+    errors.push(...found.errors);
+    warnings.push(...found.warnings);
+  };
+  const display = (path: string) => relative(projectRoot, path).split(sep).join('/');
+
+  const proposalPath = join(changeDir, 'proposal.md');
+  const proposal = await readOptional(proposalPath);
+  if (proposal === null) {
+    errors.push({ file: display(proposalPath), message: 'proposal.md not found' });
+  } else {
+    collect(validateProposal(proposal, display(proposalPath)));
+  }
+
+  const tasksPath = join(changeDir, 'tasks.md');
+  const tasks = await readOptional(tasksPath);
+  if (tasks === null) {
+    errors.push({ file: display(tasksPath), message: 'tasks.md not found' });
+  } else {
+    collect(validateTasks(tasks, display(tasksPath), { checkCompletion: checkTaskCompletion }));
+  }
+
+  const specFiles = await findDeltaFiles(join(changeDir, 'specs'));
+  if (specFiles.length === 0) {
+    warnings.push({ file: display(join(changeDir, 'specs')), message: 'Change has no spec deltas' });
+  }
+  for (const path of specFiles) {
+    collect(validateSpecDelta(await readFile(path, 'utf-8'), display(path)));
+  }
+
+  // Deltas must also apply cleanly to the current canonical specs
+  if (specFiles.length > 0) {
+    const { conflicts } = await applySpecDeltas({ projectRoot, specDir, changeId, dryRun: true });
+    for (const conflict of conflicts) {
+      errors.push({ file: conflict.file, line: conflict.line, message: conflict.message });
+    }
+  }
+
+  // Declared impact must match what the branch actually touches
+  if (proposal !== null && changedFiles) {
+    collect(validateImpact(proposal, display(proposalPath), {
+      specDir,
+      changeId,
+      changedFiles: [...changedFiles, ...specFiles.map(display)],
+    }));
+  }
+
+  const status: ValidationStatus = errors.length > 0
+    ? 'fail'
+    : warnings.length > 0 ? 'pass_with_warnings' : 'pass';
+
+  return { changeId, status, errors, warnings };
+}
+
+/**
+ * Validate a proposal's Impact section against the files a change touches.
+ * Touched areas the proposal does not declare are errors; declared areas
+ * the change leaves untouched are warnings.
+ * @param content proposal.md content
+ * @param file Path reported in issues
+ */
+export function validateImpact(
+  content: string,
+  file: string,
+  options: { specDir?: string; changeId: string; changedFiles: string[] }
+): FileValidation {
+  const { changedFiles, ...driftOptions } = options;
+  const impact = splitSections(content).get('impact');
+  const drift = checkImpactDrift(parseImpact(impact?.body.join('\n') ?? ''), changedFiles, driftOptions);
+
+  const undeclared = formatImpactDrift({ ...drift, untouchedCode: [], untouchedSpecs: [] });
+  const untouched = formatImpactDrift({ ...drift, undeclaredCode: [], undeclaredSpecs: [] });
+
+  return {
+    errors: undeclared.map(message => ({ file, line: impact?.line, message })),
+    warnings: untouched.map(message => ({ file, line: impact?.line, message })),
+  };
+}
+
+/**
+ * Format an issue as "file:line: message"
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const location = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+  return `${location}: ${issue.message}`;
+}
+
+/** Split markdown into level-2 sections keyed by lowercase title */
+function splitSections(content: string): Map<string, { line: number; body: string[] }> {
+  const sections = new Map<string, { line: number; body: string[] }>();
+  let current: { line: number; body: string[] } | null = null;
+
+  content.replace(/\r\n/g, '\n').split('\n').forEach((text, index) => {
+    const header = text.match(/^##\s+(.+?)\s*$/);
+    if (header) {
+      current = { line: index + 1, body: [] };
+      const key = header[1].toLowerCase();
+      if (!sections.has(key)) {
+        sections.set(key, current);
+      }
+    } else if (current) {
+      current.body.push(text);
+    }
+  });
+
+  return sections;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
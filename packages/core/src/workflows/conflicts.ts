@@ -0,0 +1,170 @@
+/**
+ * Conflicts workflow - detect overlap between active changes developed in parallel
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { createBranchNaming, type BranchNaming } from '../utils/branch-naming.js';
+import { getDeclaredSpecs } from '../utils/impact.js';
+
+/**
+ * How two changes interact:
+ * - conflict: a trial merge conflicts, or both deltas touch the same requirement
+ * - overlap: both touch the same files or spec capabilities
+ * - none: independent
+ */
+export type ConflictLevel = 'conflict' | 'overlap' | 'none';
+
+export interface ConflictsOptions {
+  /** Base branch change branches are created from (default: "main") */
+  baseBranch?: string;
+  /** Changes to analyse (default: all active changes) */
+  changeIds?: string[];
+  /** Run trial merges between branches that share files (default: true) */
+  trialMerge?: boolean;
+}
+
+/** What a single change touches */
+export interface ChangeFootprint {
+  changeId: string;
+  branch: string;
+  /** Whether the change branch exists locally */
+  hasBranch: boolean;
+  /** Files changed on the branch since the base */
+  files: string[];
+  /** Capabilities from spec deltas and "Affected specs" */
+  specs: string[];
+  /** Requirements touched by spec deltas ("capability: Requirement") */
+  requirements: string[];
+  /** Files conflicting with the current base branch (null when not checked) */
+  baseConflicts: string[] | null;
+}
+
+/** Interaction between two changes */
+export interface ChangeConflict {
+  changes: [string, string];
+  level: ConflictLevel;
+  /** Files changed by both */
+  files: string[];
+  /** Capabilities touched by both */
+  specs: string[];
+  /** Requirements touched by both deltas */
+  requirements: string[];
+  /** Files a trial merge of both branches conflicts on (null when not merged) */
+  mergeConflicts: string[] | null;
+}
+
+export interface ConflictsResult {
+  baseBranch: string;
+  changes: ChangeFootprint[];
+  /** Pairs of changes that overlap or conflict */
+  conflicts: ChangeConflict[];
+  /** Level for every pair, indexed like `changes` (diagonal is "none") */
+  matrix: ConflictLevel[][];
+}
+
+interface ConflictsDependencies {
+  git: GitAdapter;
+  openspec: OpenSpecAdapter;
+  branchNaming?: BranchNaming;
+}
+
+/**
+ * Intersect the files, spec deltas and affected specs of active changes,
+ * trial-merging branches that share files
+ */
+export async function conflictsWorkflow(
+  options: ConflictsOptions,
+  deps: ConflictsDependencies
+): Promise<ConflictsResult> {
+  const { baseBranch = 'main', trialMerge = true } = options;
+  const { git, openspec, branchNaming = createBranchNaming() } = deps;
+
+  const changeIds = options.changeIds ?? (await openspec.listChanges()).sort();
+  const hasBase = await git.branchExists(baseBranch);
+
+  const changes: ChangeFootprint[] = [];
+  for (const changeId of changeIds) {
+    const branch = branchNaming.branchFor(changeId);
+    const hasBranch = hasBase && branch !== baseBranch && await git.branchExists(branch);
+    const change = await openspec.readChange(changeId);
+    const deltas = await openspec.readSpecDeltas(changeId);
+
+    const requirements = deltas.flatMap(({ capability, delta }) => delta.sections.flatMap(section => [
+      ...section.requirements.map(r => r.name),
+      ...section.renames.flatMap(r => [r.from, r.to]),
+    ]).map(name => `${capability}: ${name}`));
+
+    let baseConflicts: string[] | null = null;
+    if (hasBranch && trialMerge) {
+      baseConflicts = (await git.trialMerge(baseBranch, branch))?.conflicts ?? null;
+    }
+
+    changes.push({
+      changeId,
+      branch,
+      hasBranch,
+      files: hasBranch ? await git.getDiffFiles(baseBranch, branch) : [],
+      specs: unique([...deltas.map(d => d.capability), ...getDeclaredSpecs(change.proposal.impact)]),
+      requirements: unique(requirements),
+      baseConflicts,
+    });
+  }
+
+  const conflicts: ChangeConflict[] = [];
+  const matrix: ConflictLevel[][] = changes.map(() => changes.map((): ConflictLevel => 'none'));
+  for (let i = 0; i < changes.length; i++) {
+    for (let j = i + 1; j < changes.length; j++) {
+      const a = changes[i];
+      const b = changes[j];
+      const files = intersect(a.files, b.files);
+      const specs = intersect(a.specs, b.specs);
+      const requirements = intersect(a.requirements, b.requirements);
+
+      // Branches without common files merge cleanly, so only those sharing files are merged
+      let mergeConflicts: string[] | null = null;
+      if (trialMerge && files.length > 0) {
+        mergeConflicts = (await git.trialMerge(a.branch, b.branch))?.conflicts ?? null;
+      }
+
+      const level: ConflictLevel = (mergeConflicts?.length ?? 0) > 0 || requirements.length > 0
+        ? 'conflict'
+        : files.length > 0 || specs.length > 0 ? 'overlap' : 'none';
+      matrix[i][j] = matrix[j][i] = level;
+      if (level !== 'none') {
+        conflicts.push({ changes: [a.changeId, b.changeId], level, files, specs, requirements, mergeConflicts });
+      }
+    }
+  }
+
+  return { baseBranch, changes, conflicts, matrix };
+}
+
+/**
+ * Describe a conflict as a single line ("merge conflict in src/a.ts; same requirement cli: Sync")
+ */
+export function formatChangeConflict(conflict: ChangeConflict): string {
+  const parts: string[] = [];
+  if (conflict.mergeConflicts && conflict.mergeConflicts.length > 0) {
+    parts.push(`merge conflict in ${conflict.mergeConflicts.join(', ')}`);
+  }
+  if (conflict.requirements.length > 0) {
+    parts.push(`same requirement ${conflict.requirements.join(', ')}`);
+  }
+  const otherFiles = conflict.files.filter(f => !conflict.mergeConflicts?.includes(f));
+  if (otherFiles.length > 0) {
+    parts.push(`both change ${otherFiles.join(', ')}`);
+  }
+  if (conflict.specs.length > 0) {
+    parts.push(`both affect spec ${conflict.specs.join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+function intersect(a: string[], b: string[]): string[] {
+  return a.filter(item => b.includes(item));
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)].sort();
+}
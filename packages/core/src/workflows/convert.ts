@@ -0,0 +1,198 @@
+/**
+ * Convert workflow - move a change between branch-only and worktree mode
+ */
+
+import { join } from 'path';
+import { createGitAdapter, type GitAdapter } from '../adapters/git-adapter.js';
+import {
+  type EnvironmentRegistry,
+  type BootstrapResult,
+  createDefaultEnvironmentRegistry,
+} from '../adapters/environment-adapter.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes, type ProgressCallback } from '../types.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+
+/** Where a change is developed */
+export type ChangeMode = 'branch' | 'worktree';
+
+export interface ConvertOptions {
+  /** Mode to move the change to */
+  to: ChangeMode;
+  /** Change to convert (default: the change of the current branch) */
+  changeId?: string;
+  /** Skip environment bootstrap when moving into a worktree */
+  skipBootstrap?: boolean;
+}
+
+export interface ConvertResult {
+  changeId: string;
+  branch: string;
+  /** Mode the change is now in */
+  mode: ChangeMode;
+  /** Worktree the change moved into or out of */
+  worktreePath: string;
+  /** Main repository, where the branch is checked out in branch mode */
+  mainPath: string;
+  /** Whether uncommitted changes were carried over */
+  carriedChanges: boolean;
+  /** Environment bootstrap results (worktree mode) */
+  bootstrapResults?: BootstrapResult[];
+}
+
+interface ConvertDependencies {
+  git: GitAdapter;
+  config: SpecLifeConfig;
+  environmentRegistry?: EnvironmentRegistry;
+}
+
+/**
+ * Move the current change into `<worktreeDir>/<change-id>` and return the
+ * main repository to the base branch, or check the change out in the main
+ * repository again and remove its worktree. Uncommitted changes are stashed
+ * and restored on the other side; if a step fails, completed steps are undone.
+ * @throws SpecLifeError with INVALID_TRANSITION if the change is already in the target mode
+ */
+export async function convertWorkflow(
+  options: ConvertOptions,
+  deps: ConvertDependencies,
+  onProgress?: ProgressCallback
+): Promise<ConvertResult> {
+  const { to, skipBootstrap = false } = options;
+  const { git, config, environmentRegistry } = deps;
+
+  const branchNaming = await resolveBranchNaming(config, git);
+  const currentBranch = await git.getCurrentBranch();
+  const changeId = options.changeId ?? branchNaming.changeIdFor(currentBranch);
+  if (!changeId) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TRANSITION,
+      `'${currentBranch}' is not a change branch; pass the change ID to convert`,
+      { branch: currentBranch }
+    );
+  }
+
+  const branch = branchNaming.branchFor(changeId);
+  const mainPath = await git.getMainWorktreePath();
+  const mainGit = createGitAdapter(mainPath);
+  const checkout = (await git.listWorktrees()).find(wt => wt.branch === branch);
+  const registry = environmentRegistry ?? createDefaultEnvironmentRegistry();
+  const stashMessage = `speclife convert ${changeId}`;
+
+  // Steps done so far, undone in reverse if a later step fails
+  const undo: Array<() => Promise<unknown>> = [];
+  const rollback = async (error: unknown): Promise<never> => {
+    onProgress?.({ type: 'step_completed', message: 'Conversion failed; rolling back' });
+    for (const step of undo.reverse()) {
+      await step().catch(() => undefined);
+    }
+    throw error;
+  };
+
+  if (to === 'worktree') {
+    if (!checkout || checkout.path !== mainPath) {
+      throw new SpecLifeError(
+        ErrorCodes.INVALID_TRANSITION,
+        checkout
+          ? `Change '${changeId}' is already in a worktree at ${checkout.path}`
+          : `Branch '${branch}' must be checked out in the main repository to move it into a worktree`,
+        { changeId, branch }
+      );
+    }
+
+    const worktreePath = join(mainPath, config.git?.worktreeDir ?? 'worktrees', changeId);
+    const baseBranch = resolveBaseBranch(config);
+    let carriedChanges = false;
+    let bootstrapResults: BootstrapResult[] | undefined;
+
+    try {
+      onProgress?.({ type: 'step_completed', message: 'Stashing uncommitted changes' });
+      carriedChanges = await mainGit.stash(stashMessage);
+      if (carriedChanges) undo.push(() => mainGit.stashPop());
+
+      onProgress?.({ type: 'step_completed', message: `Checking out ${baseBranch} in the main repository` });
+      await mainGit.checkout(baseBranch);
+      undo.push(() => mainGit.checkout(branch));
+
+      onProgress?.({ type: 'step_completed', message: `Creating worktree at ${worktreePath}` });
+      await mainGit.addWorktree(worktreePath, branch);
+      undo.push(() => mainGit.removeWorktree(worktreePath, true));
+
+      if (carriedChanges) {
+        onProgress?.({ type: 'step_completed', message: 'Restoring uncommitted changes in the worktree' });
+        await createGitAdapter(worktreePath).stashPop();
+        // The stash is gone; the removed worktree takes the changes with it unless they are stashed again
+        undo.push(() => createGitAdapter(worktreePath).stash(stashMessage));
+      }
+
+      if (!skipBootstrap) {
+        onProgress?.({ type: 'step_completed', message: 'Bootstrapping environments' });
+        undo.push(() => registry.cleanupAll(worktreePath));
+        bootstrapResults = await registry.bootstrapAll(
+          worktreePath,
+          mainPath,
+          config.worktree?.bootstrap?.strategy ?? 'symlink',
+          onProgress
+        );
+      }
+    } catch (error) {
+      return rollback(error);
+    }
+
+    onProgress?.({ type: 'step_completed', message: 'Converted to worktree' });
+    return { changeId, branch, mode: 'worktree', worktreePath, mainPath, carriedChanges, bootstrapResults };
+  }
+
+  if (!checkout || checkout.path === mainPath) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TRANSITION,
+      checkout
+        ? `Change '${changeId}' is already checked out in the main repository`
+        : `Change '${changeId}' has no worktree`,
+      { changeId, branch }
+    );
+  }
+
+  const worktreePath = checkout.path;
+  const worktreeGit = createGitAdapter(worktreePath);
+  const mainStatus = await mainGit.status();
+  if (mainStatus.staged.length > 0 || mainStatus.unstaged.length > 0) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TRANSITION,
+      `The main repository at ${mainPath} has uncommitted changes; commit or stash them first`,
+      { changeId, mainPath }
+    );
+  }
+  const previousBranch = await mainGit.getCurrentBranch();
+  let carriedChanges = false;
+
+  try {
+    onProgress?.({ type: 'step_completed', message: 'Stashing uncommitted changes' });
+    carriedChanges = await worktreeGit.stash(stashMessage);
+    if (carriedChanges) undo.push(() => worktreeGit.stashPop());
+
+    onProgress?.({ type: 'step_completed', message: 'Cleaning up environments' });
+    await registry.cleanupAll(worktreePath);
+
+    onProgress?.({ type: 'step_completed', message: `Removing worktree at ${worktreePath}` });
+    await mainGit.removeWorktree(worktreePath);
+    undo.push(async () => {
+      await mainGit.addWorktree(worktreePath, branch);
+      await registry.bootstrapAll(worktreePath, mainPath, config.worktree?.bootstrap?.strategy ?? 'symlink');
+    });
+
+    onProgress?.({ type: 'step_completed', message: `Checking out ${branch} in the main repository` });
+    await mainGit.checkout(branch);
+    undo.push(() => mainGit.checkout(previousBranch));
+
+    if (carriedChanges) {
+      onProgress?.({ type: 'step_completed', message: 'Restoring uncommitted changes' });
+      await mainGit.stashPop();
+    }
+  } catch (error) {
+    return rollback(error);
+  }
+
+  onProgress?.({ type: 'step_completed', message: 'Converted to branch' });
+  return { changeId, branch, mode: 'branch', worktreePath, mainPath, carriedChanges };
+}
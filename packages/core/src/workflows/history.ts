@@ -0,0 +1,133 @@
+/**
+ * History workflow - derive change timestamps and activity from git
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { type ChangeStateTransition, type GitCommit } from '../types.js';
+
+/** Days without activity after which a change is considered stale */
+export const DEFAULT_STALE_DAYS = 14;
+
+export interface ChangeHistoryOptions {
+  /** Change ID to get history for */
+  changeId: string;
+  /** Change branch (omit when unknown: only commits touching the change directory are used) */
+  branch?: string;
+  /** Base branch the change branch was created from (default: "main") */
+  baseBranch?: string;
+}
+
+export interface ChangeHistory {
+  /** First commit touching the change directory */
+  firstCommit?: GitCommit;
+  /** Most recent commit touching the change directory or branch */
+  lastCommit?: GitCommit;
+  /** When the change was first committed */
+  createdAt?: Date;
+  /** When the change last saw a commit */
+  lastActive?: Date;
+  /** All related commits, newest first */
+  commits: GitCommit[];
+}
+
+/** A single entry in a change's activity timeline */
+export interface ChangeActivity {
+  /** When the activity happened */
+  at: Date;
+  /** Commit or lifecycle state transition */
+  type: 'commit' | 'state';
+  /** Human-readable description */
+  message: string;
+  /** Commit SHA (commit activities only) */
+  sha?: string;
+  /** Commit author (commit activities only) */
+  author?: string;
+}
+
+interface HistoryDependencies {
+  git: GitAdapter;
+  openspec: OpenSpecAdapter;
+}
+
+/**
+ * Get git history for a change: commits touching its spec directory
+ * (including after archive) plus commits on its branch since the base
+ */
+export async function getChangeHistory(
+  options: ChangeHistoryOptions,
+  deps: HistoryDependencies
+): Promise<ChangeHistory> {
+  const { changeId, branch, baseBranch = 'main' } = options;
+  const { git, openspec } = deps;
+
+  const paths = await openspec.getChangePaths(changeId);
+  const specCommits = await git.getHistory({ refs: branch ? ['HEAD', branch] : ['HEAD'], paths });
+  const branchCommits = !branch || branch === baseBranch
+    ? []
+    : await git.getHistory({ refs: [branch], excludeRef: baseBranch });
+
+  const bySha = new Map<string, GitCommit>();
+  for (const commit of [...specCommits, ...branchCommits]) {
+    bySha.set(commit.sha, commit);
+  }
+  const commits = [...bySha.values()].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  // The change was created by the oldest commit touching its directory
+  const firstCommit = specCommits.length > 0
+    ? specCommits.reduce((oldest, c) => (c.date < oldest.date ? c : oldest))
+    : undefined;
+  const lastCommit = commits[0];
+
+  return {
+    firstCommit,
+    lastCommit,
+    createdAt: firstCommit?.date,
+    lastActive: lastCommit?.date,
+    commits,
+  };
+}
+
+/**
+ * Merge commits and lifecycle transitions into one timeline
+ * @param commits Related commits
+ * @param transitions Recorded state transitions
+ * @returns Activities, newest first
+ */
+export function buildActivityTimeline(
+  commits: GitCommit[],
+  transitions: ChangeStateTransition[] = []
+): ChangeActivity[] {
+  const activities: ChangeActivity[] = [
+    ...commits.map(c => ({
+      at: c.date,
+      type: 'commit' as const,
+      message: c.message,
+      sha: c.sha,
+      author: c.author,
+    })),
+    ...transitions.map(t => ({
+      at: t.at,
+      type: 'state' as const,
+      message: t.from ? `${t.from} → ${t.to}` : t.to,
+    })),
+  ];
+
+  return activities.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * Check whether a change has gone quiet
+ * @param lastActive Last activity timestamp
+ * @param staleAfterDays Days of inactivity before a change is stale
+ * @param now Reference time
+ * @returns true if there has been no activity within the window
+ */
+export function isStale(
+  lastActive: Date | undefined,
+  staleAfterDays: number = DEFAULT_STALE_DAYS,
+  now: Date = new Date()
+): boolean {
+  if (!lastActive) return false;
+  return now.getTime() - lastActive.getTime() > staleAfterDays * 24 * 60 * 60 * 1000;
+}
@@ -8,17 +8,87 @@
 
 export { initWorkflow, type InitOptions, type InitResult } from './init.js';
 export { statusWorkflow, type StatusOptions, type StatusResult } from './status.js';
+export {
+  getChangeHistory,
+  buildActivityTimeline,
+  isStale,
+  DEFAULT_STALE_DAYS,
+  type ChangeHistoryOptions,
+  type ChangeHistory,
+  type ChangeActivity,
+} from './history.js';
+export {
+  traceTasksWorkflow,
+  formatTraceMismatches,
+  TASK_TRAILER,
+  type TraceTasksOptions,
+  type TraceTasksResult,
+  type TaskCommitLink,
+} from './trace.js';
 export { submitWorkflow, type SubmitOptions, type SubmitResult } from './submit.js';
+export {
+  syncPullRequestTasksWorkflow,
+  type SyncPullRequestTasksOptions,
+  type SyncPullRequestTasksResult,
+} from './pr-sync.js';
 export { mergeWorkflow, type MergeOptions, type MergeResult } from './merge.js';
+export {
+  publishReleaseWorkflow,
+  type PublishReleaseOptions,
+  type PublishedRelease,
+  type PublishReleaseResult,
+} from './publish.js';
+export {
+  retrofitWorkflow,
+  type RetrofitOptions,
+  type RetrofitPlan,
+  type RetrofitResult,
+} from './retrofit.js';
 export { implementWorkflow, type ImplementDependencies } from './implement.js';
 export {
   releaseWorkflow,
   parseConventionalCommit,
   suggestVersionBump,
   bumpVersion,
+  promoteVersion,
   generateChangelog,
+  generateReleaseNotes,
+  updateDependencyRange,
+  planPackageVersions,
+  mapCommitsToPackages,
+  packageTag,
+  type ChangelogOptions,
 } from './release.js';
 
+export {
+  conflictsWorkflow,
+  formatChangeConflict,
+  type ConflictLevel,
+  type ConflictsOptions,
+  type ChangeFootprint,
+  type ChangeConflict,
+  type ConflictsResult,
+} from './conflicts.js';
+
+export {
+  listStackedChanges,
+  resolveChangeBase,
+  restackWorkflow,
+  type StackedChange,
+  type ChangeBase,
+  type RestackOptions,
+  type RestackedChange,
+  type RestackResult,
+} from './stack.js';
+
+export {
+  syncWorkflow,
+  type SyncOptions,
+  type SyncStatus,
+  type BranchSyncResult,
+  type SyncResult,
+} from './sync.js';
+
 // Worktree management
 export {
   worktreeCreate,
@@ -30,4 +100,10 @@ export {
   type WorktreeRemoveResult,
   type WorktreeListResult,
 } from './worktree.js';
+export {
+  convertWorkflow,
+  type ChangeMode,
+  type ConvertOptions,
+  type ConvertResult,
+} from './convert.js';
 
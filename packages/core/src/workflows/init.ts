@@ -14,8 +14,9 @@ import {
   type BootstrapResult,
   createDefaultEnvironmentRegistry,
 } from '../adapters/environment-adapter.js';
-import { type SpecLifeConfig } from '../config.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
 import { SpecLifeError, ErrorCodes, type ProgressCallback } from '../types.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
 
 export interface InitOptions {
   /** Change identifier (kebab-case) */
@@ -80,11 +81,10 @@ export async function initWorkflow(
     );
   }
   
-  const branchPrefix = config.git?.branchPrefix ?? 'spec/';
   const worktreeDir = config.git?.worktreeDir ?? 'worktrees';
-  const baseBranch = config.git?.baseBranch ?? config.github?.baseBranch ?? 'main';
+  const baseBranch = resolveBaseBranch(config);
   
-  const branch = `${branchPrefix}${changeId}`;
+  const branch = (await resolveBranchNaming(config, git)).branchFor(changeId);
   const worktreePath = `${worktreeDir}/${changeId}`;
   
   // Check if branch already exists
@@ -7,8 +7,12 @@
  */
 
 import { type GitAdapter } from '../adapters/git-adapter.js';
-import { type GitHubAdapter } from '../adapters/github-adapter.js';
-import { type SpecLifeConfig } from '../config.js';
+import { type ForgeAdapter, type CheckResult, type PullRequestChecks } from '../adapters/forge-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+import { recordChangeState } from '../utils/lifecycle.js';
+import { restackWorkflow, type RestackedChange } from './stack.js';
 import { 
   SpecLifeError, 
   ErrorCodes, 
@@ -25,11 +29,25 @@ export interface MergeOptions {
   deleteBranch?: boolean;
   /** Remove worktree after merge (if in worktree) */
   removeWorktree?: boolean;
+  /** Rebase and retarget changes stacked on this one (default: true) */
+  restack?: boolean;
+  /** Wait for pending checks instead of merging right away */
+  waitForChecks?: boolean;
+  /** How long to wait for checks, in milliseconds (default: 30 minutes) */
+  checksTimeout?: number;
+  /** Time between check polls, in milliseconds (default: 15 seconds) */
+  pollInterval?: number;
+  /** How long to wait for the first check to be reported before treating the PR as having none, in milliseconds (default: 2 minutes) */
+  checksGracePeriod?: number;
+  /** Add the PR to the merge queue instead of merging it */
+  mergeQueue?: boolean;
 }
 
 export interface MergeResult {
   /** PR that was merged */
   pullRequest: PullRequest;
+  /** Change branch */
+  branch: string;
   /** Whether main was synced */
   mainSynced: boolean;
   /** Whether local branch was deleted */
@@ -40,29 +58,54 @@ export interface MergeResult {
   worktreePath?: string;
   /** Path to the main repo (for release workflow to use) */
   repoPath?: string;
+  /** Dependent changes moved onto the branch this change landed on */
+  restacked: RestackedChange[];
+  /** Whether the PR went into the merge queue; nothing is synced or cleaned up until it lands */
+  queued: boolean;
+  /** Checks on the PR once they passed (when waiting for checks) */
+  checks?: PullRequestChecks;
 }
 
 interface MergeDependencies {
   git: GitAdapter;
-  github: GitHubAdapter;
+  /** Forge hosting the pull request (GitHub, GitLab or Gitea) */
+  github: ForgeAdapter;
+  /** Records the merged state of the change */
+  openspec: OpenSpecAdapter;
   config: SpecLifeConfig;
 }
 
 /**
  * Merge a submitted change: merge PR, sync main, cleanup
  * 
+ * With waitForChecks, polls the PR's checks until they pass; with
+ * mergeQueue, queues the PR and leaves the local branch in place.
  * Version bumping and release creation are handled by CI (release-please).
+ * @throws SpecLifeError with CHECKS_FAILED or CHECKS_TIMEOUT while waiting for checks
  */
 export async function mergeWorkflow(
   options: MergeOptions,
   deps: MergeDependencies,
   onProgress?: ProgressCallback
 ): Promise<MergeResult> {
-  const { changeId, method = 'squash', deleteBranch = true, removeWorktree = true } = options;
-  const { git, github, config } = deps;
+  const {
+    changeId,
+    method = 'squash',
+    deleteBranch = true,
+    removeWorktree = true,
+    restack = true,
+    waitForChecks = false,
+    checksTimeout = 30 * 60 * 1000,
+    pollInterval = 15 * 1000,
+    checksGracePeriod = 2 * 60 * 1000,
+    mergeQueue = false,
+  } = options;
+  const { git, github, openspec, config } = deps;
 
-  const branch = `spec/${changeId}`;
-  const baseBranch = config.github.baseBranch;
+  // The branch recorded at submit wins over today's naming config
+  const branch = (await openspec.readMetadata(changeId))?.branch
+    ?? (await resolveBranchNaming(config, git)).branchFor(changeId);
+  const baseBranch = resolveBaseBranch(config);
 
   // Find PR for this branch
   onProgress?.({ type: 'step_completed', message: `Looking for PR for branch ${branch}` });
@@ -88,6 +131,14 @@ export async function mergeWorkflow(
     );
   }
 
+  let checks: PullRequestChecks | undefined;
+  if (waitForChecks) {
+    const wait = { deadline: Date.now() + checksTimeout, timeout: checksTimeout, pollInterval, gracePeriod: checksGracePeriod };
+    checks = await waitForPullRequestChecks(github, pr.number, wait, onProgress);
+    // The forge recomputes mergeability once checks finish and reports it as unknown meanwhile
+    await waitForMergeability(github, pr.number, wait, onProgress);
+  }
+
   // Check if PR is mergeable
   const mergeableCheck = await github.isPullRequestMergeable(pr.number);
   if (!mergeableCheck.mergeable) {
@@ -110,9 +161,34 @@ export async function mergeWorkflow(
     }
   }
 
+  if (mergeQueue) {
+    onProgress?.({ type: 'step_completed', message: `Adding PR #${pr.number} to the merge queue` });
+    if (!await github.enqueuePullRequest(pr.number, method)) {
+      throw new SpecLifeError(
+        ErrorCodes.CONFIG_INVALID,
+        `Could not add PR #${pr.number} to a merge queue; the base branch may not have one`,
+        { prNumber: pr.number }
+      );
+    }
+
+    onProgress?.({ type: 'step_completed', message: 'Queued for merge' });
+    return {
+      pullRequest: await github.getPullRequest(pr.number),
+      branch,
+      mainSynced: false,
+      branchDeleted: false,
+      worktreeRemoved: false,
+      repoPath: await git.getMainWorktreePath(),
+      restacked: [],
+      queued: true,
+      checks,
+    };
+  }
+
   // Merge the PR
   onProgress?.({ type: 'step_completed', message: `Merging PR #${pr.number} (${method})` });
   await github.mergePullRequest(pr.number, method);
+  await recordChangeState(openspec, changeId, 'merged');
 
   // Get updated PR state
   const mergedPr = await github.getPullRequest(pr.number);
@@ -131,6 +207,13 @@ export async function mergeWorkflow(
     // Pull might fail in worktree scenarios; continue with cleanup
   }
 
+  // Move stacked changes onto the branch this change landed on, while its branch still exists
+  let restacked: RestackedChange[] = [];
+  if (restack) {
+    const onto = fullPr.base?.ref ?? baseBranch;
+    restacked = (await restackWorkflow({ changeId, onto }, { git, github, config }, onProgress)).restacked;
+  }
+
   // Delete local branch
   let branchDeleted = false;
   if (deleteBranch) {
@@ -162,10 +245,102 @@ export async function mergeWorkflow(
 
   return {
     pullRequest: mergedPr,
+    branch,
     mainSynced,
     branchDeleted,
     worktreeRemoved,
     worktreePath: worktreeRemoved ? worktreePath : undefined,
     repoPath,
+    restacked,
+    queued: false,
+    checks,
   };
 }
+
+/** Polling limits shared by the checks and mergeability waits */
+interface PollSettings {
+  /** Time (ms since the epoch) after which polling stops */
+  deadline: number;
+  /** Total wait, for messages */
+  timeout: number;
+  pollInterval: number;
+  /** How long a PR may report no checks before it counts as having none */
+  gracePeriod: number;
+}
+
+/**
+ * Poll a PR's checks until none are pending. CI may take a while to report
+ * its first check, so an empty list only counts as passing after the grace period.
+ * @throws SpecLifeError with CHECKS_FAILED listing the failed checks, or CHECKS_TIMEOUT
+ */
+async function waitForPullRequestChecks(
+  github: ForgeAdapter,
+  prNumber: number,
+  { deadline, timeout, pollInterval, gracePeriod }: PollSettings,
+  onProgress?: ProgressCallback
+): Promise<PullRequestChecks> {
+  const graceDeadline = Math.min(Date.now() + gracePeriod, deadline);
+
+  for (;;) {
+    const checks = await github.getPullRequestChecks(prNumber);
+    const pending = checks.checks.filter(c => c.state === 'pending');
+
+    if (checks.checks.length === 0) {
+      if (Date.now() >= graceDeadline) {
+        onProgress?.({ type: 'step_completed', message: `No checks reported on PR #${prNumber}` });
+        return checks;
+      }
+      onProgress?.({ type: 'step_completed', message: `Waiting for checks to start on PR #${prNumber}` });
+      await sleep(Math.min(pollInterval, graceDeadline - Date.now()));
+      continue;
+    }
+
+    if (checks.state === 'failure') {
+      const failed = checks.checks.filter(c => c.state === 'failure');
+      throw new SpecLifeError(
+        ErrorCodes.CHECKS_FAILED,
+        `Checks failed on PR #${prNumber}:\n${failed.map(formatCheck).join('\n')}`,
+        { prNumber, failedChecks: failed }
+      );
+    }
+    if (checks.state === 'success') {
+      onProgress?.({ type: 'step_completed', message: `All ${checks.checks.length} check(s) passed on PR #${prNumber}` });
+      return checks;
+    }
+    if (Date.now() >= deadline) {
+      throw new SpecLifeError(
+        ErrorCodes.CHECKS_TIMEOUT,
+        `Timed out after ${Math.round(timeout / 1000)}s waiting for checks on PR #${prNumber}:\n${pending.map(formatCheck).join('\n')}`,
+        { prNumber, pendingChecks: pending }
+      );
+    }
+
+    onProgress?.({
+      type: 'step_completed',
+      message: `Waiting for ${pending.length} of ${checks.checks.length} check(s) on PR #${prNumber}: ${pending.map(c => c.name).join(', ')}`,
+      data: { prNumber, pending: pending.map(c => c.name) },
+    });
+    await sleep(Math.min(pollInterval, deadline - Date.now()));
+  }
+}
+
+/** Poll until the forge knows whether the PR can be merged, or the deadline passes */
+async function waitForMergeability(
+  github: ForgeAdapter,
+  prNumber: number,
+  { deadline, pollInterval }: PollSettings,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  while ((await github.getPullRequest(prNumber)).mergeable === null && Date.now() < deadline) {
+    onProgress?.({ type: 'step_completed', message: `Waiting for the forge to compute whether PR #${prNumber} can be merged` });
+    await sleep(Math.min(pollInterval, deadline - Date.now()));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(ms, 0)));
+}
+
+function formatCheck(check: CheckResult): string {
+  return `  - ${check.name}${check.url ? ` (${check.url})` : ''}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * PR sync workflow - keep tasks.md and the pull request checklist in step
+ *
+ * The pull request description carries tasks.md as a checklist block, so
+ * reviewers can tick tasks in the web UI. Syncing pulls those toggles into
+ * tasks.md and pushes local progress back to the description.
+ */
+
+import { join } from 'path';
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type ForgeAdapter } from '../adapters/forge-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { type SpecLifeConfig } from '../config.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+import { setTaskCompleted, type TasksDocument } from '../utils/tasks-document.js';
+import { recordTaskProgressState } from '../utils/lifecycle.js';
+import {
+  renderPullRequestTasks,
+  parsePullRequestTasks,
+  replacePullRequestTasks,
+  mergeTaskStates,
+} from '../utils/pr-tasks.js';
+import { SpecLifeError, ErrorCodes, type PullRequest, type ProgressCallback } from '../types.js';
+
+export interface SyncPullRequestTasksOptions {
+  /** Change whose tasks.md is synced */
+  changeId: string;
+  /** Pull request to sync with (default: the open PR for the change branch) */
+  prNumber?: number;
+  /** Rewrite the PR checklist (default: true); false only pulls toggles into tasks.md */
+  updateDescription?: boolean;
+}
+
+export interface SyncPullRequestTasksResult {
+  /** Pull request after the sync */
+  pullRequest: PullRequest;
+  /** Tasks checked off in tasks.md from the pull request */
+  checked: string[];
+  /** Tasks unchecked in tasks.md from the pull request */
+  unchecked: string[];
+  /** Whether the pull request description was rewritten */
+  updated: boolean;
+}
+
+interface SyncPullRequestTasksDependencies {
+  git: GitAdapter;
+  /** Forge hosting the pull request (GitHub, GitLab or Gitea) */
+  github: ForgeAdapter;
+  openspec: OpenSpecAdapter;
+  config: SpecLifeConfig;
+}
+
+/**
+ * Two-way sync of tasks.md checkboxes with the pull request checklist.
+ * A task toggled on one side since the last sync keeps that side's state;
+ * tasks without a recorded sync state take the side changed most recently
+ * (the PR's last update against the last commit of tasks.md).
+ * tasks.md stays the source of the task list itself.
+ * @throws SpecLifeError with CHANGE_NOT_FOUND if the change or its pull request does not exist
+ */
+export async function syncPullRequestTasksWorkflow(
+  options: SyncPullRequestTasksOptions,
+  deps: SyncPullRequestTasksDependencies,
+  onProgress?: ProgressCallback
+): Promise<SyncPullRequestTasksResult> {
+  const { changeId, prNumber, updateDescription = true } = options;
+  const { git, github, openspec, config } = deps;
+
+  let pullRequest: PullRequest | null;
+  if (prNumber !== undefined) {
+    pullRequest = await github.getPullRequest(prNumber);
+  } else {
+    const branch = (await resolveBranchNaming(config, git)).branchFor(changeId);
+    pullRequest = await github.getPullRequestByBranch(branch);
+    if (!pullRequest) {
+      throw new SpecLifeError(
+        ErrorCodes.CHANGE_NOT_FOUND,
+        `No open PR found for branch '${branch}'`,
+        { changeId, branch }
+      );
+    }
+  }
+
+  const document = await openspec.readTasks(changeId);
+  const modifiedAt = await getTasksCommittedAt(git, openspec, changeId);
+  const newer = pullRequest.updatedAt && modifiedAt && pullRequest.updatedAt > modifiedAt ? 'remote' : 'local';
+
+  const local = new Map(document.tasks.map(t => [t.id, t.completed]));
+  const { tasks, fromRemote } = mergeTaskStates(local, parsePullRequestTasks(pullRequest.body), newer);
+
+  const checked = fromRemote.filter(id => tasks.get(id));
+  const unchecked = fromRemote.filter(id => !tasks.get(id));
+  let synced = document;
+  if (fromRemote.length > 0) {
+    onProgress?.({
+      type: 'file_written',
+      message: `Applying ${fromRemote.length} task toggle(s) from PR #${pullRequest.number} to tasks.md`,
+    });
+    synced = await openspec.editTasks(changeId, doc =>
+      fromRemote.reduce((edited, id) => setTaskCompleted(edited, id, tasks.get(id)!), doc)
+    );
+    await recordTaskProgressState(openspec, changeId, synced);
+  }
+
+  if (!updateDescription) {
+    return { pullRequest, checked, unchecked, updated: false };
+  }
+  return { ...await pushPullRequestTasks(pullRequest, synced, github, onProgress), checked, unchecked };
+}
+
+/**
+ * Write the state of tasks.md into the pull request checklist
+ * @returns The pull request, and whether its description was rewritten
+ */
+export async function pushPullRequestTasks(
+  pullRequest: PullRequest,
+  document: TasksDocument,
+  github: ForgeAdapter,
+  onProgress?: ProgressCallback
+): Promise<{ pullRequest: PullRequest; updated: boolean }> {
+  const body = replacePullRequestTasks(pullRequest.body, renderPullRequestTasks(document));
+  if (body === pullRequest.body) {
+    return { pullRequest, updated: false };
+  }
+  onProgress?.({ type: 'step_completed', message: `Updating task checklist in PR #${pullRequest.number}` });
+  return { pullRequest: await github.updatePullRequest(pullRequest.number, { body }), updated: true };
+}
+
+/**
+ * When tasks.md was last committed (file times change on checkout, so they
+ * say nothing about when it was edited)
+ */
+async function getTasksCommittedAt(git: GitAdapter, openspec: OpenSpecAdapter, changeId: string): Promise<Date | undefined> {
+  const paths = (await openspec.getChangePaths(changeId)).map(changePath => join(changePath, 'tasks.md'));
+  if (paths.length === 0) {
+    return undefined;
+  }
+  const [latest] = await git.getHistory({ paths });
+  return latest?.date;
+}
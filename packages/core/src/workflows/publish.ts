@@ -0,0 +1,219 @@
+/**
+ * Publish workflow - tag a merged release and publish it on the forge
+ *
+ * Runs after the release PR from releaseWorkflow is merged, locally or in CI.
+ * Every step is skipped when already done, so a failed run can be repeated.
+ */
+
+import { access, readFile } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type ForgeAdapter, type ForgeRelease } from '../adapters/forge-adapter.js';
+import { detectMonorepo } from '../adapters/environment-adapter.js';
+import { type SpecLifeConfig } from '../config.js';
+import { parseChangelog } from '../utils/changelog.js';
+import { getPrerelease } from '../utils/semver.js';
+import { packageTag } from './release.js';
+import { SpecLifeError, ErrorCodes, type VersioningMode, type ProgressCallback } from '../types.js';
+
+export interface PublishReleaseOptions {
+  /** Version to publish (default: the root package.json version; fixed versioning only) */
+  version?: string;
+  /** Release notes (default: the release's section of CHANGELOG.md) */
+  notes?: string;
+  /** Files to attach to each published release, relative to the repo root */
+  artifacts?: string[];
+  /** Remote to push tags to (default: "origin") */
+  remote?: string;
+  /** Report what would be published without changing anything */
+  dryRun?: boolean;
+}
+
+export interface PublishedRelease {
+  tag: string;
+  version: string;
+  prerelease: boolean;
+  /** Whether the tag was (in a dry run: would be) created; false if it already existed */
+  tagCreated: boolean;
+  /** Whether the forge release was (in a dry run: would be) created */
+  releaseCreated: boolean;
+  /** Release page (unknown in a dry run until the release exists) */
+  url?: string;
+  /** Artifacts attached (in a dry run: to attach); ones already on the release are skipped */
+  uploaded: string[];
+}
+
+export interface PublishReleaseResult {
+  versioning: VersioningMode;
+  releases: PublishedRelease[];
+  dryRun: boolean;
+}
+
+interface PublishDependencies {
+  git: GitAdapter;
+  /** Forge the release is published on (GitHub, GitLab or Gitea) */
+  github: ForgeAdapter;
+  repoPath: string;
+  config?: SpecLifeConfig;
+}
+
+/** A tag to publish and where its changelog lives */
+interface ReleaseTarget {
+  tag: string;
+  version: string;
+  dir: string;
+}
+
+/**
+ * Create the annotated release tag at HEAD, push it and publish a forge
+ * release with the changelog section as notes. With independent versioning
+ * every workspace package gets its own tag and release.
+ * @throws SpecLifeError with CONFIG_INVALID if there is no version to publish or an artifact is missing
+ */
+export async function publishReleaseWorkflow(
+  options: PublishReleaseOptions,
+  deps: PublishDependencies,
+  onProgress?: ProgressCallback
+): Promise<PublishReleaseResult> {
+  const { remote = 'origin', dryRun = false } = options;
+  const { git, github, repoPath, config } = deps;
+  const artifacts = (options.artifacts ?? []).map(artifact => resolve(repoPath, artifact));
+  const versioning = config?.release?.versioning ?? 'fixed';
+
+  for (const artifact of artifacts) {
+    try {
+      await access(artifact);
+    } catch {
+      throw new SpecLifeError(ErrorCodes.CONFIG_INVALID, `Release artifact not found: ${artifact}`, { artifact });
+    }
+  }
+
+  const targets = await resolveTargets(repoPath, versioning, options.version);
+  const releases: PublishedRelease[] = [];
+
+  for (const target of targets) {
+    const { tag, version } = target;
+    const prerelease = getPrerelease(version) !== null;
+    const existing = await github.getReleaseByTag(tag);
+    // A published release means the tag is already on the forge
+    const tagCreated = !existing && !(await git.tagExists(tag));
+
+    if (dryRun) {
+      releases.push({
+        tag,
+        version,
+        prerelease,
+        tagCreated,
+        releaseCreated: !existing,
+        url: existing?.url,
+        uploaded: missingAssets(existing, artifacts),
+      });
+      continue;
+    }
+
+    if (tagCreated) {
+      onProgress?.({ type: 'step_completed', message: `Creating tag ${tag}` });
+      await git.createTag(tag, `Release ${tag}`);
+    }
+    if (!existing) {
+      onProgress?.({ type: 'step_completed', message: `Pushing tag ${tag}` });
+      await git.push(remote, `refs/tags/${tag}`, false);
+    }
+
+    let release = existing;
+    if (!release) {
+      onProgress?.({ type: 'step_completed', message: `Publishing release ${tag}` });
+      release = await github.createRelease({
+        tag,
+        name: tag,
+        body: options.notes ?? await readReleaseNotes(target),
+        prerelease,
+      });
+    } else {
+      onProgress?.({ type: 'step_completed', message: `Release ${tag} already exists: ${release.url}` });
+    }
+
+    const uploaded = missingAssets(release, artifacts);
+    for (const artifact of uploaded) {
+      onProgress?.({ type: 'file_written', message: `Uploading ${artifact} to ${tag}` });
+      await github.uploadReleaseAsset(tag, artifact);
+    }
+
+    releases.push({
+      tag,
+      version,
+      prerelease,
+      tagCreated,
+      releaseCreated: !existing,
+      url: release.url,
+      uploaded,
+    });
+  }
+
+  return { versioning, releases, dryRun };
+}
+
+/** Tags to publish: v<version>, or one per versioned workspace package */
+async function resolveTargets(
+  repoPath: string,
+  versioning: VersioningMode,
+  version: string | undefined
+): Promise<ReleaseTarget[]> {
+  if (versioning === 'independent') {
+    if (version) {
+      throw new SpecLifeError(
+        ErrorCodes.CONFIG_INVALID,
+        'A version cannot be given with independent versioning; package versions are used',
+        { version }
+      );
+    }
+    const targets: ReleaseTarget[] = [];
+    for (const pkg of detectMonorepo(repoPath).workspacePackages) {
+      const json = await readPackageJson(pkg.absolutePath);
+      if (typeof json.version === 'string') {
+        targets.push({ tag: packageTag(pkg.name, json.version), version: json.version, dir: pkg.absolutePath });
+      }
+    }
+    return targets;
+  }
+
+  const resolved = version?.replace(/^v/, '') ?? (await readPackageJson(repoPath)).version;
+  if (typeof resolved !== 'string') {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      'No version to publish: package.json has no version field',
+      { repoPath }
+    );
+  }
+  return [{ tag: `v${resolved}`, version: resolved, dir: repoPath }];
+}
+
+async function readPackageJson(dir: string): Promise<Record<string, unknown>> {
+  try {
+    return JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/** The tag's CHANGELOG.md section without its heading */
+async function readReleaseNotes({ tag, version, dir }: ReleaseTarget): Promise<string> {
+  let content = '';
+  try {
+    content = await readFile(join(dir, 'CHANGELOG.md'), 'utf-8');
+  } catch {
+    // No changelog
+  }
+
+  const section = parseChangelog(content).sections.find(
+    s => s.version !== null && (s.version === tag || s.version.replace(/^v(?=\d)/, '') === version)
+  );
+  const notes = section?.content.split('\n').slice(1).join('\n').trim();
+  return notes || `Release ${tag}`;
+}
+
+/** Artifacts not yet attached to a release, by file name */
+function missingAssets(release: ForgeRelease | null, artifacts: string[]): string[] {
+  const attached = new Set(release?.assets ?? []);
+  return artifacts.filter(artifact => !attached.has(basename(artifact)));
+}
@@ -5,13 +5,28 @@
  */
 
 import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
+import { basename, join, sep } from 'path';
 import { type GitAdapter } from '../adapters/git-adapter.js';
-import { type GitHubAdapter } from '../adapters/github-adapter.js';
+import { parseForgeRemote, type ForgeAdapter, type ForgeKind } from '../adapters/forge-adapter.js';
+import { createOpenSpecAdapter, type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { detectMonorepo, type WorkspacePackage } from '../adapters/environment-adapter.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import {
+  PRERELEASE_CHANNELS,
+  requireVersion,
+  formatVersion,
+  getPrerelease,
+} from '../utils/semver.js';
+import { mergeChangelogSection, repositoryWebUrl, linkPullRequests } from '../utils/changelog.js';
 import {
   type ReleaseOptions,
   type ReleaseResult,
   type VersionBumpType,
+  type VersioningMode,
+  type PrereleaseChannel,
+  type PackageVersionUpdate,
+  type ArchivedChange,
+  type ReleaseNotesSource,
   type CommitInfo,
   type ProgressCallback,
   SpecLifeError,
@@ -54,37 +69,157 @@ export function suggestVersionBump(commits: CommitInfo[], currentVersion: string
   return 'patch';
 }
 
-/** Bump a semver version */
-export function bumpVersion(version: string, bumpType: VersionBumpType): string {
-  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)/);
-  if (!match) {
-    throw new SpecLifeError(ErrorCodes.CONFIG_INVALID, `Invalid version format: ${version}`);
+/**
+ * Bump a semver version.
+ * With a prerelease channel the result is "<next>-<channel>.1", or the
+ * prerelease number is incremented when already on that channel. Moving to a
+ * later channel (alpha → beta → rc) restarts numbering and keeps the target version.
+ * Without a channel, a prerelease is completed by the bump it was heading for
+ * (2.0.0-rc.1 + major → 2.0.0).
+ * @throws SpecLifeError with CONFIG_INVALID for invalid versions or moving back a channel
+ */
+export function bumpVersion(version: string, bumpType: VersionBumpType, prerelease?: PrereleaseChannel): string {
+  const current = requireVersion(version);
+  const pre = getPrerelease(current);
+  
+  if (prerelease && pre) {
+    const from = PRERELEASE_CHANNELS.indexOf(pre.channel as PrereleaseChannel);
+    const to = PRERELEASE_CHANNELS.indexOf(prerelease);
+    if (to < from) {
+      throw new SpecLifeError(
+        ErrorCodes.CONFIG_INVALID,
+        `Cannot move ${formatVersion(current)} from ${pre.channel} back to ${prerelease}`,
+        { version, prerelease }
+      );
+    }
+    const target = formatVersion({ ...current, prerelease: [] });
+    return `${target}-${prerelease}.${to === from ? pre.number + 1 : 1}`;
   }
   
-  let [, major, minor, patch] = match.map(Number);
+  let { major, minor, patch } = current;
   
   switch (bumpType) {
     case 'major':
-      major++;
+      if (!pre || minor !== 0 || patch !== 0) major++;
       minor = 0;
       patch = 0;
       break;
     case 'minor':
-      minor++;
+      if (!pre || patch !== 0) minor++;
       patch = 0;
       break;
     case 'patch':
-      patch++;
+      if (!pre) patch++;
       break;
   }
   
-  return `${major}.${minor}.${patch}`;
+  const next = `${major}.${minor}.${patch}`;
+  return prerelease ? `${next}-${prerelease}.1` : next;
+}
+
+/**
+ * Promote a prerelease to its stable version (2.0.0-rc.3 → 2.0.0)
+ * @throws SpecLifeError with CONFIG_INVALID if the version is not a prerelease
+ */
+export function promoteVersion(version: string): string {
+  const current = requireVersion(version);
+  if (!getPrerelease(current)) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Cannot promote ${version}: it is not a prerelease`,
+      { version }
+    );
+  }
+  return formatVersion({ ...current, prerelease: [] });
+}
+
+/** Release-notes sources used when config does not set release.notes */
+const DEFAULT_NOTES_SOURCES: ReleaseNotesSource[] = ['changes', 'commits'];
+
+export interface ChangelogOptions {
+  /** Release tag (default: v<version>); package tags are used as the heading */
+  tag?: string;
+  /** Repository web URL for commit, PR and release links */
+  repoUrl?: string | null;
+  /** Forge hosting the repository, which shapes PR links (default: GitHub) */
+  forge?: ForgeKind | null;
+  /** Archived changes shipped in this release */
+  changes?: ArchivedChange[];
+  /** Release-notes sources, in section order (default: changes, then commits) */
+  sources?: ReleaseNotesSource[];
+  /** Release date (default: today) */
+  date?: string;
+}
+
+/**
+ * Generate a changelog section from commits
+ */
+export function generateChangelog(commits: CommitInfo[], version: string, options: ChangelogOptions = {}): string {
+  const { tag, repoUrl, forge, changes = [], sources = DEFAULT_NOTES_SOURCES } = options;
+  const date = options.date ?? new Date().toISOString().split('T')[0];
+  const tagName = encodeURIComponent(tag ?? `v${version}`);
+  const link = repoUrl ? `${repoUrl}/releases/tag/${tagName}` : `../../releases/tag/${tagName}`;
+  const lines: string[] = [`## [${tag ?? version}](${link}) (${date})`, ''];
+  
+  const entry = (commit: CommitInfo, text: string): string => {
+    if (!repoUrl) {
+      return `* ${text}`;
+    }
+    return `* ${linkPullRequests(text, repoUrl, forge)} ([${commit.sha.slice(0, 7)}](${repoUrl}/commit/${commit.sha}))`;
+  };
+  
+  for (const source of sources) {
+    if (source === 'changes') {
+      const notes = generateReleaseNotes(changes);
+      if (notes) {
+        lines.push(notes, '');
+      }
+    } else {
+      lines.push(...formatCommitNotes(commits, entry));
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Generate release notes from archived OpenSpec changes, grouped by the
+ * specs they affect. Each change lists its "Why" and "What Changes".
+ * @returns Markdown section, or an empty string when there are no changes
+ */
+export function generateReleaseNotes(changes: ArchivedChange[]): string {
+  if (changes.length === 0) {
+    return '';
+  }
+  
+  const groups = new Map<string, ArchivedChange[]>();
+  for (const change of changes) {
+    const specs = [...change.proposal.impact.affectedSpecs].sort();
+    const key = specs.length > 0 ? specs.join(', ') : '';
+    groups.set(key, [...(groups.get(key) ?? []), change]);
+  }
+  
+  // Spec groups alphabetically, changes without specs last
+  const keys = [...groups.keys()].sort((a, b) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)));
+  
+  const lines: string[] = ['### Spec Changes'];
+  for (const key of keys) {
+    lines.push('', `#### ${key || 'General'}`, '');
+    for (const change of groups.get(key)!) {
+      const why = change.proposal.why.replace(/\s+/g, ' ').trim();
+      lines.push(why ? `* **${change.id}**: ${why}` : `* **${change.id}**`);
+      for (const item of change.proposal.whatChanges) {
+        lines.push(`  * ${item}`);
+      }
+    }
+  }
+  
+  return lines.join('\n');
 }
 
-/** Generate changelog from commits */
-export function generateChangelog(commits: CommitInfo[], version: string): string {
-  const date = new Date().toISOString().split('T')[0];
-  const lines: string[] = [`## [${version}](../../releases/tag/v${version}) (${date})`, ''];
+/** Commit sections of a changelog, grouped by conventional commit type */
+function formatCommitNotes(commits: CommitInfo[], entry: (commit: CommitInfo, text: string) => string): string[] {
+  const lines: string[] = [];
   
   // Group commits by type
   const features = commits.filter(c => c.type === 'feat');
@@ -95,7 +230,7 @@ export function generateChangelog(commits: CommitInfo[], version: string): strin
   if (breaking.length > 0) {
     lines.push('### ⚠ BREAKING CHANGES', '');
     for (const commit of breaking) {
-      lines.push(`* ${commit.message}`);
+      lines.push(entry(commit, commit.message));
     }
     lines.push('');
   }
@@ -104,7 +239,7 @@ export function generateChangelog(commits: CommitInfo[], version: string): strin
     lines.push('### Features', '');
     for (const commit of features) {
       const parsed = parseConventionalCommit(commit.message);
-      lines.push(`* ${parsed.description}`);
+      lines.push(entry(commit, parsed.description));
     }
     lines.push('');
   }
@@ -113,7 +248,7 @@ export function generateChangelog(commits: CommitInfo[], version: string): strin
     lines.push('### Bug Fixes', '');
     for (const commit of fixes) {
       const parsed = parseConventionalCommit(commit.message);
-      lines.push(`* ${parsed.description}`);
+      lines.push(entry(commit, parsed.description));
     }
     lines.push('');
   }
@@ -121,21 +256,275 @@ export function generateChangelog(commits: CommitInfo[], version: string): strin
   if (other.length > 0) {
     lines.push('### Other Changes', '');
     for (const commit of other) {
-      lines.push(`* ${commit.message}`);
+      lines.push(entry(commit, commit.message));
     }
     lines.push('');
   }
   
-  return lines.join('\n');
+  return lines;
 }
 
-/** Update package.json version in a directory */
-async function updatePackageVersion(dir: string, version: string): Promise<void> {
-  const pkgPath = join(dir, 'package.json');
-  const content = await readFile(pkgPath, 'utf-8');
-  const pkg = JSON.parse(content);
-  pkg.version = version;
-  await writeFile(pkgPath, JSON.stringify(pkg, null, 2) + '\n');
+/** Dependency fields that may reference other workspace packages */
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * Point a dependency range at a new version, keeping its operator.
+ * Wildcards and bare `workspace:` ranges (`*`, `workspace:^`) already track
+ * the local package and are left as-is.
+ */
+export function updateDependencyRange(range: string, version: string): string {
+  const match = range.match(/^(workspace:)?(\^|~|>=|=)?v?\d+\.\d+\.\d+\S*$/);
+  if (!match) {
+    return range;
+  }
+  const [, protocol = '', operator = ''] = match;
+  return `${protocol}${operator}${version}`;
+}
+
+/** Get the tag for a package release (e.g. "@scope/pkg@1.2.3") */
+export function packageTag(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+/**
+ * Map commits to the workspace packages whose files they touch.
+ * A commit touching several packages counts for each of them.
+ * @param commits Commits with their changed files
+ * @param packages Packages with repo-relative paths
+ * @returns Commits per package name (packages without commits are omitted)
+ */
+export function mapCommitsToPackages(
+  commits: CommitInfo[],
+  packages: Array<{ name: string; path: string }>
+): Map<string, CommitInfo[]> {
+  const result = new Map<string, CommitInfo[]>();
+  
+  for (const pkg of packages) {
+    const prefix = pkg.path.split(sep).join('/').replace(/\/$/, '') + '/';
+    const matching = commits.filter(c => c.files?.some(f => f.startsWith(prefix)));
+    if (matching.length > 0) {
+      result.set(pkg.name, matching);
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Plan version changes for workspace packages
+ * @param packages Packages with their current versions and (independent mode) their commits
+ * @param mode fixed: all packages get releaseVersion; independent: each package with
+ *   commits gets its own bump from suggestVersionBump and is tagged separately
+ * @param releaseVersion Version used in fixed mode
+ * @param bumpType Bump recorded in fixed mode
+ * @param prerelease Independent mode: release on a prerelease channel, or promote
+ *   packages currently on a prerelease (even without new commits) to stable
+ */
+export function planPackageVersions(
+  packages: Array<{ name: string; path: string; version: string; commits?: CommitInfo[] }>,
+  mode: VersioningMode,
+  releaseVersion: string,
+  bumpType: VersionBumpType,
+  prerelease: { channel?: PrereleaseChannel; promote?: boolean } = {}
+): PackageVersionUpdate[] {
+  if (mode === 'fixed') {
+    return packages.map(pkg => ({
+      name: pkg.name,
+      path: pkg.path,
+      previousVersion: pkg.version,
+      version: releaseVersion,
+      bumpType,
+    }));
+  }
+  
+  const promotable = (version: string) => !!prerelease.promote && getPrerelease(version) !== null;
+  
+  return packages
+    .filter(pkg => (pkg.commits && pkg.commits.length > 0) || promotable(pkg.version))
+    .map(pkg => {
+      const commits = pkg.commits ?? [];
+      const packageBump = suggestVersionBump(commits, pkg.version);
+      const version = promotable(pkg.version)
+        ? promoteVersion(pkg.version)
+        : bumpVersion(pkg.version, packageBump, prerelease.channel);
+      return {
+        name: pkg.name,
+        path: pkg.path,
+        previousVersion: pkg.version,
+        version,
+        bumpType: packageBump,
+        commits,
+        tag: packageTag(pkg.name, version),
+      };
+    });
+}
+
+/** Read a package.json */
+async function readPackageJson(dir: string): Promise<Record<string, unknown>> {
+  return JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'));
+}
+
+/** Read current versions of workspace packages, skipping unversioned ones */
+async function readPackageVersions(
+  packages: WorkspacePackage[]
+): Promise<Array<{ name: string; path: string; version: string }>> {
+  const result: Array<{ name: string; path: string; version: string }> = [];
+  for (const pkg of packages) {
+    const json = await readPackageJson(pkg.absolutePath);
+    if (typeof json.version === 'string') {
+      result.push({ name: pkg.name, path: pkg.path, version: json.version });
+    }
+  }
+  return result;
+}
+
+/**
+ * Write new versions into package.json files and bump ranges of
+ * internal dependencies that point at released packages
+ */
+async function applyPackageVersions(
+  targets: Array<{ dir: string; version?: string }>,
+  updates: PackageVersionUpdate[]
+): Promise<void> {
+  const versionsByName = new Map(updates.map(u => [u.name, u.version]));
+  
+  for (const { dir, version } of targets) {
+    const pkg = await readPackageJson(dir);
+    let changed = false;
+    
+    if (version && pkg.version !== version) {
+      pkg.version = version;
+      changed = true;
+    }
+    
+    for (const field of DEPENDENCY_FIELDS) {
+      const deps = pkg[field] as Record<string, string> | undefined;
+      if (!deps) continue;
+      for (const [name, range] of Object.entries(deps)) {
+        const target = versionsByName.get(name);
+        if (!target) continue;
+        const updated = updateDependencyRange(range, target);
+        if (updated !== range) {
+          deps[name] = updated;
+          changed = true;
+        }
+      }
+    }
+    
+    if (changed) {
+      await writeFile(join(dir, 'package.json'), JSON.stringify(pkg, null, 2) + '\n');
+    }
+  }
+}
+
+/**
+ * Collect per-package commits since each package's last release tag.
+ * Packages without a tag of their own fall back to the repo's latest tag.
+ * Versions come from the package tag when present, else package.json.
+ */
+async function collectPackageCommits(
+  git: GitAdapter,
+  packages: Array<{ name: string; path: string; version: string }>,
+  fallbackRef: string
+): Promise<Array<{ name: string; path: string; version: string; commits: CommitInfo[] }>> {
+  const filesBySha = new Map<string, string[]>();
+  const result: Array<{ name: string; path: string; version: string; commits: CommitInfo[] }> = [];
+  
+  for (const pkg of packages) {
+    const tagPrefix = packageTag(pkg.name, '');
+    const latestTag = await git.getLatestTag(tagPrefix);
+    const rawCommits = await git.getCommitsSince(latestTag ?? fallbackRef);
+    
+    const commits: CommitInfo[] = [];
+    for (const { sha, message } of rawCommits) {
+      if (!filesBySha.has(sha)) {
+        filesBySha.set(sha, await git.getCommitFiles(sha));
+      }
+      const parsed = parseConventionalCommit(message);
+      commits.push({
+        sha,
+        message,
+        type: parsed.type,
+        scope: parsed.scope,
+        isBreaking: parsed.isBreaking,
+        files: filesBySha.get(sha),
+      });
+    }
+    
+    result.push({
+      ...pkg,
+      version: latestTag ? latestTag.slice(tagPrefix.length) : pkg.version,
+      commits: mapCommitsToPackages(commits, [pkg]).get(pkg.name) ?? [],
+    });
+  }
+  
+  return result;
+}
+
+/** Merge a release section into a directory's CHANGELOG.md */
+async function writeChangelog(dir: string, section: string): Promise<void> {
+  const path = join(dir, 'CHANGELOG.md');
+  let existing = '';
+  try {
+    existing = await readFile(path, 'utf-8');
+  } catch {
+    // No changelog yet
+  }
+  
+  await writeFile(path, mergeChangelogSection(existing, section));
+}
+
+/**
+ * Find archived changes shipped since a ref: those whose archive
+ * directory was added or touched by a commit in the range
+ */
+async function collectReleasedChanges(
+  git: GitAdapter,
+  openspec: OpenSpecAdapter,
+  specDir: string,
+  since: string | null
+): Promise<ArchivedChange[]> {
+  const archivePath = `${specDir}/changes/archive/`;
+  const history = await git.getHistory({
+    excludeRef: since ?? undefined,
+    paths: [archivePath],
+  });
+  
+  const touched = new Set<string>();
+  for (const commit of history) {
+    for (const file of await git.getCommitFiles(commit.sha)) {
+      if (file.startsWith(archivePath)) {
+        touched.add(file.slice(archivePath.length).split('/')[0]);
+      }
+    }
+  }
+  
+  if (touched.size === 0) {
+    return [];
+  }
+  
+  const archived = await openspec.listArchivedChanges();
+  return archived.filter(change => touched.has(basename(change.path)));
+}
+
+/**
+ * The newest of the packages' release tags. A release tags every package it
+ * bumps on the same commit, so the newest tag has the fewest commits after it.
+ */
+async function findLatestPackageTag(
+  git: GitAdapter,
+  packages: Array<{ name: string }>
+): Promise<string | null> {
+  let latest: { tag: string; distance: number } | null = null;
+  for (const pkg of packages) {
+    const tag = await git.getLatestTag(packageTag(pkg.name, ''));
+    if (!tag) continue;
+    const distance = (await git.getCommitsSince(tag)).length;
+    if (!latest || distance < latest.distance) {
+      latest = { tag, distance };
+    }
+  }
+  return latest?.tag ?? null;
 }
 
 /** Main release workflow */
@@ -143,17 +532,33 @@ export async function releaseWorkflow(
   options: ReleaseOptions,
   adapters: {
     git: GitAdapter;
-    github: GitHubAdapter;
+    /** Forge hosting the release pull request (GitHub, GitLab or Gitea) */
+    github: ForgeAdapter;
     repoPath: string;
+    config?: SpecLifeConfig;
+    /** Reads archived proposals for release notes (default: adapter for repoPath) */
+    openspec?: OpenSpecAdapter;
   },
   onProgress?: ProgressCallback
 ): Promise<ReleaseResult> {
-  const { git, github, repoPath } = adapters;
+  const { git, github, repoPath, config } = adapters;
+  const specDir = config?.specDir ?? 'openspec';
+  const openspec = adapters.openspec ?? createOpenSpecAdapter({ projectRoot: repoPath, specDir });
+  const baseBranch = config ? resolveBaseBranch(config) : 'main';
+  const versioning = config?.release?.versioning ?? 'fixed';
+  const sources = config?.release?.notes ?? DEFAULT_NOTES_SOURCES;
   
-  // Get latest tag
+  // Independent releases are only tagged per package, so the newest package tag marks the last release
   onProgress?.({ type: 'step_completed', message: 'Finding latest release...' });
-  const latestTag = await git.getLatestTag();
-  const previousVersion = latestTag ? latestTag.replace(/^v/, '') : '0.0.0';
+  const workspacePackages = detectMonorepo(repoPath).workspacePackages;
+  const currentVersions = await readPackageVersions(workspacePackages);
+  const latestTag = versioning === 'independent'
+    ? await findLatestPackageTag(git, currentVersions)
+    : await git.getLatestTag();
+  const rootVersion = (await readPackageJson(repoPath)).version;
+  const previousVersion = versioning === 'independent'
+    ? (typeof rootVersion === 'string' ? rootVersion : '0.0.0')
+    : latestTag ? latestTag.replace(/^v/, '') : '0.0.0';
   
   // Get commits since last tag
   onProgress?.({ type: 'step_completed', message: 'Analyzing commits...' });
@@ -161,10 +566,19 @@ export async function releaseWorkflow(
     ? await git.getCommitsSince(latestTag)
     : await git.getCommitsSince('HEAD~20'); // Fallback: last 20 commits
   
-  if (rawCommits.length === 0) {
+  // Promoting a prerelease needs no new commits
+  if (rawCommits.length === 0 && !options.promote) {
     throw new SpecLifeError(ErrorCodes.NO_CHANGES, 'No commits found since last release');
   }
   
+  if (options.promote && options.prerelease) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      'Cannot promote to stable and release on a prerelease channel at the same time',
+      { prerelease: options.prerelease }
+    );
+  }
+  
   // Parse commits
   const commits: CommitInfo[] = rawCommits.map(({ sha, message }) => {
     const parsed = parseConventionalCommit(message);
@@ -179,12 +593,61 @@ export async function releaseWorkflow(
   
   // Determine version
   const bumpType = suggestVersionBump(commits, previousVersion);
-  const newVersion = options.version || bumpVersion(previousVersion, bumpType);
+  const newVersion = options.version
+    || (options.promote
+      ? promoteVersion(previousVersion)
+      : bumpVersion(previousVersion, bumpType, options.prerelease));
   
   onProgress?.({ type: 'step_completed', message: `Version: ${previousVersion} → ${newVersion} (${bumpType})` });
   
+  // Plan workspace package versions
+  const packages = planPackageVersions(
+    versioning === 'independent'
+      ? await collectPackageCommits(git, currentVersions, latestTag ?? 'HEAD~20')
+      : currentVersions,
+    versioning,
+    newVersion,
+    bumpType,
+    { channel: options.prerelease, promote: options.promote }
+  );
+  
+  if (versioning === 'independent') {
+    if (packages.length === 0) {
+      throw new SpecLifeError(ErrorCodes.NO_CHANGES, 'No package changed since its last release');
+    }
+    onProgress?.({
+      type: 'step_completed',
+      message: `Packages to release: ${packages.map(p => p.tag).join(', ')}`,
+    });
+  }
+  
+  // Find archived changes that landed since the last release
+  const changes = sources.includes('changes')
+    ? await collectReleasedChanges(git, openspec, specDir, latestTag)
+    : [];
+  if (changes.length > 0) {
+    onProgress?.({
+      type: 'step_completed',
+      message: `Changes since last release: ${changes.map(c => c.id).join(', ')}`,
+    });
+  }
+  
   // Generate changelog
-  const changelog = options.skipChangelog ? undefined : generateChangelog(commits, newVersion);
+  let changelog: string | undefined;
+  if (!options.skipChangelog) {
+    const remoteUrl = await git.getRemoteUrl();
+    const repoUrl = repositoryWebUrl(remoteUrl);
+    const forge = config?.forge?.type ?? (remoteUrl ? parseForgeRemote(remoteUrl)?.kind : null);
+    if (versioning === 'independent') {
+      // Package sections only cover their own commits
+      for (const pkg of packages) {
+        pkg.changelog = generateChangelog(pkg.commits ?? [], pkg.version, { tag: pkg.tag, repoUrl, forge, sources: ['commits'] });
+      }
+      changelog = [generateReleaseNotes(changes), ...packages.map(p => p.changelog)].filter(Boolean).join('\n');
+    } else {
+      changelog = generateChangelog(commits, newVersion, { repoUrl, forge, changes, sources });
+    }
+  }
   
   // Dry run - return analysis without making changes
   if (options.dryRun) {
@@ -194,24 +657,48 @@ export async function releaseWorkflow(
       bumpType,
       commits,
       changelog,
+      versioning,
+      packages,
+      changes,
+      prerelease: getPrerelease(newVersion) !== null,
     };
   }
   
-  // Create release branch
-  const releaseBranch = `release/v${newVersion}`;
+  // Name the release after what gets tagged: the packages, or the root version
+  const releaseName = versioning === 'independent' ? packages.map(p => p.tag).join(', ') : `v${newVersion}`;
+  const releaseBranch = versioning === 'independent'
+    ? `release/${packages.map(p => p.tag).join('+')}`
+    : `release/v${newVersion}`;
   onProgress?.({ type: 'step_completed', message: `Creating branch: ${releaseBranch}` });
-  await git.createBranch(releaseBranch, 'main');
+  await git.createBranch(releaseBranch, baseBranch);
   
-  // Update package.json versions
-  onProgress?.({ type: 'step_completed', message: 'Updating package versions...' });
-  await updatePackageVersion(repoPath, newVersion);
-  await updatePackageVersion(join(repoPath, 'packages/core'), newVersion);
-  await updatePackageVersion(join(repoPath, 'packages/cli'), newVersion);
-  await updatePackageVersion(join(repoPath, 'packages/mcp-server'), newVersion);
+  // Update package.json versions (root carries the release version)
+  onProgress?.({ type: 'step_completed', message: `Updating package versions (${versioning})...` });
+  await applyPackageVersions(
+    [
+      { dir: repoPath, version: newVersion },
+      ...workspacePackages.map(w => ({
+        dir: w.absolutePath,
+        version: packages.find(p => p.path === w.path)?.version,
+      })),
+    ],
+    packages
+  );
+  
+  // Merge changelog sections into CHANGELOG.md (per package when versioned independently)
+  if (versioning === 'independent') {
+    for (const pkg of packages) {
+      if (pkg.changelog) {
+        await writeChangelog(join(repoPath, pkg.path), pkg.changelog);
+      }
+    }
+  } else if (changelog) {
+    await writeChangelog(repoPath, changelog);
+  }
   
   // Commit changes
   await git.add(['.']);
-  await git.commit(`chore(release): v${newVersion}`);
+  await git.commit(`chore(release): ${releaseName}`);
   
   // Push branch
   onProgress?.({ type: 'step_completed', message: 'Pushing release branch...' });
@@ -219,23 +706,26 @@ export async function releaseWorkflow(
   
   // Create PR
   onProgress?.({ type: 'step_completed', message: 'Creating release PR...' });
-  const prBody = `## Release v${newVersion}
+  const tagStep = versioning === 'independent'
+    ? `Git tags ${packages.map(p => `\`${p.tag}\``).join(', ')} will be created`
+    : `A git tag \`v${newVersion}\` will be created`;
+  const prBody = `## Release ${releaseName}
 
 ${changelog || 'No changelog generated.'}
 
 ---
 
 When merged:
-1. A git tag \`v${newVersion}\` will be created
+1. ${tagStep}
 2. A GitHub Release will be published
 3. Packages will be published to npm
 
 *Created with [SpecLife](https://github.com/malarbase/speclife)*`;
 
   const pr = await github.createPullRequest({
-    title: `chore(release): v${newVersion}`,
+    title: `chore(release): ${releaseName}`,
     head: releaseBranch,
-    base: 'main',
+    base: baseBranch,
     body: prBody,
     draft: false,
   });
@@ -246,7 +736,7 @@ When merged:
   let autoMergeEnabled = false;
   if (options.autoMerge) {
     onProgress?.({ type: 'step_completed', message: 'Enabling auto-merge...' });
-    autoMergeEnabled = await github.enableAutoMerge(pr.number, 'SQUASH');
+    autoMergeEnabled = await github.enableAutoMerge(pr.number, 'squash');
     if (autoMergeEnabled) {
       onProgress?.({ type: 'step_completed', message: 'Auto-merge enabled - PR will merge when CI passes' });
     } else {
@@ -260,6 +750,10 @@ When merged:
     bumpType,
     commits,
     changelog,
+    versioning,
+    packages,
+    changes,
+    prerelease: getPrerelease(newVersion) !== null,
     prUrl: pr.url,
     branch: releaseBranch,
     autoMergeEnabled,
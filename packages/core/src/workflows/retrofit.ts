@@ -0,0 +1,193 @@
+/**
+ * Retrofit workflow - turn ad-hoc work on the base branch into a spec change
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes, type ProgressCallback } from '../types.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+import { getChangedFiles } from '../utils/impact.js';
+
+export interface RetrofitOptions {
+  /** Change identifier for the new change (kebab-case) */
+  changeId: string;
+  /** Why the work was done (the proposal's "Why" section) */
+  description?: string;
+  /** Remote the base branch was last pushed to (default: "origin") */
+  remote?: string;
+  /** Return the plan without changing anything */
+  dryRun?: boolean;
+}
+
+/** What a retrofit moves and the steps it takes */
+export interface RetrofitPlan {
+  changeId: string;
+  /** Branch the work moves to */
+  branch: string;
+  baseBranch: string;
+  /** Pushed base branch the base branch is reset to (null without a remote branch) */
+  upstream: string | null;
+  /** Base branch tip before the retrofit, to recover from */
+  baseSha: string;
+  /** Unpushed commits on the base branch, oldest first */
+  commits: Array<{ sha: string; message: string }>;
+  /** Files with uncommitted changes */
+  uncommitted: string[];
+  /** Every file the work touches */
+  files: string[];
+  proposalPath: string;
+  tasksPath: string;
+  /** Scaffolded proposal.md */
+  proposal: string;
+  /** Scaffolded tasks.md (everything checked off) */
+  tasks: string;
+  /** Steps in order, as human-readable lines */
+  steps: string[];
+}
+
+export interface RetrofitResult extends RetrofitPlan {
+  /** Whether the plan was carried out (false for dry runs) */
+  applied: boolean;
+}
+
+interface RetrofitDependencies {
+  git: GitAdapter;
+  openspec: OpenSpecAdapter;
+  config: SpecLifeConfig;
+}
+
+/**
+ * Move uncommitted changes and unpushed commits from the base branch onto a
+ * new change branch, scaffold a retrospective proposal from them, and reset
+ * the base branch to its pushed state. The change files are left uncommitted
+ * for review.
+ */
+export async function retrofitWorkflow(
+  options: RetrofitOptions,
+  deps: RetrofitDependencies,
+  onProgress?: ProgressCallback
+): Promise<RetrofitResult> {
+  const { changeId, description, remote = 'origin', dryRun = false } = options;
+  const { git, openspec, config } = deps;
+
+  if (!/^[a-z][a-z0-9]*(-[a-z0-9]+)*$/.test(changeId)) {
+    throw new SpecLifeError(
+      ErrorCodes.CONFIG_INVALID,
+      `Invalid changeId format: "${changeId}". Must be kebab-case (e.g., "add-user-auth")`,
+      { changeId }
+    );
+  }
+
+  const baseBranch = resolveBaseBranch(config);
+  const currentBranch = await git.getCurrentBranch();
+  if (currentBranch !== baseBranch) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_TRANSITION,
+      `Retrofit moves work off ${baseBranch}, but the current branch is '${currentBranch}'`,
+      { branch: currentBranch }
+    );
+  }
+
+  const branch = (await resolveBranchNaming(config, git)).branchFor(changeId);
+  if (await git.branchExists(branch)) {
+    throw new SpecLifeError(ErrorCodes.BRANCH_EXISTS, `Branch '${branch}' already exists`, { branch });
+  }
+  if (await openspec.changeExists(changeId)) {
+    throw new SpecLifeError(ErrorCodes.CHANGE_EXISTS, `Change '${changeId}' already exists`, { changeId });
+  }
+
+  // Without a pushed base branch there is nothing to compare commits against
+  const upstream = await git.resolveRef(`${remote}/${baseBranch}`) ? `${remote}/${baseBranch}` : null;
+  const commits = upstream
+    ? (await git.getHistory({ refs: ['HEAD'], excludeRef: upstream })).map(({ sha, message }) => ({ sha, message })).reverse()
+    : [];
+  const status = await git.status();
+  const uncommitted = [...new Set([...status.staged, ...status.unstaged, ...status.untracked])].sort();
+  const files = upstream ? await getChangedFiles(git, upstream) ?? uncommitted : uncommitted;
+
+  if (commits.length === 0 && uncommitted.length === 0) {
+    throw new SpecLifeError(
+      ErrorCodes.NO_CHANGES,
+      `No uncommitted changes or unpushed commits on ${baseBranch} to retrofit`,
+      { baseBranch }
+    );
+  }
+
+  const baseSha = (await git.resolveRef('HEAD'))!;
+  const changeDir = `${config.specDir}/changes/${changeId}`;
+  const summary = summarizeWork(commits, uncommitted);
+  const plan: RetrofitPlan = {
+    changeId,
+    branch,
+    baseBranch,
+    upstream,
+    baseSha,
+    commits,
+    uncommitted,
+    files,
+    proposalPath: `${changeDir}/proposal.md`,
+    tasksPath: `${changeDir}/tasks.md`,
+    proposal: generateRetrofitProposal(summary, files, config.specDir, description),
+    tasks: generateRetrofitTasks(summary),
+    steps: [
+      `Create ${branch} at ${baseBranch} (${baseSha.slice(0, 7)})`,
+      ...(uncommitted.length > 0 ? [`Carry ${uncommitted.length} uncommitted file(s) to ${branch}`] : []),
+      `Scaffold ${changeDir}/proposal.md and tasks.md`,
+      ...(commits.length > 0 ? [`Reset ${baseBranch} to ${upstream} (${commits.length} commit(s) move to ${branch})`] : []),
+    ],
+  };
+
+  if (dryRun) {
+    return { ...plan, applied: false };
+  }
+
+  // Checking out a new branch keeps the working tree, so uncommitted changes come along
+  onProgress?.({ type: 'step_completed', message: plan.steps[0] });
+  await git.createBranch(branch);
+
+  onProgress?.({ type: 'step_completed', message: `Scaffolding ${changeDir}` });
+  await openspec.scaffoldChange(changeId, { proposal: plan.proposal, tasks: plan.tasks });
+
+  // The commits are on the change branch now, so the base branch can drop them
+  if (upstream && commits.length > 0) {
+    onProgress?.({ type: 'step_completed', message: `Resetting ${baseBranch} to ${upstream}` });
+    await git.resetBranch(baseBranch, upstream);
+  }
+
+  onProgress?.({ type: 'step_completed', message: 'Retrofit complete' });
+  return { ...plan, applied: true };
+}
+
+/** One line per commit, plus the uncommitted files */
+function summarizeWork(commits: RetrofitPlan['commits'], uncommitted: string[]): string[] {
+  return [
+    ...commits.map(c => c.message),
+    ...(uncommitted.length > 0 ? [`Uncommitted changes to ${uncommitted.join(', ')}`] : []),
+  ];
+}
+
+function generateRetrofitProposal(summary: string[], files: string[], specDir: string, description?: string): string {
+  const specPrefix = `${specDir}/specs/`;
+  const specs = [...new Set(files
+    .filter(f => f.startsWith(specPrefix) && f.slice(specPrefix.length).includes('/'))
+    .map(f => f.slice(specPrefix.length, f.indexOf('/', specPrefix.length))))];
+  const code = files.filter(f => !f.startsWith(`${specDir}/`));
+
+  return `## Why
+${description ?? '[Describe why this work was done]'}
+
+## What Changes
+${summary.map(line => `- ${line}`).join('\n')}
+
+## Impact
+- Affected specs: ${specs.length > 0 ? specs.join(', ') : '[list capabilities]'}
+- Affected code: ${code.length > 0 ? code.join(', ') : '[key files/systems]'}
+`;
+}
+
+function generateRetrofitTasks(summary: string[]): string {
+  return `## 1. Implementation
+${summary.map((line, i) => `- [x] 1.${i + 1} ${line}`).join('\n')}
+`;
+}
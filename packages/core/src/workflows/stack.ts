@@ -0,0 +1,232 @@
+/**
+ * Stack workflow - changes that build on other changes' branches
+ */
+
+import { createGitAdapter, type GitAdapter } from '../adapters/git-adapter.js';
+import { type ForgeAdapter } from '../adapters/forge-adapter.js';
+import { createOpenSpecAdapter, METADATA_FILE, type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes, type ProgressCallback } from '../types.js';
+import { resolveBranchNaming, type BranchNaming } from '../utils/branch-naming.js';
+import { parseDependsOn } from '../utils/dependencies.js';
+
+/** An active change found in the repository, one of its worktrees or on its branch */
+export interface StackedChange {
+  changeId: string;
+  branch: string;
+  /** Changes this change builds on */
+  dependsOn: string[];
+  /** Worktree the change branch is checked out in */
+  worktreePath?: string;
+}
+
+/** Where a change branches from and where its PR lands */
+export interface ChangeBase {
+  /** Branch to create the change branch from and target its PR at */
+  base: string;
+  /** Unmerged change the base belongs to (stacked changes only) */
+  parent?: string;
+}
+
+export interface RestackOptions {
+  /** Change whose PR was merged */
+  changeId: string;
+  /** Branch the merged change landed on; its dependents move onto it */
+  onto: string;
+  /** Remote to push rebased branches to (default: "origin") */
+  remote?: string;
+}
+
+/** Outcome of moving one dependent change */
+export interface RestackedChange {
+  changeId: string;
+  branch: string;
+  /** Branch the change now builds on */
+  onto: string;
+  /** Whether the rebase succeeded (conflicting rebases are aborted) */
+  rebased: boolean;
+  /** Whether the rebased branch was pushed */
+  pushed: boolean;
+  /** PR retargeted at `onto` (if the change has an open PR) */
+  retargetedPr?: number;
+}
+
+export interface RestackResult {
+  restacked: RestackedChange[];
+}
+
+interface StackDependencies {
+  git: GitAdapter;
+  config: SpecLifeConfig;
+}
+
+/**
+ * Find active changes with their declared dependencies in the current
+ * checkout, every worktree and every change branch, preferring the copy on
+ * the change's own branch
+ */
+export async function listStackedChanges(
+  deps: StackDependencies,
+  branchNaming?: BranchNaming
+): Promise<StackedChange[]> {
+  const { git, config } = deps;
+  const naming = branchNaming ?? await resolveBranchNaming(config, git);
+
+  const changes = new Map<string, StackedChange>();
+  for (const worktree of await git.listWorktrees()) {
+    const openspec = createOpenSpecAdapter({ projectRoot: worktree.path, specDir: config.specDir, branchNaming: naming });
+    for (const changeId of await openspec.listChanges()) {
+      const branch = naming.branchFor(changeId);
+      const existing = changes.get(changeId);
+      if (existing && (existing.worktreePath || worktree.branch !== branch)) continue;
+
+      const change = await openspec.readChange(changeId).catch(() => null);
+      if (!change) continue;
+      changes.set(changeId, {
+        changeId,
+        branch,
+        dependsOn: change.dependsOn ?? [],
+        worktreePath: worktree.branch === branch ? worktree.path : undefined,
+      });
+    }
+
+    // Worktrees created with --depends-on record the parent before the proposal exists
+    const ownId = naming.changeIdFor(worktree.branch);
+    if (ownId && !changes.get(ownId)?.worktreePath) {
+      const metadata = await openspec.readMetadata(ownId).catch(() => null);
+      if (metadata?.dependsOn) {
+        changes.set(ownId, { changeId: ownId, branch: worktree.branch, dependsOn: metadata.dependsOn, worktreePath: worktree.path });
+      }
+    }
+  }
+
+  // Branches not checked out anywhere hold their proposal only in git
+  for (const branch of await git.listBranches()) {
+    const changeId = naming.changeIdFor(branch);
+    if (!changeId || changes.get(changeId)?.worktreePath) continue;
+
+    const dependsOn = await readBranchDependencies(git, branch, `${config.specDir}/changes/${changeId}`);
+    if (dependsOn) {
+      changes.set(changeId, { changeId, branch, dependsOn, worktreePath: undefined });
+    }
+  }
+  return [...changes.values()].sort((a, b) => a.changeId.localeCompare(b.changeId));
+}
+
+/**
+ * Dependencies declared in a change's proposal and metadata as committed on its branch
+ * @returns null if the branch has no proposal for the change
+ */
+async function readBranchDependencies(git: GitAdapter, branch: string, changeDir: string): Promise<string[] | null> {
+  const proposal = await git.showFile(branch, `${changeDir}/proposal.md`);
+  if (proposal === null) {
+    return null;
+  }
+
+  let recorded: string[] = [];
+  const metadata = await git.showFile(branch, `${changeDir}/${METADATA_FILE}`);
+  try {
+    recorded = metadata ? (JSON.parse(metadata) as { dependsOn?: string[] }).dependsOn ?? [] : [];
+  } catch {
+    // Unreadable metadata; the proposal still counts
+  }
+  return [...new Set([...parseDependsOn(proposal), ...recorded])];
+}
+
+/**
+ * Resolve the branch a change builds on: the branch of the change it depends
+ * on while that branch still exists locally, otherwise the base branch
+ * @throws SpecLifeError with INVALID_DEPENDENCY if it depends on several unmerged changes
+ */
+export async function resolveChangeBase(
+  changeId: string,
+  baseBranch: string,
+  deps: { git: GitAdapter; openspec: OpenSpecAdapter; branchNaming: BranchNaming }
+): Promise<ChangeBase> {
+  const { git, openspec, branchNaming } = deps;
+  const change = await openspec.readChange(changeId);
+
+  const pending: string[] = [];
+  for (const parent of change.dependsOn ?? []) {
+    if (parent !== changeId && await git.branchExists(branchNaming.branchFor(parent))) {
+      pending.push(parent);
+    }
+  }
+
+  if (pending.length > 1) {
+    throw new SpecLifeError(
+      ErrorCodes.INVALID_DEPENDENCY,
+      `Change '${changeId}' depends on several unmerged changes (${pending.join(', ')}); land all but one first`,
+      { changeId, dependsOn: pending }
+    );
+  }
+
+  return pending.length === 1
+    ? { base: branchNaming.branchFor(pending[0]), parent: pending[0] }
+    : { base: baseBranch };
+}
+
+/**
+ * After a change lands, rebase the changes stacked on it onto the branch it
+ * landed on, push them and retarget their PRs; their own dependents follow
+ */
+export async function restackWorkflow(
+  options: RestackOptions,
+  deps: StackDependencies & { github?: ForgeAdapter },
+  onProgress?: ProgressCallback
+): Promise<RestackResult> {
+  const { changeId, onto, remote = 'origin' } = options;
+  const { git, github, config } = deps;
+
+  const branchNaming = await resolveBranchNaming(config, git);
+  const changes = await listStackedChanges({ git, config }, branchNaming);
+  const originalBranch = await git.getCurrentBranch();
+  const restacked: RestackedChange[] = [];
+
+  const restack = async (parentId: string, upstream: string, target: string): Promise<void> => {
+    for (const child of changes.filter(c => c.dependsOn.includes(parentId))) {
+      if (restacked.some(r => r.changeId === child.changeId)) continue;
+      const oldTip = await git.resolveRef(child.branch);
+      if (!oldTip) continue;
+
+      // A branch checked out in a worktree can only be rebased there
+      const childGit = child.worktreePath ? createGitAdapter(child.worktreePath) : git;
+      onProgress?.({ type: 'step_completed', message: `Rebasing ${child.branch} onto ${target}` });
+      const rebased = await childGit.rebaseOnto(target, upstream, child.branch);
+      const result: RestackedChange = { changeId: child.changeId, branch: child.branch, onto: target, rebased, pushed: false };
+      restacked.push(result);
+
+      if (!rebased) {
+        onProgress?.({ type: 'step_completed', message: `Rebase of ${child.branch} conflicts; restack it manually` });
+        continue;
+      }
+
+      try {
+        await git.forcePush(remote, child.branch);
+        result.pushed = true;
+      } catch {
+        // Not pushed yet (or no remote); the local branch is still restacked
+      }
+
+      const pr = await github?.getPullRequestByBranch(child.branch);
+      if (pr && pr.base?.ref !== target) {
+        onProgress?.({ type: 'step_completed', message: `Retargeting PR #${pr.number} at ${target}` });
+        await github!.updatePullRequest(pr.number, { base: target });
+        result.retargetedPr = pr.number;
+      }
+
+      await restack(child.changeId, oldTip, child.branch);
+    }
+  };
+
+  const upstream = await git.resolveRef(branchNaming.branchFor(changeId));
+  if (upstream) {
+    await restack(changeId, upstream, onto);
+  }
+
+  if (await git.getCurrentBranch() !== originalBranch) {
+    await git.checkout(originalBranch);
+  }
+
+  return { restacked };
+}
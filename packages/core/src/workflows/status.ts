@@ -3,12 +3,22 @@
  */
 
 import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type ForgeAdapter } from '../adapters/forge-adapter.js';
 import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
-import { type Change, type ChangeState } from '../types.js';
+import { type Change, type PullRequest } from '../types.js';
+import { deriveChangeState, syncChangeState } from '../utils/lifecycle.js';
+import { calculateTaskProgress } from '../utils/task-progress.js';
+import { createBranchNaming, type BranchNaming } from '../utils/branch-naming.js';
+import { getChangeHistory, buildActivityTimeline, type ChangeHistory, type ChangeActivity } from './history.js';
+import { traceTasksWorkflow, type TraceTasksResult } from './trace.js';
 
 export interface StatusOptions {
   /** Change ID to get status for (optional, uses current branch if not provided) */
   changeId?: string;
+  /** Record state transitions in the change metadata (default: false; read-only callers must not write to the checkout) */
+  persist?: boolean;
+  /** Base branch used to find the change branch's own commits (default: "main") */
+  baseBranch?: string;
 }
 
 export interface StatusResult {
@@ -24,11 +34,21 @@ export interface StatusResult {
     completed: number;
     percentage: number;
   };
+  /** Git-derived timestamps and related commits */
+  history: ChangeHistory;
+  /** Commits and state transitions, newest first */
+  timeline: ChangeActivity[];
+  /** Task trailer reconciliation, not applied to tasks.md (active changes only) */
+  taskTrace?: TraceTasksResult;
 }
 
 interface StatusDependencies {
   git: GitAdapter;
   openspec: OpenSpecAdapter;
+  /** Used to detect submitted/merged PRs (optional) */
+  github?: ForgeAdapter;
+  /** Maps the current branch to a change ID (default: "spec/<changeId>") */
+  branchNaming?: BranchNaming;
 }
 
 /**
@@ -38,60 +58,97 @@ export async function statusWorkflow(
   options: StatusOptions,
   deps: StatusDependencies
 ): Promise<StatusResult | null> {
-  const { git, openspec } = deps;
+  const { persist = false, baseBranch } = options;
+  const { git, openspec, github, branchNaming = createBranchNaming() } = deps;
   
   let changeId = options.changeId;
   const currentBranch = await git.getCurrentBranch();
   
   // If no changeId provided, try to get from current branch
   if (!changeId) {
-    const match = currentBranch.match(/^spec\/(.+)$/);
-    if (!match) {
+    const branchChangeId = branchNaming.changeIdFor(currentBranch);
+    if (!branchChangeId) {
       return null; // Not on a spec branch
     }
-    changeId = match[1];
+    changeId = branchChangeId;
   }
   
-  // Check if change exists
-  if (!await openspec.changeExists(changeId)) {
+  // Check if change exists (active or archived)
+  const archived = !await openspec.changeExists(changeId);
+  if (archived && !await openspec.findArchivedChange(changeId)) {
     return null;
   }
   
   // Read change
   const change = await openspec.readChange(changeId);
   
-  // Calculate task summary
-  const total = change.tasks.length;
-  const completed = change.tasks.filter(t => t.completed).length;
-  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+  // Report commit trailer mismatches only; submit checks the tasks off on the change branch
+  const taskTrace = archived || !change.branch
+    ? undefined
+    : await traceTasksWorkflow(
+      { changeId, branch: change.branch, baseBranch, apply: false },
+      { git, openspec }
+    );
   
-  // Determine state based on tasks
-  const state = determineState(change, completed, total);
-  change.state = state;
+  // Calculate task summary (subtasks roll up into their parents)
+  const { total, completed, percentage } = calculateTaskProgress(change.tasks);
+  
+  // Prefer git history over file timestamps for creation time
+  const history = await getChangeHistory(
+    { changeId, branch: change.branch, baseBranch },
+    { git, openspec }
+  );
+  if (history.createdAt) {
+    change.createdAt = history.createdAt;
+  }
+  
+  // Derive state from tasks, branch, archive and PR
+  const state = deriveChangeState({
+    tasksCompleted: completed,
+    tasksTotal: total,
+    branchExists: change.branch ? await git.branchExists(change.branch) : false,
+    archived,
+    pullRequest: await findPullRequest(github, change.branch),
+  });
+  
+  // Reconcile with the recorded lifecycle
+  const { metadata, changed } = syncChangeState(
+    await openspec.readMetadata(changeId),
+    state,
+    new Date(),
+    change.createdAt
+  );
+  if (changed && persist) {
+    await openspec.writeMetadata(changeId, metadata);
+  }
+  change.state = metadata.state;
+  change.stateHistory = metadata.transitions;
   
   return {
     change,
     currentBranch,
-    onBranch: currentBranch === `spec/${changeId}`,
+    onBranch: currentBranch === change.branch,
     taskSummary: { total, completed, percentage },
+    history,
+    timeline: buildActivityTimeline(history.commits, metadata.transitions),
+    taskTrace,
   };
 }
 
 /**
- * Determine the change state based on progress
+ * Look up the PR for a change branch, treating lookup failures as "no PR"
  */
-function determineState(_change: Change, completed: number, total: number): ChangeState {
-  // TODO: Check for PR existence to determine 'submitted' state
-  // TODO: Check for archived status to determine 'merged' state
-  
-  if (completed === 0) {
-    return 'created';
+async function findPullRequest(
+  github: ForgeAdapter | undefined,
+  branch: string | undefined
+): Promise<PullRequest | null> {
+  if (!github || !branch) {
+    return null;
   }
   
-  if (completed < total) {
-    return 'implementing';
+  try {
+    return await github.getPullRequestByBranch(branch);
+  } catch {
+    return null;
   }
-  
-  return 'testing'; // All tasks complete, likely in testing phase
 }
-
@@ -2,12 +2,21 @@
  * Submit workflow - commit, push, create PR, and archive change
  */
 
-import { execa } from 'execa';
 import { type GitAdapter } from '../adapters/git-adapter.js';
-import { type GitHubAdapter } from '../adapters/github-adapter.js';
+import { type ForgeAdapter } from '../adapters/forge-adapter.js';
 import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
-import { type SpecLifeConfig } from '../config.js';
-import { SpecLifeError, ErrorCodes, type PullRequest, type ProgressCallback, type ValidationReport, type ValidationStatus } from '../types.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+import { formatValidationIssue } from '../utils/validation.js';
+import { getChangedFiles } from '../utils/impact.js';
+import { type SpecUpdate } from '../utils/spec-delta.js';
+import { renderPullRequestTasks } from '../utils/pr-tasks.js';
+import { deriveChangeState, recordChangeState } from '../utils/lifecycle.js';
+import { calculateTaskProgress } from '../utils/task-progress.js';
+import { traceTasksWorkflow, formatTraceMismatches, type TraceTasksResult } from './trace.js';
+import { resolveChangeBase } from './stack.js';
+import { syncPullRequestTasksWorkflow, pushPullRequestTasks, type SyncPullRequestTasksResult } from './pr-sync.js';
+import { SpecLifeError, ErrorCodes, type PullRequest, type ProgressCallback, type ValidationReport } from '../types.js';
 
 export interface SubmitOptions {
   /** Change ID to submit */
@@ -29,6 +38,8 @@ export interface SubmitResult {
   commitSha: string;
   /** Branch that was pushed */
   branch: string;
+  /** Branch the PR targets (the parent change's branch for stacked changes) */
+  baseBranch: string;
   /** Created or existing PR */
   pullRequest: PullRequest;
   /** Whether PR was newly created or already existed */
@@ -37,13 +48,20 @@ export interface SubmitResult {
   prMarkedReady: boolean;
   /** Whether change was archived */
   archived: boolean;
+  /** Canonical specs updated from the change's deltas when archiving */
+  specUpdates: SpecUpdate[];
   /** Validation report (if validation was run) */
   validation?: ValidationReport;
+  /** Task trailer reconciliation run before committing */
+  taskTrace: TraceTasksResult;
+  /** Checklist sync with an existing PR, run before committing (absent for new PRs) */
+  taskSync?: SyncPullRequestTasksResult;
 }
 
 interface SubmitDependencies {
   git: GitAdapter;
-  github: GitHubAdapter;
+  /** Forge hosting the pull request (GitHub, GitLab or Gitea) */
+  github: ForgeAdapter;
   openspec: OpenSpecAdapter;
   config: SpecLifeConfig;
 }
@@ -59,7 +77,8 @@ export async function submitWorkflow(
   const { changeId, draft = false, commitMessage, skipArchive = false, skipValidation = false, strict = false } = options;
   const { git, github, openspec, config } = deps;
 
-  const branch = `spec/${changeId}`;
+  const branchNaming = await resolveBranchNaming(config, git);
+  const branch = branchNaming.branchFor(changeId);
 
   // Verify we're on the right branch
   const currentBranch = await git.getCurrentBranch();
@@ -80,85 +99,81 @@ export async function submitWorkflow(
     );
   }
 
+  // Stacked changes target the branch of the change they build on
+  const { base, parent } = await resolveChangeBase(changeId, resolveBaseBranch(config), { git, openspec, branchNaming });
+  if (parent) {
+    onProgress?.({ type: 'step_completed', message: `Stacked on ${parent}: targeting ${base}` });
+  }
+
+  // Check off tasks referenced by commit trailers so tasks.md is committed up to date
+  const taskTrace = await traceTasksWorkflow(
+    { changeId, branch, baseBranch: base },
+    { git, openspec },
+    onProgress
+  );
+  for (const mismatch of formatTraceMismatches(taskTrace)) {
+    onProgress?.({ type: 'step_completed', message: `Traceability: ${mismatch}` });
+  }
+
+  // Pull task toggles made in an existing PR's checklist so they are committed too;
+  // the checklist itself is only rewritten once the push succeeds
+  let pullRequest = await github.getPullRequestByBranch(branch);
+  let taskSync: SyncPullRequestTasksResult | undefined;
+  if (pullRequest) {
+    taskSync = await syncPullRequestTasksWorkflow(
+      { changeId, updateDescription: false },
+      { git, github, openspec, config },
+      onProgress
+    );
+    pullRequest = taskSync.pullRequest;
+  }
+
   // Run validation if not skipped
   let validation: ValidationReport | undefined;
   if (!skipValidation) {
     onProgress?.({ type: 'step_completed', message: 'Validating spec formatting and structure...' });
-    try {
-      const args = ['validate', changeId, '--json', '--no-interactive'];
-      if (strict) {
-        args.push('--strict');
-      }
-      
-      const result = await execa('openspec', args, {
-        cwd: process.cwd(),
-        reject: false,
-      });
-
-      // Try to parse JSON output
-      let output: Record<string, unknown> | undefined;
-      try {
-        output = JSON.parse(result.stdout);
-      } catch {
-        // If JSON parsing fails, treat as raw output
-        validation = {
-          status: result.exitCode === 0 ? 'pass' : 'fail',
-          errors: result.exitCode !== 0 ? [result.stdout || result.stderr || 'Validation failed'] : [],
-          warnings: [],
-          output: result.stdout || result.stderr,
-        };
-      }
+    const changedFiles = await getChangedFiles(git, base);
+    validation = await openspec.validateChange(changeId, changedFiles ? { changedFiles } : {});
+    onProgress?.({
+      type: 'step_completed',
+      message: `Validation: ${validation.status.toUpperCase().replace('_', ' ')}`,
+    });
 
-      if (output) {
-        let status: ValidationStatus = 'pass';
-        const errors = (output.errors as string[]) ?? [];
-        const warnings = (output.warnings as string[]) ?? [];
-
-        if (errors.length > 0 || output.valid === false) {
-          status = 'fail';
-        } else if (warnings.length > 0) {
-          status = 'pass_with_warnings';
-        }
-
-        validation = {
-          status,
-          errors,
-          warnings,
-          output: result.stdout,
-        };
-      }
+    if (validation.status === 'fail') {
+      throw new SpecLifeError(
+        ErrorCodes.VALIDATION_FAILED,
+        `Validation failed: ${validation.errors.length} errors\n${validation.errors.map(e => `  ${formatValidationIssue(e)}`).join('\n')}`,
+        { validation: validation as unknown as Record<string, unknown> }
+      );
+    }
 
-      if (validation) {
-        onProgress?.({
-          type: 'step_completed',
-          message: `Validation: ${validation.status.toUpperCase().replace('_', ' ')}`,
-        });
-
-        if (strict && validation.status === 'pass_with_warnings') {
-          throw new SpecLifeError(
-            ErrorCodes.CONFIG_INVALID,
-            `Validation failed in strict mode: ${validation.warnings.length} warnings`,
-            { validation: validation as unknown as Record<string, unknown> }
-          );
-        }
-
-        if (validation.status === 'fail') {
-          throw new SpecLifeError(
-            ErrorCodes.CONFIG_INVALID,
-            `Validation failed: ${validation.errors.length} errors`,
-            { validation: validation as unknown as Record<string, unknown> }
-          );
-        }
-      }
-    } catch (error) {
-      if (error instanceof SpecLifeError) {
-        throw error;
-      }
-      // openspec validate might not be available - continue without validation
-      onProgress?.({ type: 'step_completed', message: `openspec validate not available: ${error instanceof Error ? error.message : String(error)}, proceeding` });
+    if (strict && validation.status === 'pass_with_warnings') {
+      throw new SpecLifeError(
+        ErrorCodes.VALIDATION_FAILED,
+        `Validation failed in strict mode: ${validation.warnings.length} warnings\n${validation.warnings.map(w => `  ${formatValidationIssue(w)}`).join('\n')}`,
+        { validation: validation as unknown as Record<string, unknown> }
+      );
     }
   }
 
+  // Record the state the PR puts the change in, so it is committed with the change;
+  // a draft PR leaves it implementing or testing (an existing ready PR stays ready)
+  const { completed, total } = calculateTaskProgress((await openspec.readTasks(changeId)).tasks);
+  const submittedState = deriveChangeState({
+    tasksCompleted: completed,
+    tasksTotal: total,
+    branchExists: true,
+    archived: false,
+    pullRequest: { state: 'open', draft: draft && (pullRequest?.draft ?? true) },
+  });
+  await recordChangeState(openspec, changeId, submittedState);
+  
+  // Record the branch the PR is opened from so merge finds it even if the naming config changes
+  const metadata = await openspec.readMetadata(changeId);
+  if (metadata && metadata.branch !== branch) {
+    await openspec.writeMetadata(changeId, { ...metadata, branch });
+  }
+
   // Get git status
   const status = await git.status();
   const hasChanges = status.staged.length > 0 || 
@@ -191,8 +206,6 @@ export async function submitWorkflow(
   onProgress?.({ type: 'step_completed', message: `Pushing to origin/${branch}` });
   await git.push('origin', branch);
 
-  // Check if PR already exists
-  let pullRequest = await github.getPullRequestByBranch(branch);
   let prCreated = false;
   let prMarkedReady = false;
 
@@ -200,18 +213,24 @@ export async function submitWorkflow(
     // Create PR
     onProgress?.({ type: 'step_completed', message: 'Creating pull request' });
     
-    const prBody = generatePRBody(change, validation);
+    const tasksBlock = renderPullRequestTasks(await openspec.readTasks(changeId));
+    const prBody = generatePRBody(change, tasksBlock, validation, taskTrace);
     pullRequest = await github.createPullRequest({
       title: generatePRTitle(changeId, change.proposal.why),
       body: prBody,
       head: branch,
-      base: config.github.baseBranch,
+      base,
       draft,
     });
     prCreated = true;
   } else {
     onProgress?.({ type: 'step_completed', message: `PR #${pullRequest.number} already exists` });
     
+    // Publish local task progress now that the commits behind it are pushed
+    const pushed = await pushPullRequestTasks(pullRequest, await openspec.readTasks(changeId), github, onProgress);
+    pullRequest = pushed.pullRequest;
+    taskSync = { ...taskSync!, pullRequest, updated: pushed.updated };
+    
     // If the existing PR is a draft and we're not creating as draft, mark it ready
     if (pullRequest.draft && !draft) {
       onProgress?.({ type: 'step_completed', message: `Marking PR #${pullRequest.number} ready for review` });
@@ -222,9 +241,17 @@ export async function submitWorkflow(
 
   // Archive the change
   let archived = false;
+  let specUpdates: SpecUpdate[] = [];
   if (!skipArchive) {
     onProgress?.({ type: 'step_completed', message: 'Archiving change' });
-    await openspec.archiveChange(changeId);
+    const archive = await openspec.archiveChange(changeId);
+    specUpdates = archive.specUpdates;
+    for (const update of specUpdates) {
+      onProgress?.({
+        type: 'step_completed',
+        message: `${update.created ? 'Created' : 'Updated'} ${update.path} (${update.applied.length} requirement changes)`,
+      });
+    }
     
     // Commit and push the archive
     await git.add(['.']);
@@ -240,11 +267,15 @@ export async function submitWorkflow(
   return {
     commitSha,
     branch,
+    baseBranch: base,
     pullRequest: pullRequest!,
     prCreated,
     prMarkedReady,
     archived,
+    specUpdates,
     validation,
+    taskTrace,
+    taskSync,
   };
 }
 
@@ -285,7 +316,9 @@ function generatePRTitle(changeId: string, why: string): string {
  */
 function generatePRBody(
   change: { proposal: { why: string; whatChanges: string[] } },
-  validation?: ValidationReport
+  tasksBlock: string,
+  validation?: ValidationReport,
+  taskTrace?: TraceTasksResult
 ): string {
   const lines = [
     '## Why',
@@ -309,18 +342,29 @@ function generatePRBody(
     if (validation.errors.length > 0) {
       lines.push('', '### Errors');
       for (const error of validation.errors) {
-        lines.push(`- ❌ ${error}`);
+        lines.push(`- ❌ ${formatValidationIssue(error)}`);
       }
     }
     
     if (validation.warnings.length > 0) {
       lines.push('', '### Warnings');
       for (const warning of validation.warnings) {
-        lines.push(`- ⚠️ ${warning}`);
+        lines.push(`- ⚠️ ${formatValidationIssue(warning)}`);
       }
     }
   }
 
+  const mismatches = taskTrace ? formatTraceMismatches(taskTrace) : [];
+  if (mismatches.length > 0) {
+    lines.push('', '## Task Traceability');
+    for (const mismatch of mismatches) {
+      lines.push(`- ⚠️ ${mismatch}`);
+    }
+  }
+
+  // Synced with tasks.md by `speclife pr sync`
+  lines.push('', tasksBlock);
+
   lines.push('', '---', '*Created with [SpecLife](https://github.com/malarbase/speclife)*');
 
   return lines.join('\n');
@@ -0,0 +1,220 @@
+/**
+ * Sync workflow - bring change branches up to date with the branch they build on
+ */
+
+import { createGitAdapter, type GitAdapter } from '../adapters/git-adapter.js';
+import { createOpenSpecAdapter, type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
+import { SpecLifeError, ErrorCodes, type GitOperation, type ProgressCallback } from '../types.js';
+import { resolveBranchNaming } from '../utils/branch-naming.js';
+import { getLandingOrder } from '../utils/dependencies.js';
+import { listStackedChanges, resolveChangeBase } from './stack.js';
+
+export interface SyncOptions {
+  /** How to integrate upstream changes (default: "rebase") */
+  method?: GitOperation;
+  /** Remote to fetch from and push to (default: "origin") */
+  remote?: string;
+  /** Push synced branches that exist on the remote (default: true) */
+  push?: boolean;
+  /** Abort the rebase or merge stopped at conflicts */
+  abort?: boolean;
+  /** Continue the rebase or merge stopped at conflicts once they are resolved */
+  continue?: boolean;
+  /** Sync every worktree with a change branch instead of the current branch */
+  all?: boolean;
+}
+
+/**
+ * Outcome for one branch:
+ * - synced: upstream commits were rebased or merged in
+ * - up-to-date: the branch already contains upstream
+ * - conflicts: stopped at conflicts (resolve, then continue or abort)
+ * - aborted: the rebase or merge in progress was aborted
+ * - skipped: not synced (see reason)
+ */
+export type SyncStatus = 'synced' | 'up-to-date' | 'conflicts' | 'aborted' | 'skipped';
+
+export interface BranchSyncResult {
+  branch: string;
+  /** Worktree the branch is checked out in (when syncing all worktrees) */
+  worktreePath?: string;
+  /** Ref the branch was synced with ("origin/main", or a parent change branch) */
+  upstream: string;
+  status: SyncStatus;
+  /** Upstream commits the branch was missing (unknown when continuing) */
+  commits?: number;
+  /** Files with unresolved conflicts */
+  conflicts: string[];
+  /** Whether the synced branch was pushed */
+  pushed: boolean;
+  /** Why the branch was skipped */
+  reason?: string;
+}
+
+export interface SyncResult {
+  method: GitOperation;
+  branches: BranchSyncResult[];
+}
+
+interface SyncDependencies {
+  git: GitAdapter;
+  config: SpecLifeConfig;
+  /** OpenSpec adapter for the current checkout; used to sync stacked changes onto their parent */
+  openspec?: OpenSpecAdapter;
+}
+
+/**
+ * Fetch and rebase (or merge) the latest base branch into the current change
+ * branch or every change worktree. Conflicts stop the sync and are reported
+ * so they can be resolved and continued, or aborted.
+ * @throws SpecLifeError with SYNC_FAILED if the branch cannot be synced
+ */
+export async function syncWorkflow(
+  options: SyncOptions,
+  deps: SyncDependencies,
+  onProgress?: ProgressCallback
+): Promise<SyncResult> {
+  const { remote = 'origin', push = true, all = false } = options;
+  const { git, config, openspec } = deps;
+  const baseBranch = resolveBaseBranch(config);
+  const branchNaming = await resolveBranchNaming(config, git);
+
+  const resolveUpstream = async (branch: string, changeOpenspec?: OpenSpecAdapter): Promise<string> => {
+    const changeId = branchNaming.changeIdFor(branch);
+    if (changeId && changeOpenspec) {
+      // Changes without a readable proposal sync with the base branch
+      const { parent, base } = await resolveChangeBase(changeId, baseBranch, { git, openspec: changeOpenspec, branchNaming })
+        .catch(() => ({ parent: undefined, base: baseBranch }));
+      if (parent) return base;
+    }
+    return await git.resolveRef(`${remote}/${baseBranch}`) ? `${remote}/${baseBranch}` : baseBranch;
+  };
+
+  if (options.abort || options.continue) {
+    const operation = await git.getOperationInProgress();
+    if (!operation) {
+      throw new SpecLifeError(
+        ErrorCodes.SYNC_FAILED,
+        `No rebase or merge in progress to ${options.abort ? 'abort' : 'continue'}`
+      );
+    }
+
+    if (options.abort) {
+      onProgress?.({ type: 'step_completed', message: `Aborting ${operation}` });
+      await git.abortOperation();
+      const branch = await git.getCurrentBranch();
+      return {
+        method: operation,
+        branches: [{ branch, upstream: await resolveUpstream(branch, openspec), status: 'aborted', conflicts: [], pushed: false }],
+      };
+    }
+
+    onProgress?.({ type: 'step_completed', message: `Continuing ${operation}` });
+    const conflicts = await git.continueOperation();
+    const branch = await git.getCurrentBranch();
+    const upstream = await resolveUpstream(branch, openspec);
+    if (conflicts.length > 0) {
+      return { method: operation, branches: [{ branch, upstream, status: 'conflicts', conflicts, pushed: false }] };
+    }
+    const pushed = push && await pushSynced(git, remote, branch, operation, onProgress);
+    return { method: operation, branches: [{ branch, upstream, status: 'synced', conflicts: [], pushed }] };
+  }
+
+  const method = options.method ?? 'rebase';
+
+  onProgress?.({ type: 'step_completed', message: `Fetching ${remote}/${baseBranch}` });
+  try {
+    await git.fetch(remote);
+  } catch {
+    onProgress?.({ type: 'step_completed', message: `Could not fetch ${remote}; syncing with local branches` });
+  }
+
+  const sync = async (
+    branchGit: GitAdapter,
+    branch: string,
+    upstream: string,
+    worktreePath?: string
+  ): Promise<BranchSyncResult> => {
+    const result: BranchSyncResult = { branch, worktreePath, upstream, status: 'skipped', conflicts: [], pushed: false };
+
+    const operation = await branchGit.getOperationInProgress();
+    if (operation) {
+      return { ...result, reason: `${operation} in progress` };
+    }
+    const status = await branchGit.status();
+    if (status.staged.length > 0 || status.unstaged.length > 0) {
+      return { ...result, reason: 'uncommitted changes' };
+    }
+
+    const { behind } = await branchGit.getAheadBehind(upstream);
+    if (behind === 0) {
+      return { ...result, status: 'up-to-date', commits: 0 };
+    }
+
+    onProgress?.({ type: 'step_completed', message: `${method === 'rebase' ? 'Rebasing' : 'Merging'} ${branch} with ${upstream}` });
+    const conflicts = method === 'rebase' ? await branchGit.rebase(upstream) : await branchGit.merge(upstream);
+    if (conflicts.length > 0) {
+      return { ...result, status: 'conflicts', commits: behind, conflicts };
+    }
+
+    const pushed = push && await pushSynced(branchGit, remote, branch, method, onProgress);
+    return { ...result, status: 'synced', commits: behind, pushed };
+  };
+
+  if (!all) {
+    const branch = await git.getCurrentBranch();
+    if (branch === baseBranch) {
+      throw new SpecLifeError(ErrorCodes.SYNC_FAILED, `Already on ${baseBranch}; switch to a change branch to sync it`);
+    }
+    const result = await sync(git, branch, await resolveUpstream(branch, openspec));
+    if (result.status === 'skipped') {
+      throw new SpecLifeError(
+        ErrorCodes.SYNC_FAILED,
+        result.reason === 'uncommitted changes'
+          ? 'Working directory has uncommitted changes; commit or stash them first'
+          : `A ${result.reason}; continue or abort it first`,
+        { branch }
+      );
+    }
+    return { method, branches: [result] };
+  }
+
+  // Parents sync before the changes stacked on them
+  const changes = (await listStackedChanges({ git, config }, branchNaming)).filter(c => c.worktreePath);
+  const { order, cycle } = getLandingOrder(changes.map(c => ({ id: c.changeId, dependsOn: c.dependsOn })));
+  const branches: BranchSyncResult[] = [];
+  for (const changeId of [...order, ...cycle]) {
+    const change = changes.find(c => c.changeId === changeId)!;
+    const worktreePath = change.worktreePath!;
+    const changeOpenspec = createOpenSpecAdapter({ projectRoot: worktreePath, specDir: config.specDir, branchNaming });
+    const upstream = await resolveUpstream(change.branch, changeOpenspec);
+    branches.push(await sync(createGitAdapter(worktreePath), change.branch, upstream, worktreePath));
+  }
+  return { method, branches };
+}
+
+/**
+ * Push a synced branch if it exists on the remote; rebased branches are
+ * force-pushed with lease
+ */
+async function pushSynced(
+  git: GitAdapter,
+  remote: string,
+  branch: string,
+  method: GitOperation,
+  onProgress?: ProgressCallback
+): Promise<boolean> {
+  if (!await git.resolveRef(`${remote}/${branch}`)) return false;
+  onProgress?.({ type: 'step_completed', message: `Pushing ${branch}` });
+  try {
+    if (method === 'rebase') {
+      await git.forcePush(remote, branch);
+    } else {
+      await git.push(remote, branch, false);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Trace workflow - tie commits to tasks through "Task: 2.3" trailers
+ */
+
+import { type GitAdapter } from '../adapters/git-adapter.js';
+import { type OpenSpecAdapter } from '../adapters/openspec-adapter.js';
+import { type GitTrailerCommit, type ProgressCallback } from '../types.js';
+import { setTaskCompleted, type DocumentTask } from '../utils/tasks-document.js';
+import { recordTaskProgressState } from '../utils/lifecycle.js';
+
+/** Commit trailer that references tasks ("Task: 2.3" or "Task: 2.3, 2.4") */
+export const TASK_TRAILER = 'Task';
+
+export interface TraceTasksOptions {
+  /** Change whose tasks.md is reconciled */
+  changeId: string;
+  /** Change branch, as named by the configured branch naming */
+  branch: string;
+  /** Base branch the change branch was created from (default: "main") */
+  baseBranch?: string;
+  /** Check off tasks referenced by commits in tasks.md (default: true) */
+  apply?: boolean;
+}
+
+/** A commit referencing a task */
+export interface TaskCommitLink {
+  taskId: string;
+  sha: string;
+  /** Commit subject line */
+  message: string;
+  /** Files changed by the commit */
+  files: string[];
+}
+
+export interface TraceTasksResult {
+  /** Commits referencing existing tasks, newest first */
+  links: TaskCommitLink[];
+  /** Tasks referenced by a commit but not yet checked off (checked off when applied) */
+  completed: string[];
+  /** Checked-off tasks that no commit references; only reported once the branch uses Task trailers */
+  untraced: string[];
+  /** Task references that do not match a task in tasks.md */
+  unknown: Array<{ sha: string; taskId: string }>;
+}
+
+interface TraceTasksDependencies {
+  git: GitAdapter;
+  openspec: OpenSpecAdapter;
+}
+
+/**
+ * Reconcile tasks.md with the Task trailers of the change branch's commits.
+ * A task counts as referenced when it, an ancestor, or all of its subtasks are.
+ */
+export async function traceTasksWorkflow(
+  options: TraceTasksOptions,
+  deps: TraceTasksDependencies,
+  onProgress?: ProgressCallback
+): Promise<TraceTasksResult> {
+  const { changeId, branch, baseBranch = 'main', apply = true } = options;
+  const { git, openspec } = deps;
+
+  const commits = branch === baseBranch
+    ? []
+    : await git.getCommitsWithTrailers({ refs: [branch], excludeRef: baseBranch });
+  const document = await openspec.readTasks(changeId);
+  const byId = new Map(document.tasks.map(t => [t.id, t]));
+
+  const links: TaskCommitLink[] = [];
+  const unknown: TraceTasksResult['unknown'] = [];
+  for (const commit of commits) {
+    for (const taskId of getTaskReferences(commit)) {
+      if (!byId.has(taskId)) {
+        unknown.push({ sha: commit.sha, taskId });
+        continue;
+      }
+      links.push({ taskId, sha: commit.sha, message: commit.message, files: await git.getCommitFiles(commit.sha) });
+    }
+  }
+
+  const referenced = new Set(links.map(l => l.taskId));
+  const isTraced = (task: DocumentTask): boolean => {
+    for (let current: DocumentTask | undefined = task; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (referenced.has(current.id)) return true;
+    }
+    return task.children.length > 0 && task.children.every(id => isTraced(byId.get(id)!));
+  };
+
+  const completed = [...referenced].filter(id => !byId.get(id)!.completed);
+  const untraced = referenced.size > 0 || unknown.length > 0
+    ? document.tasks.filter(t => t.completed && !isTraced(t)).map(t => t.id)
+    : [];
+
+  if (apply && completed.length > 0) {
+    const updated = await openspec.editTasks(changeId, doc =>
+      completed.reduce((edited, id) => setTaskCompleted(edited, id, true), doc)
+    );
+    await recordTaskProgressState(openspec, changeId, updated);
+    onProgress?.({ type: 'step_completed', message: `Checked off ${completed.join(', ')} from commit trailers` });
+  }
+
+  return { links, completed, untraced, unknown };
+}
+
+/**
+ * Format trace mismatches as human-readable lines (empty when tasks and commits agree)
+ */
+export function formatTraceMismatches(result: TraceTasksResult): string[] {
+  return [
+    ...result.untraced.map(id => `Task ${id} is done but no commit has "${TASK_TRAILER}: ${id}"`),
+    ...result.unknown.map(u => `Commit ${u.sha.slice(0, 7)} references unknown task ${u.taskId}`),
+  ];
+}
+
+/** Task IDs from a commit's Task trailers */
+function getTaskReferences(commit: GitTrailerCommit): string[] {
+  return commit.trailers
+    .filter(t => t.key.toLowerCase() === TASK_TRAILER.toLowerCase())
+    .flatMap(t => t.value.split(/[\s,]+/))
+    .filter(Boolean);
+}
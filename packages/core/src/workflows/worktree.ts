@@ -2,20 +2,27 @@
  * Worktree workflow - manage git worktrees for isolated change development
  */
 
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
 import { type GitAdapter } from '../adapters/git-adapter.js';
+import { createOpenSpecAdapter } from '../adapters/openspec-adapter.js';
 import {
   type EnvironmentRegistry,
   type BootstrapResult,
   createDefaultEnvironmentRegistry,
 } from '../adapters/environment-adapter.js';
-import { type SpecLifeConfig } from '../config.js';
+import { resolveBaseBranch, type SpecLifeConfig } from '../config.js';
 import { SpecLifeError, ErrorCodes, type ProgressCallback } from '../types.js';
+import { branchNamingFromConfig, resolveBranchNaming } from '../utils/branch-naming.js';
+import { createChangeMetadata } from '../utils/lifecycle.js';
 
 export interface WorktreeCreateOptions {
   /** Change identifier (kebab-case) */
   changeId: string;
-  /** Base branch to create worktree from (defaults to config.git.baseBranch) */
+  /** Base branch to create worktree from (defaults to the configured base branch) */
   baseBranch?: string;
+  /** Change to build on: branch from its branch instead of the base branch */
+  dependsOn?: string;
   /** Skip environment bootstrap */
   skipBootstrap?: boolean;
 }
@@ -23,6 +30,8 @@ export interface WorktreeCreateOptions {
 export interface WorktreeCreateResult {
   /** Created branch name */
   branch: string;
+  /** Branch the new branch was created from */
+  baseBranch: string;
   /** Worktree path */
   worktreePath: string;
   /** Environment bootstrap results */
@@ -66,7 +75,7 @@ export async function worktreeCreate(
   deps: WorktreeDependencies,
   onProgress?: ProgressCallback
 ): Promise<WorktreeCreateResult> {
-  const { changeId, baseBranch, skipBootstrap = false } = options;
+  const { changeId, baseBranch, dependsOn, skipBootstrap = false } = options;
   const { git, config, environmentRegistry } = deps;
   
   // Validate changeId format (kebab-case)
@@ -78,13 +87,24 @@ export async function worktreeCreate(
     );
   }
   
-  const branchPrefix = config.git?.branchPrefix ?? 'spec/';
   const worktreeDir = config.git?.worktreeDir ?? 'worktrees';
-  const base = baseBranch ?? config.git?.baseBranch ?? 'main';
-  
-  const branch = `${branchPrefix}${changeId}`;
+  const branchNaming = await resolveBranchNaming(config, git);
+  const branch = branchNaming.branchFor(changeId);
   const worktreePath = `${worktreeDir}/${changeId}`;
   
+  // Stacked changes start from the branch of the change they build on
+  let base = baseBranch ?? resolveBaseBranch(config);
+  if (dependsOn) {
+    base = branchNaming.branchFor(dependsOn);
+    if (!await git.branchExists(base)) {
+      throw new SpecLifeError(
+        ErrorCodes.INVALID_DEPENDENCY,
+        `Cannot build on '${dependsOn}': branch '${base}' does not exist`,
+        { changeId, dependsOn, branch: base }
+      );
+    }
+  }
+  
   // Check if branch already exists
   if (await git.branchExists(branch)) {
     throw new SpecLifeError(
@@ -98,6 +118,13 @@ export async function worktreeCreate(
   onProgress?.({ type: 'step_completed', message: `Creating worktree at ${worktreePath}` });
   await git.createWorktree(worktreePath, branch, base);
   
+  // Record the dependency so submit and restack find the parent without a proposal declaration
+  if (dependsOn) {
+    await mkdir(join(worktreePath, config.specDir, 'changes', changeId), { recursive: true });
+    const openspec = createOpenSpecAdapter({ projectRoot: worktreePath, specDir: config.specDir, branchNaming });
+    await openspec.writeMetadata(changeId, { ...createChangeMetadata(), branch, dependsOn: [dependsOn] });
+  }
+  
   // Bootstrap environment
   let bootstrapResults: BootstrapResult[] | undefined;
   if (!skipBootstrap) {
@@ -127,6 +154,7 @@ export async function worktreeCreate(
   
   return {
     branch,
+    baseBranch: base,
     worktreePath,
     bootstrapResults,
   };
@@ -143,10 +171,9 @@ export async function worktreeRemove(
   const { changeId, force = false } = options;
   const { git, config } = deps;
   
-  const branchPrefix = config.git?.branchPrefix ?? 'spec/';
   const worktreeDir = config.git?.worktreeDir ?? 'worktrees';
   
-  const branch = `${branchPrefix}${changeId}`;
+  const branch = (await resolveBranchNaming(config, git)).branchFor(changeId);
   const worktreePath = `${worktreeDir}/${changeId}`;
   
   // Remove worktree
@@ -179,16 +206,16 @@ export async function worktreeList(
 ): Promise<WorktreeListResult> {
   const { git, config } = deps;
   
-  const branchPrefix = config.git?.branchPrefix ?? 'spec/';
+  const naming = branchNamingFromConfig(config);
   const worktreeDir = config.git?.worktreeDir ?? 'worktrees';
   
   const worktrees = await git.listWorktrees();
   
   // Filter to only spec worktrees
   const specWorktrees = worktrees
-    .filter(wt => wt.branch?.startsWith(branchPrefix) && wt.path.includes(worktreeDir))
+    .filter(wt => wt.branch && naming.isChangeBranch(wt.branch) && wt.path.includes(worktreeDir))
     .map(wt => ({
-      changeId: wt.branch!.replace(branchPrefix, ''),
+      changeId: naming.changeIdFor(wt.branch)!,
       branch: wt.branch!,
       path: wt.path,
     }));
@@ -0,0 +1,68 @@
+/**
+ * Fake forge adapter tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFakeForgeAdapter } from '../../src/adapters/fake-forge-adapter.js';
+
+describe('FakeForgeAdapter', () => {
+  const create = { title: 'Add cache', body: 'Adds a cache', head: 'spec/add-cache', base: 'main' };
+
+  it('keeps pull requests in memory', async () => {
+    const forge = createFakeForgeAdapter();
+
+    const pr = await forge.createPullRequest({ ...create, draft: true });
+    await forge.updatePullRequest(pr.number, { base: 'spec/add-auth' });
+
+    expect(pr).toMatchObject({ number: 1, state: 'open', draft: true, url: 'https://forge.test/owner/repo/pull/1' });
+    expect(await forge.getPullRequestByBranch('spec/add-cache')).toMatchObject({ base: { ref: 'spec/add-auth' } });
+    await expect(forge.createPullRequest(create)).rejects.toThrow(/already exists/);
+    await expect(forge.getPullRequest(2)).rejects.toMatchObject({ code: 'FORGE_ERROR' });
+  });
+
+  it('merges only mergeable pull requests', async () => {
+    const forge = createFakeForgeAdapter();
+    const { number } = await forge.createPullRequest({ ...create, draft: true });
+
+    await expect(forge.mergePullRequest(number)).rejects.toThrow(/is a draft/);
+    await forge.markPullRequestReady(number);
+    forge.pullRequests.get(number)!.mergeable = false;
+    await expect(forge.mergePullRequest(number)).rejects.toThrow(/not mergeable/);
+
+    forge.pullRequests.get(number)!.mergeable = true;
+    await forge.mergePullRequest(number, 'rebase');
+
+    expect(forge.merges).toEqual([{ number, method: 'rebase' }]);
+    expect(await forge.getPullRequest(number)).toMatchObject({ state: 'merged', merged: true });
+    expect(await forge.getPullRequestByBranch('spec/add-cache')).toBeNull();
+  });
+
+  it('records auto-merge unless the repository disallows it', async () => {
+    const forge = createFakeForgeAdapter();
+    const strict = createFakeForgeAdapter({ allowAutoMerge: false });
+    await forge.createPullRequest(create);
+    await strict.createPullRequest(create);
+
+    expect(await forge.enableAutoMerge(1)).toBe(true);
+    expect(await strict.enableAutoMerge(1)).toBe(false);
+    expect(forge.autoMerge.get(1)).toBe('squash');
+  });
+
+  it('keeps one release per tag with its assets', async () => {
+    const forge = createFakeForgeAdapter();
+
+    expect(await forge.getReleaseByTag('v1.0.0')).toBeNull();
+    await forge.createRelease({ tag: 'v1.0.0', name: 'v1.0.0', body: 'Notes' });
+    await forge.uploadReleaseAsset('v1.0.0', 'dist/app.tgz');
+
+    expect(await forge.getReleaseByTag('v1.0.0')).toEqual({
+      tag: 'v1.0.0',
+      name: 'v1.0.0',
+      url: 'https://forge.test/owner/repo/releases/tag/v1.0.0',
+      prerelease: false,
+      assets: ['app.tgz'],
+    });
+    await expect(forge.createRelease({ tag: 'v1.0.0', name: 'v1.0.0', body: '' })).rejects.toThrow(/already exists/);
+    await expect(forge.uploadReleaseAsset('v2.0.0', 'app.tgz')).rejects.toMatchObject({ code: 'FORGE_ERROR' });
+  });
+});
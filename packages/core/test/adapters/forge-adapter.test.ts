@@ -0,0 +1,121 @@
+/**
+ * Forge adapter tests
+ *
+ * Remote URL parsing and forge selection; requests go to a mock fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseForgeRemote,
+  resolveForgeAdapter,
+  createForgeAdapter,
+} from '../../src/adapters/forge-adapter.js';
+
+/** fetch returning the same pull request JSON for every request */
+function mockFetch(body: unknown) {
+  return vi.fn().mockImplementation(async () => new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  }));
+}
+
+const githubPr = {
+  number: 7,
+  title: 'Add cache',
+  body: '',
+  state: 'open',
+  html_url: 'https://github.com/acme/app/pull/7',
+  head: { ref: 'spec/add-cache', sha: 'abc' },
+  base: { ref: 'main' },
+};
+
+const gitlabMr = {
+  iid: 7,
+  title: 'Add cache',
+  description: '',
+  state: 'opened',
+  web_url: 'https://gitlab.example.com/acme/app/-/merge_requests/7',
+  source_branch: 'spec/add-cache',
+  target_branch: 'main',
+  sha: 'abc',
+};
+
+describe('parseForgeRemote', () => {
+  it.each([
+    ['git@github.com:acme/app.git', { kind: 'github', host: 'github.com', owner: 'acme', repo: 'app' }],
+    ['https://github.com/acme/app', { kind: 'github', host: 'github.com', owner: 'acme', repo: 'app' }],
+    ['ssh://git@gitlab.example.com:2222/acme/platform/app.git', {
+      kind: 'gitlab', host: 'gitlab.example.com', owner: 'acme/platform', repo: 'app',
+    }],
+    ['https://user@codeberg.org/acme/app.git', { kind: 'gitea', host: 'codeberg.org', owner: 'acme', repo: 'app' }],
+    ['git@git.example.com:acme/app.git', { kind: null, host: 'git.example.com', owner: 'acme', repo: 'app' }],
+  ])('parses %s', (url, expected) => {
+    expect(parseForgeRemote(url)).toEqual(expected);
+  });
+
+  it('returns null for local paths and URLs without an owner', () => {
+    expect(parseForgeRemote('/srv/git/app.git')).toBeNull();
+    expect(parseForgeRemote('https://github.com/app')).toBeNull();
+  });
+});
+
+describe('resolveForgeAdapter', () => {
+  const git = (url: string | null) => ({ getRemoteUrl: vi.fn().mockResolvedValue(url) });
+
+  beforeEach(() => {
+    process.env.GITHUB_TOKEN = 'github-token';
+    process.env.GITLAB_TOKEN = 'gitlab-token';
+  });
+
+  afterEach(() => {
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GITLAB_TOKEN;
+    delete process.env.GITEA_TOKEN;
+  });
+
+  it('picks GitHub for github.com remotes', async () => {
+    const fetch = mockFetch(githubPr);
+    const forge = await resolveForgeAdapter({}, git('git@github.com:acme/app.git'), { fetch });
+
+    expect(await forge.getPullRequest(7)).toMatchObject({ number: 7, head: { ref: 'spec/add-cache' } });
+    expect(String(fetch.mock.calls[0][0])).toBe('https://api.github.com/repos/acme/app/pulls/7');
+  });
+
+  it('picks GitLab from the host and encodes nested groups', async () => {
+    const fetch = mockFetch(gitlabMr);
+    const forge = await resolveForgeAdapter({}, git('git@gitlab.example.com:acme/platform/app.git'), { fetch });
+
+    expect(await forge.getPullRequest(7)).toMatchObject({ number: 7, state: 'open', url: gitlabMr.web_url });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://gitlab.example.com/api/v4/projects/acme%2Fplatform%2Fapp/merge_requests/7',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer gitlab-token' }) })
+    );
+  });
+
+  it('uses forge.type and forge.apiUrl for hosts it cannot recognize', async () => {
+    const fetch = mockFetch(gitlabMr);
+    const forge = await resolveForgeAdapter(
+      { forge: { type: 'gitlab', apiUrl: 'https://code.example.com/gitlab/api/v4/' } },
+      git('https://code.example.com/acme/app.git'),
+      { fetch }
+    );
+
+    await forge.getPullRequest(7);
+    expect(fetch.mock.calls[0][0]).toBe('https://code.example.com/gitlab/api/v4/projects/acme%2Fapp/merge_requests/7');
+  });
+
+  it('fails without a recognizable remote or a token', async () => {
+    await expect(resolveForgeAdapter({}, git(null))).rejects.toThrow('No origin remote configured');
+    await expect(resolveForgeAdapter({}, git('git@git.example.com:acme/app.git')))
+      .rejects.toThrow(/set forge.type/);
+    await expect(resolveForgeAdapter({}, git('https://gitea.example.com/acme/app')))
+      .rejects.toMatchObject({ code: 'MISSING_TOKEN', message: expect.stringContaining('GITEA_TOKEN') });
+  });
+
+  it('takes the token from the options when the environment has none', () => {
+    delete process.env.GITLAB_TOKEN;
+    const remote = { host: 'gitlab.com', owner: 'acme', repo: 'app' };
+    expect(() => createForgeAdapter('gitlab', remote)).toThrow(/GITLAB_TOKEN/);
+    expect(createForgeAdapter('gitlab', remote, { token: 't' })).toBeDefined();
+  });
+});
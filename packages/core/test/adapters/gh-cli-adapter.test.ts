@@ -0,0 +1,228 @@
+/**
+ * gh CLI adapter tests
+ *
+ * Runs against a fake `gh` executable on PATH that answers from canned
+ * responses and logs its arguments.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFile, readFile, mkdir, chmod } from 'fs/promises';
+import { join } from 'path';
+import { createGhCliAdapter } from '../../src/adapters/gh-cli-adapter.js';
+import { resolveForgeAdapter } from '../../src/adapters/forge-adapter.js';
+import { createTempDir, removeTempDir } from '../helpers.js';
+
+/** Answer for gh calls whose arguments start with `match` */
+interface FakeGhResponse {
+  match: string;
+  stdout?: unknown;
+  stderr?: string;
+  exitCode?: number;
+}
+
+const FAKE_GH = `#!${process.execPath}
+const { appendFileSync, readFileSync } = require('fs');
+const args = process.argv.slice(2);
+appendFileSync(process.env.FAKE_GH_LOG, JSON.stringify(args) + '\\n');
+const responses = JSON.parse(readFileSync(process.env.FAKE_GH_RESPONSES, 'utf-8'));
+const response = responses.find(r => args.join(' ').startsWith(r.match));
+if (!response) {
+  process.stderr.write('unexpected call: gh ' + args.join(' '));
+  process.exit(2);
+}
+const { stdout = '', stderr = '', exitCode = 0 } = response;
+process.stdout.write(typeof stdout === 'string' ? stdout : JSON.stringify(stdout));
+process.stderr.write(stderr);
+process.exit(exitCode);
+`;
+
+function pullRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    number: 7,
+    title: 'Add cache',
+    body: 'Adds a cache',
+    state: 'open',
+    draft: false,
+    merged: false,
+    mergeable: true,
+    mergeable_state: 'clean',
+    html_url: 'https://github.com/acme/app/pull/7',
+    head: { ref: 'spec/add-cache', sha: 'abc123' },
+    base: { ref: 'main' },
+    ...overrides,
+  };
+}
+
+describe('GhCliAdapter', () => {
+  let tempDir: string;
+  let binDir: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    binDir = join(tempDir, 'bin');
+    await mkdir(binDir);
+    await writeFile(join(binDir, 'gh'), FAKE_GH);
+    await chmod(join(binDir, 'gh'), 0o755);
+    process.env.PATH = binDir;
+    process.env.FAKE_GH_LOG = join(tempDir, 'calls.log');
+    process.env.FAKE_GH_RESPONSES = join(tempDir, 'responses.json');
+    await writeFile(process.env.FAKE_GH_LOG, '');
+    await respond([]);
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    delete process.env.FAKE_GH_LOG;
+    delete process.env.FAKE_GH_RESPONSES;
+    await removeTempDir(tempDir);
+  });
+
+  async function respond(responses: FakeGhResponse[]) {
+    await writeFile(process.env.FAKE_GH_RESPONSES!, JSON.stringify(responses));
+  }
+
+  async function calls(): Promise<string[][]> {
+    const log = await readFile(process.env.FAKE_GH_LOG!, 'utf-8');
+    return log.trim().split('\n').filter(Boolean).map(line => JSON.parse(line));
+  }
+
+  it('creates a pull request and reads it back through gh api', async () => {
+    await respond([
+      { match: 'pr create', stdout: 'https://github.com/acme/app/pull/7\n' },
+      { match: 'api repos/acme/app/pulls/7', stdout: pullRequest({ draft: true }) },
+    ]);
+
+    const pr = await createGhCliAdapter('acme', 'app').createPullRequest({
+      title: 'Add cache',
+      body: 'Adds a cache',
+      head: 'spec/add-cache',
+      base: 'main',
+      draft: true,
+    });
+
+    expect(pr).toMatchObject({ number: 7, draft: true, url: 'https://github.com/acme/app/pull/7', head: { sha: 'abc123' } });
+    expect(await calls()).toEqual([
+      ['pr', 'create', '--repo', 'acme/app', '--title', 'Add cache', '--body', 'Adds a cache',
+        '--head', 'spec/add-cache', '--base', 'main', '--draft'],
+      ['api', 'repos/acme/app/pulls/7'],
+    ]);
+  });
+
+  it('looks up the open pull request for a branch', async () => {
+    await respond([
+      { match: 'api repos/acme/app/pulls?head=acme%3Aspec%2Fadd-cache', stdout: [pullRequest()] },
+      { match: 'api repos/acme/app/pulls?head=', stdout: [] },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    expect(await adapter.getPullRequestByBranch('spec/add-cache')).toMatchObject({ number: 7 });
+    expect(await adapter.getPullRequestByBranch('spec/other')).toBeNull();
+  });
+
+  it('edits, changes draft state and merges with gh pr', async () => {
+    await respond([
+      { match: 'pr ', stdout: '' },
+      { match: 'api repos/acme/app/pulls/7', stdout: pullRequest({ base: { ref: 'spec/add-auth' } }) },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    const pr = await adapter.updatePullRequest(7, { base: 'spec/add-auth', draft: true });
+    await adapter.markPullRequestReady(7);
+    await adapter.mergePullRequest(7, 'rebase');
+    expect(await adapter.enableAutoMerge(7)).toBe(true);
+
+    expect(pr.base.ref).toBe('spec/add-auth');
+    expect((await calls()).filter(args => args[0] === 'pr')).toEqual([
+      ['pr', 'edit', '7', '--repo', 'acme/app', '--base', 'spec/add-auth'],
+      ['pr', 'ready', '7', '--repo', 'acme/app', '--undo'],
+      ['pr', 'ready', '7', '--repo', 'acme/app'],
+      ['pr', 'merge', '7', '--repo', 'acme/app', '--rebase'],
+      ['pr', 'merge', '7', '--repo', 'acme/app', '--auto', '--squash'],
+    ]);
+  });
+
+  it('reports mergeability and refused auto-merge', async () => {
+    await respond([
+      { match: 'api repos/acme/app/pulls/7', stdout: pullRequest({ mergeable: false, mergeable_state: 'dirty' }) },
+      { match: 'pr merge', stderr: 'GraphQL: Pull request Auto merge is not allowed for this repository', exitCode: 1 },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    expect(await adapter.isPullRequestMergeable(7)).toEqual({ mergeable: false, reason: 'Has merge conflicts' });
+    expect(await adapter.enableAutoMerge(7)).toBe(false);
+  });
+
+  it('reads checks and enqueues through gh api', async () => {
+    await respond([
+      { match: 'api repos/acme/app/pulls/7', stdout: { ...pullRequest(), node_id: 'PR_7' } },
+      { match: 'api repos/acme/app/commits/abc123/status', stdout: { statuses: [] } },
+      {
+        match: 'api repos/acme/app/commits/abc123/check-runs',
+        stdout: { check_runs: [{ name: 'test', status: 'completed', conclusion: 'success', html_url: 'https://ci/1' }] },
+      },
+      { match: 'api graphql', stdout: {} },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    expect(await adapter.getPullRequestChecks(7)).toEqual({
+      state: 'success',
+      checks: [{ name: 'test', state: 'success', url: 'https://ci/1' }],
+    });
+    expect(await adapter.enqueuePullRequest(7)).toBe(true);
+    expect((await calls()).at(-1)).toEqual(expect.arrayContaining(['api', 'graphql', '-f', 'pullRequestId=PR_7']));
+  });
+
+  it('publishes releases with gh release', async () => {
+    const release = { tag_name: 'v1.2.0', name: 'v1.2.0', html_url: 'https://github.com/acme/app/releases/tag/v1.2.0', assets: [] };
+    await respond([
+      { match: 'api repos/acme/app/releases/tags/v0.9.0', stderr: 'gh: Not Found (HTTP 404)', exitCode: 1 },
+      { match: 'api repos/acme/app/releases/tags/v1.2.0', stdout: release },
+      { match: 'release ', stdout: '' },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    expect(await adapter.getReleaseByTag('v0.9.0')).toBeNull();
+    expect(await adapter.createRelease({ tag: 'v1.2.0', name: 'v1.2.0', body: 'Notes', prerelease: true }))
+      .toMatchObject({ tag: 'v1.2.0', url: release.html_url });
+    await adapter.uploadReleaseAsset('v1.2.0', 'dist/app.tgz');
+
+    expect((await calls()).filter(args => args[0] === 'release')).toEqual([
+      ['release', 'create', 'v1.2.0', '--repo', 'acme/app', '--title', 'v1.2.0', '--notes', 'Notes', '--verify-tag', '--prerelease'],
+      ['release', 'upload', 'v1.2.0', 'dist/app.tgz', '--repo', 'acme/app'],
+    ]);
+  });
+
+  it('maps gh failures to SpecLifeError codes', async () => {
+    await respond([
+      { match: 'api repos/acme/app/pulls/404', stderr: 'gh: Not Found (HTTP 404)', exitCode: 1 },
+      { match: 'api', stderr: 'To get started with GitHub CLI, please run:  gh auth login', exitCode: 4 },
+    ]);
+    const adapter = createGhCliAdapter('acme', 'app');
+
+    await expect(adapter.getPullRequest(404)).rejects.toMatchObject({
+      code: 'FORGE_ERROR',
+      context: expect.objectContaining({ status: 404 }),
+    });
+    await expect(adapter.getPullRequest(1)).rejects.toMatchObject({ code: 'MISSING_TOKEN' });
+
+    process.env.PATH = join(tempDir, 'empty');
+    await expect(adapter.getPullRequest(1)).rejects.toMatchObject({ code: 'CLI_NOT_FOUND' });
+  });
+
+  it('is picked for GitHub remotes when GITHUB_TOKEN is not set', async () => {
+    const token = process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+    await respond([{ match: 'api', stdout: pullRequest() }]);
+
+    try {
+      const git = { getRemoteUrl: vi.fn().mockResolvedValue('git@github.example.com:acme/app.git') };
+      const forge = await resolveForgeAdapter({ forge: { type: 'github' } }, git);
+      await forge.getPullRequest(7);
+    } finally {
+      if (token !== undefined) process.env.GITHUB_TOKEN = token;
+    }
+
+    expect(await calls()).toEqual([['api', '--hostname', 'github.example.com', 'repos/acme/app/pulls/7']]);
+  });
+});
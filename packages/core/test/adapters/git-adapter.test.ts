@@ -9,8 +9,9 @@ import {
   removeTempDir, 
   initGitRepo,
 } from '../helpers.js';
-import { writeFile } from 'fs/promises';
+import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { execa } from 'execa';
 
 describe('GitAdapter', () => {
   let tempDir: string;
@@ -177,4 +178,139 @@ describe('GitAdapter', () => {
       expect(await adapter.branchExists('to-delete')).toBe(false);
     });
   });
+
+  describe('getHistory', () => {
+    it('returns commits newest first with metadata', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await writeFile(join(tempDir, 'a.txt'), 'a');
+      await adapter.add(['a.txt']);
+      await adapter.commit('feat: add a');
+
+      const history = await adapter.getHistory();
+
+      expect(history).toHaveLength(2);
+      expect(history[0].message).toBe('feat: add a');
+      expect(history[0].author).toBe('Test User');
+      expect(history[0].date).toBeInstanceOf(Date);
+      expect(history[1].message).toBe('Initial commit');
+    });
+
+    it('filters by path', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await mkdir(join(tempDir, 'docs'));
+      await writeFile(join(tempDir, 'docs', 'guide.md'), '# Guide');
+      await adapter.add(['docs/guide.md']);
+      await adapter.commit('docs: add guide');
+      await writeFile(join(tempDir, 'other.txt'), 'other');
+      await adapter.add(['other.txt']);
+      await adapter.commit('chore: other');
+
+      const history = await adapter.getHistory({ paths: ['docs'] });
+
+      expect(history.map(c => c.message)).toEqual(['docs: add guide']);
+    });
+
+    it('excludes commits reachable from another ref', async () => {
+      const adapter = createGitAdapter(tempDir);
+      const base = await adapter.getCurrentBranch();
+      await adapter.createBranch('spec/feature');
+      await writeFile(join(tempDir, 'feature.txt'), 'feature');
+      await adapter.add(['feature.txt']);
+      await adapter.commit('feat: feature work');
+
+      const history = await adapter.getHistory({ refs: ['spec/feature'], excludeRef: base });
+
+      expect(history.map(c => c.message)).toEqual(['feat: feature work']);
+    });
+
+    it('returns message trailers', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await writeFile(join(tempDir, 'cache.ts'), 'cache');
+      await adapter.add(['cache.ts']);
+      await adapter.commit('feat: add cache\n\nBody text.\n\nTask: 2.3\nReviewed-by: Sam');
+
+      const [commit] = await adapter.getCommitsWithTrailers();
+
+      expect(commit.message).toBe('feat: add cache');
+      expect(commit.trailers).toEqual([
+        { key: 'Task', value: '2.3' },
+        { key: 'Reviewed-by', value: 'Sam' },
+      ]);
+    });
+
+    it('returns empty for missing refs', async () => {
+      const adapter = createGitAdapter(tempDir);
+
+      expect(await adapter.getHistory({ refs: ['spec/missing'] })).toEqual([]);
+      expect(await adapter.getHistory({ excludeRef: 'missing-base' })).toEqual([]);
+    });
+  });
+
+  describe('trialMerge', () => {
+    it('reports conflicted files without touching the working tree', async () => {
+      const adapter = createGitAdapter(tempDir);
+      const base = await adapter.getCurrentBranch();
+      for (const [branch, content] of [['left', 'left\n'], ['right', 'right\n']]) {
+        await adapter.createBranch(branch, base);
+        await writeFile(join(tempDir, 'README.md'), content);
+        await adapter.add(['README.md']);
+        await adapter.commit(`docs: ${branch}`);
+      }
+      await adapter.checkout(base);
+
+      expect(await adapter.getDiffFiles(base, 'left')).toEqual(['README.md']);
+      expect(await adapter.trialMerge('left', 'right')).toEqual({ clean: false, conflicts: ['README.md'] });
+      expect(await adapter.trialMerge(base, 'left')).toEqual({ clean: true, conflicts: [] });
+      expect((await adapter.status()).unstaged).toEqual([]);
+    });
+  });
+
+  describe('tags', () => {
+    it('finds the latest tag for a prefix by version order', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await adapter.createTag('v1.0.0', 'root');
+      await adapter.createTag('@acme/a@1.2.0', 'a');
+      await adapter.createTag('@acme/a@1.10.0', 'a');
+
+      expect(await adapter.getLatestTag()).toBe('v1.0.0');
+      expect(await adapter.getLatestTag('@acme/a@')).toBe('@acme/a@1.10.0');
+      expect(await adapter.getLatestTag('@acme/b@')).toBeNull();
+    });
+
+    it('orders prerelease tags by semver precedence', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await adapter.createTag('v2.0.0-rc.2', 'rc2');
+      await adapter.createTag('v2.0.0-rc.10', 'rc10');
+      await adapter.createTag('v1.9.0', 'stable');
+
+      expect(await adapter.getLatestTag()).toBe('v2.0.0-rc.10');
+
+      await adapter.createTag('v2.0.0', 'final');
+      expect(await adapter.getLatestTag()).toBe('v2.0.0');
+    });
+  });
+
+  describe('getCommitFiles', () => {
+    it('lists files changed by a commit', async () => {
+      const adapter = createGitAdapter(tempDir);
+      await mkdir(join(tempDir, 'libs'));
+      await writeFile(join(tempDir, 'libs', 'a.ts'), 'a');
+      await writeFile(join(tempDir, 'b.ts'), 'b');
+      await adapter.add(['.']);
+      const sha = await adapter.commit('feat: files');
+
+      expect((await adapter.getCommitFiles(sha)).sort()).toEqual(['b.ts', 'libs/a.ts']);
+    });
+  });
+
+  describe('getRemoteUrl', () => {
+    it('returns the remote URL, or null when missing', async () => {
+      const adapter = createGitAdapter(tempDir);
+
+      expect(await adapter.getRemoteUrl()).toBeNull();
+
+      await execa('git', ['remote', 'add', 'origin', 'git@github.com:acme/repo.git'], { cwd: tempDir });
+      expect(await adapter.getRemoteUrl()).toBe('git@github.com:acme/repo.git');
+    });
+  });
 });
@@ -0,0 +1,160 @@
+/**
+ * Gitea adapter tests
+ *
+ * Uses a mock fetch to test pull request operations without hitting the real API.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { createGiteaAdapter } from '../../src/adapters/gitea-adapter.js';
+
+const PULLS = 'https://gitea.example.com/api/v1/repos/acme/app/pulls';
+
+function pullRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    number: 5,
+    title: 'Add cache',
+    body: 'Adds a cache',
+    state: 'open',
+    merged: false,
+    mergeable: true,
+    html_url: 'https://gitea.example.com/acme/app/pulls/5',
+    head: { ref: 'spec/add-cache', sha: 'abc123' },
+    base: { ref: 'main' },
+    ...overrides,
+  };
+}
+
+/** fetch answering each request with the next response */
+function mockFetch(...responses: Array<{ status?: number; body: unknown }>) {
+  const fetch = vi.fn();
+  for (const { status = 200, body } of responses) {
+    fetch.mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+  }
+  return fetch;
+}
+
+function createAdapter(fetch: ReturnType<typeof vi.fn>) {
+  return createGiteaAdapter('acme', 'app', { token: 'gitea-token', apiUrl: 'https://gitea.example.com/api/v1', fetch });
+}
+
+/** Method, URL and JSON body of a fetch call */
+function request(fetch: ReturnType<typeof vi.fn>, index = 0) {
+  const [url, init] = fetch.mock.calls[index];
+  return { method: init.method, url, body: init.body ? JSON.parse(init.body) : undefined };
+}
+
+describe('GiteaAdapter', () => {
+  it('creates draft pull requests with a WIP: title prefix', async () => {
+    const fetch = mockFetch({ status: 201, body: pullRequest({ title: 'WIP: Add cache' }) });
+
+    const pr = await createAdapter(fetch).createPullRequest({
+      title: 'Add cache',
+      body: 'Adds a cache',
+      head: 'spec/add-cache',
+      base: 'main',
+      draft: true,
+    });
+
+    expect(request(fetch)).toEqual({
+      method: 'POST',
+      url: PULLS,
+      body: { head: 'spec/add-cache', base: 'main', title: 'WIP: Add cache', body: 'Adds a cache' },
+    });
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'token gitea-token' });
+    expect(pr).toMatchObject({ number: 5, title: 'Add cache', draft: true, state: 'open', url: pullRequest().html_url });
+  });
+
+  it('pages through open pull requests to find a branch', async () => {
+    const others = Array.from({ length: 50 }, (_, i) => pullRequest({ number: 100 + i, head: { ref: `spec/other-${i}` } }));
+    const fetch = mockFetch({ body: others }, { body: [pullRequest()] }, { body: others }, { body: [] });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.getPullRequestByBranch('spec/add-cache')).toMatchObject({ number: 5 });
+    expect(request(fetch, 1).url).toBe(`${PULLS}?state=open&limit=50&page=2`);
+    expect(await adapter.getPullRequestByBranch('spec/missing')).toBeNull();
+  });
+
+  it('updates the title, keeping the draft prefix', async () => {
+    const fetch = mockFetch(
+      { body: pullRequest({ title: 'WIP: Add cache' }) },
+      { body: pullRequest({ title: 'WIP: Add a cache' }) }
+    );
+
+    const pr = await createAdapter(fetch).updatePullRequest(5, { title: 'Add a cache' });
+
+    expect(request(fetch, 1)).toEqual({ method: 'PATCH', url: `${PULLS}/5`, body: { title: 'WIP: Add a cache' } });
+    expect(pr).toMatchObject({ title: 'Add a cache', draft: true });
+  });
+
+  it('merges and schedules merges with the requested method', async () => {
+    const fetch = mockFetch({ body: null }, { body: null });
+    const adapter = createAdapter(fetch);
+
+    await adapter.mergePullRequest(5, 'rebase');
+    expect(await adapter.enableAutoMerge(5)).toBe(true);
+
+    expect(request(fetch, 0)).toEqual({ method: 'POST', url: `${PULLS}/5/merge`, body: { Do: 'rebase' } });
+    expect(request(fetch, 1).body).toEqual({ Do: 'squash', merge_when_checks_succeed: true });
+  });
+
+  it('reports drafts and conflicts as not mergeable', async () => {
+    const fetch = mockFetch(
+      { body: pullRequest() },
+      { body: pullRequest({ title: 'WIP: Add cache' }) },
+      { body: pullRequest({ mergeable: false }) }
+    );
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.isPullRequestMergeable(5)).toEqual({ mergeable: true });
+    expect(await adapter.isPullRequestMergeable(5)).toEqual({ mergeable: false, reason: 'Pull request is a draft' });
+    expect(await adapter.isPullRequestMergeable(5)).toEqual({ mergeable: false, reason: 'Has merge conflicts' });
+  });
+
+  it('reads checks from the combined commit status and has no merge queue', async () => {
+    const fetch = mockFetch({ body: pullRequest() }, {
+      body: {
+        state: 'failure',
+        statuses: [
+          { context: 'ci/build', status: 'failure', target_url: 'https://ci.example.com/1' },
+          { context: 'ci/lint', status: 'warning', target_url: '' },
+        ],
+      },
+    });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.getPullRequestChecks(5)).toEqual({
+      state: 'failure',
+      checks: [
+        { name: 'ci/build', state: 'failure', url: 'https://ci.example.com/1' },
+        { name: 'ci/lint', state: 'success', url: undefined },
+      ],
+    });
+    expect(request(fetch, 1).url).toBe('https://gitea.example.com/api/v1/repos/acme/app/commits/abc123/status');
+    expect(await adapter.enqueuePullRequest(5)).toBe(false);
+  });
+
+  it('publishes releases and uploads attachments by release id', async () => {
+    const release = {
+      id: 3,
+      tag_name: 'v1.2.0',
+      name: 'v1.2.0',
+      html_url: 'https://gitea.example.com/acme/app/releases/tag/v1.2.0',
+      prerelease: true,
+      assets: [{ name: 'app.tgz' }],
+    };
+    const fetch = mockFetch({ status: 201, body: release }, { body: release }, { status: 201, body: {} });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.createRelease({ tag: 'v1.2.0', name: 'v1.2.0', body: 'Notes', prerelease: true })).toMatchObject({
+      prerelease: true,
+      assets: ['app.tgz'],
+    });
+    await adapter.uploadReleaseAsset('v1.2.0', fileURLToPath(import.meta.url));
+
+    expect(request(fetch, 0).body).toEqual({ tag_name: 'v1.2.0', name: 'v1.2.0', body: 'Notes', prerelease: true });
+    expect(request(fetch, 1).url).toBe('https://gitea.example.com/api/v1/repos/acme/app/releases/tags/v1.2.0');
+    expect(fetch.mock.calls[2][0]).toBe('https://gitea.example.com/api/v1/repos/acme/app/releases/3/assets?name=gitea-adapter.test.ts');
+    expect(fetch.mock.calls[2][1].body).toBeInstanceOf(FormData);
+  });
+});
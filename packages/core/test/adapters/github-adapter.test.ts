@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
 
 // Mock Octokit before importing the adapter
 vi.mock('@octokit/rest', () => {
@@ -21,7 +22,7 @@ vi.mock('@octokit/rest', () => {
   };
 });
 
-import { createGitHubAdapter } from '../../src/adapters/github-adapter.js';
+import { createGitHubAdapter, createGitHubForgeAdapter } from '../../src/adapters/github-adapter.js';
 import { Octokit } from '@octokit/rest';
 
 describe('GitHubAdapter', () => {
@@ -32,7 +33,16 @@ describe('GitHubAdapter', () => {
       get: vi.fn(),
       merge: vi.fn(),
     },
+    repos: {
+      getCombinedStatusForRef: vi.fn(),
+      getReleaseByTag: vi.fn(),
+      createRelease: vi.fn(),
+    },
+    checks: {
+      listForRef: vi.fn(),
+    },
     graphql: vi.fn(),
+    request: vi.fn(),
   };
 
   beforeEach(() => {
@@ -63,6 +73,14 @@ describe('GitHubAdapter', () => {
     });
   });
 
+  describe('createGitHubForgeAdapter', () => {
+    it('points Octokit at a GitHub Enterprise API', () => {
+      createGitHubForgeAdapter('test', 'repo', { token: 'ghe-token', apiUrl: 'https://ghe.example.com/api/v3' });
+
+      expect(Octokit).toHaveBeenCalledWith({ auth: 'ghe-token', baseUrl: 'https://ghe.example.com/api/v3' });
+    });
+  });
+
   describe('createPullRequest', () => {
     it('creates a pull request', async () => {
       mockOctokit.pulls.create.mockResolvedValue({
@@ -354,7 +372,7 @@ describe('GitHubAdapter', () => {
       });
 
       const adapter = createGitHubAdapter('test', 'repo');
-      const result = await adapter.enableAutoMerge(1, 'SQUASH');
+      const result = await adapter.enableAutoMerge(1, 'squash');
 
       expect(result).toBe(true);
       expect(mockOctokit.graphql).toHaveBeenCalledWith(
@@ -378,7 +396,102 @@ describe('GitHubAdapter', () => {
       expect(result).toBe(false);
     });
   });
-});
 
+  describe('getPullRequestChecks', () => {
+    it('combines commit statuses and check runs on the head commit', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({ data: { head: { sha: 'abc123' } } });
+      mockOctokit.repos.getCombinedStatusForRef.mockResolvedValue({
+        data: { statuses: [{ context: 'ci/jenkins', state: 'error', target_url: 'https://ci.test/1' }] },
+      });
+      mockOctokit.checks.listForRef.mockResolvedValue({
+        data: {
+          check_runs: [
+            { name: 'lint', status: 'completed', conclusion: 'skipped', html_url: 'https://github.com/runs/1' },
+            { name: 'test', status: 'in_progress', conclusion: null, html_url: 'https://github.com/runs/2' },
+          ],
+        },
+      });
+
+      const adapter = createGitHubAdapter('test', 'repo');
+      const result = await adapter.getPullRequestChecks(1);
+
+      expect(mockOctokit.checks.listForRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'abc123' }));
+      expect(result).toEqual({
+        state: 'failure',
+        checks: [
+          { name: 'ci/jenkins', state: 'failure', url: 'https://ci.test/1' },
+          { name: 'lint', state: 'success', url: 'https://github.com/runs/1' },
+          { name: 'test', state: 'pending', url: 'https://github.com/runs/2' },
+        ],
+      });
+    });
+  });
+
+  describe('enqueuePullRequest', () => {
+    it('adds the PR to the merge queue', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({ data: { node_id: 'PR_321' } });
+      mockOctokit.graphql.mockResolvedValue({});
+
+      const adapter = createGitHubAdapter('test', 'repo');
+
+      expect(await adapter.enqueuePullRequest(1)).toBe(true);
+      expect(mockOctokit.graphql).toHaveBeenCalledWith(
+        expect.stringContaining('enqueuePullRequest'),
+        { pullRequestId: 'PR_321' }
+      );
+    });
+
+    it('returns false without a merge queue', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({ data: { node_id: 'PR_321' } });
+      mockOctokit.graphql.mockRejectedValue(new Error('Merge queue is not enabled'));
+
+      const adapter = createGitHubAdapter('test', 'repo');
+
+      expect(await adapter.enqueuePullRequest(1)).toBe(false);
+    });
+  });
+
+  describe('releases', () => {
+    const release = {
+      tag_name: 'v1.2.0',
+      name: 'v1.2.0',
+      html_url: 'https://github.com/test/repo/releases/tag/v1.2.0',
+      prerelease: false,
+      upload_url: 'https://uploads.github.com/repos/test/repo/releases/9/assets{?name,label}',
+      assets: [{ name: 'app.tgz' }],
+    };
+
+    it('returns null for a tag without a release', async () => {
+      mockOctokit.repos.getReleaseByTag.mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
+
+      const adapter = createGitHubAdapter('test', 'repo');
+
+      expect(await adapter.getReleaseByTag('v1.2.0')).toBeNull();
+    });
 
+    it('creates a release and uploads assets to its upload URL', async () => {
+      mockOctokit.repos.createRelease.mockResolvedValue({ data: { ...release, assets: [] } });
+      mockOctokit.repos.getReleaseByTag.mockResolvedValue({ data: release });
+      mockOctokit.request.mockResolvedValue({});
 
+      const adapter = createGitHubAdapter('test', 'repo');
+      const created = await adapter.createRelease({ tag: 'v1.2.0', name: 'v1.2.0', body: 'Notes', prerelease: true });
+      await adapter.uploadReleaseAsset('v1.2.0', fileURLToPath(import.meta.url));
+
+      expect(mockOctokit.repos.createRelease).toHaveBeenCalledWith({
+        owner: 'test',
+        repo: 'repo',
+        tag_name: 'v1.2.0',
+        name: 'v1.2.0',
+        body: 'Notes',
+        prerelease: true,
+      });
+      expect(created).toEqual({ tag: 'v1.2.0', name: 'v1.2.0', url: release.html_url, prerelease: false, assets: [] });
+      expect(mockOctokit.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'POST',
+        url: release.upload_url,
+        name: 'github-adapter.test.ts',
+      }));
+    });
+  });
+});
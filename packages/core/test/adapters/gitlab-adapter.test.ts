@@ -0,0 +1,226 @@
+/**
+ * GitLab adapter tests
+ *
+ * Uses a mock fetch to test merge request operations without hitting the real API.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { createGitLabAdapter } from '../../src/adapters/gitlab-adapter.js';
+
+const PROJECT = 'https://gitlab.example.com/api/v4/projects/acme%2Fplatform%2Fapp';
+
+function mergeRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    iid: 12,
+    title: 'Add cache',
+    description: 'Adds a cache',
+    state: 'opened',
+    draft: false,
+    web_url: 'https://gitlab.example.com/acme/platform/app/-/merge_requests/12',
+    source_branch: 'spec/add-cache',
+    target_branch: 'main',
+    sha: 'abc123',
+    detailed_merge_status: 'mergeable',
+    ...overrides,
+  };
+}
+
+/** fetch answering each request with the next response */
+function mockFetch(...responses: Array<{ status?: number; body: unknown }>) {
+  const fetch = vi.fn();
+  for (const { status = 200, body } of responses) {
+    fetch.mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+  }
+  return fetch;
+}
+
+function createAdapter(fetch: ReturnType<typeof vi.fn>) {
+  return createGitLabAdapter('acme/platform', 'app', {
+    token: 'gitlab-token',
+    apiUrl: 'https://gitlab.example.com/api/v4',
+    fetch,
+  });
+}
+
+/** Method, URL and JSON body of a fetch call */
+function request(fetch: ReturnType<typeof vi.fn>, index = 0) {
+  const [url, init] = fetch.mock.calls[index];
+  return { method: init.method, url, body: init.body ? JSON.parse(init.body) : undefined };
+}
+
+describe('GitLabAdapter', () => {
+  it('creates draft merge requests with a Draft: title prefix', async () => {
+    const fetch = mockFetch({ status: 201, body: mergeRequest({ title: 'Draft: Add cache', draft: true }) });
+
+    const pr = await createAdapter(fetch).createPullRequest({
+      title: 'Add cache',
+      body: 'Adds a cache',
+      head: 'spec/add-cache',
+      base: 'main',
+      draft: true,
+    });
+
+    expect(request(fetch)).toEqual({
+      method: 'POST',
+      url: `${PROJECT}/merge_requests`,
+      body: { source_branch: 'spec/add-cache', target_branch: 'main', title: 'Draft: Add cache', description: 'Adds a cache' },
+    });
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer gitlab-token' });
+    expect(pr).toMatchObject({
+      number: 12,
+      title: 'Add cache',
+      body: 'Adds a cache',
+      state: 'open',
+      draft: true,
+      url: 'https://gitlab.example.com/acme/platform/app/-/merge_requests/12',
+      head: { ref: 'spec/add-cache', sha: 'abc123' },
+      base: { ref: 'main' },
+      mergeable: true,
+    });
+  });
+
+  it('finds the open merge request for a branch', async () => {
+    const fetch = mockFetch({ body: [mergeRequest()] }, { body: [] });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.getPullRequestByBranch('spec/add-cache')).toMatchObject({ number: 12 });
+    expect(await adapter.getPullRequestByBranch('spec/other')).toBeNull();
+    expect(request(fetch).url).toBe(`${PROJECT}/merge_requests?state=opened&source_branch=spec%2Fadd-cache`);
+  });
+
+  it('marks a merge request ready by dropping the draft prefix', async () => {
+    const fetch = mockFetch(
+      { body: mergeRequest({ title: 'Draft: Add cache', draft: true }) },
+      { body: mergeRequest() }
+    );
+
+    const pr = await createAdapter(fetch).markPullRequestReady(12);
+
+    expect(request(fetch, 1)).toEqual({
+      method: 'PUT',
+      url: `${PROJECT}/merge_requests/12`,
+      body: { title: 'Add cache' },
+    });
+    expect(pr.draft).toBe(false);
+  });
+
+  it('retargets without touching the title', async () => {
+    const fetch = mockFetch({ body: mergeRequest({ target_branch: 'spec/add-auth' }) });
+
+    await createAdapter(fetch).updatePullRequest(12, { base: 'spec/add-auth' });
+
+    expect(request(fetch).body).toEqual({ target_branch: 'spec/add-auth' });
+  });
+
+  it('merges with squash and schedules auto-merge on the pipeline', async () => {
+    const fetch = mockFetch({ body: mergeRequest({ state: 'merged' }) }, { body: mergeRequest() });
+    const adapter = createAdapter(fetch);
+
+    await adapter.mergePullRequest(12);
+    expect(await adapter.enableAutoMerge(12, 'merge')).toBe(true);
+
+    expect(request(fetch, 0)).toEqual({ method: 'PUT', url: `${PROJECT}/merge_requests/12/merge`, body: { squash: true } });
+    expect(request(fetch, 1).body).toEqual({ squash: false, merge_when_pipeline_succeeds: true });
+  });
+
+  it('returns false when auto-merge is refused', async () => {
+    const fetch = mockFetch({ status: 405, body: { message: 'Method Not Allowed' } });
+
+    expect(await createAdapter(fetch).enableAutoMerge(12)).toBe(false);
+  });
+
+  it('reports mergeability from detailed_merge_status', async () => {
+    const fetch = mockFetch(
+      { body: mergeRequest() },
+      { body: mergeRequest({ detailed_merge_status: 'conflict' }) },
+      { body: mergeRequest({ detailed_merge_status: 'checking' }) }
+    );
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.isPullRequestMergeable(12)).toEqual({ mergeable: true });
+    expect(await adapter.isPullRequestMergeable(12)).toEqual({ mergeable: false, reason: 'Has merge conflicts' });
+    expect(await adapter.isPullRequestMergeable(12)).toEqual({
+      mergeable: false,
+      reason: 'Mergeability status is being computed',
+    });
+  });
+
+  it('surfaces API errors as FORGE_ERROR', async () => {
+    const fetch = mockFetch({ status: 404, body: { message: '404 Not found' } });
+
+    await expect(createAdapter(fetch).getPullRequest(99)).rejects.toMatchObject({
+      code: 'FORGE_ERROR',
+      message: expect.stringContaining('404 Not found'),
+    });
+  });
+
+  it('reads checks from the head commit statuses', async () => {
+    const fetch = mockFetch({ body: mergeRequest() }, {
+      body: [
+        { name: 'build', status: 'success', target_url: 'https://gitlab.example.com/jobs/1' },
+        { name: 'flaky', status: 'failed', allow_failure: true, target_url: null },
+        { name: 'test', status: 'running', target_url: 'https://gitlab.example.com/jobs/3' },
+      ],
+    });
+
+    const checks = await createAdapter(fetch).getPullRequestChecks(12);
+
+    expect(request(fetch, 1).url).toBe(`${PROJECT}/repository/commits/abc123/statuses?per_page=100`);
+    expect(checks).toEqual({
+      state: 'pending',
+      checks: [
+        { name: 'build', state: 'success', url: 'https://gitlab.example.com/jobs/1' },
+        { name: 'flaky', state: 'success', url: undefined },
+        { name: 'test', state: 'pending', url: 'https://gitlab.example.com/jobs/3' },
+      ],
+    });
+  });
+
+  it('adds merge requests to the merge train', async () => {
+    const fetch = mockFetch({ status: 201, body: [] }, { status: 403, body: { message: 'Forbidden' } });
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.enqueuePullRequest(12)).toBe(true);
+    expect(await adapter.enqueuePullRequest(12)).toBe(false);
+    expect(request(fetch)).toEqual({
+      method: 'POST',
+      url: `${PROJECT}/merge_trains/merge_requests/12`,
+      body: { squash: true, when_pipeline_succeeds: true },
+    });
+  });
+
+  it('reads, creates and links assets to releases', async () => {
+    const release = { tag_name: 'v1.2.0', name: 'v1.2.0', _links: { self: 'https://gitlab.example.com/acme/platform/app/-/releases/v1.2.0' } };
+    const fetch = mockFetch(
+      { status: 404, body: { message: '404 Not Found' } },
+      { status: 201, body: release },
+      { status: 201, body: { full_path: '/-/project/7/uploads/abc/gitlab-adapter.test.ts' } },
+      { status: 201, body: {} }
+    );
+    const adapter = createAdapter(fetch);
+
+    expect(await adapter.getReleaseByTag('v1.2.0')).toBeNull();
+    expect(await adapter.createRelease({ tag: 'v1.2.0', name: 'v1.2.0', body: 'Notes' })).toEqual({
+      tag: 'v1.2.0',
+      name: 'v1.2.0',
+      url: release._links.self,
+      prerelease: false,
+      assets: [],
+    });
+    await adapter.uploadReleaseAsset('v1.2.0', fileURLToPath(import.meta.url));
+
+    expect(request(fetch, 1)).toEqual({
+      method: 'POST',
+      url: `${PROJECT}/releases`,
+      body: { tag_name: 'v1.2.0', name: 'v1.2.0', description: 'Notes' },
+    });
+    expect(fetch.mock.calls[2][0]).toBe(`${PROJECT}/uploads`);
+    expect(fetch.mock.calls[2][1].body).toBeInstanceOf(FormData);
+    expect(request(fetch, 3)).toEqual({
+      method: 'POST',
+      url: `${PROJECT}/releases/v1.2.0/assets/links`,
+      body: { name: 'gitlab-adapter.test.ts', url: 'https://gitlab.example.com/-/project/7/uploads/abc/gitlab-adapter.test.ts' },
+    });
+  });
+});
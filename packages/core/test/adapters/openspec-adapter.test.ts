@@ -4,12 +4,16 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import { setTaskCompleted } from '../../src/utils/tasks-document.js';
+import { createBranchNaming } from '../../src/utils/branch-naming.js';
 import { 
   createTempDir, 
   removeTempDir, 
   createOpenSpecStructure,
   createMockChange,
 } from '../helpers.js';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
 
 describe('OpenSpecAdapter', () => {
   let tempDir: string;
@@ -64,6 +68,17 @@ describe('OpenSpecAdapter', () => {
       expect(change.tasks[1].completed).toBe(true);
     });
 
+    it('leaves the branch unset when the pattern needs an unknown user', async () => {
+      await createMockChange(tempDir, 'test-change');
+      const branchNaming = createBranchNaming({ pattern: '{user}/{changeId}' });
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec', branchNaming });
+
+      const change = await adapter.readChange('test-change');
+
+      expect(change.id).toBe('test-change');
+      expect(change.branch).toBeUndefined();
+    });
+
     it('throws when change does not exist', async () => {
       const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
 
@@ -129,5 +144,137 @@ describe('OpenSpecAdapter', () => {
 
       await expect(adapter.archiveChange('nonexistent')).rejects.toThrow();
     });
+
+    it('applies spec deltas to the canonical specs', async () => {
+      await createMockChange(tempDir, 'add-sync');
+      const deltaDir = join(tempDir, 'openspec', 'changes', 'add-sync', 'specs', 'cli');
+      await mkdir(deltaDir, { recursive: true });
+      await writeFile(join(deltaDir, 'spec.md'), '## ADDED Requirements\n\n### Requirement: Sync\nThe CLI SHALL sync.\n\n#### Scenario: S\n- **WHEN** x\n');
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      const result = await adapter.archiveChange('add-sync');
+
+      expect(result.archivePath).toMatch(/archive\/\d{4}-\d{2}-\d{2}-add-sync$/);
+      expect(result.specUpdates).toEqual([{
+        capability: 'cli',
+        path: 'openspec/specs/cli/spec.md',
+        created: true,
+        applied: [{ operation: 'ADDED', requirement: 'Sync' }],
+      }]);
+      expect(await readFile(join(tempDir, 'openspec', 'specs', 'cli', 'spec.md'), 'utf-8')).toContain('### Requirement: Sync');
+    });
+
+    it('refuses to archive when spec deltas conflict', async () => {
+      await createMockChange(tempDir, 'drop-sync');
+      const deltaDir = join(tempDir, 'openspec', 'changes', 'drop-sync', 'specs', 'cli');
+      await mkdir(deltaDir, { recursive: true });
+      await writeFile(join(deltaDir, 'spec.md'), '## REMOVED Requirements\n\n### Requirement: Sync\n');
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      await expect(adapter.archiveChange('drop-sync')).rejects.toMatchObject({ code: 'SPEC_CONFLICT' });
+      expect(await adapter.changeExists('drop-sync')).toBe(true);
+
+      const skipped = await adapter.archiveChange('drop-sync', { skipSpecs: true });
+      expect(skipped.specUpdates).toEqual([]);
+    });
+  });
+
+  describe('updateTasks', () => {
+    it('edits checkboxes in place, keeping headers, notes and subtasks', async () => {
+      const tasks = '# Tasks\n\n## 1. Setup\nKeep this note.\n- [ ] 1.1 Install\n  - [ ] 1.1.1 Pin versions\n\n## 2. Build\n- [ ] 2.1 Compile\n';
+      await createMockChange(tempDir, 'edit-tasks', { tasks });
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      const change = await adapter.readChange('edit-tasks');
+      await adapter.updateTasks('edit-tasks', change.tasks.map(t => ({ ...t, completed: t.id === '1.1' })));
+
+      const content = await readFile(join(tempDir, 'openspec', 'changes', 'edit-tasks', 'tasks.md'), 'utf-8');
+      expect(content).toBe(tasks.replace('- [ ] 1.1 Install', '- [x] 1.1 Install'));
+    });
+  });
+
+  describe('editTasks', () => {
+    it('applies a document edit to tasks.md', async () => {
+      await createMockChange(tempDir, 'tick-tasks', { tasks: '## 1. Setup\n- [ ] 1.1 Install\n' });
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      const updated = await adapter.editTasks('tick-tasks', doc => setTaskCompleted(doc, '1.1', true));
+
+      expect(updated.tasks[0].completed).toBe(true);
+      expect((await adapter.readTasks('tick-tasks')).tasks[0].completed).toBe(true);
+    });
+
+    it('edits the tasks.md of an archived change', async () => {
+      await createMockChange(tempDir, 'shipped', { tasks: '## 1. Setup\n- [ ] 1.1 Install\n' });
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+      await adapter.archiveChange('shipped');
+
+      await adapter.editTasks('shipped', doc => setTaskCompleted(doc, '1.1', true));
+
+      const archived = await adapter.findArchivedChange('shipped');
+      expect(await readFile(join(archived!, 'tasks.md'), 'utf-8')).toContain('- [x] 1.1 Install');
+    });
+
+    it('throws when the change does not exist', async () => {
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      await expect(adapter.editTasks('missing', doc => doc)).rejects.toMatchObject({ code: 'CHANGE_NOT_FOUND' });
+    });
+  });
+
+  describe('listArchivedChanges', () => {
+    it('returns archived changes with their proposals, oldest first', async () => {
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+      expect(await adapter.listArchivedChanges()).toEqual([]);
+
+      await createMockChange(tempDir, 'second', { proposal: '## Why\nSecond reason\n' });
+      await createMockChange(tempDir, 'first', { proposal: '## Why\nFirst reason\n' });
+      const archive = join(tempDir, 'openspec', 'changes', 'archive');
+      await mkdir(archive, { recursive: true });
+      await rename(join(tempDir, 'openspec', 'changes', 'second'), join(archive, '2026-02-01-second'));
+      await rename(join(tempDir, 'openspec', 'changes', 'first'), join(archive, '2026-01-15-first'));
+
+      const archived = await adapter.listArchivedChanges();
+
+      expect(archived.map(c => [c.id, c.archivedOn])).toEqual([
+        ['first', '2026-01-15'],
+        ['second', '2026-02-01'],
+      ]);
+      expect(archived[0].proposal.why).toBe('First reason');
+      expect(archived[0].path).toBe(join(archive, '2026-01-15-first'));
+    });
+  });
+
+  describe('metadata', () => {
+    it('returns null when no metadata is recorded', async () => {
+      await createMockChange(tempDir, 'fresh-change');
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      expect(await adapter.readMetadata('fresh-change')).toBeNull();
+    });
+
+    it('round-trips metadata and follows the change into the archive', async () => {
+      await createMockChange(tempDir, 'tracked-change');
+      const adapter = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+      const at = new Date('2026-01-05T10:00:00Z');
+
+      await adapter.writeMetadata('tracked-change', {
+        state: 'implementing',
+        transitions: [
+          { from: null, to: 'created', at },
+          { from: 'created', to: 'implementing', at },
+        ],
+      });
+      await adapter.archiveChange('tracked-change');
+
+      expect(await adapter.findArchivedChange('tracked-change')).toMatch(/archive\/\d{4}-\d{2}-\d{2}-tracked-change$/);
+      const metadata = await adapter.readMetadata('tracked-change');
+      expect(metadata!.state).toBe('implementing');
+      expect(metadata!.transitions[1].at).toEqual(at);
+
+      const change = await adapter.readChange('tracked-change');
+      expect(change.state).toBe('implementing');
+      expect(change.createdAt).toEqual(at);
+    });
   });
 });
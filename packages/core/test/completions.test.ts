@@ -40,6 +40,8 @@ describe('Shell Completions', () => {
       expect(names).toContain('validate');
       expect(names).toContain('update');
       expect(names).toContain('worktree');
+      expect(names).toContain('publish');
+      expect(names).toContain('pr');
     });
     
     it('includes subcommands for worktree', () => {
@@ -98,6 +100,12 @@ describe('BashGenerator', () => {
       expect(script).toContain('_speclife_complete_change_id');
     });
     
+    it('completes task IDs for task done and undo', () => {
+      const script = generateCompletions('bash');
+      expect(script).toContain('_speclife_complete_task_id() {');
+      expect(script).toMatch(/done\)[\s\S]*?_speclife_complete_task_id/);
+    });
+    
     it('includes config-key completion function', () => {
       const script = generateCompletions('bash');
       expect(script).toContain('_speclife_complete_config_key');
@@ -158,6 +166,12 @@ describe('ZshGenerator', () => {
       expect(script).toContain('Show change status');
     });
     
+    it('completes task IDs', () => {
+      const script = generateCompletions('zsh');
+      expect(script).toContain('_speclife_task_ids() {');
+      expect(script).toContain("'1:task-id:_speclife_task_ids'");
+    });
+    
     it('uses _describe for command completion', () => {
       const script = generateCompletions('zsh');
       expect(script).toContain('_describe');
@@ -193,6 +207,12 @@ describe('FishGenerator', () => {
       expect(script).toContain('function __speclife_change_ids');
     });
     
+    it('completes task IDs', () => {
+      const script = generateCompletions('fish');
+      expect(script).toContain('function __speclife_task_ids');
+      expect(script).toContain('__fish_seen_subcommand_from done" -a "(__speclife_task_ids)"');
+    });
+    
     it('disables file completion by default', () => {
       const script = generateCompletions('fish');
       expect(script).toContain('complete -c speclife -f');
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../src/config.js';
+import { loadConfig, resolveBaseBranch } from '../src/config.js';
 import { 
   createTempDir, 
   removeTempDir, 
@@ -60,6 +60,27 @@ describe('loadConfig', () => {
     expect(config.github.baseBranch).toBe('main');
   });
 
+  it('takes the base branch from the deprecated github.baseBranch when git.baseBranch is not set', async () => {
+    await createSpecLifeConfig(tempDir, {
+      github: { baseBranch: 'develop' },
+    });
+
+    const config = await loadConfig(tempDir);
+
+    expect(resolveBaseBranch(config)).toBe('develop');
+  });
+
+  it('prefers git.baseBranch over github.baseBranch', async () => {
+    await createSpecLifeConfig(tempDir, {
+      git: { baseBranch: 'trunk' },
+      github: { baseBranch: 'develop' },
+    });
+
+    const config = await loadConfig(tempDir);
+
+    expect(resolveBaseBranch(config)).toBe('trunk');
+  });
+
   it('validates aiProvider enum', async () => {
     await createSpecLifeConfig(tempDir, {
       aiProvider: 'invalid-provider',
@@ -88,6 +109,30 @@ describe('loadConfig', () => {
     await expect(loadConfig(tempDir)).rejects.toThrow('Invalid worktree.bootstrap.strategy');
   });
 
+  it('validates release.versioning enum', async () => {
+    await createSpecLifeConfig(tempDir, {
+      release: { versioning: 'lockstep' },
+    });
+
+    await expect(loadConfig(tempDir)).rejects.toThrow('Invalid release.versioning');
+  });
+
+  it('validates release.notes sources', async () => {
+    await createSpecLifeConfig(tempDir, {
+      release: { notes: ['changes', 'issues'] },
+    });
+
+    await expect(loadConfig(tempDir)).rejects.toThrow('Invalid release.notes');
+  });
+
+  it('validates git.branchPattern', async () => {
+    await createSpecLifeConfig(tempDir, {
+      git: { branchPattern: '{prefix}feature' },
+    });
+
+    await expect(loadConfig(tempDir)).rejects.toThrow('must contain {changeId}');
+  });
+
   it('applies environment variable overrides', async () => {
     await createSpecLifeConfig(tempDir, {});
 
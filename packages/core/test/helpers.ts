@@ -113,26 +113,53 @@ export function createMockGitAdapter(overrides: Partial<MockGitAdapter> = {}): M
     push: vi.fn().mockResolvedValue(undefined),
     getCurrentBranch: vi.fn().mockResolvedValue('main'),
     branchExists: vi.fn().mockResolvedValue(false),
+    listBranches: vi.fn().mockResolvedValue([]),
+    showFile: vi.fn().mockResolvedValue(null),
     status: vi.fn().mockResolvedValue({ current: 'main', staged: [], unstaged: [], untracked: [] }),
     pull: vi.fn().mockResolvedValue(undefined),
     deleteBranch: vi.fn().mockResolvedValue(undefined),
+    resetBranch: vi.fn().mockResolvedValue(undefined),
     createWorktree: vi.fn().mockResolvedValue(undefined),
+    addWorktree: vi.fn().mockResolvedValue(undefined),
     removeWorktree: vi.fn().mockResolvedValue(undefined),
     listWorktrees: vi.fn().mockResolvedValue([]),
     getMainWorktreePath: vi.fn().mockResolvedValue('/mock/main/repo'),
+    getUserName: vi.fn().mockResolvedValue('Test User'),
     // Tag operations for releases
     getLatestTag: vi.fn().mockResolvedValue(null),
     getCommitsSince: vi.fn().mockResolvedValue([]),
+    getCommitFiles: vi.fn().mockResolvedValue([]),
+    getRemoteUrl: vi.fn().mockResolvedValue(null),
     createTag: vi.fn().mockResolvedValue(undefined),
     tagExists: vi.fn().mockResolvedValue(false),
     // Diff operation
     diff: vi.fn().mockResolvedValue(''),
+    forcePush: vi.fn().mockResolvedValue(undefined),
+    rebaseOnto: vi.fn().mockResolvedValue(true),
+    resolveRef: vi.fn().mockResolvedValue('abc123'),
+    fetch: vi.fn().mockResolvedValue(undefined),
+    getAheadBehind: vi.fn().mockResolvedValue({ ahead: 0, behind: 0 }),
+    rebase: vi.fn().mockResolvedValue([]),
+    merge: vi.fn().mockResolvedValue([]),
+    getOperationInProgress: vi.fn().mockResolvedValue(null),
+    continueOperation: vi.fn().mockResolvedValue([]),
+    abortOperation: vi.fn().mockResolvedValue(undefined),
+    getConflictedFiles: vi.fn().mockResolvedValue([]),
+    stash: vi.fn().mockResolvedValue(false),
+    stashPop: vi.fn().mockResolvedValue(undefined),
+    getDiffFiles: vi.fn().mockResolvedValue([]),
+    trialMerge: vi.fn().mockResolvedValue({ clean: true, conflicts: [] }),
+    // History operations
+    getHistory: vi.fn().mockResolvedValue([]),
+    getCommitsWithTrailers: vi.fn().mockResolvedValue([]),
     ...overrides,
   };
 }
 
 // Import vi for mocking
 import { vi } from 'vitest';
+import type { OpenSpecAdapter } from '../src/adapters/openspec-adapter.js';
+import { parseTasksDocument } from '../src/utils/tasks-document.js';
 
 export interface MockGitAdapter {
   createBranch: ReturnType<typeof vi.fn>;
@@ -142,20 +169,45 @@ export interface MockGitAdapter {
   push: ReturnType<typeof vi.fn>;
   getCurrentBranch: ReturnType<typeof vi.fn>;
   branchExists: ReturnType<typeof vi.fn>;
+  listBranches: ReturnType<typeof vi.fn>;
+  showFile: ReturnType<typeof vi.fn>;
   status: ReturnType<typeof vi.fn>;
   pull: ReturnType<typeof vi.fn>;
   deleteBranch: ReturnType<typeof vi.fn>;
+  resetBranch: ReturnType<typeof vi.fn>;
   createWorktree: ReturnType<typeof vi.fn>;
+  addWorktree: ReturnType<typeof vi.fn>;
   removeWorktree: ReturnType<typeof vi.fn>;
   listWorktrees: ReturnType<typeof vi.fn>;
   getMainWorktreePath: ReturnType<typeof vi.fn>;
+  getUserName: ReturnType<typeof vi.fn>;
   // Tag operations for releases
   getLatestTag: ReturnType<typeof vi.fn>;
   getCommitsSince: ReturnType<typeof vi.fn>;
+  getCommitFiles: ReturnType<typeof vi.fn>;
+  getRemoteUrl: ReturnType<typeof vi.fn>;
   createTag: ReturnType<typeof vi.fn>;
   tagExists: ReturnType<typeof vi.fn>;
   // Diff operation
   diff: ReturnType<typeof vi.fn>;
+  forcePush: ReturnType<typeof vi.fn>;
+  rebaseOnto: ReturnType<typeof vi.fn>;
+  resolveRef: ReturnType<typeof vi.fn>;
+  fetch: ReturnType<typeof vi.fn>;
+  getAheadBehind: ReturnType<typeof vi.fn>;
+  rebase: ReturnType<typeof vi.fn>;
+  merge: ReturnType<typeof vi.fn>;
+  getOperationInProgress: ReturnType<typeof vi.fn>;
+  continueOperation: ReturnType<typeof vi.fn>;
+  abortOperation: ReturnType<typeof vi.fn>;
+  getConflictedFiles: ReturnType<typeof vi.fn>;
+  stash: ReturnType<typeof vi.fn>;
+  stashPop: ReturnType<typeof vi.fn>;
+  getDiffFiles: ReturnType<typeof vi.fn>;
+  trialMerge: ReturnType<typeof vi.fn>;
+  // History operations
+  getHistory: ReturnType<typeof vi.fn>;
+  getCommitsWithTrailers: ReturnType<typeof vi.fn>;
 }
 
 /**
@@ -195,6 +247,17 @@ export function createMockGitHubAdapter(overrides: Partial<MockGitHubAdapter> =
       mergeable: true,
     }),
     enableAutoMerge: vi.fn().mockResolvedValue(true),
+    getPullRequestChecks: vi.fn().mockResolvedValue({ state: 'success', checks: [] }),
+    enqueuePullRequest: vi.fn().mockResolvedValue(true),
+    getReleaseByTag: vi.fn().mockResolvedValue(null),
+    createRelease: vi.fn().mockImplementation(async ({ tag, name, prerelease = false }) => ({
+      tag,
+      name,
+      url: `https://github.com/owner/repo/releases/tag/${tag}`,
+      prerelease,
+      assets: [],
+    })),
+    uploadReleaseAsset: vi.fn().mockResolvedValue(undefined),
     ...overrides,
   };
 }
@@ -208,5 +271,43 @@ export interface MockGitHubAdapter {
   updatePullRequest: ReturnType<typeof vi.fn>;
   markPullRequestReady: ReturnType<typeof vi.fn>;
   enableAutoMerge: ReturnType<typeof vi.fn>;
+  getPullRequestChecks: ReturnType<typeof vi.fn>;
+  enqueuePullRequest: ReturnType<typeof vi.fn>;
+  getReleaseByTag: ReturnType<typeof vi.fn>;
+  createRelease: ReturnType<typeof vi.fn>;
+  uploadReleaseAsset: ReturnType<typeof vi.fn>;
 }
 
+/**
+ * Mock OpenSpecAdapter factory
+ */
+export function createMockOpenSpecAdapter(overrides: Partial<MockOpenSpecAdapter> = {}): MockOpenSpecAdapter {
+  return {
+    scaffoldChange: vi.fn().mockResolvedValue({ proposalPath: '', tasksPath: '' }),
+    readChange: vi.fn().mockResolvedValue({
+      proposal: {
+        why: 'Add a new feature for users',
+        whatChanges: ['Update API', 'Add tests'],
+      },
+    }),
+    readProposal: vi.fn().mockResolvedValue(''),
+    listChanges: vi.fn().mockResolvedValue([]),
+    changeExists: vi.fn().mockResolvedValue(true),
+    archiveChange: vi.fn().mockResolvedValue({ archivePath: '', specUpdates: [] }),
+    updateTasks: vi.fn().mockResolvedValue(undefined),
+    readTasks: vi.fn().mockResolvedValue(parseTasksDocument('')),
+    editTasks: vi.fn().mockResolvedValue(parseTasksDocument('')),
+    readSpecDeltas: vi.fn().mockResolvedValue([]),
+    findArchivedChange: vi.fn().mockResolvedValue(null),
+    listArchivedChanges: vi.fn().mockResolvedValue([]),
+    validateChange: vi.fn().mockResolvedValue({ changeId: 'add-feature', status: 'pass', errors: [], warnings: [] }),
+    getChangePaths: vi.fn().mockResolvedValue([]),
+    readMetadata: vi.fn().mockResolvedValue(null),
+    writeMetadata: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+export type MockOpenSpecAdapter = {
+  [K in keyof OpenSpecAdapter]: ReturnType<typeof vi.fn>;
+};
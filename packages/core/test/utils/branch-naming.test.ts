@@ -0,0 +1,115 @@
+/**
+ * Branch naming tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createBranchNaming,
+  branchNamingFromConfig,
+  resolveBranchNaming,
+  slugifyUserName,
+} from '../../src/utils/branch-naming.js';
+import { SpecLifeError } from '../../src/types.js';
+
+describe('createBranchNaming', () => {
+  it('defaults to spec/<changeId>', () => {
+    const naming = createBranchNaming();
+
+    expect(naming.pattern).toBe('{prefix}{changeId}');
+    expect(naming.branchFor('add-auth')).toBe('spec/add-auth');
+    expect(naming.changeIdFor('spec/add-auth')).toBe('add-auth');
+  });
+
+  it('uses a custom prefix', () => {
+    const naming = createBranchNaming({ prefix: 'feature/spec-' });
+
+    expect(naming.branchFor('add-auth')).toBe('feature/spec-add-auth');
+    expect(naming.changeIdFor('feature/spec-add-auth')).toBe('add-auth');
+    expect(naming.changeIdFor('spec/add-auth')).toBeNull();
+  });
+
+  it('substitutes {user}', () => {
+    const naming = createBranchNaming({ pattern: '{user}/{changeId}', user: 'jane' });
+
+    expect(naming.branchFor('add-auth')).toBe('jane/add-auth');
+  });
+
+  it('maps branches from any user back to the change ID', () => {
+    const naming = createBranchNaming({ pattern: '{user}/{changeId}', user: 'jane' });
+
+    expect(naming.changeIdFor('bob/fix-login')).toBe('fix-login');
+    expect(naming.changeIdFor('main')).toBeNull();
+  });
+
+  it('escapes regex characters in literal text', () => {
+    const naming = createBranchNaming({ pattern: 'changes/{changeId}.wip' });
+
+    expect(naming.changeIdFor('changes/add-auth.wip')).toBe('add-auth');
+    expect(naming.changeIdFor('changes/add-authXwip')).toBeNull();
+  });
+
+  it('rejects non-change branches', () => {
+    const naming = createBranchNaming();
+
+    expect(naming.isChangeBranch('spec/add-auth')).toBe(true);
+    expect(naming.isChangeBranch('main')).toBe(false);
+    expect(naming.isChangeBranch('spec/')).toBe(false);
+  });
+
+  it('throws when {user} is needed but unknown', () => {
+    const naming = createBranchNaming({ pattern: '{user}/{changeId}' });
+
+    expect(() => naming.branchFor('add-auth')).toThrow(SpecLifeError);
+  });
+
+  it('throws on unknown placeholders', () => {
+    expect(() => createBranchNaming({ pattern: '{team}/{changeId}' })).toThrow(/Unknown placeholder/);
+  });
+
+  it('throws when {changeId} is missing or repeated', () => {
+    expect(() => createBranchNaming({ pattern: '{prefix}' })).toThrow(/exactly once/);
+    expect(() => createBranchNaming({ pattern: '{changeId}-{changeId}' })).toThrow(/exactly once/);
+  });
+});
+
+describe('branchNamingFromConfig', () => {
+  it('reads prefix, pattern and user from git config', () => {
+    const naming = branchNamingFromConfig({
+      git: { branchPrefix: 'wip/', branchPattern: '{prefix}{user}-{changeId}', user: 'jane' },
+    });
+
+    expect(naming.branchFor('add-auth')).toBe('wip/jane-add-auth');
+  });
+});
+
+describe('resolveBranchNaming', () => {
+  it('looks up the git user only when the pattern needs it', async () => {
+    const git = { getUserName: vi.fn().mockResolvedValue('Jane Doe') };
+
+    const plain = await resolveBranchNaming({ git: {} }, git);
+    expect(plain.branchFor('add-auth')).toBe('spec/add-auth');
+    expect(git.getUserName).not.toHaveBeenCalled();
+
+    const byUser = await resolveBranchNaming({ git: { branchPattern: '{user}/{changeId}' } }, git);
+    expect(byUser.branchFor('add-auth')).toBe('jane-doe/add-auth');
+  });
+
+  it('prefers git.user from config', async () => {
+    const git = { getUserName: vi.fn().mockResolvedValue('Jane Doe') };
+
+    const naming = await resolveBranchNaming(
+      { git: { branchPattern: '{user}/{changeId}', user: 'jd' } },
+      git
+    );
+
+    expect(naming.branchFor('add-auth')).toBe('jd/add-auth');
+    expect(git.getUserName).not.toHaveBeenCalled();
+  });
+});
+
+describe('slugifyUserName', () => {
+  it('produces branch-safe segments', () => {
+    expect(slugifyUserName('Jane Doe')).toBe('jane-doe');
+    expect(slugifyUserName('  O\'Brien, Pat ')).toBe('o-brien-pat');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Changelog utility tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseChangelog,
+  mergeChangelogSection,
+  getSectionVersion,
+  repositoryWebUrl,
+  linkPullRequests,
+} from '../../src/utils/changelog.js';
+
+const EXISTING = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+## [0.12.0] - 2026-01-09
+
+### Features
+
+- Add Antigravity editor support (#39)
+
+## [0.11.1] and earlier
+
+See GitHub Releases for previous versions.
+`;
+
+describe('parseChangelog', () => {
+  it('splits the preamble from release sections', () => {
+    const doc = parseChangelog(EXISTING);
+
+    expect(doc.preamble).toBe('# Changelog\n\nAll notable changes to this project will be documented in this file.');
+    expect(doc.sections.map(s => s.version)).toEqual(['0.12.0', '0.11.1']);
+    expect(doc.sections[0].content).toContain('Add Antigravity editor support');
+  });
+});
+
+describe('getSectionVersion', () => {
+  it('reads versions from common heading styles', () => {
+    expect(getSectionVersion('## [0.12.0] - 2026-01-09')).toBe('0.12.0');
+    expect(getSectionVersion('## [v1.2.0](https://x/releases/tag/v1.2.0) (2026-01-01)')).toBe('v1.2.0');
+    expect(getSectionVersion('## [@acme/a@1.1.0](x) (2026-01-01)')).toBe('@acme/a@1.1.0');
+    expect(getSectionVersion('## 2.0.0-rc.1')).toBe('2.0.0-rc.1');
+    expect(getSectionVersion('## Unreleased')).toBeNull();
+  });
+});
+
+describe('mergeChangelogSection', () => {
+  const section = '## [0.13.0](x) (2026-02-01)\n\n### Features\n\n* add sync\n';
+
+  it('inserts the new section above existing releases', () => {
+    const merged = mergeChangelogSection(EXISTING, section);
+
+    expect(merged.startsWith('# Changelog\n\nAll notable changes')).toBe(true);
+    expect(merged.indexOf('0.13.0')).toBeLessThan(merged.indexOf('0.12.0'));
+    expect(merged).toContain('## [0.11.1] and earlier\n\nSee GitHub Releases for previous versions.\n');
+  });
+
+  it('is idempotent for the same version', () => {
+    const once = mergeChangelogSection(EXISTING, section);
+    const twice = mergeChangelogSection(once, section);
+
+    expect(twice).toBe(once);
+  });
+
+  it('replaces a stale section for the same version in place', () => {
+    const once = mergeChangelogSection(EXISTING, section);
+    const updated = mergeChangelogSection(once, '## [v0.13.0](x) (2026-02-02)\n\n* add sync and merge');
+
+    expect(updated).not.toContain('(2026-02-01)');
+    expect(updated.match(/0\.13\.0\]/g)).toHaveLength(1);
+  });
+
+  it('creates a changelog when there is none', () => {
+    const merged = mergeChangelogSection('', section);
+
+    expect(merged).toMatch(/^# Changelog\n\nAll notable changes.*\n\n## \[0\.13\.0\]/);
+    expect(merged.endsWith('* add sync\n')).toBe(true);
+  });
+});
+
+describe('repositoryWebUrl', () => {
+  it('converts common remote formats', () => {
+    expect(repositoryWebUrl('git@github.com:malarbase/speclife.git')).toBe('https://github.com/malarbase/speclife');
+    expect(repositoryWebUrl('https://github.com/malarbase/speclife.git')).toBe('https://github.com/malarbase/speclife');
+    expect(repositoryWebUrl('https://token@gitlab.com/group/sub/repo')).toBe('https://gitlab.com/group/sub/repo');
+    expect(repositoryWebUrl('ssh://git@gitea.example.com:2222/team/repo.git')).toBe('https://gitea.example.com/team/repo');
+  });
+
+  it('returns null for local or missing remotes', () => {
+    expect(repositoryWebUrl(null)).toBeNull();
+    expect(repositoryWebUrl('/srv/git/repo.git')).toBeNull();
+  });
+});
+
+describe('linkPullRequests', () => {
+  it('links PR references', () => {
+    expect(linkPullRequests('add sync (#42)', 'https://github.com/o/r'))
+      .toBe('add sync ([#42](https://github.com/o/r/pull/42))');
+  });
+
+  it('uses the merge request path on GitLab', () => {
+    expect(linkPullRequests('add sync (#42)', 'https://gitlab.com/g/r', 'gitlab'))
+      .toBe('add sync ([#42](https://gitlab.com/g/r/-/merge_requests/42))');
+  });
+
+  it('uses the pulls path on Gitea', () => {
+    expect(linkPullRequests('add sync (#42)', 'https://codeberg.org/o/r', 'gitea'))
+      .toBe('add sync ([#42](https://codeberg.org/o/r/pulls/42))');
+  });
+});
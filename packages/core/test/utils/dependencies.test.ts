@@ -0,0 +1,63 @@
+/**
+ * Change dependency tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDependsOn, getLandingOrder, formatDependencyTree } from '../../src/utils/dependencies.js';
+
+describe('parseDependsOn', () => {
+  it('reads list, bold and kebab-case declarations', () => {
+    expect(parseDependsOn('## Impact\n- Affected specs: auth\n- Depends on: add-auth, `add-session`\n')).toEqual(['add-auth', 'add-session']);
+    expect(parseDependsOn('**Depends on:** add-auth\n')).toEqual(['add-auth']);
+    expect(parseDependsOn('depends-on: add-auth\n')).toEqual(['add-auth']);
+    expect(parseDependsOn('## Why\nNothing to build on.\n')).toEqual([]);
+  });
+});
+
+describe('getLandingOrder', () => {
+  it('lands dependencies first and treats unknown ones as landed', () => {
+    const order = getLandingOrder([
+      { id: 'add-remember-me', dependsOn: ['add-session'] },
+      { id: 'add-session', dependsOn: ['add-auth'] },
+      { id: 'add-auth', dependsOn: ['already-merged'] },
+      { id: 'fix-typo' },
+    ]);
+
+    expect(order).toEqual({ order: ['add-auth', 'fix-typo', 'add-session', 'add-remember-me'], cycle: [] });
+  });
+
+  it('reports cycles', () => {
+    const order = getLandingOrder([
+      { id: 'a', dependsOn: ['b'] },
+      { id: 'b', dependsOn: ['a'] },
+      { id: 'c' },
+    ]);
+
+    expect(order).toEqual({ order: ['c'], cycle: ['a', 'b'] });
+  });
+});
+
+describe('formatDependencyTree', () => {
+  it('nests dependents under the changes they build on', () => {
+    expect(formatDependencyTree([
+      { id: 'add-auth' },
+      { id: 'add-session', dependsOn: ['add-auth'] },
+      { id: 'add-sso', dependsOn: ['add-auth'] },
+      { id: 'add-remember-me', dependsOn: ['add-session'] },
+      { id: 'fix-typo' },
+    ])).toEqual([
+      'add-auth',
+      '├─ add-session',
+      '│  └─ add-remember-me',
+      '└─ add-sso',
+      'fix-typo',
+    ]);
+  });
+
+  it('marks cycles instead of recursing forever', () => {
+    expect(formatDependencyTree([
+      { id: 'a', dependsOn: ['b'] },
+      { id: 'b', dependsOn: ['a'] },
+    ])).toEqual(['a', '└─ b', '   └─ a (cycle)']);
+  });
+});
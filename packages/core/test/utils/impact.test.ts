@@ -0,0 +1,82 @@
+/**
+ * Impact drift tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseImpact,
+  checkImpactDrift,
+  matchesPathPattern,
+  getChangedFiles,
+  parseDiffPaths,
+} from '../../src/utils/impact.js';
+import { createMockGitAdapter } from '../helpers.js';
+
+describe('matchesPathPattern', () => {
+  it('matches files, directories and globs', () => {
+    expect(matchesPathPattern('src/auth/login.ts', 'src/auth')).toBe(true);
+    expect(matchesPathPattern('src/authz.ts', 'src/auth')).toBe(false);
+    expect(matchesPathPattern('src/auth/login.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesPathPattern('src/login.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesPathPattern('src/auth/login.ts', 'src/*.ts')).toBe(false);
+    expect(matchesPathPattern('docs/guide/README.md', '*.md')).toBe(true);
+    expect(matchesPathPattern('packages/core/src/index.ts', 'packages/**')).toBe(true);
+  });
+});
+
+describe('checkImpactDrift', () => {
+  const options = { changeId: 'add-auth' };
+
+  it('reports undeclared and untouched code and specs', () => {
+    const impact = parseImpact('- Affected specs: `auth`, specs/billing/spec.md\n- Affected code: src/auth/, `lib/*.ts`, auth module\n');
+    const drift = checkImpactDrift(impact, [
+      'src/auth/login.ts',
+      'src/server.ts',
+      'openspec/changes/add-auth/proposal.md',
+      'openspec/changes/add-auth/specs/auth/spec.md',
+      'openspec/changes/add-auth/specs/session/spec.md',
+      'openspec/changes/other/specs/billing/spec.md',
+    ], options);
+
+    expect(drift).toEqual({
+      undeclaredCode: ['src/server.ts'],
+      untouchedCode: ['lib/*.ts'],
+      undeclaredSpecs: ['session'],
+      untouchedSpecs: ['billing'],
+    });
+  });
+
+  it('ignores template placeholders and skips undeclared code when no paths are listed', () => {
+    const impact = parseImpact('- Affected specs: [list capabilities]\n- Affected code: [key files/systems]\n');
+
+    expect(checkImpactDrift(impact, ['src/index.ts'], options)).toEqual({
+      undeclaredCode: [],
+      untouchedCode: [],
+      undeclaredSpecs: [],
+      untouchedSpecs: [],
+    });
+  });
+});
+
+describe('getChangedFiles', () => {
+  it('combines branch diff paths with uncommitted files', async () => {
+    const git = createMockGitAdapter();
+    git.diff.mockResolvedValue('diff --git a/src/a.ts b/src/a.ts\nindex 1..2\n--- a/src/a.ts\n+++ b/src/a.ts\n');
+    git.status.mockResolvedValue({ current: 'spec/x', staged: ['src/b.ts'], unstaged: ['src/a.ts'], untracked: ['src/c.ts'] });
+
+    expect(await getChangedFiles(git, 'main')).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+  });
+
+  it('returns null when the base branch cannot be diffed', async () => {
+    const git = createMockGitAdapter();
+    git.diff.mockRejectedValue(new Error('unknown revision'));
+
+    expect(await getChangedFiles(git, 'main')).toBeNull();
+  });
+});
+
+describe('parseDiffPaths', () => {
+  it('includes both sides of a rename', () => {
+    expect(parseDiffPaths('diff --git a/old.ts b/new.ts\nsimilarity index 90%\n')).toEqual(['old.ts', 'new.ts']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for the change lifecycle state machine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isValidTransition,
+  getTransitionPath,
+  deriveChangeState,
+  createChangeMetadata,
+  transitionChangeState,
+  syncChangeState,
+  getStateTimestamps,
+} from '../../src/utils/lifecycle.js';
+import { SpecLifeError } from '../../src/types.js';
+
+const baseSignals = {
+  tasksCompleted: 0,
+  tasksTotal: 3,
+  branchExists: true,
+  archived: false,
+};
+
+describe('isValidTransition', () => {
+  it('allows single forward steps', () => {
+    expect(isValidTransition('created', 'implementing')).toBe(true);
+    expect(isValidTransition('testing', 'submitted')).toBe(true);
+    expect(isValidTransition('submitted', 'merged')).toBe(true);
+  });
+  
+  it('allows moving back before submit', () => {
+    expect(isValidTransition('testing', 'implementing')).toBe(true);
+  });
+  
+  it('rejects moving back once submitted', () => {
+    expect(isValidTransition('submitted', 'implementing')).toBe(false);
+  });
+  
+  it('rejects leaving merged', () => {
+    expect(isValidTransition('merged', 'implementing')).toBe(false);
+  });
+  
+  it('rejects skipping ahead directly', () => {
+    expect(isValidTransition('created', 'testing')).toBe(false);
+  });
+});
+
+describe('getTransitionPath', () => {
+  it('returns empty path for same state', () => {
+    expect(getTransitionPath('testing', 'testing')).toEqual([]);
+  });
+  
+  it('walks through intermediate states when skipping ahead', () => {
+    expect(getTransitionPath('created', 'submitted')).toEqual(['implementing', 'testing', 'submitted']);
+  });
+  
+  it('returns null for unreachable states', () => {
+    expect(getTransitionPath('merged', 'created')).toBeNull();
+  });
+});
+
+describe('deriveChangeState', () => {
+  it('is created with no completed tasks', () => {
+    expect(deriveChangeState(baseSignals)).toBe('created');
+  });
+  
+  it('is implementing with partial progress', () => {
+    expect(deriveChangeState({ ...baseSignals, tasksCompleted: 1 })).toBe('implementing');
+  });
+  
+  it('is testing when all tasks are done', () => {
+    expect(deriveChangeState({ ...baseSignals, tasksCompleted: 3 })).toBe('testing');
+  });
+  
+  it('is submitted with an open ready PR', () => {
+    expect(deriveChangeState({
+      ...baseSignals,
+      pullRequest: { state: 'open', draft: false },
+    })).toBe('submitted');
+  });
+  
+  it('ignores draft PRs', () => {
+    expect(deriveChangeState({
+      ...baseSignals,
+      tasksCompleted: 1,
+      pullRequest: { state: 'open', draft: true },
+    })).toBe('implementing');
+  });
+  
+  it('is submitted when archived but branch still exists', () => {
+    expect(deriveChangeState({ ...baseSignals, archived: true })).toBe('submitted');
+  });
+  
+  it('is merged when archived and branch is gone', () => {
+    expect(deriveChangeState({ ...baseSignals, archived: true, branchExists: false })).toBe('merged');
+  });
+  
+  it('is merged when PR is merged', () => {
+    expect(deriveChangeState({
+      ...baseSignals,
+      pullRequest: { state: 'merged', draft: false },
+    })).toBe('merged');
+  });
+});
+
+describe('transitionChangeState', () => {
+  it('records only the observed transition when skipping ahead', () => {
+    const at = new Date('2026-01-02T00:00:00Z');
+    const metadata = transitionChangeState(createChangeMetadata(new Date('2026-01-01T00:00:00Z')), 'testing', at);
+    
+    expect(metadata.state).toBe('testing');
+    expect(metadata.transitions.map(t => t.to)).toEqual(['created', 'testing']);
+    expect(metadata.transitions[1]).toEqual({ from: 'created', to: 'testing', at });
+  });
+  
+  it('throws on illegal transitions', () => {
+    const merged = transitionChangeState(createChangeMetadata(), 'merged');
+    
+    expect(() => transitionChangeState(merged, 'implementing')).toThrow(SpecLifeError);
+  });
+});
+
+describe('syncChangeState', () => {
+  it('initializes metadata when none exists', () => {
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const { metadata, changed } = syncChangeState(null, 'implementing', new Date(), createdAt);
+    
+    expect(changed).toBe(true);
+    expect(metadata.state).toBe('implementing');
+    expect(metadata.transitions[0].at).toEqual(createdAt);
+  });
+  
+  it('reports no change when state is unchanged', () => {
+    const { changed } = syncChangeState(createChangeMetadata(), 'created');
+    
+    expect(changed).toBe(false);
+  });
+  
+  it('does not move a submitted change back', () => {
+    const submitted = transitionChangeState(createChangeMetadata(), 'submitted');
+    const { metadata, changed } = syncChangeState(submitted, 'testing');
+    
+    expect(changed).toBe(false);
+    expect(metadata.state).toBe('submitted');
+  });
+  
+  it('keeps merged as terminal', () => {
+    const merged = transitionChangeState(createChangeMetadata(), 'merged');
+    const { metadata, changed } = syncChangeState(merged, 'implementing');
+    
+    expect(changed).toBe(false);
+    expect(metadata.state).toBe('merged');
+  });
+});
+
+describe('getStateTimestamps', () => {
+  it('returns the latest entry time for each state', () => {
+    const first = new Date('2026-01-01T00:00:00Z');
+    const second = new Date('2026-01-03T00:00:00Z');
+    let metadata = transitionChangeState(createChangeMetadata(first), 'implementing', first);
+    metadata = transitionChangeState(metadata, 'created', first);
+    metadata = transitionChangeState(metadata, 'implementing', second);
+    
+    expect(getStateTimestamps(metadata).implementing).toEqual(second);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for the pull request task checklist
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  renderPullRequestTasks,
+  parsePullRequestTasks,
+  replacePullRequestTasks,
+  mergeTaskStates,
+} from '../../src/utils/pr-tasks.js';
+import { parseTasksDocument } from '../../src/utils/tasks-document.js';
+
+const TASKS = `## 1. Setup
+
+- [x] 1.1 Install dependencies
+- [ ] 1.2 Configure build
+  - [ ] 1.2.1 Add tsconfig
+
+## 2. Implementation
+
+- [ ] 2.1 Add cache
+`;
+
+describe('renderPullRequestTasks', () => {
+  it('renders sections, indentation and task IDs between markers', () => {
+    const block = renderPullRequestTasks(parseTasksDocument(TASKS));
+
+    expect(block).toBe([
+      '<!-- speclife:tasks:start -->',
+      '## Tasks',
+      '',
+      '**1. Setup**',
+      '- [x] 1.1 Install dependencies <!-- task:1.1 -->',
+      '- [ ] 1.2 Configure build <!-- task:1.2 -->',
+      '  - [ ] 1.2.1 Add tsconfig <!-- task:1.2.1 -->',
+      '',
+      '**2. Implementation**',
+      '- [ ] 2.1 Add cache <!-- task:2.1 -->',
+      '',
+      '<!-- speclife:tasks:end {"completed":["1.1"],"open":["1.2","1.2.1","2.1"]} -->',
+    ].join('\n'));
+  });
+
+  it('notes a change without tasks', () => {
+    expect(renderPullRequestTasks(parseTasksDocument(''))).toContain('_No tasks_');
+  });
+});
+
+describe('parsePullRequestTasks', () => {
+  it('reads checkbox states toggled in the description and the synced state', () => {
+    const block = renderPullRequestTasks(parseTasksDocument(TASKS)).replace('- [ ] 2.1', '- [X] 2.1');
+
+    const parsed = parsePullRequestTasks(`## Why\nCache it\n\n${block}\n`);
+
+    expect(parsed?.tasks.get('1.1')).toBe(true);
+    expect(parsed?.tasks.get('2.1')).toBe(true);
+    expect(parsed?.synced?.get('2.1')).toBe(false);
+  });
+
+  it('returns null without a block and ignores a corrupt synced state', () => {
+    expect(parsePullRequestTasks('## Why\nCache it')).toBeNull();
+
+    const parsed = parsePullRequestTasks(
+      '<!-- speclife:tasks:start -->\n- [x] 1.1 A <!-- task:1.1 -->\n<!-- speclife:tasks:end {oops} -->'
+    );
+    expect(parsed).toEqual({ tasks: new Map([['1.1', true]]), synced: null });
+  });
+});
+
+describe('replacePullRequestTasks', () => {
+  const block = renderPullRequestTasks(parseTasksDocument('- [ ] 1.1 Add cache\n'));
+
+  it('adds the block before the SpecLife footer', () => {
+    const body = '## Why\nCache it\n\n---\n*Created with SpecLife*';
+
+    expect(replacePullRequestTasks(body, block)).toBe(`## Why\nCache it\n\n${block}\n\n---\n*Created with SpecLife*`);
+  });
+
+  it('replaces an existing block and keeps the rest of the description', () => {
+    const body = `Intro\n\n${block}\n\nReviewer notes`;
+    const updated = renderPullRequestTasks(parseTasksDocument('- [x] 1.1 Add cache\n'));
+
+    expect(replacePullRequestTasks(body, updated)).toBe(`Intro\n\n${updated}\n\nReviewer notes`);
+  });
+});
+
+describe('mergeTaskStates', () => {
+  const local = new Map([['1.1', true], ['1.2', false], ['1.3', false]]);
+
+  it('takes toggles from whichever side changed since the last sync', () => {
+    const remote = {
+      // 1.1 unchecked locally since the sync is kept; 1.2 checked in the PR is pulled
+      tasks: new Map([['1.1', false], ['1.2', true], ['1.3', false]]),
+      synced: new Map([['1.1', false], ['1.2', false], ['1.3', false]]),
+    };
+
+    const { tasks, fromRemote } = mergeTaskStates(local, remote, 'local');
+
+    expect(Object.fromEntries(tasks)).toEqual({ '1.1': true, '1.2': true, '1.3': false });
+    expect(fromRemote).toEqual(['1.2']);
+  });
+
+  it('falls back to the most recently edited side without a synced state', () => {
+    const remote = { tasks: new Map([['1.1', false], ['1.2', true]]), synced: null };
+
+    expect(mergeTaskStates(local, remote, 'local').fromRemote).toEqual([]);
+    expect(mergeTaskStates(local, remote, 'remote').fromRemote).toEqual(['1.1', '1.2']);
+  });
+
+  it('keeps tasks.md as is when the description has no block', () => {
+    const { tasks, fromRemote } = mergeTaskStates(local, null, 'remote');
+
+    expect(tasks).toEqual(local);
+    expect(fromRemote).toEqual([]);
+  });
+});
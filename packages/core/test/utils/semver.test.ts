@@ -0,0 +1,47 @@
+/**
+ * Semver utility tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseVersion,
+  formatVersion,
+  compareVersions,
+  getPrerelease,
+} from '../../src/utils/semver.js';
+
+describe('parseVersion', () => {
+  it('parses stable and prerelease versions', () => {
+    expect(parseVersion('v1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseVersion('2.0.0-rc.1')).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ['rc', 1] });
+  });
+
+  it('returns null for non-versions', () => {
+    expect(parseVersion('release-1')).toBeNull();
+    expect(parseVersion('1.2')).toBeNull();
+  });
+
+  it('round-trips through formatVersion', () => {
+    expect(formatVersion(parseVersion('v2.0.0-beta.4')!)).toBe('2.0.0-beta.4');
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders prereleases before their stable release', () => {
+    const sorted = ['2.0.0', '2.0.0-rc.2', '1.9.0', '2.0.0-beta.10', '2.0.0-rc.1', '2.0.0-beta.2']
+      .sort(compareVersions);
+
+    expect(sorted).toEqual(['1.9.0', '2.0.0-beta.2', '2.0.0-beta.10', '2.0.0-rc.1', '2.0.0-rc.2', '2.0.0']);
+  });
+
+  it('treats equal versions as equal', () => {
+    expect(compareVersions('v1.0.0', '1.0.0')).toBe(0);
+  });
+});
+
+describe('getPrerelease', () => {
+  it('returns channel and number', () => {
+    expect(getPrerelease('2.0.0-rc.3')).toEqual({ channel: 'rc', number: 3 });
+    expect(getPrerelease('2.0.0')).toBeNull();
+  });
+});
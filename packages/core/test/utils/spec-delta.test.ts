@@ -0,0 +1,272 @@
+/**
+ * Spec delta parsing tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseSpecDelta, mergeSpecDelta, applySpecDeltas } from '../../src/utils/spec-delta.js';
+import { createTempDir, removeTempDir, createOpenSpecStructure, createMockChange } from '../helpers.js';
+
+const DELTA = `# CLI Spec Delta
+
+## ADDED Requirements
+
+### Requirement: Sync Command
+The CLI SHALL provide a \`speclife sync\` command.
+
+#### Scenario: Branch behind main
+- **WHEN** the base branch has new commits
+- **THEN** rebase the change branch
+
+#### Scenario: Conflicts
+- **WHEN** the rebase conflicts
+- **THEN** stop and report conflicting files
+
+---
+
+## REMOVED Requirements
+
+### Requirement: Legacy Merge
+**Reason**: Replaced by sync
+
+## RENAMED Requirements
+
+- FROM: \`### Requirement: Old Name\`
+- TO: \`### Requirement: New Name\`
+`;
+
+describe('parseSpecDelta', () => {
+  it('parses sections, requirements and scenarios with line numbers', () => {
+    const delta = parseSpecDelta(DELTA);
+
+    expect(delta.sections.map(s => [s.operation, s.line])).toEqual([
+      ['ADDED', 3],
+      ['REMOVED', 18],
+      ['RENAMED', 23],
+    ]);
+
+    const [added, removed, renamed] = delta.sections;
+    expect(added.requirements).toHaveLength(1);
+    expect(added.requirements[0]).toMatchObject({ name: 'Sync Command', line: 5 });
+    expect(added.requirements[0].scenarios).toEqual([
+      { name: 'Branch behind main', line: 8 },
+      { name: 'Conflicts', line: 12 },
+    ]);
+    expect(added.requirements[0].content.endsWith('- **THEN** stop and report conflicting files')).toBe(true);
+
+    expect(removed.requirements.map(r => r.name)).toEqual(['Legacy Merge']);
+    expect(renamed.renames).toEqual([{ from: 'Old Name', to: 'New Name', line: 25 }]);
+  });
+
+  it('reports level-2 headers that are not delta sections', () => {
+    const delta = parseSpecDelta('## Requirements\n\n### Requirement: X\nThe system SHALL work.\n');
+
+    expect(delta.sections).toEqual([]);
+    expect(delta.unknownHeaders).toEqual([{ title: 'Requirements', line: 1 }]);
+  });
+});
+
+const SPEC = `# cli Specification
+
+## Purpose
+Command line interface.
+## Requirements
+### Requirement: View Command
+The CLI SHALL provide a view command.
+
+#### Scenario: Dashboard
+- **WHEN** user runs view
+- **THEN** show the dashboard
+
+---
+
+### Requirement: Legacy Merge
+The CLI SHALL merge PRs.
+
+#### Scenario: Merge
+- **WHEN** user runs merge
+- **THEN** merge the PR
+
+---
+
+### Requirement: Old Name
+The CLI SHALL do a thing.
+
+#### Scenario: Thing
+- **WHEN** asked
+- **THEN** do it
+`;
+
+const context = { capability: 'cli', file: 'openspec/changes/add-sync/specs/cli/spec.md', changeId: 'add-sync' };
+
+describe('mergeSpecDelta', () => {
+  it('applies all operations while keeping untouched requirements intact', () => {
+    const result = mergeSpecDelta(SPEC, parseSpecDelta(DELTA + `
+## MODIFIED Requirements
+
+### Requirement: View Command
+The CLI SHALL provide a view command with JSON output.
+
+#### Scenario: JSON
+- **WHEN** user runs view --json
+- **THEN** print JSON
+`), context);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.applied).toEqual([
+      { operation: 'RENAMED', requirement: 'Old Name → New Name' },
+      { operation: 'REMOVED', requirement: 'Legacy Merge' },
+      { operation: 'MODIFIED', requirement: 'View Command' },
+      { operation: 'ADDED', requirement: 'Sync Command' },
+    ]);
+    expect(result.content).toBe(`# cli Specification
+
+## Purpose
+Command line interface.
+## Requirements
+### Requirement: View Command
+The CLI SHALL provide a view command with JSON output.
+
+#### Scenario: JSON
+- **WHEN** user runs view --json
+- **THEN** print JSON
+
+---
+
+### Requirement: New Name
+The CLI SHALL do a thing.
+
+#### Scenario: Thing
+- **WHEN** asked
+- **THEN** do it
+
+### Requirement: Sync Command
+The CLI SHALL provide a \`speclife sync\` command.
+
+#### Scenario: Branch behind main
+- **WHEN** the base branch has new commits
+- **THEN** rebase the change branch
+
+#### Scenario: Conflicts
+- **WHEN** the rebase conflicts
+- **THEN** stop and report conflicting files
+`);
+  });
+
+  it('reports conflicts with delta locations and leaves the spec unchanged', () => {
+    const delta = parseSpecDelta(`## ADDED Requirements
+
+### Requirement: View Command
+The CLI SHALL view.
+
+#### Scenario: View
+- **WHEN** x
+- **THEN** y
+
+## MODIFIED Requirements
+
+### Requirement: Missing
+The CLI SHALL exist.
+
+#### Scenario: Exists
+- **WHEN** x
+- **THEN** y
+`);
+
+    const result = mergeSpecDelta(SPEC, delta, context);
+
+    expect(result.content).toBe(SPEC);
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts.map(c => [c.operation, c.line, c.message])).toEqual([
+      ['MODIFIED', 12, 'Cannot modify "Missing": not found in cli spec'],
+      ['ADDED', 3, 'Cannot add "View Command": already exists in cli spec'],
+    ]);
+    expect(result.conflicts[0].file).toBe(context.file);
+  });
+
+  it('creates a new spec for a new capability', () => {
+    const delta = parseSpecDelta(`## ADDED Requirements
+
+### Requirement: Sync
+The system SHALL sync.
+
+#### Scenario: Sync
+- **WHEN** x
+- **THEN** y
+`);
+
+    const result = mergeSpecDelta(null, delta, { ...context, capability: 'sync' });
+
+    expect(result.content).toBe(`# sync Specification
+
+## Purpose
+TBD - created by archiving change add-sync. Update Purpose after archive.
+
+## Requirements
+### Requirement: Sync
+The system SHALL sync.
+
+#### Scenario: Sync
+- **WHEN** x
+- **THEN** y
+`);
+  });
+});
+
+describe('applySpecDeltas', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await createOpenSpecStructure(tempDir);
+    await mkdir(join(tempDir, 'openspec', 'specs', 'cli'), { recursive: true });
+    await writeFile(join(tempDir, 'openspec', 'specs', 'cli', 'spec.md'), SPEC);
+    await createMockChange(tempDir, 'add-sync');
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  async function writeDelta(capability: string, content: string): Promise<void> {
+    const dir = join(tempDir, 'openspec', 'changes', 'add-sync', 'specs', capability);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'spec.md'), content);
+  }
+
+  it('writes merged and new specs', async () => {
+    await writeDelta('cli', DELTA);
+    await writeDelta('sync', '## ADDED Requirements\n\n### Requirement: Sync\nThe system SHALL sync.\n\n#### Scenario: S\n- **WHEN** x\n');
+
+    const result = await applySpecDeltas({ projectRoot: tempDir, changeId: 'add-sync' });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.updates.map(u => [u.capability, u.path, u.created])).toEqual([
+      ['cli', 'openspec/specs/cli/spec.md', false],
+      ['sync', 'openspec/specs/sync/spec.md', true],
+    ]);
+    expect(await readFile(join(tempDir, 'openspec', 'specs', 'cli', 'spec.md'), 'utf-8')).toContain('### Requirement: Sync Command');
+    expect(await readFile(join(tempDir, 'openspec', 'specs', 'sync', 'spec.md'), 'utf-8')).toContain('### Requirement: Sync\n');
+  });
+
+  it('writes nothing when any delta conflicts', async () => {
+    await writeDelta('cli', '## REMOVED Requirements\n\n### Requirement: Nope\n');
+    await writeDelta('sync', '## ADDED Requirements\n\n### Requirement: Sync\nThe system SHALL sync.\n\n#### Scenario: S\n- **WHEN** x\n');
+
+    const result = await applySpecDeltas({ projectRoot: tempDir, changeId: 'add-sync' });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(await readFile(join(tempDir, 'openspec', 'specs', 'cli', 'spec.md'), 'utf-8')).toBe(SPEC);
+    await expect(readFile(join(tempDir, 'openspec', 'specs', 'sync', 'spec.md'), 'utf-8')).rejects.toThrow();
+  });
+
+  it('does not write in dry run', async () => {
+    await writeDelta('cli', DELTA);
+
+    const result = await applySpecDeltas({ projectRoot: tempDir, changeId: 'add-sync', dryRun: true });
+
+    expect(result.updates).toHaveLength(1);
+    expect(await readFile(join(tempDir, 'openspec', 'specs', 'cli', 'spec.md'), 'utf-8')).toBe(SPEC);
+  });
+});
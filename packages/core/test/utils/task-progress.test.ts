@@ -14,6 +14,7 @@ import {
   getSectionProgress,
   getNextTask,
   getTasksByStatus,
+  calculateTaskProgress,
 } from '../../src/utils/task-progress.js';
 
 describe('parseTaskLine', () => {
@@ -66,6 +67,35 @@ describe('parseTaskLine', () => {
     expect(task!.content).toBe('Simple task');
     expect(task!.completed).toBe(true);
   });
+  
+  it('derives stable IDs for tasks without a number', () => {
+    const first = parseTaskLine('- [ ] Write the docs', '2');
+    const second = parseTaskLine('- [ ] Write the docs', '2');
+    
+    expect(first!.id).toBe('2.write-the-docs');
+    expect(second!.id).toBe(first!.id);
+  });
+});
+
+describe('task metadata', () => {
+  it('parses owner, estimate and dependencies', () => {
+    const task = parseTaskLine('- [ ] 1.2.3 Wire cache (owner: @alice, est: 2h, blocked-by: 1.1, 1.2)');
+    
+    expect(task).toMatchObject({
+      id: '1.2.3',
+      content: 'Wire cache',
+      owner: 'alice',
+      estimate: '2h',
+      dependencies: ['1.1', '1.2'],
+    });
+  });
+  
+  it('leaves ordinary parenthesized text in the description', () => {
+    const task = parseTaskLine('- [ ] 1.1 Update docs (see README)');
+    
+    expect(task!.content).toBe('Update docs (see README)');
+    expect(task!.owner).toBeUndefined();
+  });
 });
 
 describe('parseSectionHeader', () => {
@@ -249,6 +279,37 @@ describe('getNextTask', () => {
     const parsed = parseTasksContent('');
     expect(getNextTask(parsed)).toBeUndefined();
   });
+  
+  it('descends into subtasks and skips blocked tasks', () => {
+    const content = `## 1. Tasks
+- [ ] 1.1 Parent
+  - [x] 1.1.1 Done
+  - [ ] 1.1.2 Waiting (blocked-by: 1.2)
+- [ ] 1.2 Unblocked
+`;
+    
+    expect(getNextTask(parseTasksContent(content))?.id).toBe('1.2');
+    expect(getNextTask(parseTasksContent(content.replace('[ ] 1.2', '[x] 1.2')))?.id).toBe('1.1.2');
+  });
+});
+
+describe('progress rollup', () => {
+  it('counts subtasks instead of their parent', () => {
+    const content = `## 1. Tasks
+- [ ] 1.1 Parent
+  - [x] 1.1.1 Done
+  - [x] 1.1.2 Also done
+- [ ] 1.2 Open
+- [x] 1.3 Checked parent
+  - [ ] 1.3.1 Implied by parent
+`;
+    
+    const parsed = parseTasksContent(content);
+    
+    expect(parsed.progress).toEqual({ completed: 3, total: 4, percentage: 75 });
+    expect(calculateTaskProgress(parsed.tasks)).toEqual(parsed.progress);
+    expect(getSectionProgress(parsed).get('Tasks')).toEqual(parsed.progress);
+  });
 });
 
 describe('getTasksByStatus', () => {
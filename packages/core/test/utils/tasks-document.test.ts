@@ -0,0 +1,173 @@
+/**
+ * Tests for the tasks.md document model
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTasksDocument,
+  formatTasksDocument,
+  setTaskCompleted,
+  toggleTask,
+  setTaskContent,
+  addTask,
+  removeTask,
+  moveTask,
+  nestTask,
+  applyTaskList,
+} from '../../src/utils/tasks-document.js';
+
+const TASKS = `# Tasks
+
+Notes about the approach.
+
+## 1. Setup
+
+- [x] 1.1 Install dependencies
+- [ ] 1.2 Configure build
+  - [ ] 1.2.1 Add tsconfig
+  - [x] Wire scripts
+
+## 2. Implementation
+
+* [ ] 2.1 Create module
+      Continuation note for 2.1
+* [ ] Write docs
+
+\`\`\`
+- [ ] 9.9 Not a task
+\`\`\`
+`;
+
+describe('parseTasksDocument', () => {
+  it('round-trips content unchanged', () => {
+    expect(formatTasksDocument(parseTasksDocument(TASKS))).toBe(TASKS);
+
+    const crlf = TASKS.replace(/\n/g, '\r\n');
+    expect(formatTasksDocument(parseTasksDocument(crlf))).toBe(crlf);
+  });
+
+  it('parses sections, nesting and deterministic IDs', () => {
+    const document = parseTasksDocument(TASKS);
+
+    expect(document.sections.map(s => [s.number, s.name, s.line])).toEqual([
+      ['1', 'Setup', 5],
+      ['2', 'Implementation', 12],
+    ]);
+    expect(document.tasks.map(t => [t.id, t.depth, t.parentId ?? null])).toEqual([
+      ['1.1', 0, null],
+      ['1.2', 0, null],
+      ['1.2.1', 1, '1.2'],
+      ['1.2.wire-scripts', 1, '1.2'],
+      ['2.1', 0, null],
+      ['2.write-docs', 0, null],
+    ]);
+    expect(document.tasks[1].children).toEqual(['1.2.1', '1.2.wire-scripts']);
+    expect(parseTasksDocument(TASKS).tasks.map(t => t.id)).toEqual(document.tasks.map(t => t.id));
+  });
+
+  it('disambiguates tasks with the same description', () => {
+    const document = parseTasksDocument('- [ ] Repeat\n- [ ] Repeat\n');
+
+    expect(document.tasks.map(t => t.id)).toEqual(['repeat', 'repeat-2']);
+  });
+});
+
+describe('editing', () => {
+  it('toggles only the checkbox', () => {
+    const document = toggleTask(setTaskCompleted(parseTasksDocument(TASKS), '1.2', true), '2.write-docs');
+    const output = formatTasksDocument(document);
+
+    expect(output).toBe(TASKS
+      .replace('- [ ] 1.2 Configure build', '- [x] 1.2 Configure build')
+      .replace('* [ ] Write docs', '* [x] Write docs'));
+    expect(document.tasks.find(t => t.id === '1.2')!.completed).toBe(true);
+  });
+
+  it('throws TASK_NOT_FOUND for unknown tasks', () => {
+    expect(() => toggleTask(parseTasksDocument(TASKS), '7.1')).toThrow(expect.objectContaining({ code: 'TASK_NOT_FOUND' }));
+  });
+
+  it('replaces a description and keeps the number', () => {
+    const output = formatTasksDocument(setTaskContent(parseTasksDocument(TASKS), '1.1', 'Install packages'));
+
+    expect(output).toContain('- [x] 1.1 Install packages\n');
+  });
+
+  it('keeps metadata when replacing a description', () => {
+    const document = parseTasksDocument('- [ ] 1.1 Old (owner: @sam, est: 1d)\n');
+    const updated = setTaskContent(document, '1.1', 'New');
+
+    expect(formatTasksDocument(updated)).toBe('- [ ] 1.1 New (owner: @sam, est: 1d)\n');
+    expect(updated.tasks[0]).toMatchObject({ content: 'New', owner: 'sam', estimate: '1d' });
+  });
+
+  it('adds numbered tasks after the last task of a section', () => {
+    const { document, task } = addTask(parseTasksDocument(TASKS), 'Add tests', { section: '1' });
+
+    expect(task.id).toBe('1.3');
+    expect(formatTasksDocument(document)).toContain('  - [x] Wire scripts\n- [ ] 1.3 Add tests\n\n## 2.');
+  });
+
+  it('adds subtasks with the sibling indentation', () => {
+    const { document, task } = addTask(parseTasksDocument(TASKS), 'Add lint config', { parentId: '1.2' });
+
+    expect(task).toMatchObject({ id: '1.2.add-lint-config', parentId: '1.2', depth: 1 });
+    expect(formatTasksDocument(document)).toContain('  - [x] Wire scripts\n  - [ ] Add lint config\n');
+  });
+
+  it('creates a missing section', () => {
+    const { document, task } = addTask(parseTasksDocument('## 1. Setup\n- [ ] 1.1 Install\n'), 'Release', {
+      section: '2',
+      sectionName: 'Release',
+    });
+
+    expect(task.id).toBe('2.1');
+    expect(formatTasksDocument(document)).toBe('## 1. Setup\n- [ ] 1.1 Install\n\n## 2. Release\n- [ ] 2.1 Release\n');
+  });
+
+  it('removes a task with its subtasks', () => {
+    const output = formatTasksDocument(removeTask(parseTasksDocument(TASKS), '1.2'));
+
+    expect(output).toContain('- [x] 1.1 Install dependencies\n\n## 2. Implementation');
+  });
+
+  it('moves a task with its continuation lines', () => {
+    const output = formatTasksDocument(moveTask(parseTasksDocument(TASKS), '2.1', { after: '2.write-docs' }));
+
+    expect(output).toContain('* [ ] Write docs\n* [ ] 2.1 Create module\n      Continuation note for 2.1\n');
+  });
+
+  it('un-nests a subtask when moved next to a top-level task', () => {
+    const output = formatTasksDocument(moveTask(parseTasksDocument(TASKS), '1.2.1', { before: '1.1' }));
+
+    expect(output).toContain('## 1. Setup\n\n- [ ] 1.2.1 Add tsconfig\n- [x] 1.1 Install dependencies\n');
+  });
+
+  it('nests a task under another task', () => {
+    const document = nestTask(parseTasksDocument(TASKS), '1.1', '1.2');
+
+    expect(formatTasksDocument(document)).toContain('- [ ] 1.2 Configure build\n  - [ ] 1.2.1 Add tsconfig\n  - [x] Wire scripts\n  - [x] 1.1 Install dependencies\n');
+    expect(document.tasks.find(t => t.id === '1.1')!.parentId).toBe('1.2');
+  });
+
+  it('refuses to nest a task under its own subtask', () => {
+    expect(() => nestTask(parseTasksDocument(TASKS), '1.2', '1.2.1'))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TASK_EDIT' }));
+  });
+});
+
+describe('applyTaskList', () => {
+  it('updates, removes and adds tasks in place', () => {
+    const document = parseTasksDocument(TASKS);
+    const tasks = document.tasks
+      .filter(t => t.id !== '2.write-docs')
+      .map(t => ({ id: t.id, content: t.content, completed: t.id === '2.1' ? true : t.completed }));
+    tasks.push({ id: '2.2', content: 'Add tests', completed: false });
+
+    const output = formatTasksDocument(applyTaskList(document, tasks));
+
+    expect(output).toBe(TASKS
+      .replace('* [ ] 2.1 Create module', '* [x] 2.1 Create module')
+      .replace('* [ ] Write docs', '* [ ] 2.2 Add tests'));
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Change validation tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  validateChange,
+  validateProposal,
+  validateTasks,
+  validateSpecDelta,
+  formatValidationIssue,
+} from '../../src/utils/validation.js';
+import {
+  createTempDir,
+  removeTempDir,
+  createOpenSpecStructure,
+  createMockChange,
+} from '../helpers.js';
+
+const PROPOSAL = `## Why
+Changes drift from main while they are reviewed, so merges fail late.
+
+## What Changes
+- Add a sync command
+
+## Impact
+- Affected specs: cli
+`;
+
+const SPEC = `## ADDED Requirements
+
+### Requirement: Sync Command
+The CLI SHALL provide a sync command.
+
+#### Scenario: Branch behind main
+- **WHEN** main has new commits
+- **THEN** rebase the change branch
+`;
+
+describe('validateProposal', () => {
+  it('accepts a complete proposal', () => {
+    expect(validateProposal(PROPOSAL, 'proposal.md')).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports missing and empty sections with locations', () => {
+    const result = validateProposal('# Title\n\n## Why\n\n## What Changes\nNothing listed\n', 'proposal.md');
+
+    expect(result.errors).toEqual([
+      { file: 'proposal.md', line: 3, message: '"## Why" section is empty' },
+      { file: 'proposal.md', line: 5, message: '"## What Changes" must list at least one change' },
+    ]);
+    expect(result.warnings).toEqual([{ file: 'proposal.md', message: 'Missing "## Impact" section' }]);
+  });
+
+  it('accepts numbered What Changes lists and warns about a thin Why', () => {
+    const result = validateProposal('## Why\nFaster.\n\n## What Changes\n1. **Cache** results\n\n## Impact\n- Affected code: x\n', 'p.md');
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings[0]).toMatchObject({ line: 1, message: expect.stringContaining('only 7 characters') });
+  });
+});
+
+describe('validateTasks', () => {
+  it('reports malformed and duplicate tasks', () => {
+    const content = [
+      '## 1. Setup',
+      '- [ ] 1.1 First',
+      '- [] 1.2 Broken checkbox',
+      '- [x] 1.1 Again',
+      '## 2. Build',
+      '- [ ] 1.3 Misplaced',
+    ].join('\n');
+
+    const result = validateTasks(content, 'tasks.md');
+
+    expect(result.errors).toEqual([
+      { file: 'tasks.md', line: 3, message: 'Malformed task: "- [] 1.2 Broken checkbox"; expected "- [ ] 1.1 Description"' },
+      { file: 'tasks.md', line: 4, message: 'Duplicate task ID 1.1 (first used on line 2)' },
+    ]);
+    expect(result.warnings).toEqual([{ file: 'tasks.md', line: 6, message: 'Task 1.3 is listed under section 2' }]);
+  });
+
+  it('optionally warns about incomplete tasks', () => {
+    const content = '## 1. Setup\n- [x] 1.1 Done\n- [ ] 1.2 Pending\n';
+
+    expect(validateTasks(content, 'tasks.md').warnings).toEqual([]);
+    expect(validateTasks(content, 'tasks.md', { checkCompletion: true }).warnings).toEqual([
+      { file: 'tasks.md', line: 3, message: 'Task 1.2 is not complete' },
+    ]);
+  });
+
+  it('checks nested tasks and blocked-by references', () => {
+    const content = '## 1. Setup\n- [ ] 1.1 First\n  - [ ] 1.1.1 Nested (blocked-by: 1.9)\n  - [link](https://example.com)\n  - [ ] 1.1 Duplicate\n';
+
+    const result = validateTasks(content, 'tasks.md');
+
+    expect(result.errors).toEqual([
+      { file: 'tasks.md', line: 5, message: 'Duplicate task ID 1.1 (first used on line 2)' },
+    ]);
+    expect(result.warnings).toEqual([
+      { file: 'tasks.md', line: 3, message: 'Task 1.1.1 is blocked by unknown task 1.9' },
+    ]);
+  });
+
+  it('warns when there are no tasks', () => {
+    expect(validateTasks('# Tasks\n', 'tasks.md').warnings).toEqual([
+      { file: 'tasks.md', message: 'tasks.md has no tasks' },
+    ]);
+  });
+});
+
+describe('validateSpecDelta', () => {
+  it('accepts a well-formed delta', () => {
+    expect(validateSpecDelta(SPEC, 'spec.md')).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports structural problems with line numbers', () => {
+    const content = [
+      '## Requirements',            // 1
+      '',
+      '## MODIFIED Requirements',   // 3
+      '',
+      '### Requirement: Login',     // 5
+      'Users can log in.',
+      '',
+      '### Scenario: Wrong level',  // 8
+      '',
+      '## REMOVED Requirements',    // 10
+    ].join('\n');
+
+    const result = validateSpecDelta(content, 'spec.md');
+
+    expect(result.errors.map(e => [e.line, e.message])).toEqual([
+      [1, 'Unknown delta section "## Requirements"; expected ADDED, MODIFIED, REMOVED or RENAMED Requirements'],
+      [5, 'Requirement "Login" must have at least one "#### Scenario:"'],
+      [10, '"## REMOVED Requirements" has no "### Requirement:" entries'],
+      [8, 'Scenario headers must use "#### Scenario: <name>"'],
+    ]);
+    expect(result.warnings.map(w => [w.line, w.message])).toEqual([
+      [5, 'Requirement "Login" should use SHALL or MUST'],
+    ]);
+  });
+
+  it('requires at least one delta section', () => {
+    expect(validateSpecDelta('# Notes\n', 'spec.md').errors).toEqual([
+      { file: 'spec.md', message: 'No delta sections found (e.g. "## ADDED Requirements")' },
+    ]);
+  });
+});
+
+describe('validateChange', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await createOpenSpecStructure(tempDir);
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  it('passes a complete change', async () => {
+    await createMockChange(tempDir, 'add-sync', { proposal: PROPOSAL, tasks: '## 1. Build\n- [x] 1.1 Sync\n' });
+    const specDir = join(tempDir, 'openspec', 'changes', 'add-sync', 'specs', 'cli');
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, 'spec.md'), SPEC);
+
+    const report = await validateChange({ projectRoot: tempDir, changeId: 'add-sync', checkTaskCompletion: true });
+
+    expect(report).toEqual({ changeId: 'add-sync', status: 'pass', errors: [], warnings: [] });
+  });
+
+  it('reports issues relative to the project root', async () => {
+    await createMockChange(tempDir, 'add-sync', { proposal: PROPOSAL });
+    const specDir = join(tempDir, 'openspec', 'changes', 'add-sync', 'specs', 'cli');
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, 'spec.md'), '## ADDED Requirements\n\n### Requirement: Sync\nThe CLI SHALL sync.\n');
+
+    const report = await validateChange({ projectRoot: tempDir, changeId: 'add-sync' });
+
+    expect(report.status).toBe('fail');
+    expect(report.errors.map(formatValidationIssue)).toEqual([
+      'openspec/changes/add-sync/specs/cli/spec.md:3: Requirement "Sync" must have at least one "#### Scenario:"',
+    ]);
+  });
+
+  it('reports deltas that do not apply to the canonical specs', async () => {
+    await createMockChange(tempDir, 'drop-sync', { proposal: PROPOSAL, tasks: '## 1. Build\n- [x] 1.1 Drop\n' });
+    const specDir = join(tempDir, 'openspec', 'changes', 'drop-sync', 'specs', 'cli');
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, 'spec.md'), '## REMOVED Requirements\n\n### Requirement: Sync Command\n');
+
+    const report = await validateChange({ projectRoot: tempDir, changeId: 'drop-sync' });
+
+    expect(report.errors.map(formatValidationIssue)).toEqual([
+      'openspec/changes/drop-sync/specs/cli/spec.md:3: Cannot remove "Sync Command": not found in cli spec',
+    ]);
+  });
+
+  it('warns when a change has no spec deltas', async () => {
+    await createMockChange(tempDir, 'tidy', { proposal: PROPOSAL });
+
+    const report = await validateChange({ projectRoot: tempDir, changeId: 'tidy' });
+
+    expect(report.status).toBe('pass_with_warnings');
+    expect(report.warnings).toEqual([
+      { file: 'openspec/changes/tidy/specs', message: 'Change has no spec deltas' },
+    ]);
+  });
+
+  it('fails on undeclared impact and warns on untouched declarations', async () => {
+    const proposal = PROPOSAL.replace('- Affected specs: cli\n', '- Affected specs: cli, auth\n- Affected code: `src/sync/`, docs/**/*.md\n');
+    await createMockChange(tempDir, 'add-sync', { proposal, tasks: '## 1. Build\n- [x] 1.1 Sync\n' });
+    const specDir = join(tempDir, 'openspec', 'changes', 'add-sync', 'specs', 'cli');
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, 'spec.md'), SPEC);
+
+    const report = await validateChange({
+      projectRoot: tempDir,
+      changeId: 'add-sync',
+      changedFiles: ['src/sync/index.ts', 'src/cli.ts', 'openspec/changes/add-sync/proposal.md'],
+    });
+
+    expect(report.status).toBe('fail');
+    expect(report.errors.map(formatValidationIssue)).toEqual([
+      'openspec/changes/add-sync/proposal.md:7: Changed files not covered by "Affected code": src/cli.ts',
+    ]);
+    expect(report.warnings.map(formatValidationIssue)).toEqual([
+      'openspec/changes/add-sync/proposal.md:7: "Affected code" lists docs/**/*.md but no changed file matches it',
+      'openspec/changes/add-sync/proposal.md:7: "Affected specs" lists "auth" but the change does not modify it',
+    ]);
+  });
+
+  it('throws for unknown changes', async () => {
+    await expect(validateChange({ projectRoot: tempDir, changeId: 'missing' })).rejects.toThrow("Change 'missing' not found");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Conflicts workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { conflictsWorkflow, formatChangeConflict } from '../../src/workflows/conflicts.js';
+import { createGitAdapter, type GitAdapter } from '../../src/adapters/git-adapter.js';
+import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import {
+  createTempDir,
+  removeTempDir,
+  initGitRepo,
+  createOpenSpecStructure,
+  createMockChange,
+} from '../helpers.js';
+
+describe('conflictsWorkflow', () => {
+  let tempDir: string;
+  let git: GitAdapter;
+  let base: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await initGitRepo(tempDir);
+    await createOpenSpecStructure(tempDir);
+    git = createGitAdapter(tempDir);
+    base = await git.getCurrentBranch();
+    await writeFile(join(tempDir, 'shared.ts'), 'export const value = 1;\n');
+    await git.add(['.']);
+    await git.commit('chore: setup');
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  /** Create a change with a spec delta, plus a branch editing files */
+  async function createChange(changeId: string, requirement: string, files: Record<string, string> | null) {
+    await createMockChange(tempDir, changeId, {
+      proposal: `## Why\nBecause.\n\n## Impact\n- Affected specs: cli\n`,
+    });
+    const deltaDir = join(tempDir, 'openspec', 'changes', changeId, 'specs', 'cli');
+    await mkdir(deltaDir, { recursive: true });
+    await writeFile(join(deltaDir, 'spec.md'), `## ADDED Requirements\n\n### Requirement: ${requirement}\nThe CLI SHALL work.\n`);
+    await git.add(['.']);
+    await git.commit(`docs: propose ${changeId}`);
+    if (!files) return;
+
+    await git.createBranch(`spec/${changeId}`);
+    for (const [file, content] of Object.entries(files)) {
+      await writeFile(join(tempDir, file), content);
+    }
+    await git.add(['.']);
+    await git.commit(`feat: ${changeId}`);
+    await git.checkout(base);
+  }
+
+  it('builds a matrix from shared files, specs and trial merges', async () => {
+    await createChange('add-a', 'Alpha', { 'shared.ts': 'export const value = 2;\n', 'a.ts': 'a' });
+    await createChange('add-b', 'Beta', { 'shared.ts': 'export const value = 3;\n' });
+    await createChange('add-c', 'Gamma', { 'c.ts': 'c' });
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+    const result = await conflictsWorkflow({ baseBranch: base }, { git, openspec });
+
+    expect(result.changes.map(c => [c.changeId, c.hasBranch, c.files, c.baseConflicts])).toEqual([
+      ['add-a', true, ['a.ts', 'shared.ts'], []],
+      ['add-b', true, ['shared.ts'], []],
+      ['add-c', true, ['c.ts'], []],
+    ]);
+    expect(result.matrix).toEqual([
+      ['none', 'conflict', 'overlap'],
+      ['conflict', 'none', 'overlap'],
+      ['overlap', 'overlap', 'none'],
+    ]);
+    expect(result.conflicts[0]).toEqual({
+      changes: ['add-a', 'add-b'],
+      level: 'conflict',
+      files: ['shared.ts'],
+      specs: ['cli'],
+      requirements: [],
+      mergeConflicts: ['shared.ts'],
+    });
+    expect(formatChangeConflict(result.conflicts[0])).toBe('merge conflict in shared.ts; both affect spec cli');
+  });
+
+  it('flags deltas touching the same requirement without branches', async () => {
+    await createChange('add-a', 'Sync', null);
+    await createChange('add-b', 'Sync', null);
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+    const result = await conflictsWorkflow({ baseBranch: base }, { git, openspec });
+
+    expect(result.changes.map(c => [c.changeId, c.hasBranch, c.files, c.baseConflicts])).toEqual([
+      ['add-a', false, [], null],
+      ['add-b', false, [], null],
+    ]);
+    expect(result.conflicts).toEqual([{
+      changes: ['add-a', 'add-b'],
+      level: 'conflict',
+      files: [],
+      specs: ['cli'],
+      requirements: ['cli: Sync'],
+      mergeConflicts: null,
+    }]);
+    expect(formatChangeConflict(result.conflicts[0])).toBe('same requirement cli: Sync; both affect spec cli');
+  });
+});
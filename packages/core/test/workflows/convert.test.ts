@@ -0,0 +1,122 @@
+/**
+ * Convert workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFile, readFile, realpath } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { convertWorkflow } from '../../src/workflows/convert.js';
+import { createGitAdapter, type GitAdapter } from '../../src/adapters/git-adapter.js';
+import { createEnvironmentRegistry, type EnvironmentAdapter } from '../../src/adapters/environment-adapter.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+import { createTempDir, removeTempDir, initGitRepo } from '../helpers.js';
+
+describe('convertWorkflow', () => {
+  let tempDir: string;
+  let git: GitAdapter;
+  let base: string;
+  let config: SpecLifeConfig;
+  const environmentRegistry = createEnvironmentRegistry();
+
+  beforeEach(async () => {
+    tempDir = await realpath(await createTempDir());
+    await initGitRepo(tempDir);
+    git = createGitAdapter(tempDir);
+    base = await git.getCurrentBranch();
+    config = { specDir: 'openspec', git: { baseBranch: base } } as SpecLifeConfig;
+
+    await git.createBranch('spec/add-cache');
+    await writeFile(join(tempDir, 'cache.ts'), 'cache');
+    await git.add(['cache.ts']);
+    await git.commit('feat: add cache');
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  /** Staged, unstaged and untracked work in progress */
+  async function makeChanges(dir: string) {
+    await writeFile(join(dir, 'cache.ts'), 'staged');
+    await createGitAdapter(dir).add(['cache.ts']);
+    await writeFile(join(dir, 'README.md'), 'edited');
+    await writeFile(join(dir, 'notes.md'), 'untracked');
+  }
+
+  async function expectChanges(dir: string) {
+    expect(await createGitAdapter(dir).status()).toMatchObject({
+      staged: ['cache.ts'],
+      unstaged: expect.arrayContaining(['README.md']),
+      untracked: ['notes.md'],
+    });
+    expect(await readFile(join(dir, 'notes.md'), 'utf-8')).toBe('untracked');
+  }
+
+  it('moves the current branch into a worktree with its uncommitted changes', async () => {
+    await makeChanges(tempDir);
+
+    const result = await convertWorkflow({ to: 'worktree' }, { git, config, environmentRegistry });
+
+    const worktreePath = join(tempDir, 'worktrees', 'add-cache');
+    expect(result).toEqual({
+      changeId: 'add-cache',
+      branch: 'spec/add-cache',
+      mode: 'worktree',
+      worktreePath,
+      mainPath: tempDir,
+      carriedChanges: true,
+      bootstrapResults: [],
+    });
+    expect(await git.getCurrentBranch()).toBe(base);
+    expect(await createGitAdapter(worktreePath).getCurrentBranch()).toBe('spec/add-cache');
+    await expectChanges(worktreePath);
+  });
+
+  it('moves a worktree back into the main repository', async () => {
+    await convertWorkflow({ to: 'worktree' }, { git, config, environmentRegistry });
+    const worktreePath = join(tempDir, 'worktrees', 'add-cache');
+    await makeChanges(worktreePath);
+
+    const result = await convertWorkflow(
+      { to: 'branch' },
+      { git: createGitAdapter(worktreePath), config, environmentRegistry }
+    );
+
+    expect(result).toMatchObject({ mode: 'branch', worktreePath, carriedChanges: true });
+    expect(existsSync(worktreePath)).toBe(false);
+    expect(await git.getCurrentBranch()).toBe('spec/add-cache');
+    await expectChanges(tempDir);
+  });
+
+  it('refuses to convert into the mode the change is already in', async () => {
+    await expect(convertWorkflow({ to: 'branch' }, { git, config, environmentRegistry }))
+      .rejects.toThrow(/already checked out in the main repository/);
+
+    await git.checkout(base);
+    await expect(convertWorkflow({ to: 'worktree' }, { git, config, environmentRegistry }))
+      .rejects.toThrow(/not a change branch/);
+  });
+
+  it('rolls back when bootstrapping fails', async () => {
+    const failing: EnvironmentAdapter = {
+      name: 'broken',
+      displayName: 'Broken',
+      priority: 1,
+      detect: vi.fn().mockResolvedValue({ name: 'broken', confidence: 1, markerFiles: [] }),
+      bootstrap: vi.fn().mockRejectedValue(new Error('install failed')),
+      cleanup: vi.fn().mockResolvedValue(undefined),
+    };
+    await makeChanges(tempDir);
+
+    await expect(convertWorkflow(
+      { to: 'worktree' },
+      { git, config, environmentRegistry: createEnvironmentRegistry([failing]) }
+    )).rejects.toThrow('install failed');
+
+    expect(existsSync(join(tempDir, 'worktrees', 'add-cache'))).toBe(false);
+    expect(await git.getCurrentBranch()).toBe('spec/add-cache');
+    expect(failing.cleanup).toHaveBeenCalled();
+    await expectChanges(tempDir);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * History workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getChangeHistory, buildActivityTimeline, isStale } from '../../src/workflows/history.js';
+import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import { createGitAdapter } from '../../src/adapters/git-adapter.js';
+import {
+  createTempDir,
+  removeTempDir,
+  initGitRepo,
+  createOpenSpecStructure,
+  createMockChange,
+} from '../helpers.js';
+
+describe('getChangeHistory', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await initGitRepo(tempDir);
+    await createOpenSpecStructure(tempDir);
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  it('returns empty history for uncommitted changes', async () => {
+    await createMockChange(tempDir, 'draft-change');
+    const git = createGitAdapter(tempDir);
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+    const history = await getChangeHistory({ changeId: 'draft-change' }, { git, openspec });
+
+    expect(history.commits).toEqual([]);
+    expect(history.createdAt).toBeUndefined();
+    expect(history.lastActive).toBeUndefined();
+  });
+
+  it('uses spec commits for creation and branch commits for activity', async () => {
+    const git = createGitAdapter(tempDir);
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+    const base = await git.getCurrentBranch();
+
+    await git.createBranch('spec/tracked-change');
+    await createMockChange(tempDir, 'tracked-change');
+    await git.add(['.']);
+    await git.commit('docs: propose tracked-change');
+    await writeFile(join(tempDir, 'feature.ts'), 'export const x = 1;\n');
+    await git.add(['feature.ts']);
+    await git.commit('feat: implement tracked-change');
+
+    const history = await getChangeHistory(
+      { changeId: 'tracked-change', branch: 'spec/tracked-change', baseBranch: base },
+      { git, openspec }
+    );
+
+    expect(history.firstCommit!.message).toBe('docs: propose tracked-change');
+    expect(history.commits.map(c => c.message)).toContain('feat: implement tracked-change');
+    expect(history.createdAt).toEqual(history.firstCommit!.date);
+    expect(history.lastActive).toEqual(history.lastCommit!.date);
+  });
+
+  it('follows the change into the archive', async () => {
+    const git = createGitAdapter(tempDir);
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+    await createMockChange(tempDir, 'archived-change');
+    await git.add(['.']);
+    await git.commit('docs: propose archived-change');
+    await openspec.archiveChange('archived-change');
+    await git.add(['.']);
+    await git.commit('chore: archive archived-change');
+
+    const history = await getChangeHistory({ changeId: 'archived-change' }, { git, openspec });
+
+    expect(history.commits.map(c => c.message)).toEqual([
+      'chore: archive archived-change',
+      'docs: propose archived-change',
+    ]);
+  });
+});
+
+describe('buildActivityTimeline', () => {
+  it('merges commits and transitions newest first', () => {
+    const timeline = buildActivityTimeline(
+      [{ sha: 'abc1234', message: 'feat: x', author: 'A', date: new Date('2026-01-02T00:00:00Z') }],
+      [
+        { from: null, to: 'created', at: new Date('2026-01-01T00:00:00Z') },
+        { from: 'created', to: 'implementing', at: new Date('2026-01-03T00:00:00Z') },
+      ]
+    );
+
+    expect(timeline.map(a => a.message)).toEqual(['created → implementing', 'feat: x', 'created']);
+    expect(timeline[1].type).toBe('commit');
+  });
+});
+
+describe('isStale', () => {
+  const now = new Date('2026-02-01T00:00:00Z');
+
+  it('is false without activity data', () => {
+    expect(isStale(undefined, 14, now)).toBe(false);
+  });
+
+  it('flags changes idle longer than the threshold', () => {
+    expect(isStale(new Date('2026-01-10T00:00:00Z'), 14, now)).toBe(true);
+    expect(isStale(new Date('2026-01-25T00:00:00Z'), 14, now)).toBe(false);
+  });
+});
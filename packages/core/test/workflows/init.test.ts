@@ -84,6 +84,23 @@ describe('initWorkflow', () => {
       expect(git.createBranch).toHaveBeenCalledWith('spec/test-feature', 'main');
     });
 
+    it('honors a configured branch pattern', async () => {
+      await createSpecLifeConfig(tempDir, {
+        git: { branchPrefix: 'feature/spec-' },
+      });
+      const git = createMockGitAdapter();
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+      const config = await loadConfig(tempDir);
+
+      const result = await initWorkflow(
+        { changeId: 'test-feature', noWorktree: true },
+        { git, openspec, config }
+      );
+
+      expect(result.branch).toBe('feature/spec-test-feature');
+      expect(git.createBranch).toHaveBeenCalledWith('feature/spec-test-feature', 'main');
+    });
+
     it('throws when branch already exists', async () => {
       const git = createMockGitAdapter({ branchExists: vi.fn().mockResolvedValue(true) });
       const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
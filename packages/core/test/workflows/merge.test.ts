@@ -6,11 +6,14 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { mergeWorkflow } from '../../src/workflows/merge.js';
+import { createFakeForgeAdapter, type FakeForgeAdapter } from '../../src/adapters/fake-forge-adapter.js';
 import { 
   createMockGitAdapter, 
   createMockGitHubAdapter,
+  createMockOpenSpecAdapter,
   type MockGitAdapter,
   type MockGitHubAdapter,
+  type MockOpenSpecAdapter,
 } from '../helpers.js';
 import type { SpecLifeConfig } from '../../src/config.js';
 import { SpecLifeError } from '../../src/types.js';
@@ -18,6 +21,7 @@ import { SpecLifeError } from '../../src/types.js';
 describe('mergeWorkflow', () => {
   let mockGit: MockGitAdapter;
   let mockGithub: MockGitHubAdapter;
+  let mockOpenspec: MockOpenSpecAdapter;
   let mockConfig: SpecLifeConfig;
 
   beforeEach(() => {
@@ -40,6 +44,7 @@ describe('mergeWorkflow', () => {
       isPullRequestMergeable: vi.fn().mockResolvedValue({ mergeable: true }),
       mergePullRequest: vi.fn().mockResolvedValue(undefined),
     });
+    mockOpenspec = createMockOpenSpecAdapter();
     mockConfig = {
       specDir: 'openspec',
       aiProvider: 'claude',
@@ -59,7 +64,7 @@ describe('mergeWorkflow', () => {
 
       await expect(mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       )).rejects.toThrow(SpecLifeError);
     });
 
@@ -73,7 +78,7 @@ describe('mergeWorkflow', () => {
 
       await expect(mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       )).rejects.toThrow(/already merged/);
     });
 
@@ -85,7 +90,7 @@ describe('mergeWorkflow', () => {
 
       await expect(mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       )).rejects.toThrow(/not mergeable/);
     });
   });
@@ -94,7 +99,7 @@ describe('mergeWorkflow', () => {
     it('merges with squash by default', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGithub.mergePullRequest).toHaveBeenCalledWith(42, 'squash');
@@ -103,7 +108,7 @@ describe('mergeWorkflow', () => {
     it('merges with specified method', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature', method: 'rebase' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGithub.mergePullRequest).toHaveBeenCalledWith(42, 'rebase');
@@ -116,18 +121,187 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.pullRequest.number).toBe(42);
     });
+
+    it('records the merged state once the PR is merged', async () => {
+      mockOpenspec.readMetadata.mockResolvedValue({
+        state: 'submitted',
+        transitions: [{ from: null, to: 'created', at: new Date('2026-01-01T00:00:00Z') }],
+      });
+
+      await mergeWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      const [changeId, metadata] = mockOpenspec.writeMetadata.mock.calls[0];
+      expect(changeId).toBe('add-feature');
+      expect(metadata.state).toBe('merged');
+      expect(metadata.transitions.at(-1)).toMatchObject({ from: 'submitted', to: 'merged' });
+      expect(mockOpenspec.writeMetadata.mock.invocationCallOrder[0])
+        .toBeGreaterThan(mockGithub.mergePullRequest.mock.invocationCallOrder[0]);
+    });
+
+    it('looks up the PR using the configured branch pattern', async () => {
+      mockConfig.git = { branchPattern: '{user}/{changeId}' };
+
+      const result = await mergeWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockGithub.getPullRequestByBranch).toHaveBeenCalledWith('test-user/add-feature');
+      expect(result.branch).toBe('test-user/add-feature');
+    });
+
+    it('prefers the branch recorded in the change metadata', async () => {
+      mockConfig.git = { branchPattern: '{user}/{changeId}' };
+      mockOpenspec.readMetadata.mockResolvedValue({ state: 'submitted', transitions: [], branch: 'spec/add-feature' });
+
+      const result = await mergeWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockGithub.getPullRequestByBranch).toHaveBeenCalledWith('spec/add-feature');
+      expect(result.branch).toBe('spec/add-feature');
+    });
+  });
+
+  describe('waiting for checks', () => {
+    let forge: FakeForgeAdapter;
+
+    beforeEach(async () => {
+      forge = createFakeForgeAdapter();
+      await forge.createPullRequest({ title: 'Add feature', body: '', head: 'spec/add-feature', base: 'main' });
+    });
+
+    it('polls until pending checks pass, then merges', async () => {
+      forge.checks.set(1, [
+        { name: 'build', state: 'success' },
+        { name: 'test', state: 'pending', url: 'https://ci.test/test' },
+      ]);
+      const progressFn = vi.fn((event: { message: string }) => {
+        if (event.message.startsWith('Waiting')) forge.checks.get(1)![1].state = 'success';
+      });
+
+      const result = await mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true, pollInterval: 0 },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig },
+        progressFn
+      );
+
+      expect(progressFn).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Waiting for 1 of 2 check(s) on PR #1: test',
+      }));
+      expect(result).toMatchObject({ queued: false, checks: { state: 'success' } });
+      expect(forge.merges).toEqual([{ number: 1, method: 'squash' }]);
+    });
+
+    it('reports failed checks with their URLs', async () => {
+      forge.checks.set(1, [
+        { name: 'lint', state: 'failure', url: 'https://ci.test/lint' },
+        { name: 'test', state: 'pending' },
+      ]);
+
+      await expect(mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig }
+      )).rejects.toMatchObject({
+        code: 'CHECKS_FAILED',
+        message: 'Checks failed on PR #1:\n  - lint (https://ci.test/lint)',
+      });
+      expect(forge.merges).toEqual([]);
+    });
+
+    it('keeps polling until the first check is reported', async () => {
+      const progressFn = vi.fn((event: { message: string }) => {
+        if (event.message.startsWith('Waiting for checks to start')) forge.checks.set(1, [{ name: 'build', state: 'failure' }]);
+      });
+
+      await expect(mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true, pollInterval: 0 },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig },
+        progressFn
+      )).rejects.toMatchObject({ code: 'CHECKS_FAILED' });
+      expect(forge.merges).toEqual([]);
+    });
+
+    it('merges a PR without checks once the grace period passes', async () => {
+      const progressFn = vi.fn();
+
+      await mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true, pollInterval: 0, checksGracePeriod: 0 },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig },
+        progressFn
+      );
+
+      expect(progressFn).toHaveBeenCalledWith(expect.objectContaining({ message: 'No checks reported on PR #1' }));
+      expect(forge.merges).toEqual([{ number: 1, method: 'squash' }]);
+    });
+
+    it('waits for mergeability to be computed after checks pass', async () => {
+      forge.checks.set(1, [{ name: 'build', state: 'success' }]);
+      forge.pullRequests.get(1)!.mergeable = null;
+      const progressFn = vi.fn((event: { message: string }) => {
+        if (event.message.includes('can be merged')) forge.pullRequests.get(1)!.mergeable = true;
+      });
+
+      await mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true, pollInterval: 0 },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig },
+        progressFn
+      );
+
+      expect(forge.merges).toEqual([{ number: 1, method: 'squash' }]);
+    });
+
+    it('gives up after the timeout', async () => {
+      forge.checks.set(1, [{ name: 'deploy-preview', state: 'pending' }]);
+
+      await expect(mergeWorkflow(
+        { changeId: 'add-feature', waitForChecks: true, checksTimeout: 0 },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig }
+      )).rejects.toMatchObject({ code: 'CHECKS_TIMEOUT', message: expect.stringContaining('deploy-preview') });
+    });
+  });
+
+  describe('merge queue', () => {
+    it('queues the PR and leaves the branch in place', async () => {
+      const forge = createFakeForgeAdapter({ mergeQueue: true });
+      await forge.createPullRequest({ title: 'Add feature', body: '', head: 'spec/add-feature', base: 'main' });
+
+      const result = await mergeWorkflow(
+        { changeId: 'add-feature', mergeQueue: true },
+        { git: mockGit, github: forge, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(result).toMatchObject({ queued: true, mainSynced: false, branchDeleted: false, restacked: [] });
+      expect(forge.queue).toEqual([1]);
+      expect(forge.merges).toEqual([]);
+      expect(mockGit.checkout).not.toHaveBeenCalled();
+    });
+
+    it('fails when the repository has no merge queue', async () => {
+      mockGithub.enqueuePullRequest = vi.fn().mockResolvedValue(false);
+
+      await expect(mergeWorkflow(
+        { changeId: 'add-feature', mergeQueue: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      )).rejects.toThrow(/merge queue/);
+      expect(mockGithub.mergePullRequest).not.toHaveBeenCalled();
+    });
   });
 
   describe('main branch sync', () => {
     it('checks out base branch after merge', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.checkout).toHaveBeenCalledWith('main');
@@ -136,7 +310,7 @@ describe('mergeWorkflow', () => {
     it('pulls latest from origin', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.pull).toHaveBeenCalledWith('origin', 'main');
@@ -147,7 +321,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.mainSynced).toBe(false);
@@ -156,7 +330,7 @@ describe('mergeWorkflow', () => {
     it('reports mainSynced true on success', async () => {
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.mainSynced).toBe(true);
@@ -167,7 +341,7 @@ describe('mergeWorkflow', () => {
     it('deletes local branch by default', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.deleteBranch).toHaveBeenCalledWith('spec/add-feature', true);
@@ -176,7 +350,7 @@ describe('mergeWorkflow', () => {
     it('skips branch deletion when deleteBranch is false', async () => {
       await mergeWorkflow(
         { changeId: 'add-feature', deleteBranch: false },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.deleteBranch).not.toHaveBeenCalled();
@@ -187,7 +361,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.branchDeleted).toBe(false);
@@ -196,13 +370,34 @@ describe('mergeWorkflow', () => {
     it('reports branchDeleted true on success', async () => {
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.branchDeleted).toBe(true);
     });
   });
 
+  describe('restacking', () => {
+    it('reports no restacked changes without dependents', async () => {
+      const result = await mergeWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(result.restacked).toEqual([]);
+      expect(mockGit.rebaseOnto).not.toHaveBeenCalled();
+    });
+
+    it('skips restacking when restack is false', async () => {
+      await mergeWorkflow(
+        { changeId: 'add-feature', restack: false },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockGit.resolveRef).not.toHaveBeenCalled();
+    });
+  });
+
   describe('worktree cleanup', () => {
     it('removes worktree when present', async () => {
       mockGit.listWorktrees.mockResolvedValue([
@@ -211,7 +406,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.removeWorktree).toHaveBeenCalledWith('/worktrees/add-feature');
@@ -226,7 +421,7 @@ describe('mergeWorkflow', () => {
 
       await mergeWorkflow(
         { changeId: 'add-feature', removeWorktree: false },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.removeWorktree).not.toHaveBeenCalled();
@@ -237,7 +432,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(mockGit.removeWorktree).not.toHaveBeenCalled();
@@ -252,7 +447,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.worktreeRemoved).toBe(false);
@@ -265,7 +460,7 @@ describe('mergeWorkflow', () => {
 
       const result = await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig }
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
       );
 
       expect(result.repoPath).toBe('/main/repo');
@@ -278,7 +473,7 @@ describe('mergeWorkflow', () => {
 
       await mergeWorkflow(
         { changeId: 'add-feature' },
-        { git: mockGit, github: mockGithub, config: mockConfig },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig },
         progressFn
       );
 
@@ -0,0 +1,105 @@
+/**
+ * PR sync workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { syncPullRequestTasksWorkflow } from '../../src/workflows/pr-sync.js';
+import { createFakeForgeAdapter, type FakeForgeAdapter } from '../../src/adapters/fake-forge-adapter.js';
+import { createOpenSpecAdapter, type OpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import { setTaskCompleted } from '../../src/utils/tasks-document.js';
+import {
+  createTempDir,
+  removeTempDir,
+  createOpenSpecStructure,
+  createMockChange,
+  createMockGitAdapter,
+  type MockGitAdapter,
+} from '../helpers.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+
+const TASKS = '## 1. Cache\n- [ ] 1.1 Add cache\n- [ ] 1.2 Add docs\n';
+
+describe('syncPullRequestTasksWorkflow', () => {
+  let tempDir: string;
+  let tasksPath: string;
+  let git: MockGitAdapter;
+  let forge: FakeForgeAdapter;
+  let openspec: OpenSpecAdapter;
+  const config = {} as SpecLifeConfig;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await createOpenSpecStructure(tempDir);
+    await createMockChange(tempDir, 'add-cache', { tasks: TASKS });
+    tasksPath = join(tempDir, 'openspec', 'changes', 'add-cache', 'tasks.md');
+    git = createMockGitAdapter();
+    forge = createFakeForgeAdapter();
+    openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  function sync(options: { prNumber?: number } = {}) {
+    return syncPullRequestTasksWorkflow({ changeId: 'add-cache', ...options }, { git, github: forge, openspec, config });
+  }
+
+  it('adds the checklist to a PR without one', async () => {
+    await forge.createPullRequest({ title: 'Add cache', body: '## Why\nFaster\n\n---\n*Created with SpecLife*', head: 'spec/add-cache', base: 'main' });
+
+    const result = await sync();
+
+    expect(result).toMatchObject({ checked: [], unchecked: [], updated: true });
+    expect(result.pullRequest.body).toContain('- [ ] 1.1 Add cache <!-- task:1.1 -->');
+    expect(result.pullRequest.body).toMatch(/<!-- speclife:tasks:end .* -->\n\n---\n\*Created with SpecLife\*$/);
+  });
+
+  it('pulls toggles made in the PR and pushes local ones', async () => {
+    await forge.createPullRequest({ title: 'Add cache', body: '', head: 'spec/add-cache', base: 'main' });
+    await sync();
+    // Reviewer ticks 1.1 in the web UI while 1.2 is checked off locally
+    const pr = forge.pullRequests.get(1)!;
+    await forge.updatePullRequest(1, { body: pr.body.replace('- [ ] 1.1', '- [x] 1.1') });
+    await openspec.editTasks('add-cache', doc => setTaskCompleted(doc, '1.2', true));
+
+    const result = await sync({ prNumber: 1 });
+
+    expect(result).toMatchObject({ checked: ['1.1'], unchecked: [], updated: true });
+    expect(await readFile(tasksPath, 'utf-8')).toBe('## 1. Cache\n- [x] 1.1 Add cache\n- [x] 1.2 Add docs\n');
+    expect(result.pullRequest.body).toContain('- [x] 1.2 Add docs <!-- task:1.2 -->');
+    expect((await sync()).updated).toBe(false);
+  });
+
+  it('lets the most recently changed side win without a synced state', async () => {
+    const body = '<!-- speclife:tasks:start -->\n- [x] 1.1 Add cache <!-- task:1.1 -->\n<!-- speclife:tasks:end -->';
+    await forge.createPullRequest({ title: 'Add cache', body, head: 'spec/add-cache', base: 'main' });
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    git.getHistory.mockResolvedValue([{ sha: 'abc1234', author: 'Test User', date: hourAgo, message: 'docs: add tasks' }]);
+
+    const result = await sync();
+
+    expect(git.getHistory).toHaveBeenCalledWith({ paths: [tasksPath] });
+    expect(result.checked).toEqual(['1.1']);
+    expect(await readFile(tasksPath, 'utf-8')).toContain('- [x] 1.1 Add cache');
+  });
+
+  it('only pulls toggles when the description is not to be updated', async () => {
+    const body = '<!-- speclife:tasks:start -->\n- [x] 1.1 Add cache <!-- task:1.1 -->\n<!-- speclife:tasks:end {"completed":[],"open":["1.1","1.2"]} -->';
+    await forge.createPullRequest({ title: 'Add cache', body, head: 'spec/add-cache', base: 'main' });
+
+    const result = await syncPullRequestTasksWorkflow(
+      { changeId: 'add-cache', updateDescription: false },
+      { git, github: forge, openspec, config }
+    );
+
+    expect(result).toMatchObject({ checked: ['1.1'], updated: false });
+    expect(forge.pullRequests.get(1)!.body).toBe(body);
+  });
+
+  it('throws when the change branch has no open PR', async () => {
+    await expect(sync()).rejects.toMatchObject({ code: 'CHANGE_NOT_FOUND' });
+  });
+});
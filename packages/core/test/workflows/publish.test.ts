@@ -0,0 +1,139 @@
+/**
+ * Publish workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { publishReleaseWorkflow } from '../../src/workflows/publish.js';
+import { createFakeForgeAdapter, type FakeForgeAdapter } from '../../src/adapters/fake-forge-adapter.js';
+import { createTempDir, removeTempDir, createMockGitAdapter, type MockGitAdapter } from '../helpers.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+
+async function writePackage(dir: string, pkg: Record<string, unknown>): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, 'package.json'), JSON.stringify(pkg, null, 2) + '\n');
+}
+
+describe('publishReleaseWorkflow', () => {
+  let tempDir: string;
+  let git: MockGitAdapter;
+  let forge: FakeForgeAdapter;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await writePackage(tempDir, { name: 'acme', version: '1.1.0' });
+    await writeFile(
+      join(tempDir, 'CHANGELOG.md'),
+      '# Changelog\n\n## [1.1.0](../../releases/tag/v1.1.0) (2026-02-01)\n\n### Features\n\n* add widget\n\n' +
+        '## [1.0.0](../../releases/tag/v1.0.0) (2026-01-01)\n\n* first\n'
+    );
+    git = createMockGitAdapter();
+    forge = createFakeForgeAdapter();
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  it('tags HEAD, pushes the tag and publishes the changelog section', async () => {
+    const result = await publishReleaseWorkflow({}, { git, github: forge, repoPath: tempDir });
+
+    expect(git.createTag).toHaveBeenCalledWith('v1.1.0', 'Release v1.1.0');
+    expect(git.push).toHaveBeenCalledWith('origin', 'refs/tags/v1.1.0', false);
+    expect(forge.releases.get('v1.1.0')).toMatchObject({
+      name: 'v1.1.0',
+      body: '### Features\n\n* add widget',
+      prerelease: false,
+    });
+    expect(result.releases).toEqual([{
+      tag: 'v1.1.0',
+      version: '1.1.0',
+      prerelease: false,
+      tagCreated: true,
+      releaseCreated: true,
+      url: 'https://forge.test/owner/repo/releases/tag/v1.1.0',
+      uploaded: [],
+    }]);
+  });
+
+  it('attaches artifacts and marks prereleases', async () => {
+    await writeFile(join(tempDir, 'acme.tgz'), 'tarball');
+
+    await publishReleaseWorkflow(
+      { version: 'v2.0.0-rc.1', notes: 'Release candidate', artifacts: ['acme.tgz'] },
+      { git, github: forge, repoPath: tempDir }
+    );
+
+    expect(forge.releases.get('v2.0.0-rc.1')).toMatchObject({
+      body: 'Release candidate',
+      prerelease: true,
+      assets: ['acme.tgz'],
+    });
+  });
+
+  it('skips the tag and release when they exist, uploading only missing artifacts', async () => {
+    await writeFile(join(tempDir, 'acme.tgz'), 'tarball');
+    await writeFile(join(tempDir, 'acme.zip'), 'zip');
+    await forge.createRelease({ tag: 'v1.1.0', name: 'v1.1.0', body: 'Notes' });
+    await forge.uploadReleaseAsset('v1.1.0', 'acme.tgz');
+
+    const result = await publishReleaseWorkflow(
+      { artifacts: ['acme.tgz', 'acme.zip'] },
+      { git, github: forge, repoPath: tempDir }
+    );
+
+    expect(git.createTag).not.toHaveBeenCalled();
+    expect(git.push).not.toHaveBeenCalled();
+    expect(forge.releases.get('v1.1.0')?.assets).toEqual(['acme.tgz', 'acme.zip']);
+    expect(result.releases[0]).toMatchObject({
+      tagCreated: false,
+      releaseCreated: false,
+      uploaded: [join(tempDir, 'acme.zip')],
+    });
+  });
+
+  it('pushes an existing local tag without recreating it', async () => {
+    git.tagExists = vi.fn().mockResolvedValue(true);
+
+    const result = await publishReleaseWorkflow({}, { git, github: forge, repoPath: tempDir });
+
+    expect(git.createTag).not.toHaveBeenCalled();
+    expect(git.push).toHaveBeenCalledWith('origin', 'refs/tags/v1.1.0', false);
+    expect(result.releases[0]).toMatchObject({ tagCreated: false, releaseCreated: true });
+  });
+
+  it('reports the plan in a dry run without changing anything', async () => {
+    const result = await publishReleaseWorkflow({ dryRun: true }, { git, github: forge, repoPath: tempDir });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.releases[0]).toMatchObject({ tag: 'v1.1.0', tagCreated: true, releaseCreated: true });
+    expect(git.createTag).not.toHaveBeenCalled();
+    expect(forge.releases.size).toBe(0);
+  });
+
+  it('publishes a release per package with independent versioning', async () => {
+    await writePackage(tempDir, { name: 'acme', version: '1.1.0', private: true, workspaces: ['libs/*'] });
+    await writePackage(join(tempDir, 'libs', 'a'), { name: '@acme/a', version: '1.2.0' });
+    await writeFile(join(tempDir, 'libs', 'a', 'CHANGELOG.md'), '## [@acme/a@1.2.0](link) (2026-02-01)\n\n* faster a\n');
+    await writePackage(join(tempDir, 'libs', 'b'), { name: '@acme/b', version: '0.3.0' });
+    await forge.createRelease({ tag: '@acme/b@0.3.0', name: '@acme/b@0.3.0', body: 'Notes' });
+    const config = { release: { versioning: 'independent' } } as SpecLifeConfig;
+
+    const result = await publishReleaseWorkflow({}, { git, github: forge, repoPath: tempDir, config });
+
+    expect(result.releases.map(r => [r.tag, r.releaseCreated])).toEqual([
+      ['@acme/a@1.2.0', true],
+      ['@acme/b@0.3.0', false],
+    ]);
+    expect(forge.releases.get('@acme/a@1.2.0')?.body).toBe('* faster a');
+    expect(git.createTag).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails before tagging when an artifact is missing', async () => {
+    await expect(
+      publishReleaseWorkflow({ artifacts: ['missing.tgz'] }, { git, github: forge, repoPath: tempDir })
+    ).rejects.toMatchObject({ code: 'CONFIG_INVALID' });
+    expect(git.createTag).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Release workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  releaseWorkflow,
+  updateDependencyRange,
+  planPackageVersions,
+  bumpVersion,
+  promoteVersion,
+  mapCommitsToPackages,
+  generateChangelog,
+  generateReleaseNotes,
+} from '../../src/workflows/release.js';
+import type { ArchivedChange } from '../../src/types.js';
+
+function archivedChange(id: string, why: string, affectedSpecs: string[] = [], whatChanges: string[] = []): ArchivedChange {
+  return {
+    id,
+    archivedOn: '2026-01-30',
+    path: `/archive/2026-01-30-${id}`,
+    proposal: { why, whatChanges, impact: { affectedSpecs, affectedCode: [] } },
+  };
+}
+import {
+  createTempDir,
+  removeTempDir,
+  createMockGitAdapter,
+  createMockGitHubAdapter,
+  type MockGitAdapter,
+  type MockGitHubAdapter,
+} from '../helpers.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+
+async function writePackage(dir: string, pkg: Record<string, unknown>): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, 'package.json'), JSON.stringify(pkg, null, 2) + '\n');
+}
+
+async function readPackage(dir: string): Promise<Record<string, any>> {
+  return JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'));
+}
+
+describe('bumpVersion', () => {
+  it('bumps stable versions', () => {
+    expect(bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+    expect(bumpVersion('v1.2.3', 'minor')).toBe('1.3.0');
+    expect(bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+  });
+
+  it('starts a prerelease channel', () => {
+    expect(bumpVersion('1.4.2', 'major', 'rc')).toBe('2.0.0-rc.1');
+    expect(bumpVersion('1.4.2', 'minor', 'alpha')).toBe('1.5.0-alpha.1');
+  });
+
+  it('increments the number on the same channel', () => {
+    expect(bumpVersion('2.0.0-rc.1', 'major', 'rc')).toBe('2.0.0-rc.2');
+  });
+
+  it('moves to a later channel keeping the target version', () => {
+    expect(bumpVersion('2.0.0-beta.3', 'patch', 'rc')).toBe('2.0.0-rc.1');
+  });
+
+  it('refuses to move back a channel', () => {
+    expect(() => bumpVersion('2.0.0-rc.1', 'patch', 'beta')).toThrow(/back to beta/);
+  });
+
+  it('completes a prerelease with the bump it was heading for', () => {
+    expect(bumpVersion('2.0.0-rc.2', 'major')).toBe('2.0.0');
+    expect(bumpVersion('1.5.0-beta.1', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.5.0-beta.1', 'major')).toBe('2.0.0');
+  });
+
+  it('rejects invalid versions', () => {
+    expect(() => bumpVersion('latest', 'patch')).toThrow(/Invalid version format/);
+  });
+});
+
+describe('promoteVersion', () => {
+  it('drops the prerelease suffix', () => {
+    expect(promoteVersion('2.0.0-rc.2')).toBe('2.0.0');
+  });
+
+  it('rejects stable versions', () => {
+    expect(() => promoteVersion('2.0.0')).toThrow(/not a prerelease/);
+  });
+});
+
+describe('generateChangelog', () => {
+  const commits = [
+    { sha: 'abc1234def', message: 'feat: add sync (#42)', type: 'feat', isBreaking: false },
+    { sha: 'fed4321cba', message: 'fix: handle empty tasks', type: 'fix', isBreaking: false },
+  ];
+
+  it('uses relative release links without a repository URL', () => {
+    const changelog = generateChangelog(commits, '1.2.0', { date: '2026-02-01' });
+
+    expect(changelog).toContain('## [1.2.0](../../releases/tag/v1.2.0) (2026-02-01)');
+    expect(changelog).toContain('* add sync (#42)\n');
+  });
+
+  it('links commits, pull requests and the release to the repository', () => {
+    const changelog = generateChangelog(commits, '1.2.0', { repoUrl: 'https://github.com/o/r', date: '2026-02-01' });
+
+    expect(changelog).toContain('## [1.2.0](https://github.com/o/r/releases/tag/v1.2.0) (2026-02-01)');
+    expect(changelog).toContain(
+      '* add sync ([#42](https://github.com/o/r/pull/42)) ([abc1234](https://github.com/o/r/commit/abc1234def))'
+    );
+  });
+
+  it('links merge requests on GitLab', () => {
+    const changelog = generateChangelog(commits, '1.2.0', { repoUrl: 'https://gitlab.com/g/r', forge: 'gitlab' });
+
+    expect(changelog).toContain('* add sync ([#42](https://gitlab.com/g/r/-/merge_requests/42))');
+  });
+
+  it('explains the release with the Why of shipped changes', () => {
+    const changelog = generateChangelog(commits, '1.2.0', {
+      changes: [archivedChange('add-sync', 'Branches drift\nfrom main.')],
+    });
+
+    expect(changelog).toContain('* **add-sync**: Branches drift from main.');
+    expect(changelog.indexOf('### Spec Changes')).toBeLessThan(changelog.indexOf('### Features'));
+  });
+
+  it('orders and limits sections by source', () => {
+    const changes = [archivedChange('add-sync', 'Branches drift.')];
+
+    const commitsOnly = generateChangelog(commits, '1.2.0', { changes, sources: ['commits'] });
+    expect(commitsOnly).not.toContain('### Spec Changes');
+    expect(commitsOnly).toContain('### Features');
+
+    const commitsFirst = generateChangelog(commits, '1.2.0', { changes, sources: ['commits', 'changes'] });
+    expect(commitsFirst.indexOf('### Features')).toBeLessThan(commitsFirst.indexOf('### Spec Changes'));
+  });
+});
+
+describe('generateReleaseNotes', () => {
+  it('returns nothing without changes', () => {
+    expect(generateReleaseNotes([])).toBe('');
+  });
+
+  it('groups changes by affected specs with their why and what changes', () => {
+    const notes = generateReleaseNotes([
+      archivedChange('add-sync', 'Branches drift.', ['git-workflow'], ['Add sync command', 'Add MCP tool']),
+      archivedChange('tidy-docs', 'Docs are stale.'),
+      archivedChange('add-oauth', 'Users need SSO.', ['session', 'auth']),
+      archivedChange('fix-rebase', 'Rebases lose tasks.', ['git-workflow']),
+    ]);
+
+    expect(notes).toBe([
+      '### Spec Changes',
+      '',
+      '#### auth, session',
+      '',
+      '* **add-oauth**: Users need SSO.',
+      '',
+      '#### git-workflow',
+      '',
+      '* **add-sync**: Branches drift.',
+      '  * Add sync command',
+      '  * Add MCP tool',
+      '* **fix-rebase**: Rebases lose tasks.',
+      '',
+      '#### General',
+      '',
+      '* **tidy-docs**: Docs are stale.',
+    ].join('\n'));
+  });
+});
+
+describe('updateDependencyRange', () => {
+  it('keeps the range operator', () => {
+    expect(updateDependencyRange('^1.2.0', '1.3.0')).toBe('^1.3.0');
+    expect(updateDependencyRange('~1.2.0', '1.3.0')).toBe('~1.3.0');
+    expect(updateDependencyRange('1.2.0', '1.3.0')).toBe('1.3.0');
+    expect(updateDependencyRange('>=1.2.0', '1.3.0')).toBe('>=1.3.0');
+  });
+
+  it('keeps the workspace protocol', () => {
+    expect(updateDependencyRange('workspace:^1.2.0', '1.3.0')).toBe('workspace:^1.3.0');
+  });
+
+  it('leaves wildcard and bare workspace ranges alone', () => {
+    expect(updateDependencyRange('*', '1.3.0')).toBe('*');
+    expect(updateDependencyRange('workspace:*', '1.3.0')).toBe('workspace:*');
+    expect(updateDependencyRange('workspace:^', '1.3.0')).toBe('workspace:^');
+  });
+});
+
+describe('mapCommitsToPackages', () => {
+  const packages = [
+    { name: '@acme/a', path: 'libs/a' },
+    { name: '@acme/ab', path: 'libs/ab' },
+  ];
+
+  it('assigns commits by the files they touch', () => {
+    const commits = [
+      { sha: '1', message: 'feat: a', isBreaking: false, files: ['libs/a/src/index.ts'] },
+      { sha: '2', message: 'fix: ab', isBreaking: false, files: ['libs/ab/index.ts'] },
+      { sha: '3', message: 'chore: both', isBreaking: false, files: ['libs/a/x', 'libs/ab/y'] },
+      { sha: '4', message: 'docs: root', isBreaking: false, files: ['README.md'] },
+    ];
+
+    const mapped = mapCommitsToPackages(commits, packages);
+
+    expect(mapped.get('@acme/a')!.map(c => c.sha)).toEqual(['1', '3']);
+    expect(mapped.get('@acme/ab')!.map(c => c.sha)).toEqual(['2', '3']);
+  });
+
+  it('omits packages without commits', () => {
+    expect(mapCommitsToPackages([], packages).size).toBe(0);
+  });
+});
+
+describe('planPackageVersions', () => {
+  const feat = { sha: '1', message: 'feat: x', type: 'feat', isBreaking: false };
+  const fix = { sha: '2', message: 'fix: y', type: 'fix', isBreaking: false };
+
+  it('gives every package the release version in fixed mode', () => {
+    const plan = planPackageVersions(
+      [
+        { name: '@acme/a', path: 'libs/a', version: '1.0.0' },
+        { name: '@acme/b', path: 'libs/b', version: '2.4.1' },
+      ],
+      'fixed',
+      '1.1.0',
+      'minor'
+    );
+
+    expect(plan.map(p => p.version)).toEqual(['1.1.0', '1.1.0']);
+    expect(plan[1].previousVersion).toBe('2.4.1');
+    expect(plan[0].tag).toBeUndefined();
+  });
+
+  it('bumps each package from its own commits in independent mode', () => {
+    const plan = planPackageVersions(
+      [
+        { name: '@acme/a', path: 'libs/a', version: '1.0.0', commits: [feat] },
+        { name: '@acme/b', path: 'libs/b', version: '2.4.1', commits: [fix] },
+        { name: '@acme/c', path: 'libs/c', version: '0.3.0', commits: [] },
+      ],
+      'independent',
+      '1.1.0',
+      'minor'
+    );
+
+    expect(plan.map(p => [p.name, p.version, p.bumpType, p.tag])).toEqual([
+      ['@acme/a', '1.1.0', 'minor', '@acme/a@1.1.0'],
+      ['@acme/b', '2.4.2', 'patch', '@acme/b@2.4.2'],
+    ]);
+  });
+});
+
+describe('releaseWorkflow', () => {
+  let tempDir: string;
+  let mockGit: MockGitAdapter;
+  let mockGithub: MockGitHubAdapter;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await writePackage(tempDir, { name: 'acme', version: '1.0.0', private: true, workspaces: ['libs/*'] });
+    await writePackage(join(tempDir, 'libs', 'a'), { name: '@acme/a', version: '1.0.0' });
+    await writePackage(join(tempDir, 'libs', 'b'), {
+      name: '@acme/b',
+      version: '3.2.0',
+      dependencies: { '@acme/a': '^1.0.0', lodash: '^4.0.0' },
+    });
+
+    mockGit = createMockGitAdapter({
+      getLatestTag: vi.fn().mockResolvedValue('v1.0.0'),
+      getCommitsSince: vi.fn().mockResolvedValue([{ sha: 'abc1234', message: 'feat: add widget' }]),
+    });
+    mockGithub = createMockGitHubAdapter();
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  it('plans workspace package versions in dry run without writing', async () => {
+    const result = await releaseWorkflow(
+      { dryRun: true },
+      { git: mockGit, github: mockGithub, repoPath: tempDir }
+    );
+
+    expect(result.version).toBe('1.1.0');
+    expect(result.versioning).toBe('fixed');
+    expect(result.packages).toEqual([
+      { name: '@acme/a', path: join('libs', 'a'), previousVersion: '1.0.0', version: '1.1.0', bumpType: 'minor' },
+      { name: '@acme/b', path: join('libs', 'b'), previousVersion: '3.2.0', version: '1.1.0', bumpType: 'minor' },
+    ]);
+    expect((await readPackage(join(tempDir, 'libs', 'a'))).version).toBe('1.0.0');
+    expect(mockGit.createBranch).not.toHaveBeenCalled();
+  });
+
+  it('writes fixed versions and bumps internal dependency ranges', async () => {
+    await releaseWorkflow(
+      {},
+      { git: mockGit, github: mockGithub, repoPath: tempDir }
+    );
+
+    const root = await readPackage(tempDir);
+    const a = await readPackage(join(tempDir, 'libs', 'a'));
+    const b = await readPackage(join(tempDir, 'libs', 'b'));
+    expect(root.version).toBe('1.1.0');
+    expect(a.version).toBe('1.1.0');
+    expect(b.version).toBe('1.1.0');
+    expect(b.dependencies).toEqual({ '@acme/a': '^1.1.0', lodash: '^4.0.0' });
+  });
+
+  describe('changelog', () => {
+    it('merges the release into an existing CHANGELOG.md once', async () => {
+      await writeFile(join(tempDir, 'CHANGELOG.md'), '# Changelog\n\nNotes.\n\n## [1.0.0] - 2026-01-01\n\n- first\n');
+      mockGit.getRemoteUrl = vi.fn().mockResolvedValue('git@github.com:acme/repo.git');
+
+      await releaseWorkflow({}, { git: mockGit, github: mockGithub, repoPath: tempDir });
+      const first = await readFile(join(tempDir, 'CHANGELOG.md'), 'utf-8');
+      await releaseWorkflow({}, { git: mockGit, github: mockGithub, repoPath: tempDir });
+      const second = await readFile(join(tempDir, 'CHANGELOG.md'), 'utf-8');
+
+      expect(first).toMatch(/^# Changelog\n\nNotes\.\n\n## \[1\.1\.0\]\(https:\/\/github\.com\/acme\/repo\/releases\/tag\/v1\.1\.0\)/);
+      expect(first).toContain('* add widget ([abc1234](https://github.com/acme/repo/commit/abc1234))');
+      expect(first).toContain('## [1.0.0] - 2026-01-01\n\n- first\n');
+      expect(second).toBe(first);
+    });
+
+    it('includes the Why of changes archived since the last release', async () => {
+      const archived = join(tempDir, 'openspec', 'changes', 'archive', '2026-01-30-add-widget');
+      await mkdir(archived, { recursive: true });
+      await writeFile(join(archived, 'proposal.md'), '# add-widget\n\n## Why\nUsers need widgets.\n\n## What Changes\n- Widgets\n');
+      const older = join(tempDir, 'openspec', 'changes', 'archive', '2025-12-01-old-change');
+      await mkdir(older, { recursive: true });
+      await writeFile(join(older, 'proposal.md'), '# old\n\n## Why\nShipped before.\n');
+
+      mockGit.getHistory = vi.fn().mockResolvedValue([{ sha: 'abc1234', message: 'chore: archive add-widget' }]);
+      mockGit.getCommitFiles = vi.fn().mockResolvedValue([
+        'openspec/changes/archive/2026-01-30-add-widget/proposal.md',
+        'openspec/changes/archive/2026-01-30-add-widget/tasks.md',
+      ]);
+
+      const result = await releaseWorkflow({ dryRun: true }, { git: mockGit, github: mockGithub, repoPath: tempDir });
+
+      expect(mockGit.getHistory).toHaveBeenCalledWith({ excludeRef: 'v1.0.0', paths: ['openspec/changes/archive/'] });
+      expect(result.changes.map(c => c.id)).toEqual(['add-widget']);
+      expect(result.changelog).toContain('* **add-widget**: Users need widgets.\n  * Widgets');
+      expect(result.changelog).not.toContain('old-change');
+    });
+
+    it('skips archived changes when release notes only use commits', async () => {
+      const config = { release: { notes: ['commits'] } } as SpecLifeConfig;
+
+      const result = await releaseWorkflow({ dryRun: true }, { git: mockGit, github: mockGithub, repoPath: tempDir, config });
+
+      expect(mockGit.getHistory).not.toHaveBeenCalled();
+      expect(result.changes).toEqual([]);
+      expect(result.changelog).toContain('* add widget');
+    });
+  });
+
+  describe('independent versioning', () => {
+    const config = { release: { versioning: 'independent' } } as SpecLifeConfig;
+
+    beforeEach(() => {
+      // @acme/a was last released before @acme/b; there are no v tags
+      mockGit.getLatestTag = vi.fn(async (prefix?: string) =>
+        prefix === '@acme/b@' ? '@acme/b@3.2.0' : prefix === '@acme/a@' ? '@acme/a@1.0.0' : null
+      );
+      mockGit.getCommitsSince = vi.fn(async (ref: string) =>
+        ref === '@acme/b@3.2.0'
+          ? [{ sha: 'b1', message: 'fix(b): handle nulls' }]
+          : [
+              { sha: 'a1', message: 'feat(a): add widget' },
+              { sha: 'b1', message: 'fix(b): handle nulls' },
+            ]
+      );
+      mockGit.getCommitFiles = vi.fn(async (sha: string) =>
+        sha === 'a1' ? ['libs/a/src/widget.ts'] : ['libs/b/src/index.ts']
+      );
+    });
+
+    it('bumps each package from the commits touching it', async () => {
+      const result = await releaseWorkflow(
+        { dryRun: true },
+        { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+      );
+
+      expect(result.versioning).toBe('independent');
+      expect(result.packages.map(p => [p.name, p.previousVersion, p.version, p.tag])).toEqual([
+        ['@acme/a', '1.0.0', '1.1.0', '@acme/a@1.1.0'],
+        ['@acme/b', '3.2.0', '3.2.1', '@acme/b@3.2.1'],
+      ]);
+      expect(result.packages[0].commits!.map(c => c.sha)).toEqual(['a1']);
+    });
+
+    it('skips packages without changes', async () => {
+      mockGit.getCommitFiles = vi.fn().mockResolvedValue(['libs/a/src/widget.ts']);
+
+      const result = await releaseWorkflow(
+        { dryRun: true },
+        { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+      );
+
+      expect(result.packages.map(p => p.name)).toEqual(['@acme/a']);
+    });
+
+    it('writes versions and a changelog section per package', async () => {
+      await writeFile(join(tempDir, 'libs', 'b', 'CHANGELOG.md'), '# Changelog\n\n## [@acme/b@3.2.0](x) (2026-01-01)\n');
+
+      const result = await releaseWorkflow(
+        {},
+        { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+      );
+
+      expect((await readPackage(join(tempDir, 'libs', 'a'))).version).toBe('1.1.0');
+      expect((await readPackage(join(tempDir, 'libs', 'b'))).version).toBe('3.2.1');
+
+      const changelogA = await readFile(join(tempDir, 'libs', 'a', 'CHANGELOG.md'), 'utf-8');
+      expect(changelogA).toMatch(/^# Changelog\n\nAll notable changes.*\n\n## \[@acme\/a@1\.1\.0\]/);
+      expect(changelogA).toContain('* add widget');
+
+      const changelogB = await readFile(join(tempDir, 'libs', 'b', 'CHANGELOG.md'), 'utf-8');
+      expect(changelogB.indexOf('@acme/b@3.2.1')).toBeLessThan(changelogB.indexOf('@acme/b@3.2.0'));
+      expect(changelogB).not.toContain('add widget');
+
+      expect(result.changelog).toContain('@acme/a@1.1.0');
+      expect(mockGithub.createPullRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ body: expect.stringContaining('`@acme/b@3.2.1`') })
+      );
+    });
+
+    it('starts from the newest package tag and names the release after the packages', async () => {
+      const result = await releaseWorkflow(
+        {},
+        { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+      );
+
+      expect(result.commits.map(c => c.sha)).toEqual(['b1']);
+      expect(result.previousVersion).toBe('1.0.0');
+      expect(result.branch).toBe('release/@acme/a@1.1.0+@acme/b@3.2.1');
+      expect(mockGit.commit).toHaveBeenCalledWith('chore(release): @acme/a@1.1.0, @acme/b@3.2.1');
+      expect(mockGithub.createPullRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'chore(release): @acme/a@1.1.0, @acme/b@3.2.1' })
+      );
+    });
+
+    it('throws NO_CHANGES when no package changed', async () => {
+      mockGit.getCommitFiles = vi.fn().mockResolvedValue(['README.md']);
+
+      await expect(releaseWorkflow(
+        {},
+        { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+      )).rejects.toMatchObject({ code: 'NO_CHANGES' });
+      expect(mockGit.createBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('branches from and targets the configured base branch', async () => {
+    const config = { git: { baseBranch: 'develop' } } as SpecLifeConfig;
+
+    await releaseWorkflow(
+      {},
+      { git: mockGit, github: mockGithub, repoPath: tempDir, config }
+    );
+
+    expect(mockGit.createBranch).toHaveBeenCalledWith('release/v1.1.0', 'develop');
+    expect(mockGithub.createPullRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'develop', head: 'release/v1.1.0' })
+    );
+  });
+
+  describe('prereleases', () => {
+    it('releases on a prerelease channel', async () => {
+      mockGit.getCommitsSince = vi.fn().mockResolvedValue([{ sha: 'abc1234', message: 'feat!: new api' }]);
+
+      const result = await releaseWorkflow(
+        { dryRun: true, prerelease: 'rc' },
+        { git: mockGit, github: mockGithub, repoPath: tempDir }
+      );
+
+      expect(result.version).toBe('2.0.0-rc.1');
+      expect(result.prerelease).toBe(true);
+      expect(result.packages[0].version).toBe('2.0.0-rc.1');
+    });
+
+    it('increments from the latest prerelease tag', async () => {
+      mockGit.getLatestTag = vi.fn().mockResolvedValue('v2.0.0-rc.1');
+
+      const result = await releaseWorkflow(
+        { dryRun: true, prerelease: 'rc' },
+        { git: mockGit, github: mockGithub, repoPath: tempDir }
+      );
+
+      expect(result.previousVersion).toBe('2.0.0-rc.1');
+      expect(result.version).toBe('2.0.0-rc.2');
+    });
+
+    it('promotes the latest prerelease without new commits', async () => {
+      mockGit.getLatestTag = vi.fn().mockResolvedValue('v2.0.0-rc.2');
+      mockGit.getCommitsSince = vi.fn().mockResolvedValue([]);
+
+      const result = await releaseWorkflow(
+        { dryRun: true, promote: true },
+        { git: mockGit, github: mockGithub, repoPath: tempDir }
+      );
+
+      expect(result.version).toBe('2.0.0');
+      expect(result.prerelease).toBe(false);
+    });
+
+    it('rejects promote combined with a channel', async () => {
+      await expect(releaseWorkflow(
+        { dryRun: true, promote: true, prerelease: 'beta' },
+        { git: mockGit, github: mockGithub, repoPath: tempDir }
+      )).rejects.toThrow(/at the same time/);
+    });
+  });
+
+  it('updates only the root package outside a monorepo', async () => {
+    const single = await createTempDir();
+    try {
+      await writePackage(single, { name: 'solo', version: '1.0.0' });
+
+      const result = await releaseWorkflow(
+        {},
+        { git: mockGit, github: mockGithub, repoPath: single }
+      );
+
+      expect(result.packages).toEqual([]);
+      expect((await readPackage(single)).version).toBe('1.1.0');
+    } finally {
+      await removeTempDir(single);
+    }
+  });
+});
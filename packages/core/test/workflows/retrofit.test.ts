@@ -0,0 +1,122 @@
+/**
+ * Retrofit workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { retrofitWorkflow } from '../../src/workflows/retrofit.js';
+import { createGitAdapter, type GitAdapter } from '../../src/adapters/git-adapter.js';
+import { createOpenSpecAdapter, type OpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+import { createTempDir, removeTempDir, initGitRepo, createOpenSpecStructure } from '../helpers.js';
+
+describe('retrofitWorkflow', () => {
+  let tempDir: string;
+  let remoteDir: string;
+  let git: GitAdapter;
+  let openspec: OpenSpecAdapter;
+  let base: string;
+  let pushedSha: string;
+  let config: SpecLifeConfig;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    remoteDir = await createTempDir();
+    await initGitRepo(tempDir);
+    await createOpenSpecStructure(tempDir);
+    git = createGitAdapter(tempDir);
+    await git.add(['.']);
+    await git.commit('chore: add openspec');
+    openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+    base = await git.getCurrentBranch();
+    config = { specDir: 'openspec', git: { baseBranch: base } } as SpecLifeConfig;
+
+    execSync('git init --bare', { cwd: remoteDir, stdio: 'pipe' });
+    execSync(`git remote add origin "${remoteDir}"`, { cwd: tempDir, stdio: 'pipe' });
+    await git.push('origin', base);
+    pushedSha = (await git.resolveRef('HEAD'))!;
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+    await removeTempDir(remoteDir);
+  });
+
+  async function commitFile(file: string, message: string) {
+    await writeFile(join(tempDir, file), file);
+    await git.add([file]);
+    await git.commit(message);
+  }
+
+  it('plans the retrofit without changing anything on a dry run', async () => {
+    await commitFile('cache.ts', 'feat: add cache');
+    const sha = (await git.resolveRef('HEAD'))!;
+    await writeFile(join(tempDir, 'notes.md'), 'notes');
+
+    const result = await retrofitWorkflow(
+      { changeId: 'add-cache', description: 'Lookups were slow.', dryRun: true },
+      { git, openspec, config }
+    );
+
+    expect(result).toMatchObject({
+      applied: false,
+      branch: 'spec/add-cache',
+      upstream: `origin/${base}`,
+      baseSha: sha,
+      commits: [{ sha, message: 'feat: add cache' }],
+      uncommitted: ['notes.md'],
+      files: ['cache.ts', 'notes.md'],
+      proposalPath: 'openspec/changes/add-cache/proposal.md',
+      steps: [
+        `Create spec/add-cache at ${base} (${sha.slice(0, 7)})`,
+        'Carry 1 uncommitted file(s) to spec/add-cache',
+        'Scaffold openspec/changes/add-cache/proposal.md and tasks.md',
+        `Reset ${base} to origin/${base} (1 commit(s) move to spec/add-cache)`,
+      ],
+    });
+    expect(result.proposal).toBe([
+      '## Why',
+      'Lookups were slow.',
+      '',
+      '## What Changes',
+      '- feat: add cache',
+      '- Uncommitted changes to notes.md',
+      '',
+      '## Impact',
+      '- Affected specs: [list capabilities]',
+      '- Affected code: cache.ts, notes.md',
+      '',
+    ].join('\n'));
+    expect(result.tasks).toBe('## 1. Implementation\n- [x] 1.1 feat: add cache\n- [x] 1.2 Uncommitted changes to notes.md\n');
+    expect(await git.getCurrentBranch()).toBe(base);
+    expect(await git.branchExists('spec/add-cache')).toBe(false);
+  });
+
+  it('moves commits and uncommitted work to the change branch and resets the base branch', async () => {
+    await commitFile('cache.ts', 'feat: add cache');
+    const sha = await git.resolveRef('HEAD');
+    await writeFile(join(tempDir, 'notes.md'), 'notes');
+
+    const result = await retrofitWorkflow({ changeId: 'add-cache' }, { git, openspec, config });
+
+    expect(result.applied).toBe(true);
+    expect(await git.getCurrentBranch()).toBe('spec/add-cache');
+    expect(await git.resolveRef(base)).toBe(pushedSha);
+    expect((await git.getHistory({ refs: ['spec/add-cache'], excludeRef: base })).map(c => c.message)).toEqual(['feat: add cache']);
+    expect(await git.resolveRef('spec/add-cache')).toBe(sha);
+    expect(await readFile(join(tempDir, 'notes.md'), 'utf-8')).toBe('notes');
+    expect(await readFile(join(tempDir, result.proposalPath), 'utf-8')).toBe(result.proposal);
+    expect((await openspec.readTasks('add-cache')).tasks.every(t => t.completed)).toBe(true);
+  });
+
+  it('refuses to run off the base branch or without work to move', async () => {
+    await expect(retrofitWorkflow({ changeId: 'add-cache' }, { git, openspec, config }))
+      .rejects.toThrow(/No uncommitted changes or unpushed commits/);
+
+    await git.createBranch('spec/other');
+    await expect(retrofitWorkflow({ changeId: 'add-cache' }, { git, openspec, config }))
+      .rejects.toThrow(/current branch is 'spec\/other'/);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Stack workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { resolveChangeBase, restackWorkflow, listStackedChanges } from '../../src/workflows/stack.js';
+import { worktreeCreate } from '../../src/workflows/worktree.js';
+import { createGitAdapter, type GitAdapter } from '../../src/adapters/git-adapter.js';
+import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import { createBranchNaming } from '../../src/utils/branch-naming.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+import {
+  createTempDir,
+  removeTempDir,
+  initGitRepo,
+  createOpenSpecStructure,
+  createMockChange,
+  createMockGitHubAdapter,
+} from '../helpers.js';
+
+describe('stacked changes', () => {
+  let tempDir: string;
+  let git: GitAdapter;
+  let base: string;
+  const config = { specDir: 'openspec', github: { owner: '', repo: '', baseBranch: 'main' } } as SpecLifeConfig;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await initGitRepo(tempDir);
+    await createOpenSpecStructure(tempDir);
+    git = createGitAdapter(tempDir);
+    base = await git.getCurrentBranch();
+
+    // add-session builds on add-auth; both proposals are on the base branch
+    await createMockChange(tempDir, 'add-auth');
+    await createMockChange(tempDir, 'add-session', {
+      proposal: '## Why\nSessions.\n\n## Impact\n- Depends on: add-auth\n',
+    });
+    await git.add(['.']);
+    await git.commit('docs: propose auth and sessions');
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  async function commitFile(file: string, content: string) {
+    await writeFile(join(tempDir, file), content);
+    await git.add([file]);
+    return git.commit(`feat: ${file}`);
+  }
+
+  it('reads dependencies from the proposal', async () => {
+    expect(await listStackedChanges({ git, config })).toEqual([
+      { changeId: 'add-auth', branch: 'spec/add-auth', dependsOn: [], worktreePath: undefined },
+      { changeId: 'add-session', branch: 'spec/add-session', dependsOn: ['add-auth'], worktreePath: undefined },
+    ]);
+  });
+
+  it('targets the parent branch until it is merged', async () => {
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+    const deps = { git, openspec, branchNaming: createBranchNaming() };
+
+    expect(await resolveChangeBase('add-session', base, deps)).toEqual({ base });
+
+    await git.createBranch('spec/add-auth');
+    expect(await resolveChangeBase('add-session', base, deps)).toEqual({ base: 'spec/add-auth', parent: 'add-auth' });
+  });
+
+  it('rebases dependents onto the landed base and retargets their PRs', async () => {
+    await git.createBranch('spec/add-auth');
+    await commitFile('auth.ts', 'auth');
+    await git.createBranch('spec/add-session');
+    await commitFile('session.ts', 'session');
+
+    // Squash-merge add-auth into the base branch
+    await git.checkout(base);
+    await commitFile('auth.ts', 'auth');
+
+    const github = createMockGitHubAdapter({
+      getPullRequestByBranch: vi.fn().mockResolvedValue({ number: 7, base: { ref: 'spec/add-auth' } }),
+    });
+    const result = await restackWorkflow({ changeId: 'add-auth', onto: base }, { git, github, config });
+
+    expect(result.restacked).toEqual([{
+      changeId: 'add-session',
+      branch: 'spec/add-session',
+      onto: base,
+      rebased: true,
+      pushed: false,
+      retargetedPr: 7,
+    }]);
+    expect(github.updatePullRequest).toHaveBeenCalledWith(7, { base });
+    expect(await git.getCurrentBranch()).toBe(base);
+    expect((await git.getHistory({ refs: ['spec/add-session'], excludeRef: base })).map(c => c.message)).toEqual(['feat: session.ts']);
+  });
+
+  it('restacks dependents whose change exists only on their branch', async () => {
+    await git.createBranch('spec/add-auth');
+    await commitFile('auth.ts', 'auth');
+    await git.createBranch('spec/add-tokens');
+    await createMockChange(tempDir, 'add-tokens');
+    await writeFile(
+      join(tempDir, 'openspec', 'changes', 'add-tokens', '.speclife.json'),
+      JSON.stringify({ state: 'created', transitions: [], dependsOn: ['add-auth'] })
+    );
+    await git.add(['.']);
+    await git.commit('docs: propose tokens');
+    await git.checkout(base);
+    await commitFile('auth.ts', 'auth');
+
+    expect(await listStackedChanges({ git, config })).toContainEqual(
+      { changeId: 'add-tokens', branch: 'spec/add-tokens', dependsOn: ['add-auth'], worktreePath: undefined }
+    );
+    const result = await restackWorkflow({ changeId: 'add-auth', onto: base }, { git, config });
+
+    expect(result.restacked).toEqual([expect.objectContaining({ changeId: 'add-tokens', onto: base, rebased: true })]);
+  });
+
+  it('records --depends-on in the new worktree\'s change metadata', async () => {
+    await git.createBranch('spec/add-auth');
+    await git.checkout(base);
+    const worktreeDir = join(tempDir, 'worktrees');
+
+    const result = await worktreeCreate(
+      { changeId: 'add-tokens', dependsOn: 'add-auth', skipBootstrap: true },
+      { git, config: { ...config, git: { baseBranch: base, branchPrefix: 'spec/', worktreeDir } } }
+    );
+
+    expect(result.baseBranch).toBe('spec/add-auth');
+    const openspec = createOpenSpecAdapter({ projectRoot: result.worktreePath, specDir: 'openspec' });
+    expect((await openspec.readMetadata('add-tokens'))!.dependsOn).toEqual(['add-auth']);
+    expect(await openspec.changeExists('add-tokens')).toBe(false);
+    expect(await listStackedChanges({ git, config })).toContainEqual(
+      { changeId: 'add-tokens', branch: 'spec/add-tokens', dependsOn: ['add-auth'], worktreePath: expect.stringContaining('add-tokens') }
+    );
+    await openspec.scaffoldChange('add-tokens', { description: 'Tokens' });
+    expect((await openspec.readChange('add-tokens')).dependsOn).toEqual(['add-auth']);
+  });
+
+  it('aborts conflicting rebases', async () => {
+    await git.createBranch('spec/add-auth');
+    await commitFile('auth.ts', 'auth');
+    await git.createBranch('spec/add-session');
+    await commitFile('auth.ts', 'session auth');
+    await git.checkout(base);
+    await commitFile('auth.ts', 'landed auth');
+
+    const result = await restackWorkflow({ changeId: 'add-auth', onto: base }, { git, config });
+
+    expect(result.restacked).toEqual([expect.objectContaining({ changeId: 'add-session', rebased: false })]);
+    expect(await git.getCurrentBranch()).toBe(base);
+    expect((await git.status()).unstaged).toEqual([]);
+  });
+});
@@ -3,9 +3,12 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
 import { statusWorkflow } from '../../src/workflows/status.js';
 import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
 import { createGitAdapter } from '../../src/adapters/git-adapter.js';
+import { createBranchNaming } from '../../src/utils/branch-naming.js';
 import { 
   createTempDir, 
   removeTempDir, 
@@ -120,6 +123,21 @@ describe('statusWorkflow', () => {
       expect(status!.onBranch).toBe(true);
     });
 
+    it('resolves the change from a custom branch pattern', async () => {
+      await createMockChange(tempDir, 'custom-branch');
+      const git = createGitAdapter(tempDir);
+      const branchNaming = createBranchNaming({ prefix: 'feature/spec-' });
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec', branchNaming });
+      await git.createBranch('feature/spec-custom-branch');
+
+      const status = await statusWorkflow({}, { git, openspec, branchNaming });
+
+      expect(status).not.toBeNull();
+      expect(status!.change.id).toBe('custom-branch');
+      expect(status!.change.branch).toBe('feature/spec-custom-branch');
+      expect(status!.onBranch).toBe(true);
+    });
+
     it('detects when not on the change branch', async () => {
       await createMockChange(tempDir, 'not-on-branch');
       const git = createGitAdapter(tempDir);
@@ -135,4 +153,78 @@ describe('statusWorkflow', () => {
       expect(status!.onBranch).toBe(false);
     });
   });
+
+  describe('task traceability', () => {
+    it('reports trailer references without writing tasks.md', async () => {
+      const tasks = '## 1. Tasks\n- [ ] 1.1 Add cache\n';
+      await createMockChange(tempDir, 'traced-change', { tasks });
+      const git = createGitAdapter(tempDir);
+      const base = await git.getCurrentBranch();
+      await git.add(['.']);
+      await git.commit('chore: add change');
+      await git.createBranch('spec/traced-change');
+      await writeFile(join(tempDir, 'cache.ts'), 'cache');
+      await git.add(['cache.ts']);
+      await git.commit('feat: add cache\n\nTask: 1.1');
+      await git.checkout(base);
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      const status = await statusWorkflow(
+        { changeId: 'traced-change', baseBranch: base },
+        { git, openspec }
+      );
+
+      expect(status!.taskTrace!.completed).toEqual(['1.1']);
+      expect(status!.taskSummary.completed).toBe(0);
+      expect(await readFile(join(tempDir, 'openspec', 'changes', 'traced-change', 'tasks.md'), 'utf-8')).toBe(tasks);
+    });
+  });
+
+  describe('lifecycle state', () => {
+    it('derives and persists the state from task progress', async () => {
+      await createMockChange(tempDir, 'state-change', {
+        tasks: '## 1. Tasks\n- [x] 1.1 Done\n- [ ] 1.2 Pending\n',
+      });
+      const git = createGitAdapter(tempDir);
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      const status = await statusWorkflow(
+        { changeId: 'state-change', persist: true },
+        { git, openspec }
+      );
+
+      expect(status!.change.state).toBe('implementing');
+      const metadata = await openspec.readMetadata('state-change');
+      expect(metadata!.state).toBe('implementing');
+      expect(metadata!.transitions.map(t => t.to)).toEqual(['created', 'implementing']);
+    });
+
+    it('does not persist by default', async () => {
+      await createMockChange(tempDir, 'readonly-change');
+      const git = createGitAdapter(tempDir);
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+
+      await statusWorkflow(
+        { changeId: 'readonly-change' },
+        { git, openspec }
+      );
+
+      expect(await openspec.readMetadata('readonly-change')).toBeNull();
+    });
+
+    it('reports archived changes without a branch as merged', async () => {
+      await createMockChange(tempDir, 'landed-change');
+      const git = createGitAdapter(tempDir);
+      const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+      await openspec.archiveChange('landed-change');
+
+      const status = await statusWorkflow(
+        { changeId: 'landed-change' },
+        { git, openspec }
+      );
+
+      expect(status!.change.state).toBe('merged');
+      expect(status!.change.stateHistory!.at(-1)!.to).toBe('merged');
+    });
+  });
 });
@@ -9,35 +9,14 @@ import { submitWorkflow } from '../../src/workflows/submit.js';
 import { 
   createMockGitAdapter, 
   createMockGitHubAdapter,
+  createMockOpenSpecAdapter,
   type MockGitAdapter,
   type MockGitHubAdapter,
+  type MockOpenSpecAdapter,
 } from '../helpers.js';
 import type { SpecLifeConfig } from '../../src/config.js';
 import { SpecLifeError } from '../../src/types.js';
-import type { OpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
-
-// Mock openspec adapter
-function createMockOpenSpecAdapter(overrides: Partial<MockOpenSpecAdapter> = {}): MockOpenSpecAdapter {
-  return {
-    scaffoldChange: vi.fn().mockResolvedValue({ proposalPath: '', tasksPath: '' }),
-    readChange: vi.fn().mockResolvedValue({
-      proposal: {
-        why: 'Add a new feature for users',
-        whatChanges: ['Update API', 'Add tests'],
-      },
-    }),
-    readProposal: vi.fn().mockResolvedValue(''),
-    listChanges: vi.fn().mockResolvedValue([]),
-    changeExists: vi.fn().mockResolvedValue(true),
-    archiveChange: vi.fn().mockResolvedValue(undefined),
-    updateTasks: vi.fn().mockResolvedValue(undefined),
-    ...overrides,
-  };
-}
-
-type MockOpenSpecAdapter = {
-  [K in keyof OpenSpecAdapter]: ReturnType<typeof vi.fn>;
-};
+import { parseTasksDocument } from '../../src/utils/tasks-document.js';
 
 describe('submitWorkflow', () => {
   let mockGit: MockGitAdapter;
@@ -93,6 +72,127 @@ describe('submitWorkflow', () => {
     });
   });
 
+  describe('spec validation', () => {
+    const warning = { file: 'openspec/changes/add-feature/tasks.md', line: 3, message: 'Task 1.3 is listed under section 2' };
+
+    it('fails with issue locations when validation finds errors', async () => {
+      mockOpenspec.validateChange.mockResolvedValue({
+        changeId: 'add-feature',
+        status: 'fail',
+        errors: [{ file: 'openspec/changes/add-feature/proposal.md', message: 'Missing "## Why" section' }],
+        warnings: [],
+      });
+
+      const error = await submitWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(SpecLifeError);
+      expect(error.code).toBe('VALIDATION_FAILED');
+      expect(error.message).toContain('openspec/changes/add-feature/proposal.md: Missing "## Why" section');
+      expect(mockGit.commit).not.toHaveBeenCalled();
+    });
+
+    it('fails on warnings in strict mode', async () => {
+      mockOpenspec.validateChange.mockResolvedValue({ changeId: 'add-feature', status: 'pass_with_warnings', errors: [], warnings: [warning] });
+
+      await expect(submitWorkflow(
+        { changeId: 'add-feature', strict: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      )).rejects.toThrow('openspec/changes/add-feature/tasks.md:3: Task 1.3 is listed under section 2');
+    });
+
+    it('reports warnings in the result and PR body', async () => {
+      mockOpenspec.validateChange.mockResolvedValue({ changeId: 'add-feature', status: 'pass_with_warnings', errors: [], warnings: [warning] });
+
+      const result = await submitWorkflow(
+        { changeId: 'add-feature' },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockOpenspec.validateChange).toHaveBeenCalledWith('add-feature', { changedFiles: ['src/index.ts'] });
+      expect(result.validation?.warnings).toEqual([warning]);
+      expect(mockGithub.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining('- ⚠️ openspec/changes/add-feature/tasks.md:3: Task 1.3 is listed under section 2'),
+      }));
+    });
+  });
+
+  describe('task traceability', () => {
+    it('checks off traced tasks and reports mismatches in the PR body', async () => {
+      mockOpenspec.readTasks.mockResolvedValue(parseTasksDocument('- [ ] 1.1 Add cache\n- [x] 1.2 Add docs\n'));
+      mockGit.getCommitsWithTrailers.mockResolvedValue([
+        { sha: 'abc1234def', message: 'feat: cache', author: 'a', date: new Date(), trailers: [{ key: 'Task', value: '1.1, 9.9' }] },
+      ]);
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(null);
+
+      const result = await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockGit.getCommitsWithTrailers).toHaveBeenCalledWith({ refs: ['spec/add-feature'], excludeRef: 'main' });
+      expect(mockOpenspec.editTasks).toHaveBeenCalled();
+      expect(result.taskTrace).toMatchObject({
+        completed: ['1.1'],
+        untraced: ['1.2'],
+        unknown: [{ sha: 'abc1234def', taskId: '9.9' }],
+      });
+      const body = mockGithub.createPullRequest.mock.calls[0][0].body;
+      expect(body).toContain('## Task Traceability');
+      expect(body).toContain('Task 1.2 is done but no commit has "Task: 1.2"');
+      expect(body).toContain('Commit abc1234 references unknown task 9.9');
+    });
+  });
+
+  describe('task checklist', () => {
+    it('adds the tasks.md checklist to a new PR', async () => {
+      mockOpenspec.readTasks.mockResolvedValue(parseTasksDocument('- [x] 1.1 Add cache\n- [ ] 1.2 Add docs\n'));
+
+      const result = await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      const body = mockGithub.createPullRequest.mock.calls[0][0].body;
+      expect(body).toContain('- [x] 1.1 Add cache <!-- task:1.1 -->');
+      expect(body).toContain('- [ ] 1.2 Add docs <!-- task:1.2 -->');
+      expect(result.taskSync).toBeUndefined();
+    });
+
+    it('syncs the checklist of an existing PR before committing', async () => {
+      mockOpenspec.readTasks.mockResolvedValue(parseTasksDocument('- [ ] 1.1 Add cache\n'));
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue({
+        number: 42,
+        body: '<!-- speclife:tasks:start -->\n- [x] 1.1 Add cache <!-- task:1.1 -->\n<!-- speclife:tasks:end {"completed":[],"open":["1.1"]} -->',
+        state: 'open',
+        draft: false,
+      });
+
+      const result = await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(result.taskSync).toMatchObject({ checked: ['1.1'], unchecked: [], updated: true });
+      expect(mockOpenspec.editTasks.mock.invocationCallOrder[0]).toBeLessThan(mockGit.commit.mock.invocationCallOrder[0]);
+      expect(mockGithub.updatePullRequest.mock.invocationCallOrder[0]).toBeGreaterThan(mockGit.push.mock.invocationCallOrder[0]);
+    });
+
+    it('leaves the PR checklist alone when the push fails', async () => {
+      mockOpenspec.readTasks.mockResolvedValue(parseTasksDocument('- [x] 1.1 Add cache\n'));
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue({ number: 42, body: '', state: 'open', draft: false });
+      mockGit.push.mockRejectedValue(new Error('rejected'));
+
+      await expect(submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      )).rejects.toThrow('rejected');
+      expect(mockGithub.updatePullRequest).not.toHaveBeenCalled();
+    });
+  });
+
   describe('change existence', () => {
     it('throws when change does not exist', async () => {
       mockOpenspec.changeExists.mockResolvedValue(false);
@@ -187,6 +287,26 @@ describe('submitWorkflow', () => {
       }));
     });
 
+    it('targets the branch of an unmerged dependency', async () => {
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(null);
+      mockGit.branchExists = vi.fn().mockResolvedValue(true);
+      mockOpenspec.readChange = vi.fn().mockResolvedValue({
+        proposal: { why: 'Build on auth', whatChanges: [] },
+        dependsOn: ['add-auth'],
+      });
+
+      const result = await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(result.baseBranch).toBe('spec/add-auth');
+      expect(mockGithub.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        head: 'spec/add-feature',
+        base: 'spec/add-auth',
+      }));
+    });
+
     it('creates draft PR when requested', async () => {
       mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(null);
 
@@ -201,12 +321,9 @@ describe('submitWorkflow', () => {
     });
 
     it('skips PR creation when PR already exists', async () => {
-      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue({
-        number: 42,
-        url: 'https://github.com/test/repo/pull/42',
-        state: 'open',
-        draft: false,
-      });
+      const pr = { number: 42, url: 'https://github.com/test/repo/pull/42', body: '', state: 'open', draft: false };
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(pr);
+      mockGithub.updatePullRequest = vi.fn(async (_prNumber: number, update: { body: string }) => ({ ...pr, ...update }));
 
       const result = await submitWorkflow(
         { changeId: 'add-feature', skipValidation: true },
@@ -219,12 +336,9 @@ describe('submitWorkflow', () => {
     });
 
     it('marks draft PR ready when submitting non-draft', async () => {
-      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue({
-        number: 43,
-        url: 'https://github.com/test/repo/pull/43',
-        state: 'open',
-        draft: true,
-      });
+      const pr = { number: 43, url: 'https://github.com/test/repo/pull/43', body: '', state: 'open', draft: true };
+      mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(pr);
+      mockGithub.updatePullRequest = vi.fn(async (_prNumber: number, update: { body: string }) => ({ ...pr, ...update }));
 
       const result = await submitWorkflow(
         { changeId: 'add-feature', draft: false, skipValidation: true },
@@ -236,6 +350,57 @@ describe('submitWorkflow', () => {
     });
   });
 
+  describe('lifecycle state', () => {
+    it('records the submitted state before committing', async () => {
+      await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockOpenspec.writeMetadata).toHaveBeenCalledWith('add-feature', expect.objectContaining({ state: 'submitted' }));
+      expect(mockOpenspec.writeMetadata.mock.invocationCallOrder[0]).toBeLessThan(mockGit.commit.mock.invocationCallOrder[0]);
+    });
+
+    it('records a single transition into submitted', async () => {
+      const createdAt = new Date('2026-01-01T00:00:00Z');
+      mockOpenspec.readMetadata.mockResolvedValue({
+        state: 'created',
+        transitions: [{ from: null, to: 'created', at: createdAt }],
+      });
+
+      await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      const metadata = mockOpenspec.writeMetadata.mock.calls[0][1];
+      expect(metadata.transitions.map((t: { to: string }) => t.to)).toEqual(['created', 'submitted']);
+      expect(metadata.transitions[1].at.getTime()).toBeGreaterThan(createdAt.getTime());
+    });
+
+    it('records the branch the PR is opened from', async () => {
+      mockOpenspec.readMetadata.mockResolvedValue({ state: 'submitted', transitions: [] });
+
+      await submitWorkflow(
+        { changeId: 'add-feature', skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockOpenspec.writeMetadata).toHaveBeenCalledWith('add-feature', expect.objectContaining({ branch: 'spec/add-feature' }));
+    });
+
+    it('records the task state instead of submitted for a draft PR', async () => {
+      mockOpenspec.readTasks.mockResolvedValue(parseTasksDocument('- [x] 1.1 Add cache\n'));
+
+      await submitWorkflow(
+        { changeId: 'add-feature', draft: true, skipValidation: true },
+        { git: mockGit, github: mockGithub, openspec: mockOpenspec, config: mockConfig }
+      );
+
+      expect(mockOpenspec.writeMetadata).toHaveBeenCalledWith('add-feature', expect.objectContaining({ state: 'testing' }));
+    });
+  });
+
   describe('archiving', () => {
     it('archives change by default', async () => {
       mockGithub.getPullRequestByBranch = vi.fn().mockResolvedValue(null);
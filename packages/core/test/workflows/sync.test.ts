@@ -0,0 +1,167 @@
+/**
+ * Sync workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import { writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { syncWorkflow } from '../../src/workflows/sync.js';
+import { createGitAdapter, type GitAdapter } from '../../src/adapters/git-adapter.js';
+import type { SpecLifeConfig } from '../../src/config.js';
+import {
+  createTempDir,
+  removeTempDir,
+  initGitRepo,
+  createOpenSpecStructure,
+  createMockChange,
+} from '../helpers.js';
+
+describe('syncWorkflow', () => {
+  let tempDir: string;
+  let remoteDir: string;
+  let git: GitAdapter;
+  let base: string;
+  let config: SpecLifeConfig;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    remoteDir = await createTempDir();
+    await initGitRepo(tempDir);
+    git = createGitAdapter(tempDir);
+    base = await git.getCurrentBranch();
+    config = { specDir: 'openspec', github: { owner: '', repo: '', baseBranch: base } } as SpecLifeConfig;
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+    await removeTempDir(remoteDir);
+  });
+
+  async function commitFile(file: string, content: string, cwd = tempDir) {
+    await writeFile(join(cwd, file), content);
+    const repo = createGitAdapter(cwd);
+    await repo.add([file]);
+    return repo.commit(`feat: ${file}`);
+  }
+
+  async function addRemote() {
+    execSync('git init --bare', { cwd: remoteDir, stdio: 'pipe' });
+    execSync(`git remote add origin "${remoteDir}"`, { cwd: tempDir, stdio: 'pipe' });
+    await git.push('origin', base);
+  }
+
+  /** Change branch with its own commit, then a new commit on the base branch */
+  async function diverge(branchContent = 'cache', baseContent = 'landed') {
+    await git.createBranch('spec/add-cache');
+    await commitFile('cache.ts', branchContent);
+    await git.checkout(base);
+    await commitFile(baseContent === 'landed' ? 'landed.ts' : 'cache.ts', baseContent);
+    await git.checkout('spec/add-cache');
+  }
+
+  it('rebases onto the fetched base branch and force-pushes', async () => {
+    await addRemote();
+    await git.createBranch('spec/add-cache');
+    await commitFile('cache.ts', 'cache');
+    await git.push('origin', 'spec/add-cache');
+    await git.checkout(base);
+    await commitFile('landed.ts', 'landed');
+    await git.push('origin', base, false);
+    execSync(`git reset --hard HEAD~1`, { cwd: tempDir, stdio: 'pipe' });
+    await git.checkout('spec/add-cache');
+
+    const result = await syncWorkflow({}, { git, config });
+
+    expect(result).toEqual({
+      method: 'rebase',
+      branches: [{
+        branch: 'spec/add-cache',
+        worktreePath: undefined,
+        upstream: `origin/${base}`,
+        status: 'synced',
+        commits: 1,
+        conflicts: [],
+        pushed: true,
+      }],
+    });
+    const remoteLog = execSync('git log --format=%s spec/add-cache', { cwd: remoteDir }).toString();
+    expect(remoteLog.split('\n').slice(0, 2)).toEqual(['feat: cache.ts', 'feat: landed.ts']);
+  });
+
+  it('merges when asked and reports up-to-date branches', async () => {
+    await diverge();
+
+    const merged = await syncWorkflow({ method: 'merge' }, { git, config });
+    expect(merged.branches[0]).toMatchObject({ upstream: base, status: 'synced', commits: 1, pushed: false });
+    expect((await git.getHistory({ refs: ['spec/add-cache'] }))[0].message).toMatch(/^Merge branch/);
+
+    const again = await syncWorkflow({}, { git, config });
+    expect(again.branches[0]).toMatchObject({ status: 'up-to-date', commits: 0 });
+  });
+
+  it('stops at conflicts and aborts', async () => {
+    await diverge('branch cache', 'base cache');
+
+    const result = await syncWorkflow({}, { git, config });
+    expect(result.branches[0]).toMatchObject({ status: 'conflicts', conflicts: ['cache.ts'] });
+    expect(await git.getOperationInProgress()).toBe('rebase');
+
+    const aborted = await syncWorkflow({ abort: true }, { git, config });
+    expect(aborted.branches[0]).toMatchObject({ branch: 'spec/add-cache', status: 'aborted' });
+    expect(await git.getOperationInProgress()).toBeNull();
+    expect(await readFile(join(tempDir, 'cache.ts'), 'utf-8')).toBe('branch cache');
+  });
+
+  it('continues once conflicts are resolved', async () => {
+    await diverge('branch cache', 'base cache');
+    await syncWorkflow({}, { git, config });
+
+    const unresolved = await syncWorkflow({ continue: true }, { git, config });
+    expect(unresolved.branches[0]).toMatchObject({ status: 'conflicts', conflicts: ['cache.ts'] });
+
+    await writeFile(join(tempDir, 'cache.ts'), 'both caches');
+    await git.add(['cache.ts']);
+    const result = await syncWorkflow({ continue: true }, { git, config });
+
+    expect(result).toMatchObject({ method: 'rebase', branches: [{ branch: 'spec/add-cache', status: 'synced' }] });
+    expect(await git.getOperationInProgress()).toBeNull();
+    expect((await git.getHistory({ refs: ['spec/add-cache'] }))[0].message).toBe('feat: cache.ts');
+  });
+
+  it('refuses to sync the base branch, dirty trees or without an operation to continue', async () => {
+    await expect(syncWorkflow({}, { git, config })).rejects.toThrow(/Already on/);
+
+    await diverge();
+    await writeFile(join(tempDir, 'cache.ts'), 'edited');
+    await expect(syncWorkflow({}, { git, config })).rejects.toThrow(/uncommitted changes/);
+    await expect(syncWorkflow({ continue: true }, { git, config })).rejects.toThrow(/No rebase or merge in progress/);
+  });
+
+  it('syncs every change worktree, stacked changes onto their parent', async () => {
+    await createOpenSpecStructure(tempDir);
+    await createMockChange(tempDir, 'add-auth');
+    await createMockChange(tempDir, 'add-session', { proposal: '## Why\nSessions.\n\n## Impact\n- Depends on: add-auth\n' });
+    await createMockChange(tempDir, 'add-cache');
+    await git.add(['.']);
+    await git.commit('docs: propose changes');
+
+    const worktree = (id: string) => join(tempDir, '.worktrees', id);
+    await git.createWorktree(worktree('add-auth'), 'spec/add-auth', base);
+    await git.createWorktree(worktree('add-session'), 'spec/add-session', 'spec/add-auth');
+    await git.createWorktree(worktree('add-cache'), 'spec/add-cache', base);
+    await commitFile('session.ts', 'session', worktree('add-session'));
+    await writeFile(join(worktree('add-cache'), 'README.md'), 'dirty');
+
+    await commitFile('landed.ts', 'landed');
+    const result = await syncWorkflow({ all: true }, { git, config });
+
+    expect(result.branches.map(b => [b.branch, b.upstream, b.status, b.reason])).toEqual([
+      ['spec/add-auth', base, 'synced', undefined],
+      ['spec/add-cache', base, 'skipped', 'uncommitted changes'],
+      ['spec/add-session', 'spec/add-auth', 'synced', undefined],
+    ]);
+    const sessionLog = await createGitAdapter(worktree('add-session')).getHistory();
+    expect(sessionLog.map(c => c.message).slice(0, 2)).toEqual(['feat: session.ts', 'feat: landed.ts']);
+  });
+});
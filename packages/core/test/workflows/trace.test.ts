@@ -0,0 +1,87 @@
+/**
+ * Trace workflow tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { traceTasksWorkflow, formatTraceMismatches } from '../../src/workflows/trace.js';
+import { createGitAdapter } from '../../src/adapters/git-adapter.js';
+import { createOpenSpecAdapter } from '../../src/adapters/openspec-adapter.js';
+import {
+  createTempDir,
+  removeTempDir,
+  initGitRepo,
+  createOpenSpecStructure,
+  createMockChange,
+} from '../helpers.js';
+
+describe('traceTasksWorkflow', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    await initGitRepo(tempDir);
+    await createOpenSpecStructure(tempDir);
+  });
+
+  afterEach(async () => {
+    await removeTempDir(tempDir);
+  });
+
+  const tasksPath = () => join(tempDir, 'openspec', 'changes', 'add-cache', 'tasks.md');
+
+  async function setup(tasks: string) {
+    const git = createGitAdapter(tempDir);
+    const base = await git.getCurrentBranch();
+    await createMockChange(tempDir, 'add-cache', { tasks });
+    await git.add(['.']);
+    await git.commit('chore: add change');
+    await git.createBranch('spec/add-cache');
+    const openspec = createOpenSpecAdapter({ projectRoot: tempDir, specDir: 'openspec' });
+    return { git, openspec, base };
+  }
+
+  it('checks off tasks referenced by commit trailers and links their files', async () => {
+    const { git, openspec, base } = await setup('## 1. Cache\n- [ ] 1.1 Add cache\n- [ ] 1.2 Add eviction\n');
+    await writeFile(join(tempDir, 'cache.ts'), 'cache');
+    await git.add(['cache.ts']);
+    await git.commit('feat: add cache\n\nTask: 1.1');
+
+    const result = await traceTasksWorkflow({ changeId: 'add-cache', branch: 'spec/add-cache', baseBranch: base }, { git, openspec });
+
+    expect(result.completed).toEqual(['1.1']);
+    expect(result.links).toEqual([
+      expect.objectContaining({ taskId: '1.1', message: 'feat: add cache', files: ['cache.ts'] }),
+    ]);
+    expect(await readFile(tasksPath(), 'utf-8')).toBe('## 1. Cache\n- [x] 1.1 Add cache\n- [ ] 1.2 Add eviction\n');
+    expect((await openspec.readMetadata('add-cache'))?.state).toBe('implementing');
+  });
+
+  it('reports untraced done tasks and unknown references without applying', async () => {
+    const tasks = '## 1. Cache\n- [ ] 1.1 Add cache\n  - [ ] 1.1.1 Store\n- [x] 1.2 Add eviction\n';
+    const { git, openspec, base } = await setup(tasks);
+    await writeFile(join(tempDir, 'cache.ts'), 'cache');
+    await git.add(['cache.ts']);
+    await git.commit('feat: add cache\n\nTask: 1.1 3.4');
+
+    const result = await traceTasksWorkflow({ changeId: 'add-cache', branch: 'spec/add-cache', baseBranch: base, apply: false }, { git, openspec });
+
+    expect(result.completed).toEqual(['1.1']);
+    expect(result.untraced).toEqual(['1.2']);
+    expect(result.unknown).toEqual([{ sha: expect.any(String), taskId: '3.4' }]);
+    expect(formatTraceMismatches(result)).toEqual([
+      'Task 1.2 is done but no commit has "Task: 1.2"',
+      `Commit ${result.unknown[0].sha.slice(0, 7)} references unknown task 3.4`,
+    ]);
+    expect(await readFile(tasksPath(), 'utf-8')).toBe(tasks);
+  });
+
+  it('does not report untraced tasks when the branch uses no trailers', async () => {
+    const { git, openspec, base } = await setup('## 1. Cache\n- [x] 1.1 Add cache\n');
+
+    const result = await traceTasksWorkflow({ changeId: 'add-cache', branch: 'spec/add-cache', baseBranch: base }, { git, openspec });
+
+    expect(result).toEqual({ links: [], completed: [], untraced: [], unknown: [] });
+  });
+});
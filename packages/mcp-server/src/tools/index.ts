@@ -8,6 +8,7 @@ import { registerStatusTool } from "./status.js";
 import { registerListTool } from "./list.js";
 import { registerSubmitTool } from "./submit.js";
 import { registerMergeTool } from "./merge.js";
+import { registerSyncTool } from "./sync.js";
 import { registerImplementTool } from "./implement.js";
 import { registerReleaseTool } from "./release.js";
 
@@ -23,6 +24,7 @@ export function registerTools(server: McpServer): void {
   // Phase 2: Submit and Merge
   registerSubmitTool(server);
   registerMergeTool(server);
+  registerSyncTool(server);
   
   // Phase 3: Implement (includes internal test loop)
   registerImplementTool(server);
@@ -7,16 +7,20 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
   loadConfig, 
+  resolveBaseBranch,
   createGitAdapter,
-  createGitHubAdapter,
+  resolveForgeAdapter,
   createOpenSpecAdapter, 
   statusWorkflow,
+  resolveBranchNaming,
   formatCompactLine,
   formatTable,
   formatSummary,
   sortItems,
   filterByStatus,
+  isStale,
   type ChangeListItem,
+  type ForgeAdapter,
   type ChangeProgress,
   type PRDisplayStatus,
   type ListOptions,
@@ -50,7 +54,7 @@ function calculateProgress(completed: number, total: number): ChangeProgress {
  * Get PR status for a branch
  */
 async function getPRStatus(
-  github: ReturnType<typeof createGitHubAdapter>,
+  github: ForgeAdapter,
   branch: string
 ): Promise<{ status: PRDisplayStatus; number?: number; url?: string }> {
   try {
@@ -96,17 +100,19 @@ export function registerListTool(server: McpServer): void {
         // Load config and create adapters
         const config = await loadConfig(cwd);
         const git = createGitAdapter(cwd);
+        const branchNaming = await resolveBranchNaming(config, git);
         const openspec = createOpenSpecAdapter({ 
           projectRoot: cwd, 
-          specDir: config.specDir 
+          specDir: config.specDir,
+          branchNaming,
         });
         
-        // Create GitHub adapter for PR lookups
-        let github: ReturnType<typeof createGitHubAdapter> | null = null;
+        // Create forge adapter for PR lookups
+        let github: ForgeAdapter | null = null;
         try {
-          github = createGitHubAdapter(config.github.owner, config.github.repo);
+          github = await resolveForgeAdapter(config, git);
         } catch {
-          // GitHub not configured, will show all as "local"
+          // Forge not configured, will show all as "local"
         }
         
         // List changes
@@ -125,28 +131,31 @@ export function registerListTool(server: McpServer): void {
         const items: ChangeListItem[] = [];
         
         for (const changeId of changeIds) {
-          const result = await statusWorkflow({ changeId }, { git, openspec });
+          const result = await statusWorkflow(
+            { changeId, baseBranch: resolveBaseBranch(config) },
+            { git, openspec, github: github ?? undefined, branchNaming }
+          );
           if (!result) continue;
           
-          const { change, taskSummary, onBranch } = result;
-          const branch = `spec/${changeId}`;
-          
+          const { change, taskSummary, onBranch, history } = result;
           // Get PR status
           let prInfo: { status: PRDisplayStatus; number?: number; url?: string } = { status: 'local' };
-          if (github) {
-            prInfo = await getPRStatus(github, branch);
+          if (github && change.branch) {
+            prInfo = await getPRStatus(github, change.branch);
           }
           
-          // Get last activity (use change createdAt as fallback)
-          const lastActive = change.createdAt;
+          // Get last activity from git (use change createdAt as fallback)
+          const lastActive = history.lastActive ?? change.createdAt;
           
           items.push({
             id: changeId,
+            state: change.state,
             progress: calculateProgress(taskSummary.completed, taskSummary.total),
             prStatus: prInfo.status,
             prNumber: prInfo.number,
             prUrl: prInfo.url,
             lastActive,
+            stale: isStale(lastActive),
             isCurrent: onBranch,
           });
         }
@@ -8,14 +8,18 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
   loadConfig, 
+  resolveBaseBranch,
   createGitAdapter, 
-  createGitHubAdapter,
+  createOpenSpecAdapter,
+  resolveForgeAdapter,
+  resolveBranchNaming,
   mergeWorkflow,
   releaseWorkflow,
   suggestVersionBump,
   parseConventionalCommit,
   isAutoReleaseAllowed,
   type CommitInfo,
+  type ProgressEvent,
 } from "@speclife/core";
 import { z } from "zod";
 
@@ -35,6 +39,15 @@ const MergeArgsSchema = z.object({
   skipRelease: z.boolean().optional().describe(
     "Skip auto-release even if enabled in config (default: false)"
   ),
+  waitForChecks: z.boolean().optional().describe(
+    "Wait for pending CI checks to pass before merging (default: false)"
+  ),
+  checksTimeoutMinutes: z.number().positive().optional().describe(
+    "How long to wait for checks, in minutes (default: 30)"
+  ),
+  mergeQueue: z.boolean().optional().describe(
+    "Add the PR to the merge queue instead of merging directly (default: false)"
+  ),
 });
 
 export function registerMergeTool(server: McpServer): void {
@@ -42,7 +55,7 @@ export function registerMergeTool(server: McpServer): void {
     "speclife_merge",
     "[DEPRECATED: Use /speclife land slash command instead] Merge a submitted PR, sync main branch, and cleanup local branch/worktree. Auto-creates release PR for patch/minor bumps (configurable).",
     MergeArgsSchema.shape,
-    async (args) => {
+    async (args, extra) => {
       try {
         const parsed = MergeArgsSchema.parse(args);
         const cwd = process.cwd();
@@ -50,35 +63,75 @@ export function registerMergeTool(server: McpServer): void {
         // Load config and create adapters
         const config = await loadConfig(cwd);
         const git = createGitAdapter(cwd);
-        const github = createGitHubAdapter(config.github.owner, config.github.repo);
+        const github = await resolveForgeAdapter(config, git);
+        const openspec = createOpenSpecAdapter({
+          projectRoot: cwd,
+          specDir: config.specDir,
+          branchNaming: await resolveBranchNaming(config, git),
+        });
         
         // Run merge workflow
+        let progress = 0;
         const result = await mergeWorkflow(
           {
             changeId: parsed.changeId,
             method: parsed.method,
             deleteBranch: parsed.deleteBranch,
             removeWorktree: parsed.removeWorktree,
+            waitForChecks: parsed.waitForChecks,
+            checksTimeout: parsed.checksTimeoutMinutes !== undefined
+              ? parsed.checksTimeoutMinutes * 60 * 1000
+              : undefined,
+            mergeQueue: parsed.mergeQueue,
           },
-          { git, github, config }
+          { git, github, openspec, config },
+          (event: ProgressEvent) => {
+            // Report each step (such as waiting for checks) to clients that asked for progress
+            const progressToken = extra._meta?.progressToken;
+            if (progressToken !== undefined) {
+              progress++;
+              extra.sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress, message: event.message },
+              }).catch(() => {
+                // Progress is best effort; the merge carries on without it
+              });
+            }
+          }
         );
         
+        if (result.queued) {
+          return {
+            content: [{
+              type: "text",
+              text: `✓ Added PR #${result.pullRequest.number} to the merge queue: ${result.pullRequest.url}\n\n` +
+                `The queue merges it once checks pass; local branch and worktree were left in place.`,
+            }],
+          };
+        }
+        
         const lines = [
           `✓ Merged PR #${result.pullRequest.number}: ${result.pullRequest.url}`,
         ];
         
         if (result.mainSynced) {
-          lines.push(`✓ Synced ${config.github.baseBranch} with latest changes`);
+          lines.push(`✓ Synced ${resolveBaseBranch(config)} with latest changes`);
         }
         
         if (result.branchDeleted) {
-          lines.push(`✓ Deleted local branch spec/${parsed.changeId}`);
+          lines.push(`✓ Deleted local branch ${result.branch}`);
         }
         
         if (result.worktreeRemoved) {
           lines.push(`✓ Removed worktree at ${result.worktreePath}`);
         }
         
+        for (const change of result.restacked) {
+          lines.push(change.rebased
+            ? `✓ Restacked ${change.branch} onto ${change.onto}${change.retargetedPr ? ` (retargeted PR #${change.retargetedPr})` : ''}`
+            : `⚠️ Could not rebase ${change.branch} onto ${change.onto}; resolve conflicts and restack manually`);
+        }
+        
         lines.push('');
         lines.push('Change complete! You are now on the main branch with the merged changes.');
         
@@ -9,9 +9,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
   loadConfig, 
   createGitAdapter, 
-  createGitHubAdapter,
+  resolveForgeAdapter,
   releaseWorkflow,
   bumpVersion,
+  formatReleasePlan,
+  getPrerelease,
 } from "@speclife/core";
 import { z } from "zod";
 
@@ -37,12 +39,18 @@ const ReleaseArgsSchema = z.object({
   autoMerge: z.boolean().optional().describe(
     "Enable auto-merge on the release PR (default: true for patch/minor, false for major). Requires repo settings to allow auto-merge."
   ),
+  prerelease: z.enum(['alpha', 'beta', 'rc']).optional().describe(
+    "Release on a prerelease channel (e.g., 2.0.0-rc.1). Releasing again on the same channel increments the number (rc.1 → rc.2)."
+  ),
+  promote: z.boolean().optional().describe(
+    "Promote the latest prerelease to stable (e.g., 2.0.0-rc.2 → 2.0.0)"
+  ),
 });
 
 export function registerReleaseTool(server: McpServer): void {
   server.tool(
     "speclife_release",
-    "[DEPRECATED: Use /speclife release slash command instead] Create a release PR with version bump and changelog. Analyzes commits since last release to suggest appropriate version. Use --major for intentional breaking releases, --minor/--patch to override suggestions.",
+    "[DEPRECATED: Use /speclife release slash command instead] Create a release PR with version bump and changelog. Analyzes commits since last release to suggest appropriate version. Use --major for intentional breaking releases, --minor/--patch to override suggestions, --prerelease alpha|beta|rc for prerelease channels and --promote to turn the latest prerelease into a stable release.",
     ReleaseArgsSchema.shape,
     async (args) => {
       try {
@@ -52,7 +60,7 @@ export function registerReleaseTool(server: McpServer): void {
         // Load config and create adapters
         const config = await loadConfig(cwd);
         const git = createGitAdapter(cwd);
-        const github = createGitHubAdapter(config.github.owner, config.github.repo);
+        const github = await resolveForgeAdapter(config, git);
         
         // Determine version from flags
         let version = parsed.version;
@@ -69,10 +77,10 @@ export function registerReleaseTool(server: McpServer): void {
           }
           
           // If forced bump, calculate version now
-          if (forcedBumpType) {
+          if (forcedBumpType && !parsed.promote) {
             const latestTag = await git.getLatestTag();
             const previousVersion = latestTag ? latestTag.replace(/^v/, '') : '0.0.0';
-            version = bumpVersion(previousVersion, forcedBumpType);
+            version = bumpVersion(previousVersion, forcedBumpType, parsed.prerelease);
           }
         }
         
@@ -87,8 +95,10 @@ export function registerReleaseTool(server: McpServer): void {
             dryRun: parsed.dryRun,
             skipChangelog: parsed.skipChangelog,
             autoMerge: shouldAutoMerge,
+            prerelease: parsed.prerelease,
+            promote: parsed.promote,
           },
-          { git, github, repoPath: cwd }
+          { git, github, repoPath: cwd, config }
         );
         
         const lines: string[] = [];
@@ -101,15 +111,41 @@ export function registerReleaseTool(server: McpServer): void {
         lines.push(`## Version: ${result.previousVersion} → ${result.version}`);
         
         // Show if bump was forced or auto-detected
-        if (forcedBumpType) {
+        if (parsed.promote) {
+          lines.push(`Promoted prerelease to stable`);
+        } else if (forcedBumpType) {
           lines.push(`Bump type: **${forcedBumpType}** (forced via --${forcedBumpType})`);
         } else if (parsed.version) {
           lines.push(`Bump type: **${result.bumpType}** (explicit version provided)`);
         } else {
           lines.push(`Bump type: **${result.bumpType}** (auto-detected from commits)`);
         }
+        const prerelease = getPrerelease(result.version);
+        if (prerelease) {
+          lines.push(`Prerelease: **${prerelease.channel}** channel`);
+        }
         lines.push('');
         
+        // Per-package plan
+        if (result.packages.length > 0) {
+          lines.push(`### Packages (${result.versioning})`);
+          lines.push(formatReleasePlan(result.packages));
+          lines.push('');
+        } else if (result.versioning === 'independent') {
+          lines.push('No workspace packages changed since their last release.');
+          lines.push('');
+        }
+        
+        // Archived OpenSpec changes in this release
+        if (result.changes.length > 0) {
+          lines.push(`### Spec Changes (${result.changes.length})`);
+          for (const change of result.changes) {
+            const specs = change.proposal.impact.affectedSpecs;
+            lines.push(`- **${change.id}**${specs.length > 0 ? ` (${specs.join(', ')})` : ''}`);
+          }
+          lines.push('');
+        }
+        
         // Commits summary
         lines.push(`### Commits (${result.commits.length})`);
         const breaking = result.commits.filter(c => c.isBreaking);
@@ -141,7 +177,7 @@ export function registerReleaseTool(server: McpServer): void {
         if (!parsed.dryRun) {
           lines.push('---');
           lines.push(`✓ Created release branch: ${result.branch}`);
-          lines.push(`✓ Updated package versions to ${result.version}`);
+          lines.push(`✓ Updated package versions (${result.versioning})`);
           if (result.changelog) {
             lines.push('✓ Generated changelog');
           }
@@ -7,9 +7,14 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
   loadConfig, 
+  resolveBaseBranch,
   createGitAdapter, 
+  resolveForgeAdapter,
   createOpenSpecAdapter, 
-  statusWorkflow 
+  statusWorkflow,
+  formatTraceMismatches,
+  resolveBranchNaming,
+  type ForgeAdapter,
 } from "@speclife/core";
 import { z } from "zod";
 
@@ -32,15 +37,25 @@ export function registerStatusTool(server: McpServer): void {
         // Load config and create adapters
         const config = await loadConfig(cwd);
         const git = createGitAdapter(cwd);
+        const branchNaming = await resolveBranchNaming(config, git);
         const openspec = createOpenSpecAdapter({ 
           projectRoot: cwd, 
-          specDir: config.specDir 
+          specDir: config.specDir,
+          branchNaming,
         });
         
+        // Create forge adapter to detect submitted/merged PRs
+        let github: ForgeAdapter | null = null;
+        try {
+          github = await resolveForgeAdapter(config, git);
+        } catch {
+          // Forge not configured, state is derived from local signals
+        }
+        
         // Run workflow
         const result = await statusWorkflow(
-          { changeId: parsed.changeId },
-          { git, openspec }
+          { changeId: parsed.changeId, baseBranch: resolveBaseBranch(config) },
+          { git, openspec, github: github ?? undefined, branchNaming }
         );
         
         if (!result) {
@@ -54,13 +69,13 @@ export function registerStatusTool(server: McpServer): void {
           };
         }
         
-        const { change, currentBranch, onBranch, taskSummary } = result;
+        const { change, currentBranch, onBranch, taskSummary, taskTrace } = result;
         
         const lines = [
           `# Change: ${change.id}`,
           "",
           `**State:** ${change.state}`,
-          `**Branch:** ${change.branch}${onBranch ? " (current)" : ` (you're on ${currentBranch})`}`,
+          `**Branch:** ${change.branch ?? "unknown (set git.user or git user.name)"}${onBranch ? " (current)" : ` (you're on ${currentBranch})`}`,
           `**Tasks:** ${taskSummary.completed}/${taskSummary.total} (${taskSummary.percentage}%)`,
           "",
           "## Proposal Summary",
@@ -74,6 +89,17 @@ export function registerStatusTool(server: McpServer): void {
           lines.push(`${checkbox} ${task.id} ${task.content}`);
         }
         
+        const mismatches = taskTrace
+          ? [
+            ...taskTrace.completed.map(id => `Task ${id} is referenced by a commit trailer; submit checks it off`),
+            ...formatTraceMismatches(taskTrace),
+          ]
+          : [];
+        if (mismatches.length > 0) {
+          lines.push("", "## Task Traceability");
+          lines.push(...mismatches.map(m => `⚠️ ${m}`));
+        }
+        
         return {
           content: [{ type: "text", text: lines.join("\n") }],
         };
@@ -8,9 +8,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
   loadConfig, 
   createGitAdapter, 
-  createGitHubAdapter,
+  resolveForgeAdapter,
   createOpenSpecAdapter, 
-  submitWorkflow 
+  submitWorkflow,
+  formatValidationIssue,
+  formatTraceMismatches,
 } from "@speclife/core";
 import { z } from "zod";
 
@@ -45,7 +47,7 @@ export function registerSubmitTool(server: McpServer): void {
         // Load config and create adapters
         const config = await loadConfig(cwd);
         const git = createGitAdapter(cwd);
-        const github = createGitHubAdapter(config.github.owner, config.github.repo);
+        const github = await resolveForgeAdapter(config, git);
         const openspec = createOpenSpecAdapter({ 
           projectRoot: cwd, 
           specDir: config.specDir 
@@ -73,19 +75,26 @@ export function registerSubmitTool(server: McpServer): void {
           
           if (result.validation.errors.length > 0) {
             for (const error of result.validation.errors) {
-              lines.push(`  ❌ ${error}`);
+              lines.push(`  ❌ ${formatValidationIssue(error)}`);
             }
           }
           
           if (result.validation.warnings.length > 0) {
             for (const warning of result.validation.warnings) {
-              lines.push(`  ⚠️ ${warning}`);
+              lines.push(`  ⚠️ ${formatValidationIssue(warning)}`);
             }
           }
           
           lines.push('');
         }
         
+        if (result.taskTrace.completed.length > 0) {
+          lines.push(`✓ Checked off tasks from commit trailers: ${result.taskTrace.completed.join(', ')}`);
+        }
+        for (const mismatch of formatTraceMismatches(result.taskTrace)) {
+          lines.push(`⚠️ ${mismatch}`);
+        }
+        
         lines.push(
           `✓ Committed: ${result.commitSha.slice(0, 7)}`,
           `✓ Pushed to: origin/${result.branch}`,
@@ -101,6 +110,9 @@ export function registerSubmitTool(server: McpServer): void {
         
         if (result.archived) {
           lines.push(`✓ Archived change to openspec/changes/archive/`);
+          for (const update of result.specUpdates) {
+            lines.push(`✓ ${update.created ? 'Created' : 'Updated'} ${update.path}: ${update.applied.map(op => `${op.operation} ${op.requirement}`).join(', ')}`);
+          }
         }
         
         if (result.pullRequest.draft) {
@@ -0,0 +1,95 @@
+/**
+ * speclife_sync tool
+ * 
+ * Rebase or merge the latest base branch into change branches.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { 
+  loadConfig, 
+  createGitAdapter, 
+  createOpenSpecAdapter,
+  resolveBranchNaming,
+  syncWorkflow,
+} from "@speclife/core";
+import { z } from "zod";
+
+const SyncArgsSchema = z.object({
+  method: z.enum(['rebase', 'merge']).optional().describe(
+    "How to integrate the base branch: 'rebase' (default) or 'merge'"
+  ),
+  abort: z.boolean().optional().describe(
+    "Abort a sync stopped at conflicts"
+  ),
+  continue: z.boolean().optional().describe(
+    "Continue a sync once conflicts are resolved and staged"
+  ),
+  all: z.boolean().optional().describe(
+    "Sync every change worktree instead of the current branch (default: false)"
+  ),
+  push: z.boolean().optional().describe(
+    "Push synced branches that exist on the remote (default: true)"
+  ),
+});
+
+export function registerSyncTool(server: McpServer): void {
+  server.tool(
+    "speclife_sync",
+    "Update the current change branch (or every change worktree) with the latest base branch. Reports conflicted files; resolve them and call again with continue, or abort.",
+    SyncArgsSchema.shape,
+    async (args) => {
+      try {
+        const parsed = SyncArgsSchema.parse(args);
+        const cwd = process.cwd();
+        
+        // Load config and create adapters
+        const config = await loadConfig(cwd);
+        const git = createGitAdapter(cwd);
+        const branchNaming = await resolveBranchNaming(config, git);
+        const openspec = createOpenSpecAdapter({ 
+          projectRoot: cwd, 
+          specDir: config.specDir,
+          branchNaming,
+        });
+        
+        const result = await syncWorkflow(parsed, { git, config, openspec });
+        
+        const lines: string[] = [];
+        for (const branch of result.branches) {
+          const where = branch.worktreePath ? ` (${branch.worktreePath})` : '';
+          switch (branch.status) {
+            case 'synced':
+              lines.push(`✓ Synced ${branch.branch} with ${branch.upstream}${where}${branch.pushed ? ' and pushed' : ''}`);
+              break;
+            case 'up-to-date':
+              lines.push(`✓ ${branch.branch} is up to date with ${branch.upstream}${where}`);
+              break;
+            case 'aborted':
+              lines.push(`Aborted ${result.method} of ${branch.branch}${where}`);
+              break;
+            case 'skipped':
+              lines.push(`⚠️ Skipped ${branch.branch}${where}: ${branch.reason}`);
+              break;
+            case 'conflicts':
+              lines.push(`✗ Conflicts syncing ${branch.branch} with ${branch.upstream}${where}:`);
+              lines.push(...branch.conflicts.map(file => `  - ${file}`));
+              lines.push('');
+              lines.push('Resolve the conflict markers, `git add` the files, then call speclife_sync with continue (or abort).');
+              break;
+          }
+        }
+        
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          isError: result.branches.some(b => b.status === 'conflicts'),
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
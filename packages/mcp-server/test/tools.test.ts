@@ -41,6 +41,17 @@ const MergeArgsSchema = z.object({
   deleteBranch: z.boolean().optional(),
   removeWorktree: z.boolean().optional(),
   skipRelease: z.boolean().optional(),
+  waitForChecks: z.boolean().optional(),
+  checksTimeoutMinutes: z.number().positive().optional(),
+  mergeQueue: z.boolean().optional(),
+});
+
+const SyncArgsSchema = z.object({
+  method: z.enum(['rebase', 'merge']).optional(),
+  abort: z.boolean().optional(),
+  continue: z.boolean().optional(),
+  all: z.boolean().optional(),
+  push: z.boolean().optional(),
 });
 
 const ImplementArgsSchema = z.object({
@@ -171,6 +182,12 @@ describe('Tool Schemas', () => {
       expect(MergeArgsSchema.parse({ changeId: 'test', method: 'rebase' })).toBeDefined();
     });
 
+    it('accepts check waiting and merge queue options', () => {
+      expect(MergeArgsSchema.parse({ changeId: 'test', waitForChecks: true, checksTimeoutMinutes: 10 })).toBeDefined();
+      expect(MergeArgsSchema.parse({ changeId: 'test', mergeQueue: true })).toBeDefined();
+      expect(() => MergeArgsSchema.parse({ changeId: 'test', checksTimeoutMinutes: 0 })).toThrow();
+    });
+
     it('rejects invalid merge methods', () => {
       expect(() => MergeArgsSchema.parse({ changeId: 'test', method: 'invalid' })).toThrow();
     });
@@ -194,6 +211,22 @@ describe('Tool Schemas', () => {
     });
   });
 
+  describe('speclife_sync', () => {
+    it('accepts empty args', () => {
+      expect(SyncArgsSchema.parse({})).toEqual({});
+    });
+
+    it('accepts rebase and merge only', () => {
+      expect(SyncArgsSchema.parse({ method: 'merge' }).method).toBe('merge');
+      expect(() => SyncArgsSchema.parse({ method: 'squash' })).toThrow();
+    });
+
+    it('accepts conflict handling and worktree options', () => {
+      const result = SyncArgsSchema.parse({ continue: true, all: true, push: false });
+      expect(result).toEqual({ continue: true, all: true, push: false });
+    });
+  });
+
   describe('speclife_implement', () => {
     it('requires changeId', () => {
       expect(() => ImplementArgsSchema.parse({})).toThrow();
@@ -266,6 +299,7 @@ describe('Tool Names', () => {
     'speclife_list',
     'speclife_submit',
     'speclife_merge',
+    'speclife_sync',
     'speclife_implement',
     'speclife_release',
   ];